@@ -15,6 +15,7 @@ function createDoctorTools(): DoctorTools {
     taskService: {
       list: () => [],
       getRawStatus: () => null,
+      recoverTransitions: () => null,
     } as unknown as TaskService,
     worktreeService: {
       listAll: () => Promise.reject(new Error('worktree index unavailable')),
@@ -51,6 +52,7 @@ describe('DoctorTools audit', () => {
       taskService: {
         list: () => [],
         getRawStatus: () => null,
+        recoverTransitions: () => null,
       } as unknown as TaskService,
       worktreeService: {
         listAll: () => Promise.resolve([]),
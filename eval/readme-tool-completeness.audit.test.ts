@@ -4,8 +4,8 @@ import { readFileSync } from 'fs';
 describe('README.md tool count and completeness audit', () => {
   const readmeSrc = readFileSync('packages/opencode-warcraft/README.md', 'utf-8');
 
-  it('should list 19 total tools', () => {
-    expect(readmeSrc).toMatch(/## Tools \(19 total\)/);
+  it('should list 31 total tools', () => {
+    expect(readmeSrc).toMatch(/## Tools \(31 total\)/);
   });
 
   it('should include warcraft_doctor', () => {
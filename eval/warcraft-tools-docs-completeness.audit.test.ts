@@ -4,9 +4,9 @@ import { readFileSync } from 'fs';
 describe('WARCRAFT-TOOLS.md tool count and completeness audit', () => {
   const docsSrc = readFileSync('packages/opencode-warcraft/docs/WARCRAFT-TOOLS.md', 'utf-8');
 
-  it('should list the correct total number of tools (19)', () => {
-    // Runtime registers 19 tools. The docs must match.
-    expect(docsSrc).toMatch(/## Tools \(19 total\)/);
+  it('should list the correct total number of tools (31)', () => {
+    // Runtime registers 31 tools. The docs must match.
+    expect(docsSrc).toMatch(/## Tools \(31 total\)/);
   });
 
   it('should include warcraft_doctor in the docs', () => {
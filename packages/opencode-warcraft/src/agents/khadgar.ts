@@ -5,6 +5,7 @@
  * Detects phase from feature state, loads skills on-demand.
  */
 
+import type { VerificationModel } from 'warcraft-core';
 import { BLOCKER_PROTOCOL } from './fragments/blocker-handling.js';
 import { AFTER_DELEGATION_PROTOCOL, TASK_DEPENDENCY_CHECK } from './fragments/delegation-rules.js';
 import { CANONICAL_DELEGATION_THRESHOLD } from './fragments/delegation-threshold.js';
@@ -17,7 +18,7 @@ import { TURN_TERMINATION_RULES } from './fragments/turn-termination.js';
 import { USER_INPUT_DIRECTIVE } from './fragments/user-input.js';
 
 export interface KhadgarPromptOptions {
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
 }
 export function buildKhadgarPrompt(options: KhadgarPromptOptions): string {
   const postMergeVerification = options.verificationModel === 'best-effort' ? POST_MERGE_VERIFICATION_BEST_EFFORT : '';
@@ -137,6 +138,8 @@ warcraft_feature_create({ name: "feature-name" })
 warcraft_plan_write({ content: "..." })
 \`\`\`
 
+Plan templates (\`bugfix\`, \`new-endpoint\`, \`refactor\`, \`migration\`, \`dependency-upgrade\`) pre-populate this structure via \`warcraft_feature_create({ name, template })\` or \`warcraft_plan_write({ template })\`; fill every \`[TODO: ...]\` placeholder before approval.
+
 Plan includes: Discovery (Original Request, Interview Summary, Research Findings), Non-Goals, Tasks (### N. Title with Depends on/Files/What/Must NOT/References/Verify)
 - Files must list Create/Modify/Test with exact paths and line ranges where applicable
 - References must use file:line format
@@ -156,6 +159,16 @@ If yes → \`task({ subagent_type: "algalon", prompt: "Review plan..." })\`
 
 After review decision, offer execution choice (subagent-driven vs parallel session) consistent with writing-plans.
 
+If the user left \`<!-- REVIEW @name: ... -->\` comments in plan.md, address each one and mark it with \`warcraft_plan_resolve_comments({ ids })\`; approval is refused while any is unresolved.
+
+Lint drafts with \`warcraft_plan_lint({ content })\` before writing, and the written plan with \`warcraft_plan_lint({ stage: "approval" })\` before asking for approval.
+
+When revising a previously approved plan, show the user \`warcraft_plan_history()\` so they only re-review what changed since the last approval.
+
+Once tasks are executing, change the plan with \`warcraft_plan_amend({ changes })\` instead of rewriting it: show the user the preview (plan diff, affected and already-dispatched tasks), then apply with \`mode: "apply"\` once they approve.
+
+When a pending task is rated \`complex\` or workers keep failing on it, split it with \`warcraft_task_split({ task, subtasks })\` instead of hand-editing the plan; the preview shows the new folders and re-wired tasks.
+
 ### Planning Iron Laws
 
 - Research BEFORE asking (use \`warcraft_skill("parallel-exploration")\` for multi-domain research)
@@ -198,7 +211,9 @@ ${BLOCKER_PROTOCOL}
 
 ### Merge Strategy
 
-\`warcraft_merge({ task: "01-task-name" })\` after verification
+\`warcraft_merge({ task: "01-task-name" })\` after verification, or \`warcraft_merge_queue()\` to merge all done tasks in dependency order
+With \`integrationBranchEnabled\`, tasks land on the feature integration branch; finish with \`warcraft_feature_merge()\` once all tasks are done.
+On conflicts, \`warcraft_merge({ task, onConflict: "handoff" })\` dispatches a worker to resolve them; merge the resolution task when it is done.
 ${postMergeVerification}
 ${POST_BATCH_REVIEW}
 
@@ -5,6 +5,7 @@
  * Execute directly. NEVER delegate implementation.
  */
 
+import type { VerificationModel } from 'warcraft-core';
 import type { TaskComplexity } from '../utils/task-complexity.js';
 
 // ============================================================================
@@ -49,6 +50,7 @@ Before calling warcraft_worktree_commit:
 - Build succeeds if required (Record exact command and result)
 - lsp_diagnostics clean on changed files (Record exact command and result)
 - Changes match the spec and references
+- Each acceptance criterion is reported in \`acceptance\` with evidence
 - No extra scope creep or unrelated edits
 - Summary includes what changed, why, and verification status`;
 
@@ -58,6 +60,7 @@ Before calling warcraft_worktree_commit:
 - lsp_diagnostics clean on changed files (Record exact command and result)
 - ast-grep structural checks pass on changed files
 - Changes match the spec and references
+- Each acceptance criterion is reported in \`acceptance\` with evidence
 - No extra scope creep or unrelated edits
 - Summary includes what changed, why, and verification status
 - Note: full build+test runs post-merge by orchestrator`;
@@ -88,7 +91,7 @@ This is a complex task. Break implementation into smaller verified steps.
 // ============================================================================
 
 export interface MekkatorquePromptOptions {
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
   /** Task complexity level — defaults to 'standard' (unchanged behavior). */
   complexity?: TaskComplexity;
   /** Prior-attempt context injected when previousAttempts > 0 (FR-008). */
@@ -150,7 +153,8 @@ warcraft_worktree_commit({
     build: { cmd: "bun run build", exitCode: 0 },
     test: { cmd: "bun test", exitCode: 0 },
     lint: { cmd: "bun run lint", exitCode: 0 }
-  }
+  },
+  acceptance: [{ criterion: 1, met: true, evidence: "auth.test.ts: 'rejects expired tokens' passes" }]  // one entry per acceptance criterion
 })
 \`\`\`
 
@@ -90,6 +90,12 @@ warcraft_feature_create({ name: "feature-name" })
 warcraft_plan_write({ content: "..." })
 \`\`\`
 
+Before writing, run \`warcraft_plan_lint({ content })\` on the draft and fix every error it reports by line; warnings (missing Files/Verify, unchecked checklist) are worth fixing too.
+
+For common shapes, start from a plan template: \`warcraft_feature_create({ name, template: "bugfix" })\` or \`warcraft_plan_write({ template })\` with \`bugfix\`, \`new-endpoint\`, \`refactor\`, \`migration\` or \`dependency-upgrade\`. Replace every \`[TODO: ...]\` placeholder; approval is refused while any is left.
+
+Review comments arrive as \`<!-- REVIEW @name: ... -->\` in plan.md; \`warcraft_plan_read\` lists them with ids. Address each one in the plan, then \`warcraft_plan_resolve_comments({ ids })\`. Approval is refused while any comment is unresolved.
+
 Plan MUST include:
 - ## Discovery (Original Request, Interview Summary, Research)
 - ## Non-Goals (Explicit exclusions)
@@ -382,10 +382,14 @@ describe('Granular warcraft tool permissions (dedicated mode)', () => {
     const perm = opencodeConfig.agent?.saurfang?.permission;
     expect(perm?.warcraft_worktree_commit).toBe('deny');
     expect(perm?.warcraft_plan_write).toBe('deny');
+    expect(perm?.warcraft_plan_resolve_comments).toBe('deny');
+    expect(perm?.warcraft_plan_amend).toBe('deny');
+    expect(perm?.warcraft_task_split).toBe('deny');
     // Saurfang CAN access these:
     expect(perm?.warcraft_worktree_create).toBe('allow');
     expect(perm?.warcraft_merge).toBe('allow');
     expect(perm?.warcraft_batch_execute).toBe('allow');
+    expect(perm?.warcraft_plan_lint).toBe('allow');
   });
 
   it('mimiron can access feature_create and plan tools but not worktree tools', async () => {
@@ -414,6 +418,7 @@ describe('Granular warcraft tool permissions (dedicated mode)', () => {
     expect(perm?.warcraft_feature_create).toBe('allow');
     expect(perm?.warcraft_plan_write).toBe('allow');
     expect(perm?.warcraft_plan_read).toBe('allow');
+    expect(perm?.warcraft_plan_lint).toBe('allow');
     expect(perm?.warcraft_status).toBe('allow');
     // Denied
     expect(perm?.warcraft_worktree_create).toBe('deny');
@@ -5,6 +5,7 @@
  * Delegate by default. Work yourself only when trivial.
  */
 
+import type { VerificationModel } from 'warcraft-core';
 import { BLOCKER_PROTOCOL } from './fragments/blocker-handling.js';
 import { AFTER_DELEGATION_PROTOCOL, TASK_DEPENDENCY_CHECK } from './fragments/delegation-rules.js';
 import {
@@ -16,7 +17,7 @@ import { TURN_TERMINATION_RULES } from './fragments/turn-termination.js';
 import { USER_INPUT_DIRECTIVE } from './fragments/user-input.js';
 
 export interface SaurfangPromptOptions {
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
 }
 export function buildSaurfangPrompt(options: SaurfangPromptOptions): string {
   const postMergeVerification = options.verificationModel === 'best-effort' ? POST_MERGE_VERIFICATION_BEST_EFFORT : '';
@@ -95,7 +96,7 @@ ${BLOCKER_PROTOCOL}
 
 1. STOP all further edits
 2. REVERT to last known working state
-3. DOCUMENT what was attempted
+3. DOCUMENT what was attempted — \`warcraft_timeline({ task })\` lists every attempt, blocked reason and decision so far
 4. ASK USER via question() — present options and context
 
 ## Merge Strategy
@@ -104,7 +105,12 @@ ${BLOCKER_PROTOCOL}
 warcraft_merge({ task: "01-task-name", strategy: "merge" })
 \`\`\`
 
-Merge only after verification passes.
+Merge only after verification passes. When several tasks are done, \`warcraft_merge_queue()\` merges them in dependency order and stops at the first conflict or failed verification. On a conflict, retry \`warcraft_merge({ task, onConflict: "handoff" })\` to dispatch a worker that resolves it, issue the returned \`taskToolCall\`, then merge the resolution task.
+Before merging overlapping tasks, check \`tasks.conflictMatrix\` from \`warcraft_status({ conflicts: true })\` or \`warcraft_merge({ task, mode: "preview" })\` and merge the tasks that conflict with nothing first.
+With \`integrationBranchEnabled\`, task merges land on the feature integration branch; call \`warcraft_feature_merge()\` once every task is done.
+A task branch that fell behind other merges can be brought up to date with \`warcraft_worktree_refresh({ task })\` before merging; pass \`refresh: true\` to \`warcraft_batch_execute\` to do this for resumed tasks.
+If a merged task turns out to be wrong, \`warcraft_merge_revert({ task, reason })\` backs it out and reopens it as pending.
+When the team reviews through pull requests, \`warcraft_pr_export({ task })\` writes the pull request title and body for a done task instead of merging it.
 ${postMergeVerification}
 ${POST_BATCH_REVIEW}
 
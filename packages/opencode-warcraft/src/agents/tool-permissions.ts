@@ -10,19 +10,30 @@ export const WARCRAFT_TOOL_IDS = [
   'warcraft_plan_write',
   'warcraft_plan_read',
   'warcraft_plan_approve',
+  'warcraft_plan_history',
+  'warcraft_plan_resolve_comments',
+  'warcraft_plan_amend',
+  'warcraft_plan_lint',
   'warcraft_tasks_sync',
   'warcraft_task_create',
   'warcraft_task_expand',
   'warcraft_task_update',
+  'warcraft_task_split',
   'warcraft_worktree_create',
   'warcraft_worktree_commit',
   'warcraft_worktree_discard',
   'warcraft_worktree_prune',
+  'warcraft_worktree_refresh',
   'warcraft_merge',
+  'warcraft_merge_queue',
+  'warcraft_feature_merge',
+  'warcraft_merge_revert',
+  'warcraft_pr_export',
   'warcraft_batch_execute',
   'warcraft_context_write',
   'warcraft_status',
   'warcraft_doctor',
+  'warcraft_timeline',
   'warcraft_agents_md',
 ] as const;
 
@@ -34,13 +45,22 @@ const AGENT_ALLOWLISTS: Record<string, readonly WarcraftToolId[]> = {
     'warcraft_feature_create',
     'warcraft_plan_write',
     'warcraft_plan_read',
+    'warcraft_plan_history',
+    'warcraft_plan_resolve_comments',
+    'warcraft_plan_lint',
     'warcraft_task_expand',
     'warcraft_context_write',
     'warcraft_status',
     'warcraft_skill',
   ],
   saurfang: WARCRAFT_TOOL_IDS.filter(
-    (id) => id !== 'warcraft_worktree_commit' && id !== 'warcraft_plan_write' && id !== 'warcraft_task_expand',
+    (id) =>
+      id !== 'warcraft_worktree_commit' &&
+      id !== 'warcraft_plan_write' &&
+      id !== 'warcraft_plan_resolve_comments' &&
+      id !== 'warcraft_plan_amend' &&
+      id !== 'warcraft_task_split' &&
+      id !== 'warcraft_task_expand',
   ),
   mekkatorque: ['warcraft_plan_read', 'warcraft_worktree_commit', 'warcraft_context_write', 'warcraft_skill'],
   brann: ['warcraft_plan_read', 'warcraft_context_write', 'warcraft_status', 'warcraft_skill'],
@@ -7,7 +7,7 @@ import { createWarcraftContainer } from './container.js';
 
 let testRoot = '';
 
-function createConfigServiceStub(): ConfigService {
+function createConfigServiceStub(overrides: Partial<Record<keyof ConfigService, unknown>> = {}): ConfigService {
   return {
     getBeadsMode: () => 'off',
     getDisabledMcps: () => [],
@@ -16,6 +16,10 @@ function createConfigServiceStub(): ConfigService {
     getWorkflowGatesMode: () => 'warn',
     getVerificationModel: () => 'tdd',
     getStructuredVerificationMode: () => 'compat',
+    getVerificationConfig: () => ({}),
+    isIntegrationBranchEnabled: () => false,
+    getForgeConfig: () => null,
+    ...overrides,
   } as unknown as ConfigService;
 }
 
@@ -63,4 +67,16 @@ describe('createWarcraftContainer task lifecycle wiring', () => {
     expect(reopenedFeature?.completedAt).toBeUndefined();
     expect(reopenedFeature?.approvedAt).toBeDefined();
   });
+
+  it('wires the configured forge adapter into warcraft_pr_export', () => {
+    const forgeAdapterOf = (container: ReturnType<typeof createWarcraftContainer>) =>
+      (container.prExportTools as unknown as { deps: { forgeAdapter?: { name: string } } }).deps.forgeAdapter;
+
+    expect(forgeAdapterOf(createWarcraftContainer(testRoot, createConfigServiceStub()))).toBeUndefined();
+    const container = createWarcraftContainer(
+      testRoot,
+      createConfigServiceStub({ getForgeConfig: () => ({ adapter: 'filesystem' }) }),
+    );
+    expect(forgeAdapterOf(container)?.name).toBe('filesystem');
+  });
 });
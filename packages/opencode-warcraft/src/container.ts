@@ -7,6 +7,7 @@ import {
   ContextService,
   computeTrustMetrics,
   createEventLogger,
+  createForgeAdapter,
   createStores,
   createWorktreeService,
   detectContext,
@@ -30,8 +31,10 @@ import {
   DoctorTools,
   FeatureTools,
   PlanTools,
+  PrExportTools,
   SkillTools,
   TaskTools,
+  TimelineTools,
   WorktreeTools,
 } from './tools/index.js';
 import type { BlockedResult } from './types.js';
@@ -73,6 +76,8 @@ export interface WarcraftContainer {
   batchTools: BatchTools;
   contextTools: ContextTools;
   doctorTools: DoctorTools;
+  prExportTools: PrExportTools;
+  timelineTools: TimelineTools;
   skillTools: SkillTools;
   parallelExecution?: { strategy?: 'unbounded' | 'bounded'; maxConcurrency?: number };
 }
@@ -116,23 +121,31 @@ export function createWarcraftContainer(directory: string, configService: Config
   const checkBlocked = createCheckBlocked((feature: string) =>
     getFeaturePath(directory, feature, configService.getBeadsMode()),
   );
-  const checkDependencies = createCheckDependencies(taskService, bvTriageService);
+  const checkDependencies = createCheckDependencies(
+    taskService,
+    bvTriageService,
+    featureService,
+    configService.isIntegrationBranchEnabled(),
+  );
 
   // --- Tool modules ---
 
   const lockDir = path.join(directory, '.beads', '.locks');
 
-  /** Lazy getter for feature reopen rate from trust metrics. Computed at dispatch time, not container creation. */
-  const getFeatureReopenRate = (): number => {
+  /**
+   * Lazy getter for a feature's reopen rate from trust metrics. Computed at dispatch time, not container
+   * creation, and scoped to the feature so an old troubled feature does not mark every new task complex.
+   */
+  const getFeatureReopenRate = (feature: string): number => {
     try {
-      const metrics = computeTrustMetrics(directory);
+      const metrics = computeTrustMetrics(directory, { feature });
       return metrics.reopenRate;
     } catch {
       return 0;
     }
   };
 
-  const featureTools = new FeatureTools({ featureService });
+  const featureTools = new FeatureTools({ featureService, planService, projectRoot: directory, eventLogger });
   const planTools = new PlanTools({
     featureService,
     planService,
@@ -140,6 +153,8 @@ export function createWarcraftContainer(directory: string, configService: Config
     captureSession,
     updateFeatureMetadata,
     workflowGatesMode: configService.getWorkflowGatesMode(),
+    projectRoot: directory,
+    eventLogger,
   });
   const taskTools = new TaskTools({
     featureService,
@@ -148,6 +163,7 @@ export function createWarcraftContainer(directory: string, configService: Config
     workflowGatesMode: configService.getWorkflowGatesMode(),
     validateTaskStatus,
     eventLogger,
+    projectRoot: directory,
   });
   const worktreeTools = new WorktreeTools({
     featureService,
@@ -163,6 +179,8 @@ export function createWarcraftContainer(directory: string, configService: Config
     workflowGatesMode: configService.getWorkflowGatesMode(),
     verificationModel: configService.getVerificationModel(),
     structuredVerificationMode: configService.getStructuredVerificationMode(),
+    verification: configService.getVerificationConfig(),
+    integrationBranchEnabled: configService.isIntegrationBranchEnabled(),
     getFeatureReopenRate,
     eventLogger,
     lockDir,
@@ -178,8 +196,10 @@ export function createWarcraftContainer(directory: string, configService: Config
     checkDependencies,
     parallelExecution,
     verificationModel: configService.getVerificationModel(),
+    verification: configService.getVerificationConfig(),
     getFeatureReopenRate,
     lockDir,
+    eventLogger,
   });
   const contextTools = new ContextTools({
     featureService,
@@ -191,6 +211,7 @@ export function createWarcraftContainer(directory: string, configService: Config
     checkBlocked,
     bvTriageService,
     projectRoot: directory,
+    integrationBranchEnabled: configService.isIntegrationBranchEnabled(),
   });
   const skillTools = new SkillTools({ filteredSkills });
   const doctorTools = new DoctorTools({
@@ -198,7 +219,19 @@ export function createWarcraftContainer(directory: string, configService: Config
     taskService,
     worktreeService,
     checkBlocked,
+    verification: configService.getVerificationConfig(),
+    projectRoot: directory,
+    integrationBranchEnabled: configService.isIntegrationBranchEnabled(),
+  });
+  const prExportTools = new PrExportTools({
+    featureService,
+    taskService,
+    worktreeService,
+    getFeaturePath: (feature: string) => getFeaturePath(directory, feature, configService.getBeadsMode()),
+    forgeAdapter: createForgeAdapter(directory, configService.getForgeConfig()),
+    integrationBranchEnabled: configService.isIntegrationBranchEnabled(),
   });
+  const timelineTools = new TimelineTools({ taskService, projectRoot: directory });
 
   return {
     featureService,
@@ -225,6 +258,8 @@ export function createWarcraftContainer(directory: string, configService: Config
     batchTools,
     contextTools,
     doctorTools,
+    prExportTools,
+    timelineTools,
     skillTools,
     parallelExecution,
   };
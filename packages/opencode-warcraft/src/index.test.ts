@@ -29,7 +29,7 @@ describe('Warcraft Plugin Tool Registration', () => {
     expect(typeof plugin).toBe('function');
   });
 
-  it('should have all 19 warcraft tools registered', () => {
+  it('should have all 31 warcraft tools registered', () => {
     const tools = pluginInstance.tool;
     expect(tools).toBeDefined();
 
@@ -41,19 +41,29 @@ describe('Warcraft Plugin Tool Registration', () => {
     expect(tools.warcraft_plan_write).toBeDefined();
     expect(tools.warcraft_plan_read).toBeDefined();
     expect(tools.warcraft_plan_approve).toBeDefined();
+    expect(tools.warcraft_plan_history).toBeDefined();
+    expect(tools.warcraft_plan_resolve_comments).toBeDefined();
+    expect(tools.warcraft_plan_amend).toBeDefined();
+    expect(tools.warcraft_plan_lint).toBeDefined();
 
     // Task tools
     expect(tools.warcraft_tasks_sync).toBeDefined();
     expect(tools.warcraft_task_create).toBeDefined();
     expect(tools.warcraft_task_expand).toBeDefined();
     expect(tools.warcraft_task_update).toBeDefined();
+    expect(tools.warcraft_task_split).toBeDefined();
 
     // Worktree tools
     expect(tools.warcraft_worktree_create).toBeDefined();
     expect(tools.warcraft_worktree_commit).toBeDefined();
     expect(tools.warcraft_worktree_discard).toBeDefined();
     expect(tools.warcraft_merge).toBeDefined();
+    expect(tools.warcraft_merge_queue).toBeDefined();
+    expect(tools.warcraft_feature_merge).toBeDefined();
+    expect(tools.warcraft_merge_revert).toBeDefined();
+    expect(tools.warcraft_pr_export).toBeDefined();
     expect(tools.warcraft_worktree_prune).toBeDefined();
+    expect(tools.warcraft_worktree_refresh).toBeDefined();
     expect(tools.warcraft_batch_execute).toBeDefined();
 
     // Context tools
@@ -63,6 +73,7 @@ describe('Warcraft Plugin Tool Registration', () => {
 
     // Doctor tools
     expect(tools.warcraft_doctor).toBeDefined();
+    expect(tools.warcraft_timeline).toBeDefined();
 
     // Skill tools
     expect(tools.warcraft_skill).toBeDefined();
@@ -19,29 +19,29 @@ const WARCRAFT_SYSTEM_PROMPT = `
 
 Default workflow is plan-first, but tiny low-risk tasks may use an instant workflow: self-contained manual task → execute immediately without a formal plan.
 
-### Tools (20 total)
+### Tools (31 total)
 
 | Domain | Tools |
 |--------|-------|
 | Feature | warcraft_feature_create, warcraft_feature_complete |
-| Plan | warcraft_plan_write, warcraft_plan_read, warcraft_plan_approve |
-| Task | warcraft_tasks_sync, warcraft_task_create, warcraft_task_expand, warcraft_task_update |
-| Worktree | warcraft_worktree_create, warcraft_worktree_commit, warcraft_worktree_discard, warcraft_worktree_prune |
-| Merge | warcraft_merge |
+| Plan | warcraft_plan_write, warcraft_plan_read, warcraft_plan_approve, warcraft_plan_history, warcraft_plan_resolve_comments, warcraft_plan_amend, warcraft_plan_lint |
+| Task | warcraft_tasks_sync, warcraft_task_create, warcraft_task_expand, warcraft_task_update, warcraft_task_split |
+| Worktree | warcraft_worktree_create, warcraft_worktree_commit, warcraft_worktree_discard, warcraft_worktree_prune, warcraft_worktree_refresh |
+| Merge | warcraft_merge, warcraft_merge_queue, warcraft_feature_merge, warcraft_merge_revert, warcraft_pr_export |
 | Batch | warcraft_batch_execute |
 | Context | warcraft_context_write |
 | AGENTS.md | warcraft_agents_md |
 | Status | warcraft_status |
 | Skill | warcraft_skill |
-| Diagnostics | warcraft_doctor |
+| Diagnostics | warcraft_doctor, warcraft_timeline |
 
 ### Workflow
 
 #### Standard / beads-aligned path
 1. \`warcraft_feature_create(name)\` - Create feature
-2. \`warcraft_plan_write(content)\` - Write plan.md
-3. User adds comments in \`plan.md\` → \`warcraft_plan_read\` to see them
-4. Revise plan → User approves
+2. \`warcraft_plan_write(content)\` - Write plan.md (check drafts first with \`warcraft_plan_lint({ content })\`)
+3. User adds \`<!-- REVIEW @name: ... -->\` comments in \`plan.md\` → \`warcraft_plan_read\` lists them with ids and anchor headings
+4. Revise plan → \`warcraft_plan_resolve_comments(ids)\` → User approves (approval is refused while comments are unresolved)
 5. \`warcraft_tasks_sync()\` - Generate tasks from plan
 6. \`warcraft_worktree_create(task)\` → issue returned \`task()\` call → \`warcraft_worktree_commit(task, summary)\`
 7. \`warcraft_merge(task)\` - Integrate completed task work (when ready)
@@ -57,7 +57,9 @@ Use the instant workflow only when a formal plan would be overhead. The task des
 If instant/manual work grows beyond the tiny-task path, use \`warcraft_task_expand()\` or \`warcraft_plan_write({ useScaffold: true })\` to promote the pending manual tasks into a reviewed plan before dispatching more work.
 
 **Important:** \`warcraft_worktree_commit\` finalizes work but does NOT merge.
-Use \`warcraft_merge\` to explicitly integrate changes.
+Use \`warcraft_merge\` to explicitly integrate changes, or \`warcraft_merge_queue()\` to merge every done task in dependency order.
+To change the plan of an executing feature, use \`warcraft_plan_amend({ changes })\` (preview, then apply once the user approves) instead of rewriting plan.md; done and in-progress tasks keep their state.
+With \`integrationBranchEnabled\`, task merges land on the feature integration branch; once every task is done, \`warcraft_feature_merge()\` lands the whole feature in one merge.
 
 ### Delegated Execution
 
@@ -151,6 +153,20 @@ const plugin: Plugin = async (ctx) => {
   });
 
   const container = createWarcraftContainer(directory, configService);
+  // Replay bead transitions a previous run journaled but died before confirming
+  try {
+    const recovery = container.taskService.recoverTransitions();
+    if (recovery && (recovery.repaired.length > 0 || recovery.failed.length > 0)) {
+      logger.warn('Warcraft replayed unacknowledged task transitions', {
+        repaired: recovery.repaired,
+        failed: recovery.failed,
+      });
+    }
+  } catch (error) {
+    logger.warn('Warcraft transition journal recovery failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
   const hookCadence = createHookCadenceTracker();
   let cachedStatusHint: { hint: string; featureName: string; expiresAt: number } | null = null;
 
@@ -210,20 +226,31 @@ const plugin: Plugin = async (ctx) => {
       warcraft_plan_write: container.planTools.writePlanTool(container.resolveFeature),
       warcraft_plan_read: container.planTools.readPlanTool(container.resolveFeature),
       warcraft_plan_approve: container.planTools.approvePlanTool(container.resolveFeature),
+      warcraft_plan_history: container.planTools.historyPlanTool(container.resolveFeature),
+      warcraft_plan_resolve_comments: container.planTools.resolveCommentsPlanTool(container.resolveFeature),
+      warcraft_plan_amend: container.planTools.amendPlanTool(container.resolveFeature),
+      warcraft_plan_lint: container.planTools.lintPlanTool(container.resolveFeature),
       warcraft_tasks_sync: container.taskTools.syncTasksTool(container.resolveFeature),
       warcraft_task_create: container.taskTools.createTaskTool(container.resolveFeature),
       warcraft_task_expand: container.taskTools.expandTaskTool(container.resolveFeature),
       warcraft_task_update: container.taskTools.updateTaskTool(container.resolveFeature),
+      warcraft_task_split: container.taskTools.splitTaskTool(container.resolveFeature),
       warcraft_worktree_create: container.worktreeTools.createWorktreeTool(container.resolveFeature),
       warcraft_worktree_commit: container.worktreeTools.commitWorktreeTool(container.resolveFeature),
       warcraft_worktree_discard: container.worktreeTools.discardWorktreeTool(container.resolveFeature),
       warcraft_merge: container.worktreeTools.mergeTaskTool(container.resolveFeature),
+      warcraft_merge_queue: container.worktreeTools.mergeQueueTool(container.resolveFeature),
+      warcraft_feature_merge: container.worktreeTools.featureMergeTool(container.resolveFeature),
+      warcraft_merge_revert: container.worktreeTools.mergeRevertTool(container.resolveFeature),
+      warcraft_pr_export: container.prExportTools.prExportTool(container.resolveFeature),
       warcraft_worktree_prune: container.worktreeTools.pruneWorktreeTool(container.resolveFeature),
+      warcraft_worktree_refresh: container.worktreeTools.refreshWorktreeTool(container.resolveFeature),
       warcraft_batch_execute: container.batchTools.batchExecuteTool(container.resolveFeature),
       warcraft_context_write: container.contextTools.writeContextTool(container.resolveFeature),
       warcraft_status: container.contextTools.getStatusTool(container.resolveFeature),
       warcraft_agents_md: container.contextTools.agentsMdTool(),
       warcraft_doctor: container.doctorTools.doctorTool(),
+      warcraft_timeline: container.timelineTools.timelineTool(container.resolveFeature),
     },
 
     command: {
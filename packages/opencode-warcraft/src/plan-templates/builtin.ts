@@ -0,0 +1,436 @@
+/**
+ * Builtin Plan Templates for Warcraft
+ *
+ * Each template lays out Discovery, Non-Goals, Ghost Diffs, task skeletons and an unchecked
+ * Plan Review Checklist. `[TODO: ...]` markers are placeholders; `warcraft_plan_lint` reports
+ * any left unfilled and `warcraft_plan_approve` refuses them.
+ */
+
+import { PLAN_REVIEW_CHECKLIST_ITEMS } from 'warcraft-core';
+import type { PlanTemplateDefinition, PlanTemplateLoadResult } from './types.js';
+
+const REVIEW_CHECKLIST = [
+  '## Plan Review Checklist',
+  '',
+  ...PLAN_REVIEW_CHECKLIST_ITEMS.map((item) => `- [ ] ${item}`),
+].join('\n');
+
+const BUGFIX = `# {{feature}}
+
+Workflow Path: lightweight
+
+## Discovery
+
+### Original Request
+- [TODO: Quote the bug report, including the observed and the expected behavior]
+
+### Research Findings
+- [TODO: Root cause with file:line references]
+- [TODO: How to reproduce the bug before the fix]
+
+Impact: [TODO: Files and behaviors the fix changes]
+Safety: [TODO: Invariants the fix must preserve and who else calls the changed code]
+Verify: [TODO: Exact command that fails before the fix and passes after it]
+Rollback: [TODO: How to undo the fix, usually reverting the commit]
+
+## Non-Goals
+
+- [TODO: Related cleanups or refactors this fix will NOT include]
+
+## Ghost Diffs
+
+- [TODO: Alternative fixes considered and why they were rejected]
+
+## Tasks
+
+### 1. Add a failing regression test
+
+**Depends on**: none
+
+**Files:**
+- Test: \`[TODO: path/to/file.test.ts]\`
+
+**What to do**:
+- Step 1: Write a test that reproduces the bug and fails for the reason found in Discovery.
+
+**Must NOT do**:
+- Do not change production code in this task.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> FAIL with the reported symptom
+
+### 2. Fix the root cause
+
+**Depends on**: 1
+
+**Files:**
+- Modify: \`[TODO: path/to/file.ts]\`
+
+**What to do**:
+- Step 1: [TODO: The smallest change that removes the root cause]
+
+**Must NOT do**:
+- Do not weaken or delete the regression test from task 1.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+
+${REVIEW_CHECKLIST}
+`;
+
+const NEW_ENDPOINT = `# {{feature}}
+
+## Discovery
+
+### Original Request
+- [TODO: Quote the request: method, path, who calls the endpoint and why]
+
+### Interview Summary
+- [TODO: Request and response shape, status codes and error format]
+- [TODO: Authentication, authorization and rate limits]
+
+### Research Findings
+- [TODO: An existing endpoint to copy, with file:line references]
+- [TODO: Router, validation and persistence patterns the endpoint must follow]
+
+## Non-Goals
+
+- [TODO: Related endpoints, clients or UI this feature will NOT add]
+
+## Ghost Diffs
+
+- [TODO: Alternative designs considered (paths, payloads, sync vs async) and why they were rejected]
+
+## Tasks
+
+### 1. Define the request and response contract
+
+**Depends on**: none
+
+**Files:**
+- Modify: \`[TODO: path/to/schemas.ts]\`
+- Test: \`[TODO: path/to/schemas.test.ts]\`
+
+**What to do**:
+- Step 1: Add request validation and the response type.
+- Step 2: Test valid and invalid payloads.
+
+**Must NOT do**:
+- Do not wire the route yet.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+
+### 2. Implement the handler
+
+**Depends on**: 1
+
+**Files:**
+- Create: \`[TODO: path/to/handler.ts]\`
+- Test: \`[TODO: path/to/handler.test.ts]\`
+
+**What to do**:
+- Step 1: Implement the handler using the patterns from Research Findings.
+- Step 2: Cover the success path and each documented error status.
+
+**Must NOT do**:
+- Do not change existing endpoints.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+
+### 3. Register the route and document it
+
+**Depends on**: 2
+
+**Files:**
+- Modify: \`[TODO: path/to/router.ts]\`
+- Modify: \`[TODO: path/to/api-docs.md]\`
+
+**What to do**:
+- Step 1: Register the route with the agreed authentication.
+- Step 2: Document the endpoint next to its neighbours.
+
+**Must NOT do**:
+- Do not expose the route without its authentication check.
+
+**Verify**:
+- [ ] Run: \`[TODO: integration test or curl command]\` -> expected status and body
+
+${REVIEW_CHECKLIST}
+`;
+
+const REFACTOR = `# {{feature}}
+
+## Discovery
+
+### Original Request
+- [TODO: Quote the request and the problem the current structure causes]
+
+### Interview Summary
+- [TODO: Target structure and what must behave exactly as before]
+
+### Research Findings
+- [TODO: Every caller of the code being moved, with file:line references]
+- [TODO: Existing tests that pin current behavior, and the gaps]
+
+## Non-Goals
+
+- No behavior changes; anything observable stays as it is.
+- [TODO: Neighbouring code this refactor will NOT touch]
+
+## Ghost Diffs
+
+- [TODO: Alternative structures considered and why they were rejected]
+
+## Tasks
+
+### 1. Pin current behavior with tests
+
+**Depends on**: none
+
+**Files:**
+- Test: \`[TODO: path/to/file.test.ts]\`
+
+**What to do**:
+- Step 1: Add tests for the behavior gaps listed in Research Findings.
+
+**Must NOT do**:
+- Do not change production code in this task.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+
+### 2. Restructure the code
+
+**Depends on**: 1
+
+**Files:**
+- Modify: \`[TODO: path/to/file.ts]\`
+- Create: \`[TODO: path/to/new-module.ts]\`
+
+**What to do**:
+- Step 1: [TODO: The mechanical moves and renames, in order]
+
+**Must NOT do**:
+- Do not edit the tests from task 1 except for import paths.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+- [ ] Run: \`[TODO: typecheck command]\` -> PASS
+
+### 3. Remove the old code paths
+
+**Depends on**: 2
+
+**Files:**
+- Modify: \`[TODO: path/to/caller.ts]\`
+
+**What to do**:
+- Step 1: Point the remaining callers at the new structure and delete what is now unused.
+
+**Must NOT do**:
+- Do not keep compatibility shims unless Discovery says external callers need them.
+
+**Verify**:
+- [ ] Run: \`[TODO: full test command]\` -> PASS
+
+${REVIEW_CHECKLIST}
+`;
+
+const MIGRATION = `# {{feature}}
+
+## Discovery
+
+### Original Request
+- [TODO: Quote the request: what data or schema moves, and why]
+
+### Interview Summary
+- [TODO: Downtime budget, data volume and the deploy order]
+
+### Research Findings
+- [TODO: Current schema and every reader and writer, with file:line references]
+- [TODO: How earlier migrations in this repo are written and run]
+
+### Rollout and Rollback
+- [TODO: Order of deploy and migration, and how to roll each back]
+
+## Non-Goals
+
+- [TODO: Schema or data changes this migration will NOT make]
+
+## Ghost Diffs
+
+- [TODO: Alternative migration strategies considered (big bang, dual write, backfill) and why they were rejected]
+
+## Tasks
+
+### 1. Write the forward and backward migration
+
+**Depends on**: none
+
+**Files:**
+- Create: \`[TODO: path/to/migration]\`
+- Test: \`[TODO: path/to/migration.test.ts]\`
+
+**What to do**:
+- Step 1: Write the forward migration.
+- Step 2: Write the backward migration and test that up then down restores the original state.
+
+**Must NOT do**:
+- Do not drop or rewrite data that old code still reads.
+
+**Verify**:
+- [ ] Run: \`[TODO: migration test command]\` -> PASS
+
+### 2. Make the code work with both schemas
+
+**Depends on**: 1
+
+**Files:**
+- Modify: \`[TODO: path/to/repository.ts]\`
+- Test: \`[TODO: path/to/repository.test.ts]\`
+
+**What to do**:
+- Step 1: Update readers and writers so they work before and after the migration runs.
+
+**Must NOT do**:
+- Do not remove support for the old schema in this task.
+
+**Verify**:
+- [ ] Run: \`[TODO: test command]\` -> PASS
+
+### 3. Backfill and clean up
+
+**Depends on**: 2
+
+**Files:**
+- Create: \`[TODO: path/to/backfill script]\`
+- Modify: \`[TODO: path/to/repository.ts]\`
+
+**What to do**:
+- Step 1: Backfill existing rows in batches.
+- Step 2: Remove the old-schema code paths once the backfill is verified.
+
+**Must NOT do**:
+- Do not run the backfill without a dry-run mode.
+
+**Verify**:
+- [ ] Run: \`[TODO: backfill dry-run command]\` -> expected row counts
+
+${REVIEW_CHECKLIST}
+`;
+
+const DEPENDENCY_UPGRADE = `# {{feature}}
+
+## Discovery
+
+### Original Request
+- [TODO: Quote the request: package, current version, target version and why]
+
+### Research Findings
+- [TODO: Breaking changes from the changelog that affect this repo]
+- [TODO: Every import or configuration of the package, with file:line references]
+- [TODO: Peer dependencies or lockfile constraints that move with it]
+
+## Non-Goals
+
+- [TODO: Other packages this upgrade will NOT bump]
+- No adoption of new features from the package beyond what the upgrade requires.
+
+## Ghost Diffs
+
+- [TODO: Alternatives considered (pinning, replacing the package, a smaller bump) and why they were rejected]
+
+## Tasks
+
+### 1. Bump the version and fix breaking changes
+
+**Depends on**: none
+
+**Files:**
+- Modify: \`[TODO: package.json and lockfile]\`
+- Modify: \`[TODO: path/to/affected-file.ts]\`
+
+**What to do**:
+- Step 1: Bump the package to the target version.
+- Step 2: Fix each breaking change listed in Research Findings.
+
+**Must NOT do**:
+- Do not upgrade unrelated packages.
+
+**Verify**:
+- [ ] Run: \`[TODO: install command]\` -> no peer dependency warnings
+- [ ] Run: \`[TODO: typecheck command]\` -> PASS
+
+### 2. Run the full suite and update affected tests
+
+**Depends on**: 1
+
+**Files:**
+- Test: \`[TODO: path/to/affected.test.ts]\`
+
+**What to do**:
+- Step 1: Run the full test suite and fix failures caused by the upgrade.
+
+**Must NOT do**:
+- Do not skip or loosen tests to make them pass.
+
+**Verify**:
+- [ ] Run: \`[TODO: full test command]\` -> PASS
+
+${REVIEW_CHECKLIST}
+`;
+
+/**
+ * Plan templates shipped with the plugin.
+ */
+export const BUILTIN_PLAN_TEMPLATES: PlanTemplateDefinition[] = [
+  {
+    name: 'bugfix',
+    description: 'Lightweight fix: a failing regression test, then the root-cause fix.',
+    content: BUGFIX,
+  },
+  {
+    name: 'new-endpoint',
+    description: 'Add an API endpoint: contract, handler, then route registration and docs.',
+    content: NEW_ENDPOINT,
+  },
+  {
+    name: 'refactor',
+    description: 'Behavior-preserving restructure: pin behavior, restructure, remove old paths.',
+    content: REFACTOR,
+  },
+  {
+    name: 'migration',
+    description: 'Schema or data migration with rollback, dual-schema code and a backfill.',
+    content: MIGRATION,
+  },
+  {
+    name: 'dependency-upgrade',
+    description: 'Upgrade a dependency: bump and fix breaking changes, then the full suite.',
+    content: DEPENDENCY_UPGRADE,
+  },
+];
+
+export const BUILTIN_PLAN_TEMPLATE_NAMES = BUILTIN_PLAN_TEMPLATES.map((template) => template.name);
+
+/**
+ * Load a builtin plan template by name.
+ */
+export function loadBuiltinPlanTemplate(name: string): PlanTemplateLoadResult {
+  const template = BUILTIN_PLAN_TEMPLATES.find((t) => t.name === name);
+
+  if (!template) {
+    return {
+      found: false,
+      error: `Unknown builtin plan template: ${name}. Available: ${BUILTIN_PLAN_TEMPLATE_NAMES.join(', ')}`,
+    };
+  }
+
+  return {
+    found: true,
+    template,
+    source: 'builtin',
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * File-based Plan Template Loader
+ *
+ * Loads project plan templates from `<projectRoot>/.opencode/warcraft/templates/<name>.md`.
+ * A project template with the same name as a builtin one replaces it.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { BUILTIN_PLAN_TEMPLATES, loadBuiltinPlanTemplate } from './builtin.js';
+import type { PlanTemplateDefinition, PlanTemplateLoadResult } from './types.js';
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Get the directory holding project plan templates.
+ */
+export function getPlanTemplatesDir(projectRoot: string): string {
+  return path.join(projectRoot, '.opencode', 'warcraft', 'templates');
+}
+
+/**
+ * Validate a template name for safety. Names are file stems, so only lowercase letters,
+ * digits and dashes are allowed.
+ *
+ * @returns Error message if invalid, undefined if valid
+ */
+function validateTemplateName(name: string): string | undefined {
+  if (!name || name.trim() === '') {
+    return 'Plan template name cannot be empty';
+  }
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    return `Invalid plan template name "${name}": use lowercase letters, digits and dashes`;
+  }
+  return undefined;
+}
+
+/**
+ * Split optional YAML frontmatter carrying a `description` from the template body.
+ */
+function parseTemplateFile(name: string, content: string): PlanTemplateDefinition {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) {
+    return { name, description: '', content };
+  }
+  const description = match[1].match(/^description:\s*(.+)$/m)?.[1] ?? '';
+  return { name, description: description.trim().replace(/^(["'])(.*)\1$/, '$2'), content: match[2] };
+}
+
+/**
+ * Try to read a file, returning null if it doesn't exist or can't be read.
+ */
+async function tryReadFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the names of the project plan templates, sorted.
+ */
+async function listProjectTemplateNames(projectRoot: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getPlanTemplatesDir(projectRoot));
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry.endsWith('.md'))
+    .map((entry) => entry.slice(0, -'.md'.length))
+    .filter((name) => validateTemplateName(name) === undefined)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Load a plan template by name: the project template first, then the builtin one.
+ *
+ * @param name - The template name
+ * @param projectRoot - The project root directory
+ * @returns The template load result
+ */
+export async function loadPlanTemplate(name: string, projectRoot: string): Promise<PlanTemplateLoadResult> {
+  const validationError = validateTemplateName(name);
+  if (validationError) {
+    return { found: false, error: validationError };
+  }
+
+  const templatePath = path.join(getPlanTemplatesDir(projectRoot), `${name}.md`);
+  const content = await tryReadFile(templatePath);
+  if (content !== null) {
+    return { found: true, template: parseTemplateFile(name, content), source: templatePath };
+  }
+
+  const builtin = loadBuiltinPlanTemplate(name);
+  if (builtin.found) {
+    return builtin;
+  }
+
+  const available = (await listPlanTemplates(projectRoot)).map((entry) => entry.template.name);
+  return {
+    found: false,
+    error: `Unknown plan template: ${name}. Available: ${available.join(', ')}`,
+  };
+}
+
+/**
+ * List every plan template available to the project, builtin ones first.
+ * Project templates that share a builtin name replace it in place.
+ */
+export async function listPlanTemplates(
+  projectRoot: string,
+): Promise<Array<{ template: PlanTemplateDefinition; source: 'builtin' | string }>> {
+  const projectNames = await listProjectTemplateNames(projectRoot);
+  const projectTemplates = new Map<string, { template: PlanTemplateDefinition; source: string }>();
+  for (const name of projectNames) {
+    const templatePath = path.join(getPlanTemplatesDir(projectRoot), `${name}.md`);
+    const content = await tryReadFile(templatePath);
+    if (content !== null) {
+      projectTemplates.set(name, { template: parseTemplateFile(name, content), source: templatePath });
+    }
+  }
+
+  const builtins = BUILTIN_PLAN_TEMPLATES.map(
+    (template) => projectTemplates.get(template.name) ?? { template, source: 'builtin' as const },
+  );
+  const extras = [...projectTemplates.values()].filter(
+    (entry) => !BUILTIN_PLAN_TEMPLATES.some((template) => template.name === entry.template.name),
+  );
+  return [...builtins, ...extras];
+}
+
+/**
+ * Render a plan template for a feature.
+ */
+export function renderPlanTemplate(template: PlanTemplateDefinition, featureName: string): string {
+  return template.content.replaceAll('{{feature}}', featureName);
+}
@@ -0,0 +1,9 @@
+/**
+ * Warcraft Plan Templates
+ *
+ * Export plan template infrastructure for warcraft_feature_create and warcraft_plan_write.
+ */
+
+export { BUILTIN_PLAN_TEMPLATE_NAMES, BUILTIN_PLAN_TEMPLATES, loadBuiltinPlanTemplate } from './builtin.js';
+export { getPlanTemplatesDir, listPlanTemplates, loadPlanTemplate, renderPlanTemplate } from './file-loader.js';
+export type { PlanTemplateDefinition, PlanTemplateLoadResult } from './types.js';
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { lintPlan, validateDiscoverySection, validatePlanReviewChecklist } from 'warcraft-core';
+import { BUILTIN_PLAN_TEMPLATE_NAMES, BUILTIN_PLAN_TEMPLATES } from './builtin.js';
+import { getPlanTemplatesDir, listPlanTemplates, loadPlanTemplate, renderPlanTemplate } from './file-loader.js';
+
+let tempDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-templates-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function writeProjectTemplate(projectRoot: string, name: string, content: string): string {
+  const dir = getPlanTemplatesDir(projectRoot);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${name}.md`);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+/** Fill every placeholder and check every box, as a planner would. */
+function fill(content: string): string {
+  return content.replace(/\[TODO: ([^\]]*)\]/g, 'filled: $1').replaceAll('- [ ] ', '- [x] ');
+}
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tempDirs = [];
+});
+
+describe('builtin plan templates', () => {
+  it('ships the documented templates', () => {
+    expect(BUILTIN_PLAN_TEMPLATE_NAMES).toEqual([
+      'bugfix',
+      'new-endpoint',
+      'refactor',
+      'migration',
+      'dependency-upgrade',
+    ]);
+  });
+
+  for (const template of BUILTIN_PLAN_TEMPLATES) {
+    describe(template.name, () => {
+      const rendered = renderPlanTemplate(template, 'my-feature');
+
+      it('renders the feature name and passes the discovery gate', () => {
+        expect(rendered).toStartWith('# my-feature\n');
+        expect(rendered).not.toContain('{{feature}}');
+        expect(validateDiscoverySection(rendered)).toBeNull();
+      });
+
+      it('lints with placeholder and checklist warnings only until filled', () => {
+        const draft = lintPlan(rendered);
+        expect(draft.ok).toBe(true);
+        expect(new Set(draft.diagnostics.map((d) => d.code))).toEqual(
+          new Set(['template_placeholder_unfilled', 'checklist_item_unchecked']),
+        );
+        expect(lintPlan(rendered, { stage: 'approval' }).ok).toBe(false);
+      });
+
+      it('passes the checklist gate and approval lint once filled', () => {
+        const filled = fill(rendered);
+        expect(validatePlanReviewChecklist(filled).ok).toBe(true);
+        expect(lintPlan(filled, { stage: 'approval' }).diagnostics).toEqual([]);
+      });
+    });
+  }
+});
+
+describe('loadPlanTemplate', () => {
+  it('loads builtin templates when the project has none', async () => {
+    const result = await loadPlanTemplate('refactor', createTempDir());
+
+    expect(result.found).toBe(true);
+    expect(result.source).toBe('builtin');
+  });
+
+  it('prefers a project template and reads its description from frontmatter', async () => {
+    const projectRoot = createTempDir();
+    const filePath = writeProjectTemplate(
+      projectRoot,
+      'refactor',
+      '---\ndescription: "Team refactor"\n---\n# {{feature}}\n',
+    );
+
+    const result = await loadPlanTemplate('refactor', projectRoot);
+
+    expect(result).toEqual({
+      found: true,
+      template: { name: 'refactor', description: 'Team refactor', content: '# {{feature}}\n' },
+      source: filePath,
+    });
+  });
+
+  it('rejects unsafe names and lists available templates for unknown ones', async () => {
+    const projectRoot = createTempDir();
+    writeProjectTemplate(projectRoot, 'hotfix', '# {{feature}}\n');
+
+    expect((await loadPlanTemplate('../secrets', projectRoot)).error).toContain('Invalid plan template name');
+    expect((await loadPlanTemplate('nope', projectRoot)).error).toBe(
+      'Unknown plan template: nope. Available: bugfix, new-endpoint, refactor, migration, dependency-upgrade, hotfix',
+    );
+  });
+});
+
+describe('listPlanTemplates', () => {
+  it('lists builtin templates with project overrides in place, then project-only templates', async () => {
+    const projectRoot = createTempDir();
+    const override = writeProjectTemplate(projectRoot, 'migration', '# {{feature}}\n');
+    const extra = writeProjectTemplate(projectRoot, 'hotfix', '---\ndescription: Hotfix\n---\n# {{feature}}\n');
+    writeProjectTemplate(projectRoot, 'Not_Valid', '# ignored\n');
+
+    const entries = await listPlanTemplates(projectRoot);
+
+    expect(entries.map((entry) => [entry.template.name, entry.source])).toEqual([
+      ['bugfix', 'builtin'],
+      ['new-endpoint', 'builtin'],
+      ['refactor', 'builtin'],
+      ['migration', override],
+      ['dependency-upgrade', 'builtin'],
+      ['hotfix', extra],
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Warcraft Plan Template Types
+ *
+ * Named plan skeletons used to pre-populate plan.md.
+ */
+
+/**
+ * Definition of a plan template.
+ */
+export interface PlanTemplateDefinition {
+  /** Unique identifier used in `template` tool arguments */
+  name: string;
+
+  /** Brief description shown when listing templates */
+  description: string;
+
+  /** Plan markdown; `{{feature}}` is replaced with the feature name */
+  content: string;
+}
+
+/**
+ * Result returned when loading a plan template.
+ */
+export interface PlanTemplateLoadResult {
+  /** Whether the template was found */
+  found: boolean;
+
+  /** The loaded template if found */
+  template?: PlanTemplateDefinition;
+
+  /** Error message if not found */
+  error?: string;
+
+  /** Source of the template (builtin or file path) */
+  source?: 'builtin' | string;
+}
@@ -1,4 +1,10 @@
-import { type BvTriageService, buildEffectiveDependencies, type TaskService } from 'warcraft-core';
+import {
+  type BvTriageService,
+  buildEffectiveDependencies,
+  collectCrossFeatureDependencies,
+  type FeatureService,
+  type TaskService,
+} from 'warcraft-core';
 
 // ============================================================================
 // Dependency Check Service
@@ -7,13 +13,18 @@ import { type BvTriageService, buildEffectiveDependencies, type TaskService } fr
 
 /**
  * Create a checkDependencies function that verifies all deps for a task are done.
+ * With a featureService, cross-feature dependencies of the feature and the task are checked too.
  *
  * @param taskService - Service for querying task status.
  * @param bvTriageService - Service for triage/health info.
+ * @param featureService - Service for resolving cross-feature dependencies.
+ * @param integrationBranchEnabled - Whether task merges land on feature integration branches.
  */
 export function createCheckDependencies(
   taskService: TaskService,
   bvTriageService: BvTriageService,
+  featureService?: FeatureService,
+  integrationBranchEnabled = false,
 ): (feature: string, taskFolder: string) => { allowed: boolean; error?: string } {
   return (feature: string, taskFolder: string): { allowed: boolean; error?: string } => {
     const taskStatus = taskService.getRawStatus(feature, taskFolder);
@@ -21,6 +32,27 @@ export function createCheckDependencies(
       return { allowed: true };
     }
 
+    if (featureService) {
+      const unmetCrossFeature = collectCrossFeatureDependencies(
+        feature,
+        { featureService, taskService, integrationBranchEnabled },
+        taskFolder,
+      ).filter((dependency) => !dependency.satisfied);
+      if (unmetCrossFeature.length > 0) {
+        return {
+          allowed: false,
+          error:
+            `Cross-feature dependency constraint: Task "${taskFolder}" cannot start - ${unmetCrossFeature
+              .map((dependency) => dependency.reason)
+              .join('; ')}. ` +
+            'Feature dependencies need the feature completed; task dependencies need the task done and merged' +
+            (integrationBranchEnabled
+              ? ', and merged work needs its feature merged with warcraft_feature_merge.'
+              : '.'),
+        };
+      }
+    }
+
     const tasks = taskService.list(feature).map((task) => {
       const status = taskService.getRawStatus(feature, task.folder);
       return {
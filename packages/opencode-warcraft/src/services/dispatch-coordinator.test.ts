@@ -715,6 +715,101 @@ describe('DispatchCoordinator', () => {
     });
   });
 
+  // --------------------------------------------------------------------------
+  // Event logging
+  // --------------------------------------------------------------------------
+
+  describe('event logging', () => {
+    function createEventRecorder() {
+      const events: warcraftCore.WarcraftEvent[] = [];
+      return { events, eventLogger: { emit: (event: warcraftCore.WarcraftEvent) => events.push(event) } };
+    }
+
+    function withStatus(status: warcraftCore.TaskStatusType, attempt = 1): Partial<DispatchCoordinatorDeps> {
+      return {
+        taskService: {
+          ...createMockDeps().taskService,
+          get: () => ({ folder: '01-test-task', name: 'Test Task', status, origin: 'plan' as const }),
+          getRawStatus: () => ({
+            status,
+            origin: 'plan',
+            dependsOn: [],
+            workerSession: { sessionId: 'sess-1', attempt },
+          }),
+        },
+      };
+    }
+
+    it('emits duplicate_dispatch_prevented when the status guard rejects a task', async () => {
+      const { events, eventLogger } = createEventRecorder();
+      const coordinator = new DispatchCoordinator(createMockDeps({ ...withStatus('in_progress'), eventLogger }));
+
+      await coordinator.dispatch(createRequest());
+
+      expect(events).toEqual([
+        {
+          type: 'duplicate_dispatch_prevented',
+          feature: 'test-feature',
+          task: '01-test-task',
+          details: { reason: 'in_progress', message: 'Task "01-test-task" already in progress' },
+        },
+      ]);
+    });
+
+    it('emits duplicate_dispatch_prevented when the dispatch lock is held', async () => {
+      const { events, eventLogger } = createEventRecorder();
+      const deps = createMockDeps({
+        eventLogger,
+        worktreeService: {
+          ...createMockDeps().worktreeService,
+          create: async () => {
+            await new Promise((r) => setTimeout(r, 50));
+            return {
+              mode: 'worktree' as const,
+              path: '/tmp/worktree',
+              branch: 'warcraft/test-feature/01-test-task',
+              commit: 'abc123',
+              feature: 'test-feature',
+              step: '01-test-task',
+            };
+          },
+        },
+      });
+      const coordinator = new DispatchCoordinator(deps);
+
+      await Promise.all([coordinator.dispatch(createRequest()), coordinator.dispatch(createRequest())]);
+
+      expect(events.map((event) => [event.type, event.details?.reason])).toEqual([
+        ['duplicate_dispatch_prevented', 'lock_held'],
+      ]);
+    });
+
+    it('emits retry when a failed task is dispatched again', async () => {
+      const { events, eventLogger } = createEventRecorder();
+      const coordinator = new DispatchCoordinator(createMockDeps({ ...withStatus('failed', 2), eventLogger }));
+
+      const result = await coordinator.dispatch(createRequest());
+
+      expect(result.success).toBe(true);
+      expect(events).toEqual([
+        {
+          type: 'retry',
+          feature: 'test-feature',
+          task: '01-test-task',
+          details: { previousStatus: 'failed', attempt: 3 },
+        },
+      ]);
+    });
+
+    it('emits nothing for a first dispatch', async () => {
+      const { events, eventLogger } = createEventRecorder();
+      const coordinator = new DispatchCoordinator(createMockDeps({ eventLogger }));
+
+      expect((await coordinator.dispatch(createRequest())).success).toBe(true);
+      expect(events).toEqual([]);
+    });
+  });
+
   // --------------------------------------------------------------------------
   // No-lock-dir graceful degradation
   // --------------------------------------------------------------------------
@@ -1,6 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { PlanService, TaskInfo, TaskService, TaskStatusType, WorktreeService } from 'warcraft-core';
+import type {
+  EventLogger,
+  PlanService,
+  TaskInfo,
+  TaskService,
+  TaskStatusType,
+  VerificationConfig,
+  VerificationModel,
+  WorktreeService,
+} from 'warcraft-core';
 import { acquireLock } from 'warcraft-core';
 import { prepareTaskDispatch, type SharedDispatchData, type TaskDispatchPrep } from '../tools/task-dispatch.js';
 import type { BlockedResult } from '../types.js';
@@ -82,11 +91,15 @@ export interface DispatchCoordinatorDeps {
   };
   checkBlocked: (feature: string) => BlockedResult;
   checkDependencies: (feature: string, taskFolder: string) => { allowed: boolean; error?: string };
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
+  /** Configured verification commands, surfaced to workers in the prompt. */
+  verification?: VerificationConfig;
   /** Feature-level reopen rate from trust metrics (0.0–1.0). Defaults to 0. */
   featureReopenRate?: number;
   /** Directory for per-task dispatch locks. If omitted, locks are skipped. */
   lockDir?: string;
+  /** Receives `duplicate_dispatch_prevented` and `retry` events. If omitted, nothing is logged. */
+  eventLogger?: EventLogger;
 }
 
 // ============================================================================
@@ -197,6 +210,15 @@ export class DispatchCoordinator {
       agent,
       error,
     });
+    const preventDuplicate = (reason: 'in_progress' | 'dispatch_prepared' | 'lock_held', error: string) => {
+      this.deps.eventLogger?.emit({
+        type: 'duplicate_dispatch_prevented',
+        feature,
+        task,
+        details: { reason, message: error },
+      });
+      return fail(error);
+    };
 
     // --- Guard 1: Feature blocked ---
     const blockedResult = this.deps.checkBlocked(feature);
@@ -229,10 +251,10 @@ export class DispatchCoordinator {
 
       // Reject in-progress or already-dispatching tasks only for non-blocked resumes
       if (taskInfo.status === 'in_progress') {
-        return fail(`Task "${task}" already in progress`);
+        return preventDuplicate('in_progress', `Task "${task}" already in progress`);
       }
       if (taskInfo.status === 'dispatch_prepared') {
-        return fail(`Task "${task}" already being dispatched`);
+        return preventDuplicate('dispatch_prepared', `Task "${task}" already being dispatched`);
       }
     }
 
@@ -245,7 +267,7 @@ export class DispatchCoordinator {
         return fail(error instanceof Error ? error.message : String(error));
       }
       if (!lockHandle) {
-        return fail(`Task "${task}" is already being dispatched (concurrency lock held)`);
+        return preventDuplicate('lock_held', `Task "${task}" is already being dispatched (concurrency lock held)`);
       }
     }
 
@@ -307,6 +329,7 @@ export class DispatchCoordinator {
             taskService: this.deps.taskService as TaskService,
             contextService: this.deps.contextService,
             verificationModel: this.deps.verificationModel,
+            verification: this.deps.verification,
             featureReopenRate: this.deps.featureReopenRate,
           },
           shared,
@@ -349,6 +372,16 @@ export class DispatchCoordinator {
         this.deps.taskService.transition(feature, task, 'dispatch_prepared', transitionExtras);
       }
 
+      // Re-dispatching a task whose previous attempt failed counts as a retry
+      if (taskInfo.status === 'failed' || taskInfo.status === 'partial') {
+        this.deps.eventLogger?.emit({
+          type: 'retry',
+          feature,
+          task,
+          details: { previousStatus: taskInfo.status, attempt: nextAttempt },
+        });
+      }
+
       return {
         task,
         success: true,
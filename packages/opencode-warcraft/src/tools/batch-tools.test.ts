@@ -428,6 +428,145 @@ describe('BatchTools execute guard parity', () => {
   });
 });
 
+describe('BatchTools refresh before dispatch', () => {
+  const resolveFeature = () => 'test-feature';
+
+  beforeEach(() => {
+    cleanup();
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    releaseAllDispatchLocks();
+  });
+
+  afterEach(() => {
+    releaseAllDispatchLocks();
+    cleanup();
+  });
+
+  function createRefreshBatchTools(refreshResult: unknown, updates: Array<Record<string, unknown>>) {
+    return new BatchTools({
+      featureService: {
+        get: () => ({ name: 'test-feature', status: 'executing' }),
+        getSession: () => 'stored-session',
+      } as never,
+      planService: createMockServices().planService as never,
+      taskService: createBatchToolTaskService({
+        update: (_feature: string, _task: string, patch: Record<string, unknown>) => {
+          updates.push(patch);
+        },
+      }) as never,
+      worktreeService: {
+        ...createMockServices().worktreeService,
+        refresh: async () => refreshResult,
+      } as never,
+      contextService: createMockServices().contextService,
+      checkBlocked: () => ({ blocked: false }),
+      checkDependencies: () => ({ allowed: true }),
+      verificationModel: 'tdd',
+      lockDir: TEST_DIR,
+    });
+  }
+
+  test('refreshes an existing worktree and records its base commit before dispatch', async () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const batchTools = createRefreshBatchTools(
+      {
+        success: true,
+        outcome: 'merged',
+        strategy: 'rebase',
+        sha: 'head456',
+        filesChanged: [],
+        conflicts: [],
+        baseCommit: 'base789',
+      },
+      updates,
+    );
+
+    const result = await batchTools
+      .batchExecuteTool(resolveFeature)
+      .execute({ mode: 'execute', feature: 'test-feature', tasks: ['01-test-task'], refresh: true }, {} as never);
+
+    const data = parseToolResult(result);
+    expect((data.dispatched as Record<string, number>).succeeded).toBe(1);
+    expect(updates[0]).toEqual({ baseCommit: 'base789' });
+  });
+
+  test('does not dispatch a task whose refresh conflicts', async () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const batchTools = createRefreshBatchTools(
+      {
+        success: false,
+        outcome: 'conflicted',
+        strategy: 'rebase',
+        filesChanged: [],
+        conflicts: ['src/shared.ts'],
+        error: 'Refresh conflicts detected',
+      },
+      updates,
+    );
+
+    const result = await batchTools
+      .batchExecuteTool(resolveFeature)
+      .execute({ mode: 'execute', feature: 'test-feature', tasks: ['01-test-task'], refresh: true }, {} as never);
+
+    const data = parseToolResult(result);
+    expect((data.dispatched as Record<string, number>).failed).toBe(1);
+    expect(data.taskToolCalls).toEqual([]);
+    const failed = data.failed as Array<{ task: string; error: string }>;
+    expect(failed[0].task).toBe('01-test-task');
+    expect(failed[0].error).toContain('- src/shared.ts');
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe('BatchTools preview cross-feature dependencies', () => {
+  test('holds back runnable tasks whose cross-feature dependencies are not met', async () => {
+    const batchTools = new BatchTools({
+      featureService: { get: () => ({ name: 'test-feature', status: 'executing' }) } as never,
+      planService: createMockServices().planService as never,
+      taskService: createBatchToolTaskService({
+        computeRunnableStatus: () => ({ runnable: ['01-test-task', '02-test-task'], blocked: {} }),
+      }) as never,
+      worktreeService: createMockServices().worktreeService as never,
+      contextService: createMockServices().contextService,
+      checkBlocked: () => ({ blocked: false }),
+      checkDependencies: (_feature: string, task: string) =>
+        task === '02-test-task'
+          ? { allowed: false, error: 'Cross-feature dependency constraint: task "api/01-api" is in_progress' }
+          : { allowed: true },
+      verificationModel: 'tdd',
+      lockDir: TEST_DIR,
+    });
+
+    const result = await batchTools.batchExecuteTool(() => 'test-feature').execute({ mode: 'preview' }, {} as never);
+    const data = parseToolResult(result);
+
+    expect((data.runnable as Array<{ folder: string }>).map((task) => task.folder)).toEqual(['01-test-task']);
+    expect(data.waitingOnFeatures).toEqual([
+      { folder: '02-test-task', reason: 'Cross-feature dependency constraint: task "api/01-api" is in_progress' },
+    ]);
+  });
+
+  test('points at waitingOnFeatures when every runnable task waits on another feature', async () => {
+    const batchTools = new BatchTools({
+      featureService: { get: () => ({ name: 'test-feature', status: 'executing' }) } as never,
+      planService: createMockServices().planService as never,
+      taskService: createBatchToolTaskService() as never,
+      worktreeService: createMockServices().worktreeService as never,
+      contextService: createMockServices().contextService,
+      checkBlocked: () => ({ blocked: false }),
+      checkDependencies: () => ({ allowed: false, error: 'feature "api" is executing' }),
+      verificationModel: 'tdd',
+      lockDir: TEST_DIR,
+    });
+
+    const result = await batchTools.batchExecuteTool(() => 'test-feature').execute({ mode: 'preview' }, {} as never);
+
+    expect(parseToolResult(result).nextAction).toBe(
+      'Remaining runnable tasks wait on other features. Complete and merge those dependencies first; see waitingOnFeatures.',
+    );
+  });
+});
+
 describe('BatchTools preview nextAction delegation contract', () => {
   test('preview nextAction mentions task() calls when tasks are runnable', () => {
     // Source-level check: the preview nextAction should include the full
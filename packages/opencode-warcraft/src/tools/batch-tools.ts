@@ -1,10 +1,19 @@
 import { type ToolDefinition, tool } from '@opencode-ai/plugin';
-import type { FeatureService, PlanService, TaskService, WorktreeService } from 'warcraft-core';
+import type {
+  EventLogger,
+  FeatureService,
+  PlanService,
+  TaskService,
+  VerificationConfig,
+  VerificationModel,
+  WorktreeService,
+} from 'warcraft-core';
 import type { BlockedResult, ToolContext } from '../types.js';
 import { toolError, toolSuccess } from '../types.js';
 import { type DispatchOneTaskServices, dispatchOneTask } from './dispatch-task.js';
 import { fetchSharedDispatchData } from './task-dispatch.js';
 import { resolveFeatureInput, validateTaskInput } from './tool-input.js';
+import { formatRefreshFailure, refreshTaskWorktree } from './worktree-refresh.js';
 
 export interface BatchToolsDependencies {
   featureService: FeatureService;
@@ -20,11 +29,15 @@ export interface BatchToolsDependencies {
     strategy?: 'unbounded' | 'bounded';
     maxConcurrency?: number;
   };
-  verificationModel: 'tdd' | 'best-effort';
-  /** Lazy getter for feature-level reopen rate from trust metrics (0.0–1.0). Called at dispatch time. */
-  getFeatureReopenRate?: () => number;
+  verificationModel: VerificationModel;
+  /** Configured verification commands, surfaced to workers in the prompt. */
+  verification?: VerificationConfig;
+  /** Lazy getter for the feature's reopen rate from trust metrics (0.0–1.0). Called at dispatch time. */
+  getFeatureReopenRate?: (feature: string) => number;
   /** Directory for per-task dispatch locks. */
   lockDir?: string;
+  /** Receives duplicate-dispatch and retry events. */
+  eventLogger?: EventLogger;
 }
 
 export interface EffectiveParallelPolicy {
@@ -97,6 +110,9 @@ export class BatchTools {
    * Identify and dispatch runnable tasks in parallel. Two modes:
    * - preview (default): show which tasks are ready for parallel execution
    * - execute: prepare workspaces and generate worker prompts for all specified tasks
+   *
+   * With `refresh`, tasks resuming in an existing worktree are rebased onto the latest base first;
+   * a task whose refresh conflicts is not dispatched and is reported under `failed`.
    */
   batchExecuteTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     const {
@@ -108,8 +124,10 @@ export class BatchTools {
       checkBlocked,
       checkDependencies,
       verificationModel,
+      verification,
       getFeatureReopenRate,
       lockDir,
+      eventLogger,
     } = this.deps;
     const parallelPolicy = resolveParallelPolicy(this.deps.parallelExecution);
     return tool({
@@ -124,8 +142,13 @@ export class BatchTools {
           .optional()
           .describe('Task folders to execute in parallel (required for execute mode)'),
         feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+        refresh: tool.schema
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Execute mode: rebase existing task worktrees onto the latest base before dispatching them'),
       },
-      async execute({ mode, tasks: selectedTasks, feature: explicitFeature }, toolContext) {
+      async execute({ mode, tasks: selectedTasks, feature: explicitFeature, refresh = false }, toolContext) {
         const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
         if (!resolution.ok) return toolError(resolution.error);
         const feature = resolution.feature;
@@ -141,9 +164,18 @@ export class BatchTools {
         const allTasks = taskService.list(feature);
         if (allTasks.length === 0) return toolError('No tasks found. Run warcraft_tasks_sync first.');
 
-        const { runnable, blocked: blockedBy } = taskService.computeRunnableStatus(feature);
+        const { runnable: locallyRunnable, blocked: blockedBy } = taskService.computeRunnableStatus(feature);
 
         if (mode === 'preview') {
+          // Local dependencies are met for these; cross-feature dependencies may still hold them back
+          const waitingOnFeatures: Array<{ folder: string; reason: string }> = [];
+          const runnable = locallyRunnable.filter((folder) => {
+            const depCheck = checkDependencies(feature, folder);
+            if (!depCheck.allowed) {
+              waitingOnFeatures.push({ folder, reason: depCheck.error || 'dependencies not met' });
+            }
+            return depCheck.allowed;
+          });
           const inProgress = allTasks.filter((t) => t.status === 'in_progress');
           const done = allTasks.filter((t) => t.status === 'done');
           const nonTerminalStatuses = ['failed', 'partial', 'cancelled', 'blocked'] as const;
@@ -161,6 +193,9 @@ export class BatchTools {
             nextAction = `Call warcraft_batch_execute with mode "execute" and tasks: [${runnable.map((f) => `"${f}"`).join(', ')}], then issue all returned task() calls in the same assistant message.`;
           } else if (inProgress.length > 0) {
             nextAction = 'Wait for in-progress tasks to complete, then check again.';
+          } else if (waitingOnFeatures.length > 0) {
+            nextAction =
+              'Remaining runnable tasks wait on other features. Complete and merge those dependencies first; see waitingOnFeatures.';
           } else if (needsAttention.length > 0) {
             const summary = needsAttention.map((t) => `${t.folder} (${t.status})`).join(', ');
             nextAction = `Tasks need attention: ${summary}. Re-dispatch failed/partial tasks or resolve blocked tasks.`;
@@ -186,6 +221,7 @@ export class BatchTools {
               };
             }),
             blocked: blockedTasks.length > 0 ? blockedTasks : undefined,
+            waitingOnFeatures: waitingOnFeatures.length > 0 ? waitingOnFeatures : undefined,
             inProgress:
               inProgress.length > 0
                 ? inProgress.map((t) => ({ folder: t.folder, name: t.planTitle ?? t.name }))
@@ -253,7 +289,7 @@ export class BatchTools {
         }
 
         // Dispatch all tasks in parallel
-        const featureReopenRate = getFeatureReopenRate?.();
+        const featureReopenRate = getFeatureReopenRate?.(feature);
         const sessionId = (toolContext as ToolContext | undefined)?.sessionID ?? featureService.getSession(feature);
         const shared = fetchSharedDispatchData(feature, {
           planService,
@@ -264,6 +300,16 @@ export class BatchTools {
         });
 
         const dispatchTask = async (task: string): Promise<TaskDispatchResult> => {
+          if (refresh) {
+            const workspaceMode = taskService.getRawStatus(feature, task)?.workerSession?.workspaceMode;
+            const existing = workspaceMode === 'direct' ? null : await worktreeService.get(feature, task);
+            if (existing) {
+              const refreshed = await refreshTaskWorktree({ taskService, worktreeService }, feature, task);
+              if (!refreshed.success) {
+                return { task, success: false, agent: 'mekkatorque', error: formatRefreshFailure(task, refreshed) };
+              }
+            }
+          }
           const unifiedServices: DispatchOneTaskServices = {
             taskService,
             planService,
@@ -272,8 +318,10 @@ export class BatchTools {
             checkBlocked,
             checkDependencies,
             verificationModel,
+            verification,
             featureReopenRate,
             lockDir,
+            eventLogger,
           };
           return dispatchOneTask({ feature, task, sessionId }, unifiedServices, shared);
         };
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'bun:test';
+import type { ConflictResolutionInfo } from 'warcraft-core';
+import type { DispatchCoordinatorDeps } from '../services/dispatch-coordinator.js';
+import { buildConflictBrief, type ConflictHandoffServices, handOffMergeConflict } from './conflict-handoff.js';
+
+type MockStatus = {
+  status: string;
+  origin: string;
+  planTitle?: string;
+  brief?: string;
+  dependsOn?: string[];
+  mergedAt?: string;
+  resolvesConflictsFor?: string;
+  workerSession?: Record<string, unknown>;
+};
+
+const CONFLICT_HUNK =
+  '<<<<<<< HEAD\nexport const shared = 1;\n=======\nexport const shared = 2;\n>>>>>>> warcraft/f/02-api';
+
+function createHandoffServices(
+  statuses: Record<string, MockStatus>,
+  prepare: ConflictHandoffServices['worktreeService']['prepareConflictResolution'],
+) {
+  const transitions: Array<[string, string]> = [];
+  const removed: unknown[][] = [];
+  const specs: Record<string, string> = { '01-core': '# Core spec', '02-api': '# API spec' };
+  const taskService = {
+    list: () =>
+      Object.entries(statuses).map(([folder, s]) => ({
+        folder,
+        name: folder,
+        status: s.status,
+        origin: s.origin,
+        planTitle: s.planTitle,
+      })),
+    get: (_feature: string, folder: string) => {
+      const s = statuses[folder];
+      return s ? { folder, name: folder, status: s.status, origin: s.origin, planTitle: s.planTitle } : null;
+    },
+    getRawStatus: (_feature: string, folder: string) => statuses[folder] ?? null,
+    create: (_feature: string, name: string, _order?: number, _priority?: number, brief?: string) => {
+      const folder = `03-${name}`;
+      statuses[folder] = { status: 'pending', origin: 'manual', planTitle: name, brief };
+      return folder;
+    },
+    update: (_feature: string, folder: string, patch: Record<string, unknown>) => {
+      Object.assign(statuses[folder], patch);
+    },
+    transition: (_feature: string, folder: string, toStatus: string) => {
+      transitions.push([folder, toStatus]);
+      statuses[folder].status = toStatus;
+    },
+    patchBackgroundFields: (_feature: string, folder: string, patch: Record<string, unknown>) => {
+      Object.assign(statuses[folder], patch);
+    },
+    readTaskBeadArtifact: (_feature: string, folder: string) => specs[folder] ?? null,
+    writeSpec: () => 'bd-spec',
+    writeWorkerPrompt: () => {},
+    buildSpecData: (params: { featureName: string; task: { folder: string; name: string; order: number } }) => ({
+      featureName: params.featureName,
+      task: params.task,
+      dependsOn: [],
+      allTasks: [],
+      planSection: null,
+      taskBrief: statuses[params.task.folder]?.brief ?? null,
+      contextFiles: [],
+      completedTasks: [],
+    }),
+  };
+  const workspace = {
+    mode: 'worktree' as const,
+    path: '/repo/.beads/artifacts/.worktrees/f/03-resolve-02-api-conflicts',
+    branch: 'warcraft/f/03-resolve-02-api-conflicts',
+    commit: 'target-tip',
+    feature: 'f',
+    step: '03-resolve-02-api-conflicts',
+  };
+  const coordinatorDeps = {
+    taskService,
+    planService: { read: () => ({ content: '# Plan', status: 'approved', comments: [] }) },
+    contextService: { list: () => [] },
+    worktreeService: { create: async () => workspace, get: async () => workspace, remove: async () => {} },
+    checkBlocked: () => ({ blocked: false }),
+    checkDependencies: () => ({ allowed: true }),
+    verificationModel: 'best-effort',
+  } as unknown as DispatchCoordinatorDeps;
+
+  const services = {
+    taskService,
+    worktreeService: {
+      prepareConflictResolution: prepare,
+      remove: async (...args: unknown[]) => {
+        removed.push(args);
+      },
+    },
+    coordinatorDeps,
+  } as unknown as ConflictHandoffServices;
+  return { services, transitions, removed };
+}
+
+function resolutionInfo(overrides: Partial<ConflictResolutionInfo> = {}): ConflictResolutionInfo {
+  return {
+    feature: 'f',
+    step: '02-api',
+    resolutionStep: '03-resolve-02-api-conflicts',
+    path: '/repo/.beads/artifacts/.worktrees/f/03-resolve-02-api-conflicts',
+    branch: 'warcraft/f/03-resolve-02-api-conflicts',
+    targetBranch: 'main',
+    baseCommit: 'target-tip',
+    conflicts: ['src/shared.ts'],
+    hunks: [{ file: 'src/shared.ts', hunks: [CONFLICT_HUNK] }],
+    overlappingSteps: ['01-core'],
+    ...overrides,
+  };
+}
+
+describe('buildConflictBrief', () => {
+  it('includes both sides and every conflict hunk', () => {
+    const brief = buildConflictBrief({
+      task: '02-api',
+      targetBranch: 'main',
+      conflicts: ['src/shared.ts'],
+      hunks: [{ file: 'src/shared.ts', hunks: [CONFLICT_HUNK], truncated: true }],
+      taskSpec: '# API spec',
+      otherSpecs: [{ task: '01-core', spec: null }],
+    });
+
+    expect(brief).toContain('merging task `02-api` into `main`');
+    expect(brief).toContain('## Incoming Side: 02-api\n\n# API spec');
+    expect(brief).toContain('## Already Merged: 01-core\n\n_No spec recorded._');
+    expect(brief).toContain(`### src/shared.ts\n\n\`\`\`\`\n${CONFLICT_HUNK}\n\`\`\`\``);
+    expect(brief).toContain('More hunks in this file were omitted');
+  });
+});
+
+describe('handOffMergeConflict', () => {
+  it('creates a resolution task linked to the conflicted task and dispatches a worker to its worktree', async () => {
+    const statuses: Record<string, MockStatus> = {
+      '01-core': { status: 'done', origin: 'plan', mergedAt: '2024-01-01T00:00:00Z' },
+      '02-api': { status: 'done', origin: 'plan' },
+    };
+    const prepareCalls: unknown[][] = [];
+    const { services, transitions } = createHandoffServices(statuses, async (...args) => {
+      prepareCalls.push(args);
+      return resolutionInfo();
+    });
+
+    const result = await handOffMergeConflict(
+      { feature: 'f', task: '02-api', target: 'current', sessionId: 'sess-1' },
+      services,
+    );
+
+    expect(result.resolutionTask).toBe('03-resolve-02-api-conflicts');
+    expect(result.overlappingTasks).toEqual(['01-core']);
+    expect(prepareCalls[0]).toEqual([
+      'f',
+      '02-api',
+      '03-resolve-02-api-conflicts',
+      { target: 'current', candidateSteps: ['01-core'] },
+    ]);
+    const resolution = statuses['03-resolve-02-api-conflicts'];
+    expect(resolution.resolvesConflictsFor).toBe('02-api');
+    expect(resolution.dependsOn).toEqual([]);
+    expect(resolution.brief).toContain('# Core spec');
+    expect(result.taskToolCall.subagent_type).toBe('mekkatorque');
+    expect(result.taskToolCall.prompt).toContain('export const shared = 2;');
+    expect(result.taskToolCall.prompt).toContain('# API spec');
+    expect(transitions.at(-1)).toEqual(['03-resolve-02-api-conflicts', 'in_progress']);
+  });
+
+  it('refuses a second handoff while a resolution task is still open', async () => {
+    const statuses: Record<string, MockStatus> = {
+      '02-api': { status: 'done', origin: 'plan' },
+      '03-resolve-02-api-conflicts': { status: 'in_progress', origin: 'manual', resolvesConflictsFor: '02-api' },
+    };
+    const { services } = createHandoffServices(statuses, async () => resolutionInfo());
+
+    await expect(handOffMergeConflict({ feature: 'f', task: '02-api', target: 'current' }, services)).rejects.toThrow(
+      'already resolves the conflicts of "02-api"',
+    );
+  });
+
+  it('cancels the resolution task when the worktree cannot be prepared', async () => {
+    const statuses: Record<string, MockStatus> = { '02-api': { status: 'done', origin: 'plan' } };
+    const { services, transitions, removed } = createHandoffServices(statuses, async () => {
+      throw new Error('no longer conflicts');
+    });
+
+    await expect(handOffMergeConflict({ feature: 'f', task: '02-api', target: 'current' }, services)).rejects.toThrow(
+      'no longer conflicts',
+    );
+    expect(transitions).toEqual([['03-resolve-02-api-conflicts', 'cancelled']]);
+    expect(removed).toEqual([['f', '03-resolve-02-api-conflicts', true]]);
+  });
+
+  it('cancels the resolution task and removes its worktree when dispatch fails, so a retry starts clean', async () => {
+    const statuses: Record<string, MockStatus> = { '02-api': { status: 'done', origin: 'plan' } };
+    const { services, transitions, removed } = createHandoffServices(statuses, async () => resolutionInfo());
+    services.coordinatorDeps.checkDependencies = () => ({ allowed: false, error: 'Dependencies not met' });
+
+    await expect(handOffMergeConflict({ feature: 'f', task: '02-api', target: 'current' }, services)).rejects.toThrow(
+      'Could not dispatch "03-resolve-02-api-conflicts": Dependencies not met',
+    );
+    expect(transitions).toEqual([['03-resolve-02-api-conflicts', 'cancelled']]);
+    expect(removed).toEqual([['f', '03-resolve-02-api-conflicts', true]]);
+
+    // The cancelled leftover does not block the next handoff
+    services.coordinatorDeps.checkDependencies = () => ({ allowed: true });
+    await expect(
+      handOffMergeConflict({ feature: 'f', task: '02-api', target: 'current', sessionId: 'sess-1' }, services),
+    ).resolves.toMatchObject({ resolutionTask: '03-resolve-02-api-conflicts' });
+  });
+});
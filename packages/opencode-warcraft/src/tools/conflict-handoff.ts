@@ -0,0 +1,210 @@
+/**
+ * Merge conflict handoff for warcraft_merge.
+ *
+ * Turns a conflicted task merge into a manual resolution task: its worktree holds the
+ * unfinished merge, its brief carries both sides' task specs and the conflict hunks, and
+ * Mekkatorque is dispatched to it through the regular DispatchCoordinator path.
+ */
+
+import type { ConflictHunk, MergeTarget, TaskService, WorktreeService } from 'warcraft-core';
+import { DispatchCoordinator, type DispatchCoordinatorDeps } from '../services/dispatch-coordinator.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConflictHandoffInput {
+  feature: string;
+  /** Task whose merge conflicted. */
+  task: string;
+  target: MergeTarget;
+  sessionId?: string;
+}
+
+export interface ConflictHandoffServices {
+  taskService: Pick<TaskService, 'create' | 'update' | 'transition' | 'list' | 'getRawStatus' | 'readTaskBeadArtifact'>;
+  worktreeService: Pick<WorktreeService, 'prepareConflictResolution' | 'remove'>;
+  coordinatorDeps: DispatchCoordinatorDeps;
+}
+
+export interface ConflictHandoffResult {
+  resolutionTask: string;
+  workspacePath: string;
+  branch: string;
+  targetBranch: string;
+  baseCommit: string;
+  conflicts: string[];
+  /** Merged tasks whose changes overlap the conflicted files. */
+  overlappingTasks: string[];
+  taskToolCall: {
+    subagent_type: string;
+    description: string;
+    prompt: string;
+  };
+}
+
+/** Maximum characters of each task spec copied into the resolution brief. */
+const MAX_HANDOFF_SPEC_CHARS = 6000;
+
+// ============================================================================
+// Brief
+// ============================================================================
+
+export function getResolutionTaskName(task: string): string {
+  return `resolve-${task}-conflicts`;
+}
+
+function truncateSpec(spec: string): string {
+  if (spec.length <= MAX_HANDOFF_SPEC_CHARS) return spec;
+  return `${spec.slice(0, MAX_HANDOFF_SPEC_CHARS)}\n... (truncated ${spec.length - MAX_HANDOFF_SPEC_CHARS} chars)`;
+}
+
+/**
+ * Build the resolution task brief: what to do, both sides' specs, and the conflict hunks.
+ * The brief becomes the task spec the worker receives.
+ */
+export function buildConflictBrief(params: {
+  task: string;
+  targetBranch: string;
+  conflicts: string[];
+  hunks: ConflictHunk[];
+  taskSpec: string | null;
+  otherSpecs: Array<{ task: string; spec: string | null }>;
+}): string {
+  const { task, targetBranch, conflicts, hunks, taskSpec, otherSpecs } = params;
+  const lines = [
+    `Resolve the merge conflicts left by merging task \`${task}\` into \`${targetBranch}\`.`,
+    '',
+    'This worktree already contains the unfinished merge. Edit the conflicted files so the intent of both sides survives, remove every conflict marker, and run the verification commands. Then call warcraft_worktree_commit: committing concludes the merge. Do not change code unrelated to the conflicts.',
+    '',
+    '## Conflicted Files',
+    ...conflicts.map((file) => `- ${file}`),
+    '',
+    `## Incoming Side: ${task}`,
+    '',
+    taskSpec ? truncateSpec(taskSpec) : '_No spec recorded for this task._',
+  ];
+
+  for (const other of otherSpecs) {
+    lines.push(
+      '',
+      `## Already Merged: ${other.task}`,
+      '',
+      other.spec ? truncateSpec(other.spec) : '_No spec recorded._',
+    );
+  }
+
+  lines.push('', '## Conflict Hunks');
+  for (const hunk of hunks) {
+    lines.push('', `### ${hunk.file}`, '');
+    if (hunk.hunks.length === 0) {
+      lines.push('_No conflict markers (e.g. a modify/delete conflict). Inspect the file with git status._');
+      continue;
+    }
+    for (const block of hunk.hunks) {
+      lines.push('````', block, '````');
+    }
+    if (hunk.truncated) lines.push('_More hunks in this file were omitted; open it to see them all._');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Handoff
+// ============================================================================
+
+/**
+ * Create the resolution task, leave the conflicted merge in its worktree, and dispatch a worker to it.
+ * Throws when an open resolution task already exists, or the worktree cannot be prepared or dispatched;
+ * in the latter cases the resolution task is cancelled and its worktree removed, so a retry starts clean.
+ */
+export async function handOffMergeConflict(
+  input: ConflictHandoffInput,
+  services: ConflictHandoffServices,
+): Promise<ConflictHandoffResult> {
+  const { feature, task, target, sessionId } = input;
+  const { taskService, worktreeService } = services;
+
+  const tasks = taskService
+    .list(feature)
+    .map((info) => ({ info, raw: taskService.getRawStatus(feature, info.folder) }));
+  const existing = tasks.find(({ info, raw }) => raw?.resolvesConflictsFor === task && info.status !== 'cancelled');
+  if (existing) {
+    throw new Error(
+      `Task "${existing.info.folder}" already resolves the conflicts of "${task}" (${existing.info.status}). Finish and merge it, or cancel it first.`,
+    );
+  }
+  const mergedTasks = tasks.filter(({ raw }) => raw?.mergedAt).map(({ info }) => info.folder);
+
+  const resolutionTask = taskService.create(
+    feature,
+    getResolutionTaskName(task),
+    undefined,
+    3,
+    `Resolve the merge conflicts of ${task}.`,
+  );
+  taskService.update(feature, resolutionTask, { dependsOn: [], resolvesConflictsFor: task });
+
+  let info: Awaited<ReturnType<WorktreeService['prepareConflictResolution']>>;
+  let taskToolCall: ConflictHandoffResult['taskToolCall'];
+  try {
+    info = await worktreeService.prepareConflictResolution(feature, task, resolutionTask, {
+      target,
+      candidateSteps: mergedTasks,
+    });
+
+    taskService.update(feature, resolutionTask, {
+      brief: buildConflictBrief({
+        task,
+        targetBranch: info.targetBranch,
+        conflicts: info.conflicts,
+        hunks: info.hunks,
+        taskSpec: taskService.readTaskBeadArtifact(feature, task, 'spec'),
+        otherSpecs: info.overlappingSteps.map((step) => ({
+          task: step,
+          spec: taskService.readTaskBeadArtifact(feature, step, 'spec'),
+        })),
+      }),
+    });
+
+    const dispatch = await new DispatchCoordinator(services.coordinatorDeps).dispatch({
+      feature,
+      task: resolutionTask,
+      sessionId,
+    });
+    if (!dispatch.success || !dispatch.taskToolCall) {
+      throw new Error(`Could not dispatch "${resolutionTask}": ${dispatch.error ?? 'unknown error'}`);
+    }
+    taskToolCall = dispatch.taskToolCall;
+  } catch (error) {
+    await discardResolutionTask(feature, resolutionTask, services);
+    throw error;
+  }
+  taskService.transition(feature, resolutionTask, 'in_progress');
+
+  return {
+    resolutionTask,
+    workspacePath: info.path,
+    branch: info.branch,
+    targetBranch: info.targetBranch,
+    baseCommit: info.baseCommit,
+    conflicts: info.conflicts,
+    overlappingTasks: info.overlappingSteps,
+    taskToolCall,
+  };
+}
+
+/** Cancel a resolution task that could not be handed off and drop the worktree holding its merge. */
+async function discardResolutionTask(
+  feature: string,
+  resolutionTask: string,
+  { taskService, worktreeService }: ConflictHandoffServices,
+): Promise<void> {
+  try {
+    taskService.transition(feature, resolutionTask, 'cancelled');
+  } catch {
+    // Keep the original error; an uncancelled task is reported by the existing-resolution check on retry
+  }
+  await worktreeService.remove(feature, resolutionTask, true).catch(() => {});
+}
@@ -80,13 +80,26 @@ function createMockDeps(overrides: Partial<Record<string, unknown>> = {}) {
   };
 }
 
-async function getStatusHealth(overrides: Partial<Record<string, unknown>> = {}): Promise<{
+async function getStatusHealth(
+  overrides: Partial<Record<string, unknown>> = {},
+  args: Record<string, unknown> = {},
+): Promise<{
   success: boolean;
   data: {
-    health: { reopenRate: number; totalCompleted: number; reopenCount: number; blockedMttrMs: number | null };
+    health: {
+      reopenRate: number;
+      totalCompleted: number;
+      reopenCount: number;
+      blockedMttrMs: number | null;
+      firstPassSuccessRate: number;
+      meanAttemptsPerTask: number | null;
+      meanDispatchToCommitMs: number | null;
+      postMergeVerificationFailureRate: number;
+    };
     feature: unknown;
     plan: unknown;
     tasks: unknown;
+    crossFeatureDependencies: unknown;
     context: unknown;
     worktreeHygiene: unknown;
     staleDispatches: Array<{
@@ -111,7 +124,7 @@ async function getStatusHealth(overrides: Partial<Record<string, unknown>> = {})
   const deps = createMockDeps(overrides);
   const contextTools = new ContextTools(deps);
   const tool = contextTools.getStatusTool(() => 'test-feature');
-  const rawResult = await tool.execute({ feature: 'test-feature' });
+  const rawResult = await tool.execute({ feature: 'test-feature', ...args });
   return JSON.parse(rawResult);
 }
 
@@ -136,6 +149,10 @@ describe('ContextTools', () => {
         totalCompleted: 0,
         reopenCount: 0,
         blockedMttrMs: null,
+        firstPassSuccessRate: 0,
+        meanAttemptsPerTask: null,
+        meanDispatchToCommitMs: null,
+        postMergeVerificationFailureRate: 0,
       });
     });
 
@@ -143,19 +160,19 @@ describe('ContextTools', () => {
       writeEventsJsonl([
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't1',
           timestamp: '2025-01-01T00:00:00Z',
           details: { status: 'completed' },
         },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't2',
           timestamp: '2025-01-01T01:00:00Z',
           details: { status: 'completed' },
         },
-        { type: 'reopen', feature: 'f', task: 't1', timestamp: '2025-01-01T02:00:00Z' },
+        { type: 'reopen', feature: 'test-feature', task: 't1', timestamp: '2025-01-01T02:00:00Z' },
       ]);
 
       const result = await getStatusHealth();
@@ -188,12 +205,21 @@ describe('ContextTools', () => {
       expect(dataKeys).toContain('health');
     });
 
-    it('health only includes the 4 required keys', async () => {
+    it('health only includes the 8 required keys', async () => {
       const result = await getStatusHealth();
 
       expect(result.success).toBe(true);
       const healthKeys = Object.keys(result.data.health);
-      expect(healthKeys.sort()).toEqual(['blockedMttrMs', 'reopenCount', 'reopenRate', 'totalCompleted']);
+      expect(healthKeys.sort()).toEqual([
+        'blockedMttrMs',
+        'firstPassSuccessRate',
+        'meanAttemptsPerTask',
+        'meanDispatchToCommitMs',
+        'postMergeVerificationFailureRate',
+        'reopenCount',
+        'reopenRate',
+        'totalCompleted',
+      ]);
     });
 
     it('health returns defaults when .beads directory does not exist', async () => {
@@ -211,6 +237,10 @@ describe('ContextTools', () => {
         totalCompleted: 0,
         reopenCount: 0,
         blockedMttrMs: null,
+        firstPassSuccessRate: 0,
+        meanAttemptsPerTask: null,
+        meanDispatchToCommitMs: null,
+        postMergeVerificationFailureRate: 0,
       });
     });
 
@@ -579,14 +609,31 @@ describe('ContextTools', () => {
       writeEventsJsonl([
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't1',
           timestamp: '2025-01-01T00:00:00Z',
           details: { status: 'completed' },
         },
-        { type: 'duplicate_dispatch_prevented', feature: 'f', task: 't1', timestamp: '2025-01-01T01:00:00Z' },
-        { type: 'prune', feature: 'f', task: '', timestamp: '2025-01-01T02:00:00Z', details: { dryRun: true } },
-        { type: 'prune', feature: 'f', task: '', timestamp: '2025-01-01T03:00:00Z', details: { confirmed: true } },
+        {
+          type: 'duplicate_dispatch_prevented',
+          feature: 'test-feature',
+          task: 't1',
+          timestamp: '2025-01-01T01:00:00Z',
+        },
+        {
+          type: 'prune',
+          feature: 'test-feature',
+          task: '',
+          timestamp: '2025-01-01T02:00:00Z',
+          details: { dryRun: true },
+        },
+        {
+          type: 'prune',
+          feature: 'test-feature',
+          task: '',
+          timestamp: '2025-01-01T03:00:00Z',
+          details: { confirmed: true },
+        },
       ]);
 
       const result = await getStatusHealth();
@@ -602,10 +649,10 @@ describe('ContextTools', () => {
 
     it('health returns blockedMttrMs as a number when blocked/commit pairs exist', async () => {
       writeEventsJsonl([
-        { type: 'blocked', feature: 'f', task: 't1', timestamp: '2025-06-01T10:00:00.000Z' },
+        { type: 'blocked', feature: 'test-feature', task: 't1', timestamp: '2025-06-01T10:00:00.000Z' },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't1',
           timestamp: '2025-06-01T10:15:00.000Z',
           details: { status: 'completed' },
@@ -625,48 +672,48 @@ describe('ContextTools', () => {
       writeEventsJsonl([
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't1',
           timestamp: '2025-01-01T00:00:00Z',
           details: { status: 'completed' },
         },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't2',
           timestamp: '2025-01-01T01:00:00Z',
           details: { status: 'completed' },
         },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't3',
           timestamp: '2025-01-01T02:00:00Z',
           details: { status: 'completed' },
         },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't4',
           timestamp: '2025-01-01T03:00:00Z',
           details: { status: 'completed' },
         },
-        { type: 'reopen', feature: 'f', task: 't1', timestamp: '2025-01-01T04:00:00Z' },
-        { type: 'reopen', feature: 'f', task: 't2', timestamp: '2025-01-01T05:00:00Z' },
+        { type: 'reopen', feature: 'test-feature', task: 't1', timestamp: '2025-01-01T04:00:00Z' },
+        { type: 'reopen', feature: 'test-feature', task: 't2', timestamp: '2025-01-01T05:00:00Z' },
         // Blocked/resolved pair 1: 5 minutes
-        { type: 'blocked', feature: 'f', task: 't5', timestamp: '2025-01-01T06:00:00.000Z' },
+        { type: 'blocked', feature: 'test-feature', task: 't5', timestamp: '2025-01-01T06:00:00.000Z' },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't5',
           timestamp: '2025-01-01T06:05:00.000Z',
           details: { status: 'completed' },
         },
         // Blocked/resolved pair 2: 15 minutes
-        { type: 'blocked', feature: 'f', task: 't6', timestamp: '2025-01-01T07:00:00.000Z' },
+        { type: 'blocked', feature: 'test-feature', task: 't6', timestamp: '2025-01-01T07:00:00.000Z' },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't6',
           timestamp: '2025-01-01T07:15:00.000Z',
           details: { status: 'completed' },
@@ -699,10 +746,10 @@ describe('ContextTools', () => {
 
     it('health value types with event data produce number for blockedMttrMs', async () => {
       writeEventsJsonl([
-        { type: 'blocked', feature: 'f', task: 't1', timestamp: '2025-01-01T00:00:00.000Z' },
+        { type: 'blocked', feature: 'test-feature', task: 't1', timestamp: '2025-01-01T00:00:00.000Z' },
         {
           type: 'commit',
-          feature: 'f',
+          feature: 'test-feature',
           task: 't1',
           timestamp: '2025-01-01T00:10:00.000Z',
           details: { status: 'completed' },
@@ -718,6 +765,48 @@ describe('ContextTools', () => {
       expect(typeof result.data.health.blockedMttrMs).toBe('number');
     });
 
+    it('health covers only the status feature and reports attempt and verification metrics', async () => {
+      writeEventsJsonl([
+        { type: 'dispatch', feature: 'old-feature', task: 't1', timestamp: '2025-01-01T00:00:00Z' },
+        {
+          type: 'commit',
+          feature: 'old-feature',
+          task: 't1',
+          timestamp: '2025-01-01T00:30:00Z',
+          details: { status: 'completed' },
+        },
+        { type: 'reopen', feature: 'old-feature', task: 't1', timestamp: '2025-01-01T01:00:00Z' },
+        { type: 'dispatch', feature: 'test-feature', task: 't1', timestamp: '2025-01-02T00:00:00Z' },
+        {
+          type: 'commit',
+          feature: 'test-feature',
+          task: 't1',
+          timestamp: '2025-01-02T00:10:00Z',
+          details: { status: 'completed' },
+        },
+        {
+          type: 'verification_run',
+          feature: 'test-feature',
+          task: 't1',
+          timestamp: '2025-01-02T00:20:00Z',
+          details: { source: 'merge', passed: false },
+        },
+      ]);
+
+      const result = await getStatusHealth();
+
+      expect(result.data.health).toEqual({
+        reopenRate: 0,
+        totalCompleted: 1,
+        reopenCount: 0,
+        blockedMttrMs: null,
+        firstPassSuccessRate: 1,
+        meanAttemptsPerTask: 1,
+        meanDispatchToCommitMs: 600_000,
+        postMergeVerificationFailureRate: 1,
+      });
+    });
+
     it('existing status fields are not altered by health addition', async () => {
       const result = await getStatusHealth();
 
@@ -1155,6 +1244,216 @@ describe('ContextTools', () => {
       expect(hasChangesCalled).toBe(false);
     });
 
+    it('reports done but unmerged tasks and points at the merge queue', async () => {
+      const raw: Record<string, Record<string, unknown>> = {
+        '01-merged': { mergedAt: '2024-01-01T00:00:00Z', mergeSha: 'abc123' },
+        '02-unmerged': {},
+        '03-direct': { workerSession: { workspaceMode: 'direct', workspacePath: '/repo' } },
+      };
+      const taskService = {
+        list: () =>
+          Object.keys(raw).map((folder) => ({
+            folder,
+            name: folder,
+            status: 'done' as const,
+            origin: 'plan' as const,
+          })),
+        getRawStatus: (_feature: string, folder: string) => raw[folder] ?? null,
+        computeRunnableStatus: () => ({ runnable: [], blocked: {} }),
+      } as unknown as TaskService;
+
+      const result = await getStatusHealth({ taskService });
+      const tasks = result.data.tasks as {
+        doneUnmerged: string[];
+        list: Array<{ folder: string; mergedAt?: string; mergeSha?: string }>;
+      };
+
+      expect(tasks.doneUnmerged).toEqual(['02-unmerged']);
+      expect(tasks.list[0]).toMatchObject({ mergedAt: '2024-01-01T00:00:00Z', mergeSha: 'abc123' });
+      expect(tasks.list[1].mergedAt).toBeUndefined();
+      expect(result.data.nextAction).toBe(
+        '1 done task(s) not merged yet: 02-unmerged. Use warcraft_merge_queue to merge them in dependency order.',
+      );
+    });
+
+    it('summarizes acceptance results for tasks with criteria', async () => {
+      const raw: Record<string, Record<string, unknown>> = {
+        '01-task': {
+          acceptanceCriteria: ['Users can log in', 'Sessions expire', 'Docs updated'],
+          acceptanceResults: [
+            { criterion: 'Users can log in', met: true, evidence: 'login.test.ts' },
+            { criterion: 'Sessions expire', met: false, evidence: 'TTL not configurable yet' },
+          ],
+        },
+        '02-task': {},
+      };
+      const taskService = {
+        list: () =>
+          Object.keys(raw).map((folder) => ({
+            folder,
+            name: folder,
+            status: 'partial' as const,
+            origin: 'plan' as const,
+          })),
+        getRawStatus: (_feature: string, folder: string) => raw[folder] ?? null,
+        computeRunnableStatus: () => ({ runnable: [], blocked: {} }),
+      } as unknown as TaskService;
+
+      const result = await getStatusHealth({ taskService });
+      const tasks = result.data.tasks as { list: Array<{ folder: string; acceptance?: unknown }> };
+
+      expect(tasks.list[0].acceptance).toEqual({
+        total: 3,
+        met: 1,
+        unmet: 1,
+        unreported: 1,
+        unmetCriteria: ['Sessions expire'],
+      });
+      expect(tasks.list[1].acceptance).toBeUndefined();
+    });
+
+    it('shows split lineage on the split task and its subtasks', async () => {
+      const raw: Record<string, Record<string, unknown>> = {
+        '02-build': { splitInto: ['04-build-core', '05-build-cli'] },
+        '04-build-core': { splitFrom: '02-build' },
+      };
+      const taskService = {
+        list: () =>
+          Object.keys(raw).map((folder) => ({
+            folder,
+            name: folder,
+            status: folder === '02-build' ? ('cancelled' as const) : ('pending' as const),
+            origin: 'plan' as const,
+          })),
+        getRawStatus: (_feature: string, folder: string) => raw[folder] ?? null,
+        computeRunnableStatus: () => ({ runnable: ['04-build-core'], blocked: {} }),
+      } as unknown as TaskService;
+
+      const result = await getStatusHealth({ taskService });
+      const tasks = result.data.tasks as { list: Array<{ splitFrom?: string; splitInto?: string[] }> };
+
+      expect(tasks.list[0].splitInto).toEqual(['04-build-core', '05-build-cli']);
+      expect(tasks.list[1].splitFrom).toBe('02-build');
+    });
+
+    it('holds back tasks waiting on other features and reports each dependency', async () => {
+      const features: Record<string, Record<string, unknown>> = {
+        'test-feature': { name: 'test-feature', status: 'executing', createdAt: '2025-01-01T00:00:00Z' },
+        'api-feature': { name: 'api-feature', status: 'executing', createdAt: '2025-01-01T00:00:00Z' },
+      };
+      const featureService = {
+        get: (name: string) => features[name] ?? null,
+        list: () => Object.keys(features),
+      } as unknown as FeatureService;
+      const raw: Record<string, Record<string, unknown>> = {
+        'test-feature/01-client': { status: 'pending', crossFeatureDependsOn: ['api-feature/01-api'] },
+        'test-feature/02-docs': { status: 'pending' },
+        'api-feature/01-api': { status: 'done' },
+      };
+      const taskService = {
+        list: (feature: string) =>
+          Object.keys(raw)
+            .filter((key) => key.startsWith(`${feature}/`))
+            .map((key) => ({
+              folder: key.split('/')[1],
+              name: key,
+              status: 'pending' as const,
+              origin: 'plan' as const,
+            })),
+        getRawStatus: (feature: string, folder: string) => raw[`${feature}/${folder}`] ?? null,
+        computeRunnableStatus: () => ({ runnable: ['01-client', '02-docs'], blocked: {} }),
+      } as unknown as TaskService;
+
+      const result = await getStatusHealth({ featureService, taskService });
+
+      expect((result.data.tasks as { runnable: string[] }).runnable).toEqual(['02-docs']);
+      expect(result.data.crossFeatureDependencies).toEqual({
+        waiting: 1,
+        waitingTasks: ['01-client'],
+        dependencies: [
+          {
+            ref: 'api-feature/01-api',
+            feature: 'api-feature',
+            task: '01-api',
+            declaredBy: '01-client',
+            satisfied: false,
+            status: 'done',
+            reason: 'task "api-feature/01-api" is done but not merged',
+          },
+        ],
+      });
+      expect(result.data.nextAction).toBe(
+        'Start next task with warcraft_worktree_create, then issue the returned task() call: 02-docs',
+      );
+    });
+
+    it('omits cross-feature dependencies when the feature declares none', async () => {
+      const result = await getStatusHealth();
+
+      expect(result.data.crossFeatureDependencies).toBeNull();
+    });
+
+    it('predicts conflicts among done but unmerged tasks', async () => {
+      const raw: Record<string, Record<string, unknown>> = {
+        '01-merged': { mergedAt: '2024-01-01T00:00:00Z' },
+        '02-api': { baseCommit: 'base-2' },
+        '03-ui': { baseCommit: 'base-3' },
+      };
+      const taskService = {
+        list: () =>
+          Object.keys(raw).map((folder) => ({
+            folder,
+            name: folder,
+            status: 'done' as const,
+            origin: 'plan' as const,
+          })),
+        getRawStatus: (_feature: string, folder: string) => raw[folder] ?? null,
+        computeRunnableStatus: () => ({ runnable: [], blocked: {} }),
+      } as unknown as TaskService;
+      const matrixCalls: unknown[][] = [];
+      const worktreeService = {
+        listAll: () => Promise.resolve([]),
+        get: () => Promise.resolve(null),
+        buildConflictMatrix: async (...args: unknown[]) => {
+          matrixCalls.push(args);
+          return {
+            previews: [
+              { step: '02-api', targetBranch: 'main', conflicts: ['src/shared.ts'], filesChanged: ['src/shared.ts'] },
+              { step: '03-ui', targetBranch: 'main', conflicts: [], filesChanged: ['src/shared.ts', 'src/ui.ts'] },
+            ],
+            pairs: [{ steps: ['02-api', '03-ui'], files: ['src/shared.ts'] }],
+          };
+        },
+      } as unknown as WorktreeService;
+
+      const unrequested = await getStatusHealth({ taskService, worktreeService });
+      expect((unrequested.data.tasks as { conflictMatrix: unknown }).conflictMatrix).toBeNull();
+      expect(matrixCalls).toHaveLength(0);
+
+      const result = await getStatusHealth({ taskService, worktreeService }, { conflicts: true });
+      const tasks = result.data.tasks as { conflictMatrix: unknown };
+
+      expect(matrixCalls[0]).toEqual([
+        'test-feature',
+        [
+          { step: '02-api', baseCommit: 'base-2' },
+          { step: '03-ui', baseCommit: 'base-3' },
+        ],
+        { target: 'current' },
+      ]);
+      expect(tasks.conflictMatrix).toEqual({
+        target: 'main',
+        predicted: { '02-api': ['src/shared.ts'] },
+        likelyConflicts: [{ tasks: ['02-api', '03-ui'], files: ['src/shared.ts'] }],
+      });
+    });
+
+    it('omits the conflict matrix when nothing is waiting to merge', async () => {
+      const result = await getStatusHealth({}, { conflicts: true });
+
+      expect((result.data.tasks as { conflictMatrix: unknown }).conflictMatrix).toBeNull();
+    });
+
     it('degrades gracefully when per-task worktree lookup fails', async () => {
       const taskService = {
         list: () => [{ folder: '01-task', name: 'Task', status: 'in_progress' as const, origin: 'plan' as const }],
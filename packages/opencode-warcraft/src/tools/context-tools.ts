@@ -1,15 +1,23 @@
 import { type ToolDefinition, tool } from '@opencode-ai/plugin';
 import type {
+  AcceptanceSummary,
   AgentsMdService,
   BvTriageService,
   ContextService,
+  CrossFeatureDependencyState,
   FeatureService,
   PlanService,
   StaleWorktreeInfo,
   TaskService,
+  TrustMetrics,
   WorktreeService,
 } from 'warcraft-core';
-import { computeTrustMetrics, detectWorkflowPath } from 'warcraft-core';
+import {
+  collectCrossFeatureDependencies,
+  computeTrustMetrics,
+  detectWorkflowPath,
+  summarizeAcceptance,
+} from 'warcraft-core';
 import type { BlockedResult } from '../types.js';
 import { toolError, toolSuccess } from '../types.js';
 import { buildPlanScaffold } from './manual-plan-scaffold.js';
@@ -31,8 +39,23 @@ export interface ContextToolsDependencies {
   checkBlocked: (feature: string) => BlockedResult;
   bvTriageService: BvTriageService;
   projectRoot: string;
+  /** When set, task merges target the feature integration branch, so conflicts are predicted against it. */
+  integrationBranchEnabled?: boolean;
 }
 
+/** Trust metrics of the status feature. */
+type StatusHealth = Pick<
+  TrustMetrics,
+  | 'reopenRate'
+  | 'totalCompleted'
+  | 'reopenCount'
+  | 'blockedMttrMs'
+  | 'firstPassSuccessRate'
+  | 'meanAttemptsPerTask'
+  | 'meanDispatchToCommitMs'
+  | 'postMergeVerificationFailureRate'
+>;
+
 interface StatusResponseData {
   feature: {
     name: string;
@@ -52,8 +75,13 @@ interface StatusResponseData {
     pending: number;
     inProgress: number;
     done: number;
+    /** Done tasks whose branch has not been merged yet (direct-mode tasks have nothing to merge). */
+    doneUnmerged: string[];
+    /** Predicted merge conflicts among done-but-unmerged tasks; null when there are none to merge. */
+    conflictMatrix: StatusConflictMatrix | null;
     list: StatusBlockedTaskDetail[];
     blockedFeature: StatusBlockedFeatureDetail | null;
+    /** Locally runnable tasks, excluding those still waiting on other features. */
     runnable: string[];
     blockedBy: Record<string, string[]>;
     triage: Record<string, { summary: string; source: string }>;
@@ -76,6 +104,14 @@ interface StatusResponseData {
       >;
     };
   };
+  /** Dependencies on other features and their tasks; null when the feature declares none. */
+  crossFeatureDependencies: {
+    /** Number of dependencies not satisfied yet. */
+    waiting: number;
+    /** Pending tasks held back until those dependencies are satisfied. */
+    waitingTasks: string[];
+    dependencies: CrossFeatureDependencyState[];
+  } | null;
   context: {
     fileCount: number;
     files: Array<{ name: string; chars: number; updatedAt?: string }>;
@@ -92,12 +128,7 @@ interface StatusResponseData {
     staleForSeconds: number;
     hint: string;
   }> | null;
-  health: {
-    reopenRate: number;
-    totalCompleted: number;
-    reopenCount: number;
-    blockedMttrMs: number | null;
-  };
+  health: StatusHealth;
   planScaffold: string | null;
   planWriteArgs: { feature: string; content: string } | null;
   planApproveArgs: { feature: string } | null;
@@ -107,6 +138,17 @@ interface StatusResponseData {
   nextAction: string;
 }
 
+interface StatusConflictMatrix {
+  target: string;
+  /** Files each task's changes fail to apply to on the merge target today. */
+  predicted: Record<string, string[]>;
+  /** Pairs of tasks whose changes touch the same files; merging one may make the other conflict. */
+  likelyConflicts: Array<{ tasks: [string, string]; files: string[] }>;
+  /** The integration branch does not exist yet, so `predicted` is empty; `likelyConflicts` still apply. */
+  integrationMissing?: boolean;
+  error?: string;
+}
+
 interface StaleDispatchDetail {
   folder: string;
   name: string;
@@ -121,6 +163,14 @@ interface StatusBlockedTaskDetail {
   status: string;
   origin: string;
   dependsOn: string[] | null;
+  /** Present once warcraft_merge or warcraft_merge_queue has merged the task branch. */
+  mergedAt?: string;
+  mergeSha?: string;
+  /** Present when the plan gives the task acceptance criteria. */
+  acceptance?: AcceptanceSummary;
+  /** Split lineage recorded by warcraft_task_split. */
+  splitFrom?: string;
+  splitInto?: string[];
   workspace:
     | {
         mode: 'direct';
@@ -156,6 +206,7 @@ export class ContextTools {
   ): Promise<StatusBlockedTaskDetail> {
     const { taskService, worktreeService } = deps;
     const rawStatus = taskService.getRawStatus(featureName, task.folder);
+    const acceptance = summarizeAcceptance(rawStatus);
     const workspaceMode = rawStatus?.workerSession?.workspaceMode ?? 'worktree';
     const directWorkspacePath = rawStatus?.workerSession?.workspacePath;
     let worktree = null;
@@ -179,6 +230,10 @@ export class ContextTools {
       status: task.status,
       origin: task.origin || 'plan',
       dependsOn: rawStatus?.dependsOn ?? null,
+      ...(rawStatus?.mergedAt ? { mergedAt: rawStatus.mergedAt, mergeSha: rawStatus.mergeSha } : {}),
+      ...(acceptance ? { acceptance } : {}),
+      ...(rawStatus?.splitFrom ? { splitFrom: rawStatus.splitFrom } : {}),
+      ...(rawStatus?.splitInto ? { splitInto: rawStatus.splitInto } : {}),
       workspace:
         workspaceMode === 'direct'
           ? { mode: 'direct', path: directWorkspacePath || null, hasChanges: null }
@@ -207,6 +262,38 @@ export class ContextTools {
     };
   }
 
+  private static async buildConflictMatrix(
+    deps: ContextToolsDependencies,
+    featureName: string,
+    doneUnmergedTasks: string[],
+  ): Promise<StatusConflictMatrix | null> {
+    if (doneUnmergedTasks.length === 0) return null;
+    const { taskService, worktreeService, integrationBranchEnabled = false } = deps;
+    try {
+      const matrix = await worktreeService.buildConflictMatrix(
+        featureName,
+        doneUnmergedTasks.map((folder) => ({
+          step: folder,
+          baseCommit: taskService.getRawStatus(featureName, folder)?.baseCommit,
+        })),
+        { target: integrationBranchEnabled ? 'integration' : 'current' },
+      );
+      const predicted: Record<string, string[]> = {};
+      for (const preview of matrix.previews) {
+        if (preview.conflicts.length > 0) predicted[preview.step] = preview.conflicts;
+      }
+      return {
+        target: matrix.previews[0]?.targetBranch ?? 'HEAD',
+        predicted,
+        likelyConflicts: matrix.pairs.map((pair) => ({ tasks: pair.steps, files: pair.files })),
+        ...(matrix.previews.some((preview) => preview.integrationMissing) ? { integrationMissing: true } : {}),
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { target: 'unknown', predicted: {}, likelyConflicts: [], error: `Failed to predict conflicts: ${reason}` };
+    }
+  }
+
   private static async buildStatusResponseData(
     deps: ContextToolsDependencies,
     featureData: {
@@ -218,8 +305,10 @@ export class ContextTools {
       workflowRecommendation?: string;
     },
     blockedResult: BlockedResult,
+    options: { conflicts?: boolean } = {},
   ): Promise<StatusResponseData> {
-    const { planService, taskService, contextService, worktreeService, bvTriageService, projectRoot } = deps;
+    const { featureService, planService, taskService, contextService, worktreeService, bvTriageService, projectRoot } =
+      deps;
     const featureName = featureData.name;
     const plan = planService.read(featureName);
     const tasks = taskService.list(featureName);
@@ -245,6 +334,13 @@ export class ContextTools {
       (t: { status: string }) => t.status === 'in_progress' || t.status === 'dispatch_prepared',
     );
     const doneTasks = tasksSummary.filter((t: { status: string }) => t.status === 'done');
+    const doneUnmergedTasks = doneTasks
+      .filter((t) => !t.mergedAt && t.workspace?.mode !== 'direct')
+      .map((t) => t.folder);
+    // Predicting conflicts runs git for every unmerged task, so it is only done on request.
+    const conflictMatrix = options.conflicts
+      ? await ContextTools.buildConflictMatrix(deps, featureName, doneUnmergedTasks)
+      : null;
 
     let staleWarning: {
       count: number;
@@ -315,7 +411,26 @@ export class ContextTools {
       });
     const staleDispatches = staleDispatchEntries.length > 0 ? staleDispatchEntries : null;
 
-    const { runnable, blocked: blockedBy } = taskService.computeRunnableStatus(featureName);
+    const { runnable: locallyRunnable, blocked: blockedBy } = taskService.computeRunnableStatus(featureName);
+    const crossFeatureStates = collectCrossFeatureDependencies(featureName, {
+      featureService,
+      taskService,
+      integrationBranchEnabled: deps.integrationBranchEnabled,
+    });
+    const unsatisfiedCrossFeature = crossFeatureStates.filter((state) => !state.satisfied);
+    const featureLevelWaiting = unsatisfiedCrossFeature.some((state) => !state.declaredBy);
+    const waitingOnFeatures = tasks
+      .filter(
+        (task) =>
+          task.status === 'pending' &&
+          (featureLevelWaiting || unsatisfiedCrossFeature.some((state) => state.declaredBy === task.folder)),
+      )
+      .map((task) => task.folder);
+    const runnable = locallyRunnable.filter((folder) => !waitingOnFeatures.includes(folder));
+    const crossFeatureDependencies =
+      crossFeatureStates.length > 0
+        ? { waiting: unsatisfiedCrossFeature.length, waitingTasks: waitingOnFeatures, dependencies: crossFeatureStates }
+        : null;
     const triageByTask: Record<string, { summary: string; source: string }> = {};
     const triageDetailsByTask: Record<
       string,
@@ -359,6 +474,8 @@ export class ContextTools {
       workflowPath?: string,
       workflowRecommendation?: string,
       pendingPromotionTasks: string[] = [],
+      unmergedTasks: string[] = [],
+      waitingTasks: string[] = [],
     ): string => {
       if (pendingPromotionTasks.length > 0 && planStatus === 'draft') {
         return pendingPromotionTasks.length === 1
@@ -401,6 +518,9 @@ export class ContextTools {
       if (runnableTasks.length === 1) {
         return `Start next task with warcraft_worktree_create, then issue the returned task() call: ${runnableTasks[0]}`;
       }
+      if (waitingTasks.length > 0) {
+        return `Pending tasks wait on other features: ${waitingTasks.join(', ')}. Check crossFeatureDependencies for what must complete or merge first.`;
+      }
       const pending = taskList.find((t) => t.status === 'pending');
       if (pending) {
         return 'Pending tasks exist but are blocked by dependencies. Check blockedBy for details.';
@@ -412,6 +532,9 @@ export class ContextTools {
         const summary = nonTerminal.map((t) => `${t.folder} (${t.status})`).join(', ');
         return `Tasks need attention: ${summary}. Re-dispatch failed/partial tasks or resolve blocked tasks before completing.`;
       }
+      if (unmergedTasks.length > 0) {
+        return `${unmergedTasks.length} done task(s) not merged yet: ${unmergedTasks.join(', ')}. Use warcraft_merge_queue to merge them in dependency order.`;
+      }
       if (!planStatus || planStatus === 'draft') {
         return workflowPath === 'instant' || workflowRecommendation === 'instant'
           ? 'All instant-workflow tasks are complete. Review, merge, or complete the feature.'
@@ -500,16 +623,20 @@ export class ContextTools {
           ? buildApprovedPlanSyncFlow(taskSyncArgs)
           : null;
 
-    let trustMetrics: {
-      reopenRate: number;
-      totalCompleted: number;
-      reopenCount: number;
-      blockedMttrMs: number | null;
-    };
+    let trustMetrics: StatusHealth;
     try {
-      trustMetrics = computeTrustMetrics(projectRoot);
+      trustMetrics = computeTrustMetrics(projectRoot, { feature: featureName });
     } catch {
-      trustMetrics = { reopenRate: 0, totalCompleted: 0, reopenCount: 0, blockedMttrMs: null };
+      trustMetrics = {
+        reopenRate: 0,
+        totalCompleted: 0,
+        reopenCount: 0,
+        blockedMttrMs: null,
+        firstPassSuccessRate: 0,
+        meanAttemptsPerTask: null,
+        meanDispatchToCommitMs: null,
+        postMergeVerificationFailureRate: 0,
+      };
     }
 
     return {
@@ -531,6 +658,8 @@ export class ContextTools {
         pending: pendingTasks.length,
         inProgress: inProgressTasks.length,
         done: doneTasks.length,
+        doneUnmerged: doneUnmergedTasks,
+        conflictMatrix,
         list: tasksSummary,
         blockedFeature,
         runnable,
@@ -556,6 +685,7 @@ export class ContextTools {
           blockedTaskInsights: triageDetailsByTask,
         },
       },
+      crossFeatureDependencies,
       context: {
         fileCount: contextFiles.length,
         files: contextSummary,
@@ -567,6 +697,10 @@ export class ContextTools {
         totalCompleted: trustMetrics.totalCompleted,
         reopenCount: trustMetrics.reopenCount,
         blockedMttrMs: trustMetrics.blockedMttrMs,
+        firstPassSuccessRate: trustMetrics.firstPassSuccessRate,
+        meanAttemptsPerTask: trustMetrics.meanAttemptsPerTask,
+        meanDispatchToCommitMs: trustMetrics.meanDispatchToCommitMs,
+        postMergeVerificationFailureRate: trustMetrics.postMergeVerificationFailureRate,
       },
       planScaffold,
       planWriteArgs,
@@ -581,6 +715,8 @@ export class ContextTools {
         workflowPath,
         workflowRecommendation,
         pendingManualTasks.map((task) => task.folder),
+        doneUnmergedTasks,
+        waitingOnFeatures,
       ),
     };
   }
@@ -626,8 +762,12 @@ export class ContextTools {
         'Get comprehensive status of a feature including plan, tasks, and context. Returns JSON with all relevant state for resuming work.',
       args: {
         feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+        conflicts: tool.schema
+          .boolean()
+          .optional()
+          .describe('Also predict merge conflicts of done, unmerged tasks (tasks.conflictMatrix); runs git per task'),
       },
-      async execute({ feature: explicitFeature }) {
+      async execute({ feature: explicitFeature, conflicts }) {
         const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
         if (!resolution.ok) return toolError(resolution.error);
         const feature = resolution.feature;
@@ -639,7 +779,7 @@ export class ContextTools {
 
         const featureName = featureData.name;
         const blockedResult = checkBlocked(featureName);
-        const statusData = await ContextTools.buildStatusResponseData(deps, featureData, blockedResult);
+        const statusData = await ContextTools.buildStatusResponseData(deps, featureData, blockedResult, { conflicts });
 
         return toolSuccess(statusData);
       },
@@ -1,4 +1,13 @@
-import type { PlanService, TaskInfo, TaskService, TaskStatusType, WorktreeService } from 'warcraft-core';
+import type {
+  EventLogger,
+  PlanService,
+  TaskInfo,
+  TaskService,
+  TaskStatusType,
+  VerificationConfig,
+  VerificationModel,
+  WorktreeService,
+} from 'warcraft-core';
 import {
   DispatchCoordinator,
   type DispatchCoordinatorDeps,
@@ -56,11 +65,15 @@ export interface DispatchOneTaskServices {
   };
   checkBlocked: (feature: string) => BlockedResult;
   checkDependencies: (feature: string, taskFolder: string) => { allowed: boolean; error?: string };
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
+  /** Configured verification commands, surfaced to workers in the prompt. */
+  verification?: VerificationConfig;
   /** Feature-level reopen rate from trust metrics (0.0–1.0). Defaults to 0. */
   featureReopenRate?: number;
   /** Directory for per-task dispatch locks. If omitted, locks are skipped. */
   lockDir?: string;
+  /** Receives duplicate-dispatch and retry events. If omitted, nothing is logged. */
+  eventLogger?: EventLogger;
 }
 
 export interface DispatchOneTaskResult {
@@ -120,8 +133,10 @@ function toCoordinatorDeps(services: DispatchOneTaskServices): DispatchCoordinat
     checkBlocked: services.checkBlocked,
     checkDependencies: services.checkDependencies,
     verificationModel: services.verificationModel,
+    verification: services.verification,
     featureReopenRate: services.featureReopenRate,
     lockDir: services.lockDir,
+    eventLogger: services.eventLogger,
   };
 }
 
@@ -1,5 +1,8 @@
-import { describe, expect, it } from 'bun:test';
-import type { FeatureService, TaskService, WorktreeService } from 'warcraft-core';
+import { describe, expect, it, mock } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FeatureService, TaskService, VerificationConfig, WorktreeService } from 'warcraft-core';
 import { DoctorTools } from './doctor-tool.js';
 
 interface DiagnosticCheck {
@@ -33,6 +36,7 @@ function createMockTaskService(overrides: Partial<Record<string, unknown>> = {})
   return {
     list: () => [],
     getRawStatus: () => null,
+    recoverTransitions: () => null,
     ...overrides,
   } as unknown as TaskService;
 }
@@ -50,6 +54,8 @@ function createDoctorTools(overrides: Partial<Record<string, unknown>> = {}): Do
     taskService: createMockTaskService(overrides.taskService as Partial<Record<string, unknown>>),
     worktreeService: createMockWorktreeService(overrides.worktreeService as Partial<Record<string, unknown>>),
     checkBlocked: (overrides.checkBlocked as (feature: string) => { blocked: boolean }) ?? (() => ({ blocked: false })),
+    verification: overrides.verification as VerificationConfig | undefined,
+    projectRoot: overrides.projectRoot as string | undefined,
   });
 }
 
@@ -387,6 +393,153 @@ describe('DoctorTools', () => {
       expect(check!.message).toContain('orphan');
     });
 
+    it('reports cross-feature dependencies and how many are still waiting', async () => {
+      const features: Record<string, Record<string, unknown>> = {
+        'api-feature': { name: 'api-feature', status: 'completed', createdAt: '2025-01-01T00:00:00Z' },
+        'ui-feature': {
+          name: 'ui-feature',
+          status: 'executing',
+          createdAt: '2025-01-01T00:00:00Z',
+          dependsOn: ['api-feature'],
+        },
+      };
+      const result = await runDoctor({
+        featureService: { list: () => Object.keys(features), get: (name: string) => features[name] ?? null },
+        taskService: {
+          list: (feature: string) =>
+            feature === 'ui-feature' ? [{ folder: '01-ui', name: 'UI', status: 'pending', origin: 'plan' }] : [],
+          getRawStatus: (feature: string) =>
+            feature === 'ui-feature' ? { status: 'pending', crossFeatureDependsOn: ['docs-feature/01-guide'] } : null,
+        },
+      });
+
+      const check = result.data.checks.find((c) => c.name === 'cross_feature_dependencies');
+      expect(check!.status).toBe('warning');
+      expect(check!.message).toBe('1 missing cross-feature dependency and 0 dependency cycle(s) between features.');
+      expect(check!.details).toEqual({
+        missing: [
+          {
+            dependent: 'ui-feature',
+            ref: 'docs-feature/01-guide',
+            feature: 'docs-feature',
+            declaredBy: '01-ui',
+            satisfied: false,
+            status: 'missing',
+            reason: 'feature "docs-feature" does not exist',
+          },
+        ],
+        cycles: [],
+      });
+    });
+
+    it('warns about dependency cycles between features', async () => {
+      const features: Record<string, Record<string, unknown>> = {
+        'feature-a': {
+          name: 'feature-a',
+          status: 'executing',
+          createdAt: '2025-01-01T00:00:00Z',
+          dependsOn: ['feature-b'],
+        },
+        'feature-b': {
+          name: 'feature-b',
+          status: 'executing',
+          createdAt: '2025-01-01T00:00:00Z',
+          dependsOn: ['feature-a'],
+        },
+      };
+      const result = await runDoctor({
+        featureService: { list: () => Object.keys(features), get: (name: string) => features[name] ?? null },
+      });
+
+      const check = result.data.checks.find((c) => c.name === 'cross_feature_dependencies');
+      expect(check!.status).toBe('warning');
+      expect((check!.details as { cycles: string[] }).cycles).toEqual(['feature-a -> feature-b -> feature-a']);
+    });
+
+    it('reports satisfied cross-feature dependencies as ok', async () => {
+      const features: Record<string, Record<string, unknown>> = {
+        'api-feature': { name: 'api-feature', status: 'completed', createdAt: '2025-01-01T00:00:00Z' },
+        'ui-feature': {
+          name: 'ui-feature',
+          status: 'executing',
+          createdAt: '2025-01-01T00:00:00Z',
+          dependsOn: ['api-feature'],
+        },
+      };
+      const result = await runDoctor({
+        featureService: { list: () => Object.keys(features), get: (name: string) => features[name] ?? null },
+      });
+
+      const check = result.data.checks.find((c) => c.name === 'cross_feature_dependencies');
+      expect(check!.status).toBe('ok');
+      expect(check!.message).toBe('1 cross-feature dependency, 0 still waiting.');
+    });
+
+    it('replays unacknowledged journal transitions and warns about failures', async () => {
+      const recoverTransitions = mock(() => ({
+        pending: 2,
+        repaired: [{ seq: 1, beadId: 'bd-1', from: 'pending', to: 'in_progress', replayed: ['comment'] }],
+        failed: [{ seq: 2, beadId: 'bd-2', error: 'task bead has no task state' }],
+        compacted: 0,
+      }));
+      const result = await runDoctor({ taskService: { recoverTransitions } });
+
+      const check = result.data.checks.find((c) => c.name === 'transition_journal');
+      expect(recoverTransitions).toHaveBeenCalledTimes(1);
+      expect(check!.status).toBe('warning');
+      expect(check!.message).toBe('1 journaled transition(s) could not be replayed; 1 repaired.');
+    });
+
+    it('reports the transition journal as ok without a beads task store', async () => {
+      const result = await runDoctor();
+
+      const check = result.data.checks.find((c) => c.name === 'transition_journal');
+      expect(check!.status).toBe('ok');
+      expect(check!.message).toBe('No transition journal in use (filesystem task store).');
+    });
+
+    it('reports trust metrics for each feature with recorded work', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'doctor-trust-test-'));
+      try {
+        mkdirSync(join(dir, '.beads'));
+        const events = [
+          { type: 'dispatch', feature: 'test-feature', task: 't1', timestamp: '2025-01-01T00:00:00Z' },
+          { type: 'dispatch', feature: 'test-feature', task: 't1', timestamp: '2025-01-01T01:00:00Z' },
+          {
+            type: 'commit',
+            feature: 'test-feature',
+            task: 't1',
+            timestamp: '2025-01-01T01:30:00Z',
+            details: { status: 'completed' },
+          },
+          { type: 'dispatch', feature: 'other-feature', task: 't1', timestamp: '2025-01-01T00:00:00Z' },
+        ];
+        writeFileSync(join(dir, '.beads', 'events.jsonl'), `${events.map((e) => JSON.stringify(e)).join('\n')}\n`);
+
+        const result = await runDoctor({
+          projectRoot: dir,
+          featureService: { list: () => ['test-feature', 'idle-feature'] },
+        });
+
+        const check = result.data.checks.find((c) => c.name === 'trust_metrics');
+        expect(check!.status).toBe('ok');
+        expect(check!.message).toBe('Trust metrics for 1 feature(s) with recorded work.');
+        expect(check!.details).toEqual([
+          {
+            feature: 'test-feature',
+            reopenRate: 0,
+            firstPassSuccessRate: 0,
+            meanAttemptsPerTask: 2,
+            meanDispatchToCommitMs: 1_800_000,
+            blockedMttrMs: null,
+            postMergeVerificationFailureRate: 0,
+          },
+        ]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
     it('reports summary with correct issue count', async () => {
       const now = new Date();
       const twoMinutesAgo = new Date(now.getTime() - 120_000).toISOString();
@@ -477,5 +630,68 @@ describe('DoctorTools', () => {
       });
       expect(result.data.summary).toContain('1 issue');
     });
+
+    describe('verification_commands', () => {
+      function withProject(fn: (dir: string) => Promise<void>): Promise<void> {
+        const dir = mkdtempSync(join(tmpdir(), 'doctor-verify-test-'));
+        return fn(dir).finally(() => rmSync(dir, { recursive: true, force: true }));
+      }
+
+      it('reports detected commands for the project runtime', () =>
+        withProject(async (dir) => {
+          writeFileSync(join(dir, 'go.mod'), 'module example.com/app\n');
+
+          const result = await runDoctor({ projectRoot: dir });
+
+          const check = result.data.checks.find((c) => c.name === 'verification_commands');
+          expect(check!.status).toBe('ok');
+          expect(check!.message).toContain('runtime detection (go)');
+          expect((check!.details as Array<{ gate: string; command: string }>).map((c) => c.command)).toEqual([
+            'go build ./...',
+            'go test ./...',
+            'go vet ./...',
+          ]);
+        }));
+
+      it('reports configured commands with their source', () =>
+        withProject(async (dir) => {
+          const result = await runDoctor({
+            projectRoot: dir,
+            verification: { test: { command: 'make check', timeoutMs: 60_000 }, lint: { enabled: false } },
+          });
+
+          const check = result.data.checks.find((c) => c.name === 'verification_commands');
+          expect(check!.status).toBe('ok');
+          expect(check!.message).toContain('verification config');
+          expect(check!.details).toContainEqual({
+            gate: 'test',
+            command: 'make check',
+            cwd: dir,
+            timeoutMs: 60_000,
+            source: 'config',
+          });
+        }));
+
+      it('warns about package overrides and working directories that do not exist', () =>
+        withProject(async (dir) => {
+          mkdirSync(join(dir, 'packages', 'api'), { recursive: true });
+
+          const result = await runDoctor({
+            projectRoot: dir,
+            verification: {
+              build: { cwd: 'missing-dir' },
+              packages: { 'packages/api': {}, 'packages/web': {} },
+            },
+          });
+
+          const check = result.data.checks.find((c) => c.name === 'verification_commands');
+          expect(check!.status).toBe('warning');
+          expect((check!.details as { problems: string[] }).problems).toEqual([
+            'verification.build.cwd does not exist: missing-dir',
+            'verification.packages["packages/web"] does not exist',
+          ]);
+          expect(result.data.summary).toContain('1 issue');
+        }));
+    });
   });
 });
@@ -1,13 +1,29 @@
 import { type ToolDefinition, tool } from '@opencode-ai/plugin';
-import type { FeatureService, StaleWorktreeInfo, TaskService, TaskStatus, WorktreeService } from 'warcraft-core';
+import type {
+  CrossFeatureDependencyState,
+  FeatureService,
+  StaleWorktreeInfo,
+  TaskService,
+  TaskStatus,
+  VerificationConfig,
+  WorktreeService,
+} from 'warcraft-core';
+import { collectCrossFeatureDependencies, computeTrustMetrics, findCrossFeatureCycles } from 'warcraft-core';
 import type { BlockedResult } from '../types.js';
 import { toolSuccess } from '../types.js';
+import { detectRuntime, resolveVerificationCommands, validateVerificationConfig } from '../utils/runtime-commands.js';
 
 export interface DoctorToolsDependencies {
   featureService: FeatureService;
   taskService: TaskService;
   worktreeService: WorktreeService;
   checkBlocked: (feature: string) => BlockedResult;
+  /** Configured verification commands to report and validate. */
+  verification?: VerificationConfig;
+  /** Project root used to resolve verification commands. Defaults to process.cwd(). */
+  projectRoot?: string;
+  /** When set, cross-feature dependencies on merged work also wait for warcraft_feature_merge. */
+  integrationBranchEnabled?: boolean;
 }
 
 interface DiagnosticCheck {
@@ -48,14 +64,22 @@ export class DoctorTools {
 
   /**
    * Run diagnostic checks across all features and return structured results.
-   * Diagnoses only — never auto-fixes.
+   * Diagnoses only, except for replaying unacknowledged transition journal entries.
    */
   doctorTool(): ToolDefinition {
-    const { featureService, taskService, worktreeService, checkBlocked } = this.deps;
+    const {
+      featureService,
+      taskService,
+      worktreeService,
+      checkBlocked,
+      verification = {},
+      integrationBranchEnabled = false,
+    } = this.deps;
+    const projectRoot = this.deps.projectRoot ?? process.cwd();
 
     return tool({
       description:
-        'Run diagnostic checks on the warcraft system. Detects stuck tasks, stale worktrees, blocked features, and workspace mode details. Diagnoses only — never auto-fixes.',
+        'Run diagnostic checks on the warcraft system. Detects stuck tasks, stale worktrees, blocked features, broken or cyclic cross-feature dependencies, workspace mode details, per-feature trust metrics, and the verification commands in effect. Replays unacknowledged task transitions from the beads transition journal; otherwise diagnoses only — never auto-fixes.',
       args: {},
       async execute() {
         const checks: DiagnosticCheck[] = [];
@@ -331,6 +355,145 @@ export class DoctorTools {
               },
         );
 
+        const crossFeatureDependencies: Array<CrossFeatureDependencyState & { dependent: string }> = [];
+        let crossFeatureCycles: string[][] = [];
+        let crossFeatureFailure: string | null = null;
+        try {
+          const lookup = { featureService, taskService, integrationBranchEnabled };
+          for (const featureName of features) {
+            for (const state of collectCrossFeatureDependencies(featureName, lookup)) {
+              crossFeatureDependencies.push({ dependent: featureName, ...state });
+            }
+          }
+          crossFeatureCycles = featureInventoryFailure ? [] : findCrossFeatureCycles(lookup);
+        } catch (error) {
+          crossFeatureFailure = error instanceof Error ? error.message : String(error);
+        }
+        const brokenDependencies = crossFeatureDependencies.filter((dependency) => dependency.status === 'missing');
+        const waitingDependencies = crossFeatureDependencies.filter((dependency) => !dependency.satisfied);
+        checks.push(
+          crossFeatureFailure
+            ? {
+                name: 'cross_feature_dependencies',
+                status: 'warning',
+                message: `Failed to inspect cross-feature dependencies: ${crossFeatureFailure}`,
+              }
+            : brokenDependencies.length > 0 || crossFeatureCycles.length > 0
+              ? {
+                  name: 'cross_feature_dependencies',
+                  status: 'warning',
+                  message: `${brokenDependencies.length} missing cross-feature dependenc${brokenDependencies.length === 1 ? 'y' : 'ies'} and ${crossFeatureCycles.length} dependency cycle(s) between features.`,
+                  details: {
+                    missing: brokenDependencies,
+                    cycles: crossFeatureCycles.map((cycle) => cycle.join(' -> ')),
+                  },
+                }
+              : {
+                  name: 'cross_feature_dependencies',
+                  status: 'ok',
+                  message:
+                    crossFeatureDependencies.length === 0
+                      ? 'No cross-feature dependencies declared.'
+                      : `${crossFeatureDependencies.length} cross-feature dependenc${crossFeatureDependencies.length === 1 ? 'y' : 'ies'}, ${waitingDependencies.length} still waiting.`,
+                  ...(crossFeatureDependencies.length > 0 ? { details: crossFeatureDependencies } : {}),
+                },
+        );
+
+        // Trust metrics per feature, so one troubled feature is visible without skewing the others
+        try {
+          const featureMetrics = features.flatMap((featureName) => {
+            const metrics = computeTrustMetrics(projectRoot, { feature: featureName });
+            if (metrics.meanAttemptsPerTask === null && metrics.totalCompleted === 0) return [];
+            return [
+              {
+                feature: featureName,
+                reopenRate: metrics.reopenRate,
+                firstPassSuccessRate: metrics.firstPassSuccessRate,
+                meanAttemptsPerTask: metrics.meanAttemptsPerTask,
+                meanDispatchToCommitMs: metrics.meanDispatchToCommitMs,
+                blockedMttrMs: metrics.blockedMttrMs,
+                postMergeVerificationFailureRate: metrics.postMergeVerificationFailureRate,
+              },
+            ];
+          });
+          checks.push({
+            name: 'trust_metrics',
+            status: 'ok',
+            message:
+              featureMetrics.length === 0
+                ? 'No dispatches or completed tasks recorded in the event log.'
+                : `Trust metrics for ${featureMetrics.length} feature(s) with recorded work.`,
+            ...(featureMetrics.length > 0 ? { details: featureMetrics } : {}),
+          });
+        } catch (error) {
+          checks.push({
+            name: 'trust_metrics',
+            status: 'warning',
+            message: `Failed to compute trust metrics: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+
+        // Journal recovery is the one repair doctor performs: replaying a transition whose bead
+        // comment never landed is idempotent and restores what the task store already promised.
+        try {
+          const recovery = taskService.recoverTransitions();
+          if (!recovery) {
+            checks.push({
+              name: 'transition_journal',
+              status: 'ok',
+              message: 'No transition journal in use (filesystem task store).',
+            });
+          } else {
+            checks.push(
+              recovery.failed.length > 0
+                ? {
+                    name: 'transition_journal',
+                    status: 'warning',
+                    message: `${recovery.failed.length} journaled transition(s) could not be replayed; ${recovery.repaired.length} repaired.`,
+                    details: recovery,
+                  }
+                : {
+                    name: 'transition_journal',
+                    status: 'ok',
+                    message:
+                      recovery.repaired.length === 0
+                        ? 'All journaled transitions are acknowledged.'
+                        : `Replayed ${recovery.repaired.length} unacknowledged transition(s).`,
+                    ...(recovery.repaired.length > 0 || recovery.compacted > 0 ? { details: recovery } : {}),
+                  },
+            );
+          }
+        } catch (error) {
+          checks.push({
+            name: 'transition_journal',
+            status: 'warning',
+            message: `Failed to recover the transition journal: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+
+        const verificationProblems = validateVerificationConfig(projectRoot, verification);
+        const verificationCommands = resolveVerificationCommands(projectRoot, verification).map(
+          ({ gate, command, cwd, timeoutMs, source }) => ({ gate, command, cwd, timeoutMs, source }),
+        );
+        const commandSource = verificationCommands.some((c) => c.source === 'config')
+          ? 'verification config'
+          : `runtime detection (${detectRuntime(projectRoot)})`;
+        checks.push(
+          verificationProblems.length > 0
+            ? {
+                name: 'verification_commands',
+                status: 'warning',
+                message: `${verificationProblems.length} problem(s) in the verification config.`,
+                details: { problems: verificationProblems, commands: verificationCommands },
+              }
+            : {
+                name: 'verification_commands',
+                status: 'ok',
+                message: `${verificationCommands.length} verification command(s) resolved from ${commandSource}.`,
+                details: verificationCommands,
+              },
+        );
+
         const issueCount = checks.filter((c) => c.status !== 'ok').length;
         const summary =
           issueCount === 0
@@ -1,8 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
 import * as child_process from 'child_process';
 import * as fs from 'fs';
-import type { FeatureService } from 'warcraft-core';
-import { ok } from 'warcraft-core';
+import * as path from 'path';
+import type { FeatureService, PlanService, WarcraftEvent } from 'warcraft-core';
+import { degraded, diagnostic, ok } from 'warcraft-core';
 import { FeatureTools } from './feature-tools.js';
 
 const TEST_DIR = `/tmp/opencode-warcraft-feature-tools-test-${process.pid}`;
@@ -19,7 +20,7 @@ class MockFeatureService implements Partial<FeatureService> {
   private completeCallCount = 0;
   private patchCalls: Array<{ name: string; patch: Record<string, unknown> }> = [];
 
-  create(name: string, ticket?: string, priority?: number) {
+  create(name: string, ticket?: string, priority?: number, dependsOn: string[] = []) {
     this.createCallCount++;
     const epicBeadId = `epic-${this.createCallCount}`;
     this.features.set(name, { name, epicBeadId, priority });
@@ -29,6 +30,7 @@ class MockFeatureService implements Partial<FeatureService> {
       status: 'planning' as const,
       ticket,
       createdAt: new Date().toISOString(),
+      ...(dependsOn.length > 0 ? { dependsOn } : {}),
     });
   }
 
@@ -71,17 +73,30 @@ class MockFeatureService implements Partial<FeatureService> {
   }
 }
 
+class MockPlanService {
+  written: Array<{ feature: string; content: string }> = [];
+
+  write(feature: string, content: string) {
+    this.written.push({ feature, content });
+    return `/plans/${feature}/plan.md`;
+  }
+}
+
 describe('FeatureTools', () => {
   let execFileSyncSpy: ReturnType<typeof spyOn>;
   let mockFeatureService: MockFeatureService;
+  let mockPlanService: MockPlanService;
   let featureTools: FeatureTools;
 
   beforeEach(() => {
     cleanup();
     fs.mkdirSync(TEST_DIR, { recursive: true });
     mockFeatureService = new MockFeatureService();
+    mockPlanService = new MockPlanService();
     featureTools = new FeatureTools({
       featureService: mockFeatureService as unknown as FeatureService,
+      planService: mockPlanService as unknown as PlanService,
+      projectRoot: TEST_DIR,
     });
     execFileSyncSpy = spyOn(child_process, 'execFileSync').mockReturnValue('' as unknown as Buffer);
   });
@@ -127,7 +142,10 @@ describe('FeatureTools', () => {
             createdAt: new Date().toISOString(),
           }),
       } as unknown as FeatureService;
-      const tool = new FeatureTools({ featureService: canonicalFeatureService }).createFeatureTool();
+      const tool = new FeatureTools({
+        featureService: canonicalFeatureService,
+        planService: mockPlanService as unknown as PlanService,
+      }).createFeatureTool();
 
       const result = await tool.execute({
         name: 'User Provided Name',
@@ -223,6 +241,24 @@ describe('FeatureTools', () => {
       });
     });
 
+    it('weighs repository signals into the recommendation and reports the evidence', async () => {
+      fs.mkdirSync(path.join(TEST_DIR, 'src'), { recursive: true });
+      fs.writeFileSync(path.join(TEST_DIR, 'src', 'banner.ts'), '');
+
+      const raw = await featureTools.createFeatureTool().execute({
+        name: 'test-feature',
+        request: 'Fix the typo in src/banner.ts',
+      });
+      const parsed = JSON.parse(raw);
+
+      expect(parsed.data.recommendedWorkflowPath).toBe('instant');
+      expect(parsed.data.workflowConfidence).toBe(0.6);
+      expect(parsed.data.workflowRationale).toContain(
+        'Evidence: no tests found for src/banner.ts, so a direct change has no safety net.',
+      );
+      expect(parsed.data.message).toContain('**Recommended workflow:** instant (confidence 0.6)');
+    });
+
     it('returns a standard recommendation for broad cross-cutting requests', async () => {
       const tool = featureTools.createFeatureTool();
       const raw = await tool.execute({
@@ -238,6 +274,66 @@ describe('FeatureTools', () => {
       expect(parsed.data.recommendedWorkflowPath).toBe('standard');
       expect(parsed.data.message).toContain('**Recommended workflow:** standard');
     });
+
+    it('passes cross-feature dependencies to the service and reports them', async () => {
+      const raw = await featureTools
+        .createFeatureTool()
+        .execute({ name: 'checkout-ui', dependsOn: ['payments-api', 'auth/02-session-api'] });
+      const parsed = JSON.parse(raw);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data.dependsOn).toEqual(['payments-api', 'auth/02-session-api']);
+      expect(parsed.data.message).toContain(
+        'Its tasks wait for: payments-api, auth/02-session-api (features completed, tasks done and merged).',
+      );
+    });
+
+    it('omits dependency fields when the feature declares none', async () => {
+      const parsed = JSON.parse(await featureTools.createFeatureTool().execute({ name: 'checkout-ui' }));
+
+      expect(parsed.data.dependsOn).toBeUndefined();
+      expect(parsed.data.message).not.toContain('Its tasks wait for');
+    });
+
+    it('writes a draft plan from a builtin template', async () => {
+      const tool = featureTools.createFeatureTool();
+      const raw = await tool.execute({ name: 'fix-login', template: 'bugfix' });
+      const parsed = JSON.parse(raw);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data.templateSource).toBe('builtin');
+      expect(parsed.data.planPath).toBe('/plans/fix-login/plan.md');
+      expect(mockPlanService.written).toHaveLength(1);
+      expect(mockPlanService.written[0].content).toStartWith('# fix-login\n\nWorkflow Path: lightweight');
+      expect(mockFeatureService.getPatchCalls()).toContainEqual({
+        name: 'fix-login',
+        patch: { workflowPath: 'lightweight' },
+      });
+    });
+
+    it('prefers a project template from .opencode/warcraft/templates', async () => {
+      const templatesDir = path.join(TEST_DIR, '.opencode', 'warcraft', 'templates');
+      fs.mkdirSync(templatesDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(templatesDir, 'bugfix.md'),
+        '---\ndescription: Team bugfix\n---\n# {{feature}} (team)\n',
+      );
+
+      const raw = await featureTools.createFeatureTool().execute({ name: 'fix-login', template: 'bugfix' });
+
+      expect(JSON.parse(raw).data.templateSource).toBe(path.join(templatesDir, 'bugfix.md'));
+      expect(mockPlanService.written[0].content).toBe('# fix-login (team)\n');
+    });
+
+    it('rejects an unknown template before creating the feature', async () => {
+      const raw = await featureTools.createFeatureTool().execute({ name: 'fix-login', template: 'nope' });
+      const parsed = JSON.parse(raw);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('Unknown plan template: nope. Available: bugfix, new-endpoint');
+      expect(mockFeatureService.getCreateCallCount()).toBe(0);
+      expect(mockPlanService.written).toHaveLength(0);
+    });
   });
   describe('completeFeatureTool', () => {
     it('returns a tool error for invalid explicit feature input instead of throwing', async () => {
@@ -250,5 +346,31 @@ describe('FeatureTools', () => {
       expect(parsed.error).toContain('feature: Name cannot contain path separators');
       expect(mockFeatureService.getCompleteCallCount()).toBe(0);
     });
+
+    it('logs a degraded event for each side-effect that failed', async () => {
+      const events: WarcraftEvent[] = [];
+      const tool = new FeatureTools({
+        featureService: {
+          complete: (name: string) =>
+            degraded({ name, epicBeadId: 'epic-1', status: 'completed' as const, createdAt: '' }, [
+              diagnostic('epic_close_failed', 'Could not close epic bead'),
+            ]),
+        } as unknown as FeatureService,
+        planService: mockPlanService as unknown as PlanService,
+        eventLogger: { emit: (event) => events.push(event as WarcraftEvent) },
+      }).completeFeatureTool(() => 'auth');
+
+      const parsed = JSON.parse(await tool.execute({}));
+
+      expect(parsed.success).toBe(true);
+      expect(events).toEqual([
+        {
+          type: 'degraded',
+          feature: 'auth',
+          task: '',
+          details: { operation: 'feature_complete', code: 'epic_close_failed', message: 'Could not close epic bead' },
+        },
+      ]);
+    });
   });
 });
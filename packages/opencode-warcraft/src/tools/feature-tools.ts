@@ -1,11 +1,24 @@
 import { type ToolDefinition, tool } from '@opencode-ai/plugin';
-import type { FeatureService } from 'warcraft-core';
-import { analyzeWorkflowRequest, isUsable } from 'warcraft-core';
+import type { EventLogger, FeatureService, PlanService } from 'warcraft-core';
+import {
+  analyzeWorkflowRequest,
+  collectWorkflowSignals,
+  createNoopEventLogger,
+  detectWorkflowPath,
+  emitDegradedEvents,
+  isUsable,
+} from 'warcraft-core';
+import { loadPlanTemplate, renderPlanTemplate } from '../plan-templates/index.js';
 import { toolError, toolSuccess } from '../types.js';
 import { resolveFeatureInput } from './tool-input.js';
 
 export interface FeatureToolsDependencies {
   featureService: FeatureService;
+  planService: PlanService;
+  /** Root for project plan templates in `.opencode/warcraft/templates/`; defaults to the working directory. */
+  projectRoot?: string;
+  /** Receives `degraded` events for side-effects that failed. Defaults to a no-op logger. */
+  eventLogger?: EventLogger;
 }
 
 /**
@@ -19,9 +32,11 @@ export class FeatureTools {
    */
   createFeatureTool(): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
-    const { featureService } = this.deps;
+    const { featureService, planService } = this.deps;
+    const eventLogger = this.deps.eventLogger ?? createNoopEventLogger();
+    const projectRoot = this.deps.projectRoot ?? process.cwd();
     return tool({
-      description: 'Create a new feature',
+      description: 'Create a new feature, optionally with a draft plan.md from a named plan template',
       args: {
         name: tool.schema.string().describe('Feature name'),
         ticket: tool.schema.string().optional().describe('Ticket reference'),
@@ -30,32 +45,93 @@ export class FeatureTools {
           .optional()
           .describe('Optional user request/summary used to recommend instant vs lightweight vs standard workflow'),
         priority: tool.schema.number().optional().describe('Priority (1-5, default: 3)'),
+        template: tool.schema
+          .string()
+          .optional()
+          .describe(
+            'Plan template for the draft plan.md (bugfix, new-endpoint, refactor, migration, dependency-upgrade, or a project template)',
+          ),
+        dependsOn: tool.schema
+          .array(tool.schema.string())
+          .optional()
+          .describe(
+            'Other features this one waits for: "<feature>" (until completed) or "<feature>/<task-folder>" (until that task is merged)',
+          ),
       },
-      async execute({ name, ticket, request, priority }) {
+      async execute({ name, ticket, request, priority, template, dependsOn }) {
         const priorityValue = priority ?? 3;
         if (!Number.isInteger(priorityValue) || priorityValue < 1 || priorityValue > 5) {
           return toolError(`Priority must be an integer between 1 and 5 (inclusive), got: ${priorityValue}`);
         }
-        const outcome = featureService.create(name, ticket, priorityValue);
+        const loadedTemplate = template ? await loadPlanTemplate(template, projectRoot) : null;
+        if (loadedTemplate && (!loadedTemplate.found || !loadedTemplate.template)) {
+          return toolError(loadedTemplate.error ?? `Unknown plan template: ${template}`, [
+            'Pick one of the available plan templates, or create the feature without one.',
+          ]);
+        }
+        const outcome = featureService.create(name, ticket, priorityValue, dependsOn);
         if (!isUsable(outcome)) {
           return toolError(outcome.diagnostics.map((d) => d.message).join('; '));
         }
         const feature = outcome.value;
+        emitDegradedEvents(eventLogger, { feature: feature.name, operation: 'feature_create' }, outcome.diagnostics);
+        const featureDependsOn = feature.dependsOn ?? [];
+        const dependencyFields =
+          featureDependsOn.length > 0
+            ? {
+                dependsOn: featureDependsOn,
+                ...(outcome.diagnostics.length > 0 ? { diagnostics: outcome.diagnostics } : {}),
+              }
+            : {};
+        const dependencyNote =
+          featureDependsOn.length > 0
+            ? ` Its tasks wait for: ${featureDependsOn.join(', ')} (features completed, tasks done and merged).`
+            : '';
         const epicBeadId = (feature as { epicBeadId?: string }).epicBeadId;
-        const workflowAnalysis = request?.trim() ? analyzeWorkflowRequest(request) : null;
+        const workflowAnalysis = request?.trim()
+          ? analyzeWorkflowRequest(request, collectWorkflowSignals(request, projectRoot))
+          : null;
         const workflowRecommendation = workflowAnalysis?.workflowPath;
         if (workflowRecommendation) {
           featureService.patchMetadata(feature.name, { workflowRecommendation });
         }
+        let planPath: string | null = null;
+        if (loadedTemplate?.template) {
+          const planContent = renderPlanTemplate(loadedTemplate.template, feature.name);
+          planPath = planService.write(feature.name, planContent);
+          featureService.patchMetadata(feature.name, { workflowPath: detectWorkflowPath(planContent) });
+        }
         const workflowRecommendationBlock = workflowAnalysis
-          ? `\n## Recommended path for this request\n- **Recommended workflow:** ${workflowAnalysis.workflowPath}\n${workflowAnalysis.rationale
+          ? `\n## Recommended path for this request\n- **Recommended workflow:** ${workflowAnalysis.workflowPath} (confidence ${workflowAnalysis.confidence})\n${workflowAnalysis.rationale
               .map((line) => `- ${line}`)
               .join('\n')}\n`
           : '';
+        if (planPath) {
+          return toolSuccess({
+            recommendedWorkflowPath: workflowRecommendation,
+            workflowConfidence: workflowAnalysis?.confidence,
+            workflowRationale: workflowAnalysis?.rationale ?? [],
+            template,
+            templateSource: loadedTemplate?.source ?? null,
+            planPath,
+            ...dependencyFields,
+            message: `Feature "${feature.name}" created (epic: ${epicBeadId || 'unknown'}) with a draft plan from template "${template}" at ${planPath}.${dependencyNote}${workflowRecommendationBlock}
+## Fill in the template
+
+1. Ask clarifying questions and research the codebase
+2. Replace every \`[TODO: ...]\` placeholder in Discovery, Non-Goals, Ghost Diffs and the task skeletons; delete lines that do not apply
+3. Save the filled plan with warcraft_plan_write and check it with warcraft_plan_lint
+4. Check the \`## Plan Review Checklist\` items once they hold, then approve with warcraft_plan_approve
+
+NEXT: ask your first clarifying question.`,
+          });
+        }
         return toolSuccess({
           recommendedWorkflowPath: workflowRecommendation,
+          workflowConfidence: workflowAnalysis?.confidence,
           workflowRationale: workflowAnalysis?.rationale ?? [],
-          message: `Feature "${feature.name}" created (epic: ${epicBeadId || 'unknown'}).${workflowRecommendationBlock}
+          ...dependencyFields,
+          message: `Feature "${feature.name}" created (epic: ${epicBeadId || 'unknown'}).${dependencyNote}${workflowRecommendationBlock}
 ## Choose a workflow path
 
 ### Standard / beads-aligned path (default)
@@ -112,6 +188,7 @@ NEXT: either ask your first clarifying question or, for tiny well-scoped work, c
   completeFeatureTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
     const { featureService } = this.deps;
+    const eventLogger = this.deps.eventLogger ?? createNoopEventLogger();
     return tool({
       description: 'Mark feature as completed (may be auto-reopened if task statuses change)',
       args: {
@@ -125,6 +202,7 @@ NEXT: either ask your first clarifying question or, for tiny well-scoped work, c
         if (!isUsable(outcome)) {
           return toolError(outcome.diagnostics.map((d) => d.message).join('; '));
         }
+        emitDegradedEvents(eventLogger, { feature: featureName, operation: 'feature_complete' }, outcome.diagnostics);
         return toolSuccess({ message: `Feature "${featureName}" marked as completed` });
       },
     });
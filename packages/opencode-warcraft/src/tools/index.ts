@@ -11,8 +11,10 @@ export {
 export { DoctorTools, type DoctorToolsDependencies } from './doctor-tool.js';
 export { FeatureTools, type FeatureToolsDependencies } from './feature-tools.js';
 export { PlanTools, type PlanToolsDependencies } from './plan-tools.js';
+export { PrExportTools, type PrExportToolsDependencies } from './pr-export-tool.js';
 export { SkillTools, type SkillToolsDependencies } from './skill-tools.js';
 export { TaskTools, type TaskToolsDependencies } from './task-tools.js';
+export { TimelineTools, type TimelineToolsDependencies } from './timeline-tool.js';
 export type { FeatureResolution } from './tool-input.js';
 export { resolveFeatureInput, validatePathSegment, validateTaskInput } from './tool-input.js';
 export { WorktreeTools, type WorktreeToolsDependencies } from './worktree-tools.js';
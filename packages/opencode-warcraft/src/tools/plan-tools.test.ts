@@ -1,5 +1,8 @@
-import { describe, expect, it } from 'bun:test';
-import type { FeatureService, PlanService, TaskService } from 'warcraft-core';
+import { describe, expect, it, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStores, type FeatureService, FilesystemPlanStore, PlanService, TaskService } from 'warcraft-core';
 import { PlanTools } from './plan-tools.js';
 
 class MockPlanService implements Partial<PlanService> {
@@ -168,6 +171,56 @@ describe('PlanTools', () => {
     expect(planService.written).toHaveLength(0);
   });
 
+  it('rejects an invalid warcraft-tasks block with plan.md line numbers', async () => {
+    const planService = new MockPlanService();
+    const tool = new PlanTools({
+      featureService: {
+        get: () => ({ name: 'test-feature', workflowRecommendation: 'lightweight' }),
+      } as unknown as FeatureService,
+      planService: planService as unknown as PlanService,
+      taskService: { list: () => [] } as unknown as TaskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+    }).writePlanTool((name) => name ?? 'test-feature');
+    const content = [
+      '# test-feature',
+      '',
+      '## Discovery',
+      '',
+      'Impact: docs',
+      'Safety: low',
+      'Verify: tests',
+      'Rollback: revert',
+      '',
+      '```warcraft-tasks',
+      '{ "tasks": [',
+      '  { "order": 1, "title": "Setup", "dependsOn": [4] }',
+      '] }',
+      '```',
+      '',
+      '## Tasks',
+      '',
+      '### 1. Setup',
+      '',
+      'Install deps.',
+    ].join('\n');
+
+    const raw = await tool.execute({ feature: 'test-feature', content } as any, {} as any);
+    const parsed = JSON.parse(raw);
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toBe(
+      'Invalid warcraft-tasks block in plan.md:\n- line 12 (tasks[0].dependsOn): Task 1 depends on undeclared task 4.',
+    );
+    expect(parsed.data).toEqual({
+      blockedReason: 'plan_tasks_block_invalid',
+      issues: [{ line: 12, path: 'tasks[0].dependsOn', message: 'Task 1 depends on undeclared task 4.' }],
+      retryArgs: { feature: 'test-feature' },
+    });
+    expect(planService.written).toHaveLength(0);
+  });
+
   it('returns structured continuation metadata when useScaffold is requested but a draft already covers the manual work', async () => {
     const planService = new MockPlanService();
     const tool = new PlanTools({
@@ -657,3 +710,442 @@ describe('PlanTools', () => {
     ]);
   });
 });
+
+describe('PlanTools historyPlanTool', () => {
+  function createHistoryTool() {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-history-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: 'planning' }),
+    );
+    const planService = new PlanService(projectRoot, new FilesystemPlanStore(projectRoot), 'off');
+    const tool = new PlanTools({
+      featureService: {} as FeatureService,
+      planService,
+      taskService: { list: () => [] } as unknown as TaskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+    }).historyPlanTool((name) => name ?? 'test-feature');
+    return { projectRoot, planService, tool };
+  }
+
+  it('diffs the last approved revision against the current draft by default', async () => {
+    const { projectRoot, planService, tool } = createHistoryTool();
+    try {
+      planService.write('test-feature', '# Plan\n\n### 1. Setup\n', { agent: 'mimiron' });
+      planService.approve('test-feature', 'sess-1', undefined, 'khadgar');
+      planService.write('test-feature', '# Plan\n\n### 1. Setup\n### 2. Wire up\n', { agent: 'mimiron' });
+
+      const parsed = JSON.parse(await tool.execute({}, {} as any));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data.revisions).toHaveLength(2);
+      expect(parsed.data.revisions[0].approvedBy).toEqual({ agent: 'khadgar', sessionId: 'sess-1' });
+      expect(parsed.data.revisions[0].content).toBeUndefined();
+      expect(parsed.data.lastApprovedRevision).toBe(1);
+      expect(parsed.data.currentRevision).toBe(2);
+      expect(parsed.data.diff).toMatchObject({ from: 1, to: null, added: 1, removed: 0 });
+      expect(parsed.data.diff.diff).toContain('+### 2. Wire up');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects revisions that do not exist', async () => {
+    const { projectRoot, planService, tool } = createHistoryTool();
+    try {
+      planService.write('test-feature', '# Plan\n');
+
+      const parsed = JSON.parse(await tool.execute({ from: 1, to: 7 }, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('Cannot diff revision 1 against revision 7');
+      expect(parsed.hints).toEqual(['Known revisions: 1']);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PlanTools review comments', () => {
+  function createCommentTools() {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-comments-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: 'planning' }),
+    );
+    const planService = new PlanService(projectRoot, new FilesystemPlanStore(projectRoot), 'off');
+    const planTools = new PlanTools({
+      featureService: {} as FeatureService,
+      planService,
+      taskService: {
+        list: () => [],
+        previewSync: () => ({ created: [], removed: [], kept: [], reconciled: [], manual: [] }),
+      } as unknown as TaskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+    });
+    const resolveFeature = (name?: string) => name ?? 'test-feature';
+    return {
+      projectRoot,
+      planService,
+      read: planTools.readPlanTool(resolveFeature),
+      resolve: planTools.resolveCommentsPlanTool(resolveFeature),
+      approve: planTools.approvePlanTool(resolveFeature),
+    };
+  }
+
+  it('blocks approval until every review comment is resolved', async () => {
+    const { projectRoot, planService, read, resolve, approve } = createCommentTools();
+    try {
+      planService.write('test-feature', '# Plan\n\n### 1. Setup\n<!-- REVIEW @alice: Pin the version -->\n');
+
+      const readResult = JSON.parse(await read.execute({}, {} as any));
+      expect(readResult.data.comments).toEqual([
+        expect.objectContaining({ anchor: '1. Setup', author: 'alice', body: 'Pin the version', resolved: false }),
+      ]);
+      const commentId = readResult.data.comments[0].id;
+
+      const blocked = JSON.parse(await approve.execute({}, {} as any));
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toContain(`${commentId} under "1. Setup"`);
+      expect(blocked.data.blockedReason).toBe('unresolved_plan_comments');
+      expect(planService.read('test-feature')?.status).toBe('planning');
+
+      const resolved = JSON.parse(await resolve.execute({ ids: [commentId] }, { agent: 'mimiron' } as any));
+      expect(resolved.success).toBe(true);
+      expect(resolved.data).toMatchObject({ resolved: [commentId], unresolvedCount: 0 });
+
+      const approved = JSON.parse(await approve.execute({}, {} as any));
+      expect(approved.success).toBe(true);
+      expect(planService.read('test-feature')?.content).toContain('<!-- REVIEW @alice [resolved by mimiron]:');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects ids that match no comment', async () => {
+    const { projectRoot, planService, resolve } = createCommentTools();
+    try {
+      planService.write('test-feature', '# Plan\n');
+
+      const parsed = JSON.parse(await resolve.execute({ ids: ['c123456'] }, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toBe('No review comment matches c123456');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PlanTools lintPlanTool', () => {
+  function createLintTools() {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-lint-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: 'planning' }),
+    );
+    const planService = new PlanService(projectRoot, new FilesystemPlanStore(projectRoot), 'off');
+    const planTools = new PlanTools({
+      featureService: {} as FeatureService,
+      planService,
+      taskService: {
+        list: () => [],
+        previewSync: () => ({ created: [], removed: [], kept: [], reconciled: [], manual: [] }),
+      } as unknown as TaskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+    });
+    const resolveFeature = (name?: string) => name ?? 'test-feature';
+    return {
+      projectRoot,
+      planService,
+      lint: planTools.lintPlanTool(resolveFeature),
+      approve: planTools.approvePlanTool(resolveFeature),
+    };
+  }
+
+  it('lints draft content and returns every diagnostic with its lines', async () => {
+    const { projectRoot, planService, lint } = createLintTools();
+    try {
+      const content = '# Plan\n\n### 1. Setup\n\n**Depends on**: 4\n';
+
+      const parsed = JSON.parse(await lint.execute({ content }, {} as any));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data).toMatchObject({ ok: false, stage: 'draft', source: 'content', errorCount: 2 });
+      expect(parsed.data.diagnostics.map((d: { code: string; startLine: number }) => [d.code, d.startLine])).toEqual([
+        ['discovery_missing', 1],
+        ['task_files_missing', 3],
+        ['task_verify_missing', 3],
+        ['dependency_unknown', 5],
+        ['checklist_missing', 6],
+      ]);
+      expect(parsed.data.message).toContain('- line 5 [error] dependency_unknown: Task 1 depends on unknown task 4.');
+      expect(planService.read('test-feature')).toBeNull();
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('lints the stored plan when no content is given', async () => {
+    const { projectRoot, planService, lint } = createLintTools();
+    try {
+      const missing = JSON.parse(await lint.execute({}, {} as any));
+      expect(missing.success).toBe(false);
+      expect(missing.error).toBe('No plan.md found');
+
+      planService.write('test-feature', '# Plan\n');
+      const parsed = JSON.parse(await lint.execute({ stage: 'approval' }, {} as any));
+
+      expect(parsed.data).toMatchObject({ source: 'plan', stage: 'approval' });
+      expect(parsed.data.diagnostics).toContainEqual(
+        expect.objectContaining({ code: 'checklist_missing', severity: 'error' }),
+      );
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses approval while tasks would not sync', async () => {
+    const { projectRoot, planService, approve } = createLintTools();
+    try {
+      planService.write('test-feature', '# Plan\n\n### 1. Setup\n\n**Depends on**: 2\n\n### 2. Build\n');
+
+      const parsed = JSON.parse(await approve.execute({}, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('Cannot approve plan: tasks would not sync.');
+      expect(parsed.data.blockedReason).toBe('plan_lint_failed');
+      expect(parsed.data.diagnostics).toEqual([
+        expect.objectContaining({ code: 'dependency_cycle', startLine: 3, endLine: 7 }),
+      ]);
+      expect(planService.read('test-feature')?.status).toBe('planning');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PlanTools plan templates', () => {
+  function createTemplateTools() {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-templates-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: 'planning' }),
+    );
+    const planService = new PlanService(projectRoot, new FilesystemPlanStore(projectRoot), 'off');
+    const planTools = new PlanTools({
+      featureService: { get: () => ({ name: 'test-feature' }) } as unknown as FeatureService,
+      planService,
+      taskService: {
+        list: () => [],
+        previewSync: () => ({ created: [], removed: [], kept: [], reconciled: [], manual: [] }),
+      } as unknown as TaskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+      projectRoot,
+    });
+    const resolveFeature = (name?: string) => name ?? 'test-feature';
+    return {
+      projectRoot,
+      planService,
+      write: planTools.writePlanTool(resolveFeature),
+      approve: planTools.approvePlanTool(resolveFeature),
+    };
+  }
+
+  it('writes a named template as the draft plan', async () => {
+    const { projectRoot, planService, write } = createTemplateTools();
+    try {
+      const parsed = JSON.parse(await write.execute({ template: 'migration' }, {} as any));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data).toMatchObject({ template: 'migration', templateSource: 'builtin', workflowPath: 'standard' });
+      expect(parsed.data.message).toContain('from template "migration"');
+      expect(planService.read('test-feature')?.content).toStartWith('# test-feature\n\n## Discovery');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown templates and templates combined with content', async () => {
+    const { projectRoot, planService, write } = createTemplateTools();
+    try {
+      const unknown = JSON.parse(await write.execute({ template: 'nope' }, {} as any));
+      expect(unknown.success).toBe(false);
+      expect(unknown.data.blockedReason).toBe('plan_template_not_found');
+      expect(unknown.error).toContain('Available: bugfix, new-endpoint, refactor, migration, dependency-upgrade');
+
+      const both = JSON.parse(await write.execute({ template: 'bugfix', content: '# Plan' }, {} as any));
+      expect(both.success).toBe(false);
+      expect(both.error).toBe('Provide either content, useScaffold or template, not more than one.');
+      expect(planService.read('test-feature')).toBeNull();
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses approval while template placeholders are unfilled', async () => {
+    const { projectRoot, planService, write, approve } = createTemplateTools();
+    try {
+      await write.execute({ template: 'bugfix' }, {} as any);
+
+      const parsed = JSON.parse(await approve.execute({}, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.data.blockedReason).toBe('plan_template_placeholders_unfilled');
+      expect(parsed.data.diagnostics[0]).toMatchObject({ code: 'template_placeholder_unfilled', startLine: 8 });
+      expect(planService.read('test-feature')?.status).toBe('planning');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PlanTools amendPlanTool', () => {
+  const PLAN =
+    '# Plan\n\n## Discovery\n\nThe user asked for a build; the repo has no build step yet, so the plan installs dependencies first and builds after.\n\n## Tasks\n\n### 1. Setup\n\nInstall deps.\n\n### 2. Build\n\nBuild it.\n';
+
+  function createAmendTool(featureStatus = 'executing') {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-amend-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: featureStatus }),
+    );
+    const stores = createStores(projectRoot, 'off');
+    const planService = new PlanService(projectRoot, stores.planStore, 'off');
+    const taskService = new TaskService(projectRoot, stores.taskStore, 'off');
+    planService.write('test-feature', PLAN);
+    planService.approve('test-feature');
+    taskService.sync('test-feature');
+    taskService.update('test-feature', '01-setup', { status: 'in_progress' });
+    const tool = new PlanTools({
+      featureService: { get: () => ({ name: 'test-feature', status: featureStatus }) } as unknown as FeatureService,
+      planService,
+      taskService,
+      captureSession: () => {},
+      updateFeatureMetadata: () => {},
+      workflowGatesMode: 'warn',
+    }).amendPlanTool((name) => name ?? 'test-feature');
+    return { projectRoot, planService, taskService, tool };
+  }
+
+  it('previews without touching the plan, then applies and approves just the amendment', async () => {
+    const { projectRoot, planService, taskService, tool } = createAmendTool();
+    try {
+      const changes = [
+        { action: 'modify', task: 1, body: 'Install and lock deps.' },
+        { action: 'add', title: 'Deploy', body: 'Ship it.' },
+      ];
+
+      const preview = JSON.parse(await tool.execute({ changes }, {} as any));
+      expect(preview.success).toBe(true);
+      expect(preview.data).toMatchObject({
+        mode: 'preview',
+        added: ['03-deploy'],
+        activeTasksAffected: [{ folder: '01-setup', status: 'in_progress' }],
+        refused: [],
+      });
+      expect(preview.data.planDiff).toContain('+### 3. Deploy');
+      expect(planService.read('test-feature')?.content).toBe(PLAN);
+
+      const applied = JSON.parse(await tool.execute({ changes, mode: 'apply' }, { agent: 'khadgar' } as any));
+      expect(applied.success).toBe(true);
+      expect(applied.data.revision).toBe(2);
+      expect(planService.read('test-feature')?.status).toBe('approved');
+      expect(taskService.list('test-feature').map((task) => [task.folder, task.status])).toEqual([
+        ['01-setup', 'in_progress'],
+        ['02-build', 'pending'],
+        ['03-deploy', 'pending'],
+      ]);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to apply an amendment that would cancel running work', async () => {
+    const { projectRoot, planService, tool } = createAmendTool();
+    try {
+      const parsed = JSON.parse(
+        await tool.execute({ changes: [{ action: 'cancel', task: 1 }], mode: 'apply' }, {} as any),
+      );
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.data.blockedReason).toBe('plan_amendment_refused');
+      expect(parsed.error).toContain('stop it with warcraft_worktree_discard');
+      expect(planService.read('test-feature')?.content).toBe(PLAN);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to approve an amendment that fails the plan gates', async () => {
+    const { projectRoot, planService, taskService, tool } = createAmendTool();
+    try {
+      const changes = [{ action: 'add', title: 'Deploy', body: '[TODO: describe the deploy]' }];
+
+      const preview = JSON.parse(await tool.execute({ changes }, {} as any));
+      expect(preview.data.approvalBlockers).toHaveLength(1);
+      expect(preview.data.message).toContain('template_placeholder_unfilled');
+
+      const parsed = JSON.parse(await tool.execute({ changes, mode: 'apply' }, {} as any));
+      expect(parsed.success).toBe(false);
+      expect(parsed.data.blockedReason).toBe('plan_amendment_gates_failed');
+      expect(planService.read('test-feature')).toMatchObject({ content: PLAN, status: 'approved' });
+      expect(taskService.list('test-feature')).toHaveLength(2);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('restores the approved plan when the tasks cannot be updated', async () => {
+    const { projectRoot, planService, taskService, tool } = createAmendTool();
+    try {
+      spyOn(taskService, 'applyAmendment').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      const parsed = JSON.parse(
+        await tool.execute(
+          { changes: [{ action: 'add', title: 'Deploy', body: 'Ship it.' }], mode: 'apply' },
+          {} as any,
+        ),
+      );
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('previously approved plan was restored: disk full');
+      expect(planService.read('test-feature')).toMatchObject({ content: PLAN, status: 'approved' });
+      expect(planService.getLastApprovedRevision('test-feature')?.content).toBe(PLAN);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('requires an executing feature', async () => {
+    const { projectRoot, tool } = createAmendTool('planning');
+    try {
+      const parsed = JSON.parse(await tool.execute({ changes: [{ action: 'cancel', task: 2 }] }, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('is not executing');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
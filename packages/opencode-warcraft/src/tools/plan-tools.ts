@@ -1,11 +1,21 @@
 import { type ToolDefinition, tool } from '@opencode-ai/plugin';
-import type { FeatureService, PlanService, TaskService } from 'warcraft-core';
+import type { EventLogger, FeatureService, PlanAmendmentChange, PlanService, TaskService } from 'warcraft-core';
 import {
+  amendPlanContent,
+  createNoopEventLogger,
   detectWorkflowPath,
+  diffLines,
+  emitDegradedEvents,
+  formatPlanLintDiagnostics,
   formatPlanReviewChecklistIssues,
+  formatPlanTasksBlockIssues,
+  lintPlan,
+  parsePlanComments,
+  parsePlanTasksBlock,
   validateDiscoverySection,
   validatePlanReviewChecklist,
 } from 'warcraft-core';
+import { loadPlanTemplate, renderPlanTemplate } from '../plan-templates/index.js';
 import type { ToolContext } from '../types.js';
 import { toolError, toolSuccess } from '../types.js';
 import { buildPlanScaffold } from './manual-plan-scaffold.js';
@@ -30,10 +40,46 @@ export interface PlanToolsDependencies {
     },
   ) => void;
   workflowGatesMode: 'enforce' | 'warn';
+  /** Root for project plan templates in `.opencode/warcraft/templates/`; defaults to the working directory. */
+  projectRoot?: string;
+  /** Receives `degraded` events for side-effects that failed. Defaults to a no-op logger. */
+  eventLogger?: EventLogger;
 }
 
 /**
- * Plan domain tools - Write, read, and approve plans
+ * Reasons the plan gates would refuse to approve `content`: discovery, unresolved review comments,
+ * the review checklist (when enforced) and approval-stage lint errors. Amendments approve the plan
+ * on the agent's behalf, so they are held to the same gates as warcraft_plan_write and warcraft_plan_approve.
+ */
+function findApprovalBlockers(content: string, workflowGatesMode: 'enforce' | 'warn'): string[] {
+  const blockers: string[] = [];
+  const discoveryError = validateDiscoverySection(content);
+  if (discoveryError) {
+    blockers.push(discoveryError.split('\n')[0]);
+  }
+  const unresolvedComments = parsePlanComments(content).filter((comment) => !comment.resolved);
+  if (unresolvedComments.length > 0) {
+    blockers.push(
+      `${unresolvedComments.length} unresolved review comment(s): ${unresolvedComments.map((comment) => comment.id).join(', ')}.`,
+    );
+  }
+  const checklistResult = validatePlanReviewChecklist(content);
+  if (!checklistResult.ok && workflowGatesMode === 'enforce') {
+    blockers.push(formatPlanReviewChecklistIssues(checklistResult.issues));
+  }
+  const lintErrors = lintPlan(content, { stage: 'approval' }).diagnostics.filter(
+    (diagnostic) =>
+      diagnostic.code === 'template_placeholder_unfilled' ||
+      (diagnostic.severity === 'error' && diagnostic.category === 'structure'),
+  );
+  if (lintErrors.length > 0) {
+    blockers.push(formatPlanLintDiagnostics(lintErrors));
+  }
+  return blockers;
+}
+
+/**
+ * Plan domain tools - Write, read, approve, amend, resolve review comments on, and review the history of plans
  */
 export class PlanTools {
   constructor(private readonly deps: PlanToolsDependencies) {}
@@ -44,8 +90,10 @@ export class PlanTools {
   writePlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
     const { captureSession, featureService, planService, taskService, updateFeatureMetadata } = this.deps;
+    const projectRoot = this.deps.projectRoot ?? process.cwd();
     return tool({
-      description: 'Write plan.md for the feature',
+      description:
+        'Write plan.md for the feature, from content or a named plan template. An optional ```warcraft-tasks JSON block declaring tasks is validated, with errors reported by line.',
       args: {
         content: tool.schema.string().optional().describe('Plan markdown content'),
         useScaffold: tool.schema
@@ -54,9 +102,15 @@ export class PlanTools {
           .describe(
             'When true, build plan content from pending manual-task briefs instead of requiring explicit markdown.',
           ),
+        template: tool.schema
+          .string()
+          .optional()
+          .describe(
+            'Plan template to write instead of content (bugfix, new-endpoint, refactor, migration, dependency-upgrade, or a project template)',
+          ),
         feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
       },
-      async execute({ content, useScaffold, feature: explicitFeature }, toolContext: ToolContext) {
+      async execute({ content, useScaffold, template, feature: explicitFeature }, toolContext: ToolContext) {
         const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
         if (!resolution.ok) return toolError(resolution.error);
         const feature = resolution.feature;
@@ -65,6 +119,23 @@ export class PlanTools {
         let scaffoldMode: 'lightweight' | 'standard' | null = null;
         let generatedFromManualTasks = false;
         let sourceTaskCount = 0;
+        let templateSource: string | null = null;
+
+        if (template) {
+          if (planContent || useScaffold) {
+            return toolError('Provide either content, useScaffold or template, not more than one.');
+          }
+          const loaded = await loadPlanTemplate(template, projectRoot);
+          if (!loaded.found || !loaded.template) {
+            return toolError(
+              loaded.error ?? `Unknown plan template: ${template}`,
+              ['Pick one of the available plan templates, or pass plan content instead.'],
+              { data: { blockedReason: 'plan_template_not_found', retryArgs: { feature } } },
+            );
+          }
+          planContent = renderPlanTemplate(loaded.template, feature);
+          templateSource = loaded.source ?? null;
+        }
 
         if (!planContent) {
           const featureData = featureService.get(feature);
@@ -204,8 +275,37 @@ export class PlanTools {
           );
         }
 
+        const tasksBlock = parsePlanTasksBlock(planContent);
+        if (tasksBlock.issues.length > 0) {
+          return toolError(
+            formatPlanTasksBlockIssues(tasksBlock.issues),
+            [
+              'Fix the listed lines of the `warcraft-tasks` block and retry warcraft_plan_write.',
+              'Every declared task needs a matching `### N. Title` section, and every section needs a declaration.',
+            ],
+            {
+              data: {
+                blockedReason: 'plan_tasks_block_invalid',
+                issues: tasksBlock.issues,
+                retryArgs: { feature },
+              },
+              warnings: [
+                {
+                  type: 'plan_tasks_block_invalid',
+                  severity: 'error',
+                  message: 'The warcraft-tasks block does not match its schema or the plan headings.',
+                  count: tasksBlock.issues.length,
+                },
+              ],
+            },
+          );
+        }
+
         captureSession(feature, toolContext);
-        const planPath = planService.write(feature, planContent);
+        const planPath = planService.write(feature, planContent, {
+          ...(toolContext?.agent ? { agent: toolContext.agent } : {}),
+          ...(toolContext?.sessionID ? { sessionId: toolContext.sessionID } : {}),
+        });
         const workflowPath = detectWorkflowPath(planContent);
         updateFeatureMetadata(feature, {
           workflowPath,
@@ -226,6 +326,8 @@ export class PlanTools {
           generatedFromManualTasks,
           sourceTaskCount,
           planScaffoldMode: generatedFromManualTasks ? scaffoldMode : null,
+          template: templateSource ? template : null,
+          templateSource,
           content: planContent,
           planApproveArgs,
           taskSyncArgs,
@@ -234,20 +336,23 @@ export class PlanTools {
           promotionFlow: taskExpandArgs
             ? buildPendingManualPromotionFlow(taskExpandArgs, { feature }, { feature, mode: 'sync' })
             : buildDraftPlanPromotionFlow({ feature }, { feature, mode: 'sync' }),
-          message: `Plan written to ${planPath}.`,
+          message: templateSource
+            ? `Plan written to ${planPath} from template "${template}". Replace every \`[TODO: ...]\` placeholder and check the review checklist before approval.`
+            : `Plan written to ${planPath}.`,
         });
       },
     });
   }
 
   /**
-   * Read plan.md content and approval status
+   * Read plan.md content, approval status and inline review comments
    */
   readPlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
     const { captureSession, planService, taskService } = this.deps;
     return tool({
-      description: 'Read plan.md content and approval status',
+      description:
+        'Read plan.md content, approval status and inline review comments (`<!-- REVIEW @author: ... -->`) with their anchor heading and resolved state',
       args: {
         feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
       },
@@ -294,12 +399,332 @@ export class PlanTools {
     });
   }
 
+  /**
+   * Lint a draft or the stored plan, returning every diagnostic at once
+   */
+  lintPlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    // Capture deps in closure to avoid 'this' binding issues
+    const { planService } = this.deps;
+    return tool({
+      description:
+        'Lint plan content before writing it, or the stored plan.md before approval. Returns every diagnostic with code, severity, line range and fix.',
+      args: {
+        content: tool.schema.string().optional().describe('Draft plan markdown to lint instead of the stored plan.md'),
+        stage: tool.schema
+          .enum(['draft', 'approval'])
+          .optional()
+          .describe('draft (default) treats the review checklist as advisory; approval requires it'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+      },
+      async execute({ content, stage, feature: explicitFeature }) {
+        let planContent = content;
+        if (planContent === undefined) {
+          const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+          if (!resolution.ok) return toolError(resolution.error);
+          planContent = planService.read(resolution.feature)?.content;
+          if (planContent === undefined) {
+            return toolError('No plan.md found', ['Pass draft content to lint it before warcraft_plan_write.']);
+          }
+        }
+
+        const result = lintPlan(planContent, { stage: stage ?? 'draft' });
+        const counts = `${result.errorCount} error(s), ${result.warningCount} warning(s)`;
+        return toolSuccess({
+          ...result,
+          source: content === undefined ? 'plan' : 'content',
+          message:
+            result.diagnostics.length === 0
+              ? 'Plan lint passed with no diagnostics.'
+              : `Plan lint found ${counts}:\n${formatPlanLintDiagnostics(result.diagnostics)}`,
+        });
+      },
+    });
+  }
+
+  /**
+   * List plan revisions and diff them, by default the last approved revision against the current draft
+   */
+  historyPlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    // Capture deps in closure to avoid 'this' binding issues
+    const { planService } = this.deps;
+    return tool({
+      description:
+        'List plan revisions with writer, approver and timestamps, and diff two of them. Without from/to, diffs the last approved revision against the current draft.',
+      args: {
+        from: tool.schema.number().int().optional().describe('Revision to diff from'),
+        to: tool.schema.number().int().optional().describe('Revision to diff to (defaults to the current plan.md)'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+      },
+      async execute({ from, to, feature: explicitFeature }) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+        if (to !== undefined && from === undefined) {
+          return toolError('Pass from together with to.');
+        }
+
+        const revisions = planService.listRevisions(feature);
+        if (revisions.length === 0) {
+          return toolError(`No plan revisions recorded for feature "${feature}"`, [
+            'Revisions are recorded by warcraft_plan_write and warcraft_plan_approve.',
+          ]);
+        }
+
+        const current = planService.read(feature);
+        const lastApproved = planService.getLastApprovedRevision(feature);
+        const currentRevision =
+          [...revisions].reverse().find((revision) => revision.content === current?.content)?.revision ?? null;
+
+        let diff: ReturnType<PlanService['diffRevisions']> = null;
+        if (from !== undefined) {
+          diff = planService.diffRevisions(feature, from, to);
+          if (!diff) {
+            return toolError(
+              `Cannot diff revision ${from} against ${to === undefined ? 'the current plan' : `revision ${to}`}`,
+              [`Known revisions: ${revisions.map((revision) => revision.revision).join(', ')}`],
+            );
+          }
+        } else if (lastApproved && current && current.content !== lastApproved.content) {
+          diff = planService.diffRevisions(feature, lastApproved.revision);
+        }
+
+        let message: string;
+        if (diff) {
+          const target = diff.to === null ? 'the current draft' : `revision ${diff.to}`;
+          message = `Revision ${diff.from} → ${target}: +${diff.added}/-${diff.removed} line(s).`;
+        } else if (lastApproved) {
+          message = `The current plan matches approved revision ${lastApproved.revision}.`;
+        } else {
+          message = `${revisions.length} revision(s); none approved yet.`;
+        }
+
+        return toolSuccess({
+          revisions: revisions.map(({ content, ...revision }) => ({ ...revision, lines: content.split('\n').length })),
+          currentRevision,
+          lastApprovedRevision: lastApproved?.revision ?? null,
+          status: current?.status ?? null,
+          diff,
+          message,
+        });
+      },
+    });
+  }
+
+  /**
+   * Mark inline review comments on plan.md resolved
+   */
+  resolveCommentsPlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    // Capture deps in closure to avoid 'this' binding issues
+    const { captureSession, planService } = this.deps;
+    return tool({
+      description:
+        'Mark inline review comments on plan.md resolved after addressing them. Ids come from warcraft_plan_read; the comment text stays in the plan with a [resolved] marker.',
+      args: {
+        ids: tool.schema.array(tool.schema.string()).min(1).describe('Comment ids from warcraft_plan_read'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+      },
+      async execute({ ids, feature: explicitFeature }, toolContext: ToolContext) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+        captureSession(feature, toolContext);
+
+        const result = planService.resolveComments(feature, ids, {
+          ...(toolContext?.agent ? { agent: toolContext.agent } : {}),
+          ...(toolContext?.sessionID ? { sessionId: toolContext.sessionID } : {}),
+        });
+        if (!result) return toolError('No plan.md found');
+        if (result.notFound.length > 0 && result.resolved.length === 0) {
+          return toolError(`No review comment matches ${result.notFound.join(', ')}`, [
+            'Re-read the plan with warcraft_plan_read to get current comment ids.',
+          ]);
+        }
+
+        const unresolved = planService.read(feature)?.comments?.filter((comment) => !comment.resolved) ?? [];
+        return toolSuccess({
+          ...result,
+          unresolvedCount: unresolved.length,
+          message:
+            unresolved.length === 0
+              ? `Resolved ${result.resolved.length} comment(s). No unresolved comments remain.`
+              : `Resolved ${result.resolved.length} comment(s). ${unresolved.length} unresolved comment(s) remain.`,
+        });
+      },
+    });
+  }
+
+  /**
+   * Amend specific tasks of an executing feature's approved plan
+   */
+  amendPlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    // Capture deps in closure to avoid 'this' binding issues
+    const { captureSession, featureService, planService, taskService, workflowGatesMode } = this.deps;
+    const eventLogger = this.deps.eventLogger ?? createNoopEventLogger();
+    return tool({
+      description:
+        'Amend the approved plan of an executing feature: add, modify or cancel specific `### N.` tasks. preview (default) shows the plan diff and which tasks and specs are affected; apply writes and approves just the amendment and updates only the affected tasks, keeping done and in-progress tasks and their worktrees.',
+      args: {
+        changes: tool.schema
+          .array(
+            tool.schema.object({
+              action: tool.schema.enum(['add', 'modify', 'cancel']).describe('What to do with the task'),
+              task: tool.schema.number().int().optional().describe('Task number (### N.) to modify or cancel'),
+              title: tool.schema
+                .string()
+                .optional()
+                .describe('Title of an added task, or a new title for a pending task being modified'),
+              body: tool.schema
+                .string()
+                .optional()
+                .describe('Task section body (Depends on, Files, What, Verify) for add and modify'),
+              reason: tool.schema.string().optional().describe('Why the task is cancelled'),
+            }),
+          )
+          .min(1)
+          .describe('Changes to apply, in order'),
+        mode: tool.schema
+          .enum(['preview', 'apply'])
+          .optional()
+          .default('preview')
+          .describe('preview (default): show the impact. apply: write, approve and sync the amendment.'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+      },
+      async execute({ changes: rawChanges, mode = 'preview', feature: explicitFeature }, toolContext: ToolContext) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+        captureSession(feature, toolContext);
+
+        if (featureService.get(feature)?.status !== 'executing') {
+          return toolError(`Feature "${feature}" is not executing; amendments change the tasks of a running plan.`, [
+            'Before tasks are synced, revise the plan with warcraft_plan_write and approve it again.',
+          ]);
+        }
+        const planResult = planService.read(feature);
+        if (!planResult) return toolError('No plan.md found');
+        if (planResult.status !== 'approved') {
+          return toolError('plan.md has edits that are not approved; an amendment applies to the approved plan.', [
+            'Compare the edits with warcraft_plan_history, then approve them with warcraft_plan_approve or revert them.',
+          ]);
+        }
+
+        const changes: PlanAmendmentChange[] = [];
+        for (const change of rawChanges) {
+          if (change.action === 'add') {
+            if (!change.title || !change.body) return toolError('add changes need a title and a body.');
+            changes.push({ action: 'add', title: change.title, body: change.body });
+          } else if (change.task === undefined) {
+            return toolError(`${change.action} changes need the task number.`);
+          } else if (change.action === 'modify') {
+            if (!change.body) return toolError('modify changes need a body.');
+            changes.push({ action: 'modify', task: change.task, title: change.title, body: change.body });
+          } else {
+            changes.push({ action: 'cancel', task: change.task, reason: change.reason });
+          }
+        }
+
+        let amendment: ReturnType<typeof amendPlanContent>;
+        let impact: ReturnType<TaskService['previewAmendment']>;
+        try {
+          amendment = amendPlanContent(planResult.content, changes);
+          impact = taskService.previewAmendment(feature, amendment);
+        } catch (error) {
+          return toolError(error instanceof Error ? error.message : String(error));
+        }
+
+        const approvalBlockers = findApprovalBlockers(amendment.content, workflowGatesMode);
+        const activeNote =
+          impact.activeTasksAffected.length > 0
+            ? ` Already dispatched: ${impact.activeTasksAffected.map((task) => `${task.folder} (${task.status})`).join(', ')}; their workers still follow the previous spec.`
+            : '';
+
+        if (mode === 'preview') {
+          const planDiff = diffLines(planResult.content, amendment.content, {
+            oldLabel: 'plan.md (approved)',
+            newLabel: 'plan.md (amended)',
+          });
+          return toolSuccess({
+            mode,
+            feature,
+            ...impact,
+            approvalBlockers,
+            planDiff: planDiff.diff,
+            message:
+              impact.refused.length > 0
+                ? `Amendment would be refused: ${impact.refused.join(' ')}`
+                : approvalBlockers.length > 0
+                  ? `Amended plan could not be approved:\n${approvalBlockers.join('\n')}`
+                  : `Preview: ${impact.added.length} added, ${impact.modified.length} modified, ${impact.cancelled.length} cancelled, ${impact.specsRegenerated.length} spec(s) regenerated.${activeNote} Use mode "apply" once the user approves the amendment.`,
+          });
+        }
+
+        if (impact.refused.length > 0) {
+          return toolError(
+            `Plan amendment refused: ${impact.refused.join(' ')}`,
+            ['Adjust the changes and preview the amendment again.'],
+            { data: { blockedReason: 'plan_amendment_refused', refused: impact.refused } },
+          );
+        }
+        if (approvalBlockers.length > 0) {
+          return toolError(
+            `Cannot approve the amended plan:\n${approvalBlockers.join('\n')}`,
+            [
+              'Adjust the changes so the added and modified tasks pass the plan gates, then preview the amendment again.',
+              'Problems already in the approved plan must be fixed with warcraft_plan_write and warcraft_plan_approve first.',
+            ],
+            { data: { blockedReason: 'plan_amendment_gates_failed', approvalBlockers } },
+          );
+        }
+
+        const actor = {
+          ...(toolContext?.agent ? { agent: toolContext.agent } : {}),
+          ...(toolContext?.sessionID ? { sessionId: toolContext.sessionID } : {}),
+        };
+        // Put the previously approved plan back so no approved plan is left that the tasks do not follow.
+        const restoreApprovedPlan = () => {
+          planService.write(feature, planResult.content, actor);
+          planService.approve(feature, toolContext?.sessionID, planResult.content, toolContext?.agent);
+        };
+        planService.write(feature, amendment.content, actor);
+        const approveOutcome = planService.approve(
+          feature,
+          toolContext?.sessionID,
+          amendment.content,
+          toolContext?.agent,
+        );
+        if (approveOutcome.severity === 'fatal') {
+          restoreApprovedPlan();
+          return toolError(approveOutcome.diagnostics.map((d) => d.message).join('; '));
+        }
+        emitDegradedEvents(eventLogger, { feature, operation: 'plan_approve' }, approveOutcome.diagnostics);
+        try {
+          impact = taskService.applyAmendment(feature, amendment);
+        } catch (error) {
+          restoreApprovedPlan();
+          return toolError(
+            `Plan amendment failed and the previously approved plan was restored: ${error instanceof Error ? error.message : String(error)}`,
+            ['Run warcraft_tasks_sync to bring any partly updated tasks back in line with the plan.'],
+          );
+        }
+
+        return toolSuccess({
+          mode,
+          feature,
+          ...impact,
+          revision: planService.getLastApprovedRevision(feature)?.revision ?? null,
+          message: `Plan amended: ${impact.added.length} added, ${impact.modified.length} modified, ${impact.cancelled.length} cancelled.${activeNote}`,
+        });
+      },
+    });
+  }
+
   /**
    * Approve plan for execution
    */
   approvePlanTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
     const { captureSession, planService, taskService, updateFeatureMetadata, workflowGatesMode } = this.deps;
+    const eventLogger = this.deps.eventLogger ?? createNoopEventLogger();
     return tool({
       description: 'Approve plan for execution',
       args: {
@@ -354,6 +779,34 @@ export class PlanTools {
           return toolError('No plan.md found');
         }
 
+        const unresolvedComments = (planResult.comments ?? []).filter((comment) => !comment.resolved);
+        if (unresolvedComments.length > 0) {
+          return toolError(
+            `Cannot approve plan: ${unresolvedComments.length} unresolved review comment(s) (${unresolvedComments
+              .map((comment) => `${comment.id} under "${comment.anchor ?? 'top of plan'}"`)
+              .join(', ')}).`,
+            [
+              'Address each comment in the plan with warcraft_plan_write, then mark it with warcraft_plan_resolve_comments.',
+              'After every comment is resolved, retry warcraft_plan_approve.',
+            ],
+            {
+              data: {
+                blockedReason: 'unresolved_plan_comments',
+                unresolvedComments,
+                retryArgs: { feature },
+              },
+              warnings: [
+                {
+                  type: 'unresolved_plan_comments',
+                  severity: 'error',
+                  message: 'Reviewers left comments on the plan that have not been resolved.',
+                  count: unresolvedComments.length,
+                },
+              ],
+            },
+          );
+        }
+
         const checklistResult = validatePlanReviewChecklist(planResult.content);
         if (!checklistResult.ok && workflowGatesMode === 'enforce') {
           return toolError(
@@ -381,6 +834,65 @@ export class PlanTools {
           );
         }
 
+        const approvalLint = lintPlan(planResult.content, { stage: 'approval' });
+        const unfilledPlaceholders = approvalLint.diagnostics.filter(
+          (diagnostic) => diagnostic.code === 'template_placeholder_unfilled',
+        );
+        if (unfilledPlaceholders.length > 0) {
+          return toolError(
+            `Cannot approve plan: ${unfilledPlaceholders.length} plan template placeholder(s) are not filled in.\n${formatPlanLintDiagnostics(unfilledPlaceholders)}`,
+            [
+              'Replace every `[TODO: ...]` placeholder with real content, or delete lines that do not apply, using warcraft_plan_write.',
+              'After revising the plan, retry warcraft_plan_approve.',
+            ],
+            {
+              data: {
+                blockedReason: 'plan_template_placeholders_unfilled',
+                diagnostics: unfilledPlaceholders,
+                planLintArgs: { feature, stage: 'approval' as const },
+                retryArgs: { feature },
+              },
+              warnings: [
+                {
+                  type: 'plan_template_placeholders_unfilled',
+                  severity: 'error',
+                  message: 'The plan still contains placeholders from its plan template.',
+                  count: unfilledPlaceholders.length,
+                },
+              ],
+            },
+          );
+        }
+
+        const structuralErrors = approvalLint.diagnostics.filter(
+          (diagnostic) => diagnostic.severity === 'error' && diagnostic.category === 'structure',
+        );
+        if (structuralErrors.length > 0) {
+          return toolError(
+            `Cannot approve plan: tasks would not sync.\n${formatPlanLintDiagnostics(structuralErrors)}`,
+            [
+              'Fix the listed task numbering, dependency or warcraft-tasks block problems with warcraft_plan_write.',
+              'Run warcraft_plan_lint to see every remaining diagnostic, then retry warcraft_plan_approve.',
+            ],
+            {
+              data: {
+                blockedReason: 'plan_lint_failed',
+                diagnostics: structuralErrors,
+                planLintArgs: { feature, stage: 'approval' as const },
+                retryArgs: { feature },
+              },
+              warnings: [
+                {
+                  type: 'plan_lint_failed',
+                  severity: 'error',
+                  message: 'The plan has task structure errors that would make warcraft_tasks_sync fail.',
+                  count: structuralErrors.length,
+                },
+              ],
+            },
+          );
+        }
+
         if (typeof taskService.previewSync === 'function') {
           const preview = taskService.previewSync(feature);
           if (preview.manual.length > 0) {
@@ -422,10 +934,16 @@ export class PlanTools {
           }
         }
 
-        const approveOutcome = planService.approve(feature, undefined, planResult.content);
+        const approveOutcome = planService.approve(
+          feature,
+          toolContext?.sessionID,
+          planResult.content,
+          toolContext?.agent,
+        );
         if (approveOutcome.severity === 'fatal') {
           return toolError(approveOutcome.diagnostics.map((d) => d.message).join('; '));
         }
+        emitDegradedEvents(eventLogger, { feature, operation: 'plan_approve' }, approveOutcome.diagnostics);
         updateFeatureMetadata(feature, {
           workflowPath: detectWorkflowPath(planResult.content),
           reviewChecklistVersion: checklistResult.ok ? 'v1' : undefined,
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  type FeatureService,
+  FilesystemForgeAdapter,
+  type ForgeAdapter,
+  type TaskService,
+  type TaskStatus,
+  type WorktreeService,
+} from 'warcraft-core';
+import { buildPullRequestDraft, PrExportTools } from './pr-export-tool.js';
+
+const DONE_STATUS: TaskStatus = {
+  status: 'done',
+  origin: 'plan',
+  planTitle: 'Add login form',
+  summary: 'Added the login form and its validation.',
+  learnings: ['Form state lives in the store'],
+  verification: {
+    build: { cmd: 'bun run build', exitCode: 0 },
+    test: { cmd: 'bun test', exitCode: 1 },
+  },
+  diffStats: { filesChanged: ['src/login.ts', 'src/login.test.ts'], insertions: 42, deletions: 3 },
+  baseCommit: 'abc123',
+};
+
+describe('PrExportTools', () => {
+  let testDir: string;
+  let statuses: Record<string, TaskStatus>;
+  let branches: string[];
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'pr-export-'));
+    statuses = { '01-login': { ...DONE_STATUS } };
+    branches = ['warcraft/auth/01-login', 'warcraft/auth/integration'];
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function createTools(options: { forgeAdapter?: ForgeAdapter; integrationBranchEnabled?: boolean } = {}) {
+    const taskService = {
+      list: () =>
+        Object.entries(statuses).map(([folder, s]) => ({ folder, name: folder, status: s.status, origin: s.origin })),
+      get: (_feature: string, folder: string) => {
+        const s = statuses[folder];
+        return s ? { folder, name: folder, status: s.status, origin: s.origin } : null;
+      },
+      getRawStatus: (_feature: string, folder: string) => statuses[folder] ?? null,
+      readTaskBeadArtifact: () => '# Login spec',
+      readReport: () => '# Task Report: 01-login',
+    } as unknown as TaskService;
+    const worktreeService = {
+      getBranchName: (feature: string, task: string) => `warcraft/${feature}/${task}`,
+      getIntegrationBranchName: (feature: string) => `warcraft/${feature}/integration`,
+      branchExists: async (branch: string) => branches.includes(branch),
+      getDiff: async () => ({ hasDiff: false, diffContent: '', filesChanged: [], insertions: 0, deletions: 0 }),
+    } as unknown as WorktreeService;
+    const featureService = { get: () => ({ name: 'auth', ticket: 'AUTH-7' }) } as unknown as FeatureService;
+    return new PrExportTools({
+      featureService,
+      taskService,
+      worktreeService,
+      getFeaturePath: (feature) => join(testDir, feature),
+      ...options,
+    });
+  }
+
+  async function runExport(tools: PrExportTools, args: Record<string, unknown>) {
+    const raw = await tools.prExportTool(() => 'auth').execute(args as never, {} as never);
+    return JSON.parse(raw as string);
+  }
+
+  it('writes a markdown and JSON bundle for a done task', async () => {
+    const result = await runExport(createTools(), { task: '01-login', base: 'main' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.title).toBe('[AUTH-7] Add login form');
+    expect(result.data.headBranch).toBe('warcraft/auth/01-login');
+    expect(result.data.bundle.markdown).toBe(join(testDir, 'auth', 'pr', '01-login.md'));
+
+    const markdown = readFileSync(result.data.bundle.markdown, 'utf-8');
+    expect(markdown).toStartWith('# [AUTH-7] Add login form');
+    expect(markdown).toContain('2 file(s) changed, +42/-3');
+    expect(markdown).toContain('| test | `bun test` | failed (exit 1) |');
+    expect(markdown).toContain('- Form state lives in the store');
+    expect(markdown).toContain('<details><summary>Task spec</summary>');
+
+    const bundle = JSON.parse(readFileSync(result.data.bundle.json, 'utf-8'));
+    expect(bundle.baseBranch).toBe('main');
+    expect(bundle.tasks[0].diffStats.insertions).toBe(42);
+  });
+
+  it('refuses tasks that are not done', async () => {
+    statuses['01-login'].status = 'in_progress';
+
+    const result = await runExport(createTools(), { task: '01-login' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('only done tasks can be exported');
+  });
+
+  it('opens the pull request through the configured forge adapter', async () => {
+    const forgeDir = join(testDir, 'forge');
+    const result = await runExport(createTools({ forgeAdapter: new FilesystemForgeAdapter(forgeDir) }), {
+      task: '01-login',
+      output: 'forge',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.submission).toMatchObject({ forge: 'filesystem', id: '1' });
+    expect(readdirSync(forgeDir)).toEqual(['1.json']);
+    expect(existsSync(join(testDir, 'auth', 'pr'))).toBe(false);
+  });
+
+  it('fails forge output when no adapter is configured', async () => {
+    const result = await runExport(createTools(), { task: '01-login', output: 'forge' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No forge adapter is configured');
+  });
+
+  it('refuses a task whose branch no longer exists', async () => {
+    branches = [];
+
+    const result = await runExport(createTools(), { task: '01-login' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Branch warcraft/auth/01-login of task "01-login" no longer exists; there is nothing to open a pull request from.',
+    );
+  });
+
+  it('exports the done tasks merged into the integration branch and lists the others as missing', async () => {
+    const merged = { mergedAt: '2024-01-01T00:00:00Z', mergeBranch: 'warcraft/auth/integration' };
+    statuses['01-login'] = { ...DONE_STATUS, ...merged };
+    statuses['02-logout'] = { ...DONE_STATUS, ...merged, planTitle: 'Add logout', learnings: [] };
+    statuses['03-audit'] = { status: 'pending', origin: 'plan' };
+    statuses['04-profile'] = { ...DONE_STATUS, planTitle: 'Add profile' };
+    statuses['05-landed-elsewhere'] = { ...DONE_STATUS, planTitle: 'Elsewhere', mergedAt: 'x', mergeBranch: 'main' };
+
+    const result = await runExport(createTools({ integrationBranchEnabled: true }), {});
+
+    expect(result.success).toBe(true);
+    expect(result.data.headBranch).toBe('warcraft/auth/integration');
+    expect(result.data.missing).toEqual(['04-profile', '05-landed-elsewhere']);
+    const markdown = readFileSync(join(testDir, 'auth', 'pr', 'feature.md'), 'utf-8');
+    expect(markdown).toContain('Merges 2 completed task(s)');
+    expect(markdown).toContain('### Add login form');
+    expect(markdown).toContain('### Add logout');
+    expect(markdown).not.toContain('### Add profile');
+    expect(markdown).toContain('## Not included');
+    expect(markdown).toContain('- `04-profile`');
+  });
+
+  it('requires the integration branch for a feature export', async () => {
+    const result = await runExport(createTools(), {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no branch holding all of its tasks');
+  });
+
+  it('fails a feature export before the integration branch exists', async () => {
+    branches = [];
+
+    const result = await runExport(createTools({ integrationBranchEnabled: true }), {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Integration branch warcraft/auth/integration of feature "auth" does not exist yet.');
+  });
+
+  it('fails a feature export when no done task is merged yet', async () => {
+    const result = await runExport(createTools({ integrationBranchEnabled: true }), {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No done task of feature "auth" is merged into warcraft/auth/integration yet.');
+  });
+});
+
+describe('buildPullRequestDraft', () => {
+  it('falls back to the feature name and notes missing completion data', () => {
+    const draft = buildPullRequestDraft({
+      feature: 'auth',
+      task: '01-login',
+      headBranch: 'warcraft/auth/01-login',
+      sections: [
+        {
+          task: '01-login',
+          name: 'Login',
+          summary: null,
+          learnings: [],
+          verification: null,
+          diffStats: null,
+          spec: null,
+          report: null,
+        },
+      ],
+    });
+
+    expect(draft.title).toBe('[auth] Login');
+    expect(draft.baseBranch).toBeUndefined();
+    expect(draft.body).toContain('_No summary recorded._');
+    expect(draft.body).toContain('_Diffstat not recorded._');
+    expect(draft.body).toContain('_No verification results recorded._');
+    expect(draft.body).not.toContain('<details>');
+  });
+});
@@ -0,0 +1,333 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { type ToolDefinition, tool } from '@opencode-ai/plugin';
+import type {
+  FeatureService,
+  ForgeAdapter,
+  PullRequestDraft,
+  TaskDiffStats,
+  TaskService,
+  TaskVerification,
+  WorktreeService,
+} from 'warcraft-core';
+import { COMPLETION_GATES } from '../guards.js';
+import { toolError, toolSuccess } from '../types.js';
+import { resolveFeatureInput, validateTaskInput } from './tool-input.js';
+
+export interface PrExportToolsDependencies {
+  featureService: FeatureService;
+  taskService: TaskService;
+  worktreeService: WorktreeService;
+  /** Resolves the feature artifact directory; bundles are written to its `pr/` folder. */
+  getFeaturePath: (feature: string) => string;
+  /** Forge that opens pull requests for `output: "forge"` (from the `forge` config). Without one only bundles can be exported. */
+  forgeAdapter?: ForgeAdapter;
+  /** When true, a whole-feature pull request is opened from the feature integration branch. */
+  integrationBranchEnabled?: boolean;
+}
+
+/** Completion data of one done task, gathered for a pull request. */
+export interface PullRequestTaskSection {
+  task: string;
+  name: string;
+  summary: string | null;
+  learnings: string[];
+  verification: TaskVerification | null;
+  diffStats: TaskDiffStats | null;
+  spec: string | null;
+  report: string | null;
+}
+
+/** Maximum characters of a task spec or report embedded in a pull request body. */
+const MAX_EMBEDDED_CHARS = 4000;
+
+function truncate(text: string): string {
+  if (text.length <= MAX_EMBEDDED_CHARS) return text;
+  return `${text.slice(0, MAX_EMBEDDED_CHARS)}\n... (truncated ${text.length - MAX_EMBEDDED_CHARS} chars)`;
+}
+
+function formatDiffStats(diffStats: TaskDiffStats | null): string {
+  if (!diffStats) return '_Diffstat not recorded._';
+  return `${diffStats.filesChanged.length} file(s) changed, +${diffStats.insertions}/-${diffStats.deletions}`;
+}
+
+function formatVerification(verification: TaskVerification | null): string[] {
+  const lines: string[] = [];
+  for (const gate of COMPLETION_GATES) {
+    const result = verification?.[gate];
+    if (!result) continue;
+    const outcome = result.exitCode === 0 ? 'passed' : `failed (exit ${result.exitCode})`;
+    lines.push(`| ${gate} | \`${result.cmd}\` | ${outcome} |`);
+  }
+  if (lines.length === 0) return ['_No verification results recorded._'];
+  return ['| Gate | Command | Result |', '|------|---------|--------|', ...lines];
+}
+
+function collapsible(summary: string, content: string | null): string[] {
+  if (!content) return [];
+  return ['', `<details><summary>${summary}</summary>`, '', truncate(content.trim()), '', '</details>'];
+}
+
+/**
+ * Build the pull request title and body for one task, or for a whole feature when given several sections.
+ * `missing` names done tasks of a feature export whose changes are not on the head branch.
+ */
+export function buildPullRequestDraft(params: {
+  feature: string;
+  ticket?: string;
+  task?: string;
+  sections: PullRequestTaskSection[];
+  missing?: string[];
+  headBranch: string;
+  baseBranch?: string;
+}): PullRequestDraft {
+  const { feature, ticket, task, sections, missing = [], headBranch, baseBranch } = params;
+  const prefix = ticket ? `[${ticket}] ` : `[${feature}] `;
+  const lines: string[] = [];
+
+  if (task) {
+    const section = sections[0];
+    lines.push(
+      '## Summary',
+      '',
+      section.summary ?? '_No summary recorded._',
+      '',
+      '## Changes',
+      '',
+      formatDiffStats(section.diffStats),
+      ...(section.diffStats?.filesChanged.map((file) => `- \`${file}\``) ?? []),
+      '',
+      '## Verification',
+      '',
+      ...formatVerification(section.verification),
+    );
+    if (section.learnings.length > 0) {
+      lines.push('', '## Learnings', '', ...section.learnings.map((learning) => `- ${learning}`));
+    }
+    lines.push(...collapsible('Task spec', section.spec), ...collapsible('Task report', section.report));
+    return {
+      feature,
+      task,
+      title: `${prefix}${section.name}`,
+      body: lines.join('\n'),
+      headBranch,
+      ...(baseBranch ? { baseBranch } : {}),
+    };
+  }
+
+  lines.push(`Merges ${sections.length} completed task(s) of feature \`${feature}\`.`, '', '## Tasks');
+  for (const section of sections) {
+    lines.push(
+      '',
+      `### ${section.name}`,
+      '',
+      section.summary ?? '_No summary recorded._',
+      '',
+      `**Changes:** ${formatDiffStats(section.diffStats)}`,
+      '',
+      ...formatVerification(section.verification),
+    );
+  }
+  const learnings = sections.flatMap((section) => section.learnings);
+  if (learnings.length > 0) {
+    lines.push('', '## Learnings', '', ...learnings.map((learning) => `- ${learning}`));
+  }
+  if (missing.length > 0) {
+    lines.push(
+      '',
+      '## Not included',
+      '',
+      `Completed but not merged into \`${headBranch}\`, so this pull request does not contain them:`,
+      '',
+      ...missing.map((folder) => `- \`${folder}\``),
+    );
+  }
+  return {
+    feature,
+    title: `${prefix}${feature}`,
+    body: lines.join('\n'),
+    headBranch,
+    ...(baseBranch ? { baseBranch } : {}),
+  };
+}
+
+/**
+ * Pull request domain tools - Export completed work for review on a forge.
+ */
+export class PrExportTools {
+  constructor(private readonly deps: PrExportToolsDependencies) {}
+
+  /**
+   * Export a done task (or every done task of a feature) as a pull request bundle or forge submission.
+   */
+  prExportTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const {
+      featureService,
+      taskService,
+      worktreeService,
+      getFeaturePath,
+      forgeAdapter,
+      integrationBranchEnabled = false,
+    } = this.deps;
+
+    const collectSection = async (feature: string, task: string, name: string): Promise<PullRequestTaskSection> => {
+      const rawStatus = taskService.getRawStatus(feature, task);
+      let diffStats = rawStatus?.diffStats ?? null;
+      if (!diffStats && rawStatus?.baseCommit && rawStatus.workerSession?.workspaceMode !== 'direct') {
+        // Tasks committed before diffstats were recorded: diff the worktree if it is still around.
+        const diff = await worktreeService.getDiff(feature, task, rawStatus.baseCommit);
+        if (!diff.error) {
+          diffStats = { filesChanged: diff.filesChanged, insertions: diff.insertions, deletions: diff.deletions };
+        }
+      }
+      return {
+        task,
+        name: rawStatus?.planTitle ?? name,
+        summary: rawStatus?.summary ?? null,
+        learnings: rawStatus?.learnings ?? [],
+        verification: rawStatus?.verification ?? null,
+        diffStats,
+        spec: taskService.readTaskBeadArtifact(feature, task, 'spec'),
+        report: taskService.readReport(feature, task),
+      };
+    };
+
+    return tool({
+      description:
+        'Export a done task, or every done task of a feature, as a pull request: title and body built from the task reports, specs, learnings, verification results and diffstats. Writes a markdown/JSON bundle or opens the pull request through the configured forge.',
+      args: {
+        task: tool.schema.string().optional().describe('Done task to export (omit to export the whole feature)'),
+        output: tool.schema
+          .enum(['bundle', 'forge'])
+          .optional()
+          .default('bundle')
+          .describe('bundle (default) writes <feature>/pr/<name>.md and .json; forge opens it via the forge adapter'),
+        base: tool.schema
+          .string()
+          .optional()
+          .describe('Branch the pull request targets (defaults to the forge default)'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+      },
+      async execute({ task, output = 'bundle', base, feature: explicitFeature }) {
+        if (task) validateTaskInput(task);
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        if (output === 'forge' && !forgeAdapter) {
+          return toolError('No forge adapter is configured; cannot open a pull request.', [
+            'Set forge.adapter in the warcraft config (e.g. { "forge": { "adapter": "filesystem" } }).',
+            'Export a bundle with output: "bundle" and open the pull request from it by hand.',
+          ]);
+        }
+
+        let headBranch: string;
+        let sections: PullRequestTaskSection[];
+        let missing: string[] = [];
+        if (task) {
+          const taskInfo = taskService.get(feature, task);
+          if (!taskInfo) return toolError(`Task "${task}" not found`);
+          if (taskInfo.status !== 'done') {
+            return toolError(`Task "${task}" is ${taskInfo.status}; only done tasks can be exported.`);
+          }
+          if (taskService.getRawStatus(feature, task)?.workerSession?.workspaceMode === 'direct') {
+            return toolError(
+              `Task "${task}" was executed in direct mode; it has no branch to open a pull request from.`,
+              ['Export the whole feature instead once its changes are on a branch.'],
+            );
+          }
+          headBranch = worktreeService.getBranchName(feature, task);
+          if (!(await worktreeService.branchExists(headBranch))) {
+            return toolError(
+              `Branch ${headBranch} of task "${task}" no longer exists; there is nothing to open a pull request from.`,
+              ['Export the whole feature instead if the task was merged into its integration branch.'],
+            );
+          }
+          sections = [await collectSection(feature, task, taskInfo.name)];
+        } else {
+          if (!integrationBranchEnabled) {
+            return toolError(`Feature "${feature}" has no branch holding all of its tasks.`, [
+              'Enable integrationBranchEnabled so task merges collect on the feature integration branch, or export tasks one at a time.',
+            ]);
+          }
+          const doneTasks = taskService.list(feature).filter((info) => info.status === 'done');
+          if (doneTasks.length === 0) {
+            return toolError(`Feature "${feature}" has no done tasks to export.`);
+          }
+          headBranch = worktreeService.getIntegrationBranchName(feature);
+          if (!(await worktreeService.branchExists(headBranch))) {
+            return toolError(`Integration branch ${headBranch} of feature "${feature}" does not exist yet.`, [
+              'Merge the done tasks with warcraft_merge or warcraft_merge_queue first; the first merge creates it.',
+            ]);
+          }
+          // Only tasks recorded as merged into the integration branch are on the head branch
+          const shipped = doneTasks.filter((info) => {
+            const raw = taskService.getRawStatus(feature, info.folder);
+            return !!raw?.mergedAt && (raw.mergeBranch === undefined || raw.mergeBranch === headBranch);
+          });
+          if (shipped.length === 0) {
+            return toolError(`No done task of feature "${feature}" is merged into ${headBranch} yet.`, [
+              'Merge them with warcraft_merge or warcraft_merge_queue first.',
+            ]);
+          }
+          missing = doneTasks.filter((info) => !shipped.includes(info)).map((info) => info.folder);
+          sections = [];
+          for (const info of shipped) {
+            sections.push(await collectSection(feature, info.folder, info.name));
+          }
+        }
+
+        const draft = buildPullRequestDraft({
+          feature,
+          ticket: featureService.get(feature)?.ticket,
+          task,
+          sections,
+          missing,
+          headBranch,
+          baseBranch: base,
+        });
+
+        if (output === 'forge' && forgeAdapter) {
+          try {
+            const submission = await forgeAdapter.openPullRequest(draft);
+            return toolSuccess({
+              output,
+              title: draft.title,
+              headBranch: draft.headBranch,
+              baseBranch: draft.baseBranch ?? null,
+              ...(missing.length > 0 ? { missing } : {}),
+              submission,
+              message: `Opened pull request ${submission.id} on ${submission.forge}${submission.url ? `: ${submission.url}` : ''}.`,
+            });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return toolError(`Forge "${forgeAdapter.name}" could not open the pull request: ${message}`);
+          }
+        }
+
+        const bundleDir = path.join(getFeaturePath(feature), 'pr');
+        const bundleName = task ?? 'feature';
+        const markdownPath = path.join(bundleDir, `${bundleName}.md`);
+        const jsonPath = path.join(bundleDir, `${bundleName}.json`);
+        fs.mkdirSync(bundleDir, { recursive: true });
+        fs.writeFileSync(markdownPath, `# ${draft.title}\n\n${draft.body}\n`, 'utf-8');
+        fs.writeFileSync(
+          jsonPath,
+          `${JSON.stringify({ ...draft, tasks: sections, ...(missing.length > 0 ? { missing } : {}), exportedAt: new Date().toISOString() }, null, 2)}\n`,
+          'utf-8',
+        );
+
+        return toolSuccess({
+          output,
+          title: draft.title,
+          headBranch: draft.headBranch,
+          baseBranch: draft.baseBranch ?? null,
+          ...(missing.length > 0 ? { missing } : {}),
+          bundle: { markdown: markdownPath, json: jsonPath },
+          body: draft.body,
+          message: `Pull request bundle for ${task ? `task "${task}"` : `feature "${feature}"`} written to ${markdownPath}.`,
+        });
+      },
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import type { PlanService, TaskService } from 'warcraft-core';
+import type { PlanService, TaskService, VerificationConfig, VerificationModel } from 'warcraft-core';
 import { formatSpecContent } from 'warcraft-core';
 import {
   applyContextBudget,
@@ -6,6 +6,7 @@ import {
   DEFAULT_BUDGET,
   type TruncationEvent,
 } from '../utils/prompt-budgeting.js';
+import { resolveVerificationCommands } from '../utils/runtime-commands.js';
 import { sanitizeLearnings } from '../utils/sanitize.js';
 import { classifyComplexity, type TaskComplexity } from '../utils/task-complexity.js';
 import type { CompletedTask, ContinueFromBlocked, WorkerContextFile } from '../utils/worker-prompt.js';
@@ -26,7 +27,9 @@ export interface TaskDispatchServices {
   planService: PlanService;
   taskService: TaskService;
   contextService: { list: (feature: string) => Array<{ name: string; content: string }> };
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
+  /** Configured verification commands, surfaced to workers in the prompt. */
+  verification?: VerificationConfig;
   /** Feature-level reopen rate from trust metrics (0.0–1.0). Defaults to 0. */
   featureReopenRate?: number;
 }
@@ -225,8 +228,13 @@ export function prepareTaskDispatch(
     previousTasks,
     continueFrom,
     verificationModel: services.verificationModel,
+    verificationCommands:
+      services.verificationModel !== 'best-effort'
+        ? resolveVerificationCommands(workspace.path, services.verification)
+        : undefined,
     complexity,
     failureContext,
+    acceptanceCriteria: status?.acceptanceCriteria,
   });
 
   taskService.writeWorkerPrompt(feature, task, workerPrompt);
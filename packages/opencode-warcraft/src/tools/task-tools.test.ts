@@ -1,8 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
 import * as child_process from 'child_process';
 import * as fs from 'fs';
-import type { FeatureService, PlanService, TaskService, TaskStatusType } from 'warcraft-core';
-import { createNoopEventLogger, InvalidTransitionError } from 'warcraft-core';
+import * as os from 'os';
+import * as path from 'path';
+import type { FeatureService, TaskStatusType } from 'warcraft-core';
+import { createNoopEventLogger, createStores, InvalidTransitionError, PlanService, TaskService } from 'warcraft-core';
 import { TaskTools } from './task-tools.js';
 
 const TEST_DIR = `/tmp/opencode-warcraft-task-tools-test-${process.pid}`;
@@ -108,6 +110,7 @@ class MockFeatureService implements Partial<FeatureService> {
   };
   patchCalls: Array<Record<string, unknown>> = [];
   updateStatusCalls: string[] = [];
+  dependencyDiagnostics: Array<{ code: string; message: string; severity: string }> = [];
 
   get(name: string) {
     return {
@@ -116,6 +119,10 @@ class MockFeatureService implements Partial<FeatureService> {
     };
   }
 
+  syncDependencies(_name: string) {
+    return this.dependencyDiagnostics;
+  }
+
   patchMetadata(name: string, patch: Record<string, unknown>) {
     this.patchCalls.push(patch);
     this.feature = {
@@ -1302,6 +1309,9 @@ describe('TaskTools', () => {
         manual: [],
         diagnostics: [{ code: 'dep_sync_failed', message: 'Dependency sync failed', severity: 'degraded' }],
       };
+      mockFeatureService.dependencyDiagnostics = [
+        { code: 'dep_unresolved_feature', message: 'Feature dependency "api" has no bead yet', severity: 'degraded' },
+      ];
 
       const tool = taskTools.syncTasksTool(resolveFeature);
       const result = await tool.execute({ feature: undefined, mode: 'sync' });
@@ -1313,6 +1323,7 @@ describe('TaskTools', () => {
       ]);
       expect(parsed.data.diagnostics).toEqual([
         { code: 'dep_sync_failed', message: 'Dependency sync failed', severity: 'degraded' },
+        { code: 'dep_unresolved_feature', message: 'Feature dependency "api" has no bead yet', severity: 'degraded' },
       ]);
       expect(parsed.data.message).toContain('1 reconciled');
     });
@@ -1524,3 +1535,128 @@ describe('updateTaskTool transitions', () => {
     ).rejects.toThrow('Unexpected DB error');
   });
 });
+
+describe('TaskTools splitTaskTool', () => {
+  const PLAN =
+    '# Plan\n\n## Tasks\n\n### 1. Setup\n\nInstall deps.\n\n### 2. Build\n\nBuild it.\n\n### 3. Ship\n\nShip it.\n';
+  const SUBTASKS = [
+    { title: 'Build core', description: 'Build the core.' },
+    { title: 'Build CLI', description: 'Build the CLI.' },
+  ];
+
+  function createSplitTool() {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'task-split-'));
+    const featureDir = path.join(projectRoot, 'docs', 'test-feature');
+    fs.mkdirSync(featureDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(featureDir, 'feature.json'),
+      JSON.stringify({ name: 'test-feature', status: 'executing' }),
+    );
+    const stores = createStores(projectRoot, 'off');
+    const planService = new PlanService(projectRoot, stores.planStore, 'off');
+    const taskService = new TaskService(projectRoot, stores.taskStore, 'off');
+    const tool = new TaskTools({
+      featureService: { get: () => ({ name: 'test-feature', status: 'executing' }) } as unknown as FeatureService,
+      planService,
+      taskService,
+      workflowGatesMode: 'warn',
+      validateTaskStatus: (status: string) => status as TaskStatusType,
+      eventLogger: createNoopEventLogger(),
+    }).splitTaskTool((name) => name ?? 'test-feature');
+    return { projectRoot, planService, taskService, tool };
+  }
+
+  it('splits a plan task through an approved plan amendment and records the lineage', async () => {
+    const { projectRoot, planService, taskService, tool } = createSplitTool();
+    try {
+      planService.write('test-feature', PLAN);
+      planService.approve('test-feature');
+      taskService.sync('test-feature');
+
+      const preview = JSON.parse(await tool.execute({ task: '02-build', subtasks: SUBTASKS }, {} as any));
+      expect(preview.success).toBe(true);
+      expect(preview.data).toMatchObject({
+        mode: 'preview',
+        original: '02-build',
+        subtasks: ['04-build-core', '05-build-cli'],
+        rewired: ['03-ship'],
+      });
+      expect(preview.data.planDiff).toContain('+### 4. Build core');
+      expect(planService.read('test-feature')?.content).toBe(PLAN);
+
+      const applied = JSON.parse(
+        await tool.execute({ task: '02-build', subtasks: SUBTASKS, reason: 'too big', mode: 'apply' }, {
+          agent: 'khadgar',
+        } as any),
+      );
+      expect(applied.success).toBe(true);
+      expect(applied.data.revision).toBe(2);
+      expect(planService.read('test-feature')?.content).toContain('Split into tasks 4, 5 (too big)');
+      expect(taskService.getRawStatus('test-feature', '02-build')).toMatchObject({
+        status: 'cancelled',
+        splitInto: ['04-build-core', '05-build-cli'],
+      });
+      expect(taskService.getRawStatus('test-feature', '04-build-core')).toMatchObject({
+        dependsOn: ['01-setup'],
+        splitFrom: '02-build',
+      });
+      expect(taskService.getRawStatus('test-feature', '05-build-cli')?.dependsOn).toEqual(['04-build-core']);
+      expect(taskService.getRawStatus('test-feature', '03-ship')?.dependsOn).toEqual(['05-build-cli']);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('restores the approved plan when the split tasks cannot be created', async () => {
+    const { projectRoot, planService, taskService, tool } = createSplitTool();
+    try {
+      planService.write('test-feature', PLAN);
+      planService.approve('test-feature');
+      taskService.sync('test-feature');
+      spyOn(taskService, 'applyAmendment').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      const parsed = JSON.parse(await tool.execute({ task: '02-build', subtasks: SUBTASKS, mode: 'apply' }, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('previously approved plan was restored: disk full');
+      expect(planService.read('test-feature')).toMatchObject({ content: PLAN, status: 'approved' });
+      expect(planService.getLastApprovedRevision('test-feature')?.content).toBe(PLAN);
+      expect(taskService.getRawStatus('test-feature', '02-build')?.status).toBe('pending');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('splits a manual task directly', async () => {
+    const { projectRoot, taskService, tool } = createSplitTool();
+    try {
+      taskService.create('test-feature', 'Build');
+      taskService.create('test-feature', 'Ship');
+
+      const parsed = JSON.parse(await tool.execute({ task: '01-build', subtasks: SUBTASKS, mode: 'apply' }, {} as any));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.data).toMatchObject({ subtasks: ['03-build-core', '04-build-cli'], rewired: ['02-ship'] });
+      expect(taskService.getRawStatus('test-feature', '03-build-core')?.brief).toBe('Build the core.');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses tasks that are no longer pending', async () => {
+    const { projectRoot, taskService, tool } = createSplitTool();
+    try {
+      taskService.create('test-feature', 'Build');
+      taskService.update('test-feature', '01-build', { status: 'in_progress' });
+
+      const parsed = JSON.parse(await tool.execute({ task: '01-build', subtasks: SUBTASKS }, {} as any));
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('only pending tasks can be split');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -2,13 +2,18 @@ import { type ToolDefinition, tool } from '@opencode-ai/plugin';
 import type { EventLogger, FeatureService, PlanService, TaskService, TaskStatusType } from 'warcraft-core';
 import {
   analyzeWorkflowRequest,
+  collectWorkflowSignals,
   createChildSpan,
   createTraceContext,
   detectWorkflowPath,
+  diffLines,
+  emitDegradedEvents,
   InvalidTransitionError,
+  splitPlanTask,
   validateDiscoverySection,
   validateLightweightPlan,
 } from 'warcraft-core';
+import type { ToolContext } from '../types.js';
 import { toolError, toolSuccess } from '../types.js';
 import { appendTasksToPlanScaffold, buildPlanScaffold } from './manual-plan-scaffold.js';
 import {
@@ -25,6 +30,8 @@ export interface TaskToolsDependencies {
   workflowGatesMode: 'enforce' | 'warn';
   validateTaskStatus: (status: string) => TaskStatusType;
   eventLogger: EventLogger;
+  /** Project root for repository signals in workflow recommendations; without it only the text is analysed. */
+  projectRoot?: string;
 }
 
 /**
@@ -43,6 +50,11 @@ function buildTaskWorkflowAnalysisInput(name: string, description?: string): str
   return `${name}. ${condensed}`.trim();
 }
 
+/** Recommend a workflow for a manual task, with repository signals when the project root is known. */
+function analyzeTaskWorkflow(input: string, projectRoot?: string) {
+  return analyzeWorkflowRequest(input, projectRoot ? collectWorkflowSignals(input, projectRoot) : undefined);
+}
+
 export class TaskTools {
   constructor(private readonly deps: TaskToolsDependencies) {}
 
@@ -203,6 +215,8 @@ export class TaskTools {
         if (featureData.status === 'approved') {
           featureService.updateStatus(feature, 'executing');
         }
+        // New task beads may resolve cross-feature dependencies of this feature or its dependents
+        const featureDependencyDiagnostics = featureService.syncDependencies(feature);
         return toolSuccess({
           mode: 'sync',
           feature,
@@ -211,7 +225,7 @@ export class TaskTools {
           kept: result.kept,
           reconciled: result.reconciled,
           manualTasks: result.manual,
-          diagnostics: result.diagnostics ?? [],
+          diagnostics: [...(result.diagnostics ?? []), ...featureDependencyDiagnostics],
           message: `Tasks synced: ${result.created.length} created, ${result.removed.length} removed, ${result.reconciled.length} reconciled, ${result.kept.length} kept${warning}`,
         });
       },
@@ -223,7 +237,7 @@ export class TaskTools {
    */
   createTaskTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
-    const { featureService, planService, taskService } = this.deps;
+    const { featureService, planService, taskService, projectRoot } = this.deps;
     return tool({
       description: 'Create manual task (not from plan)',
       args: {
@@ -252,7 +266,7 @@ export class TaskTools {
         const hasPlan = planService.read(feature) !== null;
         const workflowAnalysis =
           !hasPlan && description?.trim()
-            ? analyzeWorkflowRequest(buildTaskWorkflowAnalysisInput(name, description))
+            ? analyzeTaskWorkflow(buildTaskWorkflowAnalysisInput(name, description), projectRoot)
             : null;
 
         const pendingManualTasks = !hasPlan
@@ -328,6 +342,7 @@ export class TaskTools {
           task: folder,
           workflowPath: instantWorkflowActivated ? 'instant' : (featureData?.workflowPath ?? 'standard'),
           workflowRecommendation: effectiveWorkflowRecommendation,
+          workflowConfidence: workflowAnalysis?.confidence,
           workflowRationale: workflowAnalysis?.rationale ?? [],
           pendingManualTasks,
           planScaffold,
@@ -736,4 +751,167 @@ export class TaskTools {
       },
     });
   }
+
+  /**
+   * Split a pending task into sequential subtasks
+   */
+  splitTaskTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    // Capture deps in closure to avoid 'this' binding issues
+    const { featureService, planService, taskService, eventLogger } = this.deps;
+    return tool({
+      description:
+        'Split a pending task that is too big into sequential subtasks. The first subtask inherits the task dependencies, tasks that depended on it wait for the last subtask, and the task is cancelled with its lineage recorded. Plan tasks are split through a plan amendment. preview (default) shows the new folders and re-wired tasks; apply makes the change.',
+      args: {
+        task: tool.schema.string().describe('Folder of the pending task to split'),
+        subtasks: tool.schema
+          .array(
+            tool.schema.object({
+              title: tool.schema.string().describe('Subtask title'),
+              description: tool.schema
+                .string()
+                .describe('What the subtask covers: the plan section body for plan tasks, the brief for manual tasks'),
+            }),
+          )
+          .min(2)
+          .describe('Subtasks in execution order'),
+        reason: tool.schema.string().optional().describe('Why the task is split'),
+        mode: tool.schema
+          .enum(['preview', 'apply'])
+          .optional()
+          .default('preview')
+          .describe('preview (default): show the split. apply: make it.'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+      },
+      async execute({ task, subtasks, reason, mode = 'preview', feature: explicitFeature }, toolContext: ToolContext) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+        validateTaskInput(task);
+
+        const current = taskService.getRawStatus(feature, task);
+        if (!current) return toolError(`Task "${task}" not found`);
+        if (current.status !== 'pending') {
+          return toolError(`Task "${task}" is ${current.status}; only pending tasks can be split.`, [
+            'Stop a dispatched task with warcraft_worktree_discard first, or add follow-up tasks instead.',
+          ]);
+        }
+
+        if (current.origin === 'manual') {
+          try {
+            if (mode === 'preview') {
+              const split = taskService.previewManualSplit(feature, task, subtasks);
+              return toolSuccess({
+                mode,
+                feature,
+                ...split,
+                message: `Preview: ${task} would be replaced by ${split.subtasks.join(', ')}; ${split.rewired.length} task(s) re-wired. Use mode "apply" to split it.`,
+              });
+            }
+            const split = taskService.splitManualTask(feature, task, subtasks);
+            return toolSuccess({
+              mode,
+              feature,
+              ...split,
+              message: `Task "${task}" split into ${split.subtasks.join(', ')}.`,
+            });
+          } catch (error) {
+            return toolError(error instanceof Error ? error.message : String(error));
+          }
+        }
+
+        if (featureService.get(feature)?.status !== 'executing') {
+          return toolError(`Feature "${feature}" is not executing; split plan tasks by editing the plan instead.`, [
+            'Revise the plan with warcraft_plan_write and approve it again.',
+          ]);
+        }
+        const planResult = planService.read(feature);
+        if (!planResult) return toolError('No plan.md found');
+        if (planResult.status !== 'approved') {
+          return toolError('plan.md has edits that are not approved; a split amends the approved plan.', [
+            'Compare the edits with warcraft_plan_history, then approve them with warcraft_plan_approve or revert them.',
+          ]);
+        }
+
+        let amendment: ReturnType<typeof splitPlanTask>;
+        let impact: ReturnType<TaskService['previewAmendment']>;
+        try {
+          amendment = splitPlanTask(planResult.content, parseInt(task, 10), subtasks, reason);
+          impact = taskService.previewAmendment(feature, amendment);
+        } catch (error) {
+          return toolError(error instanceof Error ? error.message : String(error));
+        }
+        if (impact.refused.length > 0) {
+          return toolError(
+            `Task split refused: ${impact.refused.join(' ')}`,
+            ['Run warcraft_tasks_sync, then preview the split again.'],
+            { data: { blockedReason: 'plan_amendment_refused', refused: impact.refused } },
+          );
+        }
+
+        const rewired = impact.modified;
+        if (mode === 'preview') {
+          return toolSuccess({
+            mode,
+            feature,
+            original: task,
+            subtasks: impact.added,
+            rewired,
+            planDiff: diffLines(planResult.content, amendment.content, {
+              oldLabel: 'plan.md (approved)',
+              newLabel: 'plan.md (split)',
+            }).diff,
+            message: `Preview: ${task} would be replaced by ${impact.added.join(', ')}; ${rewired.length} task(s) re-wired. Use mode "apply" once the user approves the split.`,
+          });
+        }
+
+        const actor = {
+          ...(toolContext?.agent ? { agent: toolContext.agent } : {}),
+          ...(toolContext?.sessionID ? { sessionId: toolContext.sessionID } : {}),
+        };
+        // Put the previously approved plan back so no approved plan is left that the tasks do not follow.
+        const restoreApprovedPlan = () => {
+          planService.write(feature, planResult.content, actor);
+          planService.approve(feature, toolContext?.sessionID, planResult.content, toolContext?.agent);
+        };
+        planService.write(feature, amendment.content, actor);
+        const approveOutcome = planService.approve(
+          feature,
+          toolContext?.sessionID,
+          amendment.content,
+          toolContext?.agent,
+        );
+        if (approveOutcome.severity === 'fatal') {
+          restoreApprovedPlan();
+          return toolError(approveOutcome.diagnostics.map((d) => d.message).join('; '));
+        }
+        emitDegradedEvents(eventLogger, { feature, task, operation: 'plan_approve' }, approveOutcome.diagnostics);
+        try {
+          impact = taskService.applyAmendment(feature, amendment);
+        } catch (error) {
+          restoreApprovedPlan();
+          return toolError(
+            `Task split failed and the previously approved plan was restored: ${error instanceof Error ? error.message : String(error)}`,
+            ['Run warcraft_tasks_sync to bring any partly updated tasks back in line with the plan.'],
+          );
+        }
+        try {
+          taskService.recordSplit(feature, task, impact.added);
+        } catch (error) {
+          return toolError(
+            `Task "${task}" was split into ${impact.added.join(', ')}, but the split could not be recorded on it: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+
+        return toolSuccess({
+          mode,
+          feature,
+          original: task,
+          subtasks: impact.added,
+          rewired: impact.modified,
+          revision: planService.getLastApprovedRevision(feature)?.revision ?? null,
+          message: `Task "${task}" split into ${impact.added.join(', ')}.`,
+        });
+      },
+    });
+  }
 }
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { TaskHistory, TaskService, Timeline, WarcraftEvent } from 'warcraft-core';
+import { TimelineTools } from './timeline-tool.js';
+
+const EVENTS: WarcraftEvent[] = [
+  {
+    type: 'dispatch',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T10:00:00.000Z',
+    details: { agent: 'mekkatorque' },
+  },
+  {
+    type: 'blocked',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T10:20:00.000Z',
+    details: { reason: 'Which provider? A | B' },
+  },
+  { type: 'merge', feature: 'auth', task: '01-setup', timestamp: '2025-01-01T09:00:00.000Z' },
+];
+
+const HISTORY: TaskHistory = {
+  transitions: [{ seq: 1, beadId: 'bd-4', from: 'pending', to: 'in_progress', timestamp: '2025-01-02T10:00:05.000Z' }],
+  comments: [],
+  audit: [],
+};
+
+describe('TimelineTools', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'timeline-tool-'));
+    mkdirSync(join(testDir, '.beads'), { recursive: true });
+    writeFileSync(
+      join(testDir, '.beads', 'events.jsonl'),
+      `${EVENTS.map((event) => JSON.stringify(event)).join('\n')}\n`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  async function runTimeline(args: Record<string, unknown>) {
+    const taskService = {
+      list: () => [
+        { folder: '01-setup', name: 'Setup', status: 'done', origin: 'plan' },
+        { folder: '04-login', name: 'Login', status: 'blocked', origin: 'plan' },
+      ],
+      getTaskHistory: (_feature: string, folder: string) => (folder === '04-login' ? HISTORY : null),
+    } as unknown as TaskService;
+    const tool = new TimelineTools({ taskService, projectRoot: testDir }).timelineTool(() => 'auth');
+    return JSON.parse(await tool.execute(args as never, {} as never));
+  }
+
+  it('renders a task timeline as markdown, resolving the task number', async () => {
+    const result = await runTimeline({ task: '4' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.task).toBe('04-login');
+    expect(result.data.steps).toBe(3);
+    expect(result.data.markdown).toBe(
+      [
+        '# Timeline: auth / 04-login',
+        '',
+        '3 step(s) from 2025-01-02T10:00:00.000Z to 2025-01-02T10:20:00.000Z (20m 0s).',
+        '',
+        '| Time | +Since previous | Step | Details | Source |',
+        '|------|----------------|------|---------|--------|',
+        '| 2025-01-02T10:00:00.000Z | — | dispatch | Dispatched to mekkatorque (attempt 1) | events |',
+        '| 2025-01-02T10:00:05.000Z | +5s | transition | pending → in_progress | journal |',
+        '| 2025-01-02T10:20:00.000Z | +19m 55s | blocked | Blocked: Which provider? A \\| B | events |',
+      ].join('\n'),
+    );
+  });
+
+  it('returns the whole feature as JSON', async () => {
+    const result = await runTimeline({ format: 'json', since: '2025-01-02T00:00:00Z' });
+    const timeline = result.data as Timeline;
+
+    expect(timeline.task).toBeNull();
+    expect(timeline.entries.map((entry) => `${entry.task}:${entry.kind}`)).toEqual([
+      '04-login:dispatch',
+      '04-login:transition',
+      '04-login:blocked',
+    ]);
+    expect(timeline.entries[0].sincePreviousMs).toBe(90_000_000);
+  });
+
+  it('rejects unknown tasks and invalid timestamps', async () => {
+    expect((await runTimeline({ task: '09-missing' })).error).toBe('Task "09-missing" not found in feature "auth"');
+    expect((await runTimeline({ until: 'yesterday' })).error).toBe('Invalid until timestamp "yesterday"');
+  });
+});
@@ -0,0 +1,123 @@
+import { type ToolDefinition, tool } from '@opencode-ai/plugin';
+import type { TaskService, Timeline } from 'warcraft-core';
+import { buildTimeline, readEventLog } from 'warcraft-core';
+import { toolError, toolSuccess } from '../types.js';
+import { formatElapsed } from '../utils/format.js';
+import { resolveFeatureInput, validateTaskInput } from './tool-input.js';
+
+export interface TimelineToolsDependencies {
+  taskService: TaskService;
+  /** Project root holding `.beads/events.jsonl`. Defaults to process.cwd(). */
+  projectRoot?: string;
+}
+
+/**
+ * Render a timeline as a markdown table, one row per step with the time since the previous step.
+ */
+export function formatTimelineMarkdown(timeline: Timeline): string {
+  const title = timeline.task ? `${timeline.feature} / ${timeline.task}` : timeline.feature;
+  if (timeline.entries.length === 0) {
+    return `# Timeline: ${title}\n\n_No recorded steps._`;
+  }
+  const showTask = timeline.task === null;
+  const lines = [
+    `# Timeline: ${title}`,
+    '',
+    `${timeline.entries.length} step(s) from ${timeline.startedAt} to ${timeline.endedAt} (${formatElapsed(timeline.durationMs ?? 0)}).`,
+    '',
+    `| Time | +Since previous |${showTask ? ' Task |' : ''} Step | Details | Source |`,
+    `|------|----------------|${showTask ? '------|' : ''}------|---------|--------|`,
+  ];
+  for (const entry of timeline.entries) {
+    const since = entry.sincePreviousMs === null ? '—' : `+${formatElapsed(entry.sincePreviousMs)}`;
+    const task = showTask ? ` ${entry.task ?? '(feature)'} |` : '';
+    const details = entry.summary.replace(/\|/g, '\\|');
+    lines.push(`| ${entry.timestamp} | ${since} |${task} ${entry.kind} | ${details} | ${entry.source} |`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Timeline domain tools - Show what happened to a task or feature, merged from every audit source.
+ */
+export class TimelineTools {
+  constructor(private readonly deps: TimelineToolsDependencies) {}
+
+  /**
+   * Merge the event log, transition journal and bead comments/audit entries into one timeline.
+   */
+  timelineTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const { taskService } = this.deps;
+    const projectRoot = this.deps.projectRoot ?? process.cwd();
+
+    return tool({
+      description:
+        'Show what happened to a task or a whole feature: dispatches and attempts, blocked reasons, decisions, status transitions, commits, merges and reopens, merged in order from the event log, the transition journal and bead comments/audit entries, with the time between steps. Renders markdown or JSON.',
+      args: {
+        task: tool.schema
+          .string()
+          .optional()
+          .describe('Task folder, or its number such as "04" (omit for the whole feature)'),
+        since: tool.schema.string().optional().describe('Only steps at or after this ISO timestamp'),
+        until: tool.schema.string().optional().describe('Only steps at or before this ISO timestamp'),
+        format: tool.schema
+          .enum(['markdown', 'json'])
+          .optional()
+          .default('markdown')
+          .describe('markdown (default) renders a table; json returns the timeline entries'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+      },
+      async execute({ task, since, until, format = 'markdown', feature: explicitFeature }) {
+        if (task) validateTaskInput(task);
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        for (const [name, value] of [
+          ['since', since],
+          ['until', until],
+        ] as const) {
+          if (value && Number.isNaN(Date.parse(value))) {
+            return toolError(`Invalid ${name} timestamp "${value}"`, [
+              'Use an ISO timestamp such as 2025-01-02T00:00:00Z.',
+            ]);
+          }
+        }
+
+        const tasks = taskService.list(feature);
+        let taskFolder: string | null = null;
+        if (task) {
+          const match =
+            tasks.find((info) => info.folder === task) ??
+            (/^\d+$/.test(task)
+              ? tasks.find((info) => Number.parseInt(info.folder, 10) === Number.parseInt(task, 10))
+              : undefined);
+          if (!match) return toolError(`Task "${task}" not found in feature "${feature}"`);
+          taskFolder = match.folder;
+        }
+
+        const histories = (taskFolder ? [taskFolder] : tasks.map((info) => info.folder)).flatMap((folder) => {
+          const history = taskService.getTaskHistory(feature, folder);
+          return history ? [{ task: folder, history }] : [];
+        });
+        const timeline = buildTimeline(
+          feature,
+          taskFolder,
+          { events: readEventLog(projectRoot), histories },
+          { since, until },
+        );
+
+        if (format === 'json') {
+          return toolSuccess(timeline);
+        }
+        return toolSuccess({
+          feature,
+          task: taskFolder,
+          steps: timeline.entries.length,
+          durationMs: timeline.durationMs,
+          markdown: formatTimelineMarkdown(timeline),
+        });
+      },
+    });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Worktree refresh helpers.
+ *
+ * Shared by warcraft_worktree_refresh and batch dispatch of resumed tasks so both
+ * record the new base commit the same way.
+ */
+
+import type { RefreshResult, RefreshStrategy, TaskService, WorktreeService } from 'warcraft-core';
+
+export interface RefreshTaskWorktreeServices {
+  taskService: Pick<TaskService, 'update'>;
+  worktreeService: Pick<WorktreeService, 'refresh'>;
+}
+
+/**
+ * Refresh a task branch onto the latest base and record the new `baseCommit` on the task status,
+ * so later diffs and verification only see the task's own changes.
+ */
+export async function refreshTaskWorktree(
+  services: RefreshTaskWorktreeServices,
+  feature: string,
+  task: string,
+  strategy: RefreshStrategy = 'rebase',
+): Promise<RefreshResult> {
+  const result = await services.worktreeService.refresh(feature, task, strategy);
+  if (result.success && result.baseCommit) {
+    services.taskService.update(feature, task, { baseCommit: result.baseCommit });
+  }
+  return result;
+}
+
+/** Human-readable failure message for a refresh that did not succeed. */
+export function formatRefreshFailure(task: string, result: Extract<RefreshResult, { success: false }>): string {
+  if (result.conflicts.length > 0) {
+    return `Refreshing "${task}" conflicts with the latest base in:\n${result.conflicts.map((f) => `- ${f}`).join('\n')}`;
+  }
+  return `Refreshing "${task}" failed: ${result.error}`;
+}
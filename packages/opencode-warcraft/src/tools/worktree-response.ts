@@ -5,6 +5,7 @@
  * All functions are pure — they take data in and return formatted objects.
  */
 
+import type { VerificationModel } from 'warcraft-core';
 import type { PromptWarning } from '../utils/prompt-observability.js';
 
 // ============================================================================
@@ -318,7 +319,7 @@ export function buildTerminalCommitResult(input: {
   workspaceMode: 'worktree' | 'direct';
   workspacePath?: string;
   branch?: string;
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
   missingGatesForWarn: string[];
 }): Record<string, unknown> {
   const { task, status, workspaceMode, workspacePath, branch, verificationModel, missingGatesForWarn } = input;
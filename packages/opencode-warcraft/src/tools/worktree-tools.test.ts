@@ -848,6 +848,976 @@ describe('mergeTaskTool verify arg handling', () => {
   });
 });
 
+describe('mergeTaskTool configured verification commands', () => {
+  const resolveFeature = () => 'test-feature';
+
+  it('runs configured gate commands with their timeout, cwd and env', async () => {
+    const calls: Array<{ command: string; options: { cwd: string; timeout: number; env?: NodeJS.ProcessEnv } }> = [];
+    const execAsync = async (command: string, options: { cwd: string; timeout: number; env?: NodeJS.ProcessEnv }) => {
+      calls.push({ command, options });
+      return { stdout: `${command} ok`, stderr: '' };
+    };
+    const deps = createMergeDeps({
+      verificationModel: 'tdd',
+      execAsync,
+      projectDir: '/fake/project',
+      verification: {
+        timeoutMs: 60_000,
+        build: { command: 'cargo build --locked' },
+        test: { command: 'cargo test', cwd: 'crates/core', env: { RUST_BACKTRACE: '1' } },
+        lint: { command: 'cargo clippy', timeoutMs: 120_000 },
+      },
+    });
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(resolveFeature);
+
+    const result = await mergeTool.execute(
+      { task: '01-task', strategy: 'merge', feature: 'test-feature' },
+      {} as never,
+    );
+
+    expect(calls.map((c) => c.command)).toEqual(['cargo build --locked', 'cargo test', 'cargo clippy']);
+    expect(calls.map((c) => c.options.timeout)).toEqual([60_000, 60_000, 120_000]);
+    expect(calls[1].options.cwd).toBe('/fake/project/crates/core');
+    expect(calls[1].options.env?.RUST_BACKTRACE).toBe('1');
+    expect(calls[0].options.env).toBeUndefined();
+
+    const verification = parseToolResult(result).verification as Record<string, unknown>;
+    expect(verification.passed).toBe(true);
+    expect(verification.commands).toEqual({ build: 'cargo build --locked', test: 'cargo test', lint: 'cargo clippy' });
+  });
+
+  it('uses the package override for merges confined to one package and reports failing gates', async () => {
+    const calls: Array<{ command: string; cwd: string }> = [];
+    const execAsync = async (command: string, options: { cwd: string; timeout: number }) => {
+      calls.push({ command, cwd: options.cwd });
+      if (command === 'pytest -q') {
+        throw Object.assign(new Error('Command failed: pytest -q'), { code: 1, stdout: '1 failed', stderr: '' });
+      }
+      return { stdout: 'ok', stderr: '' };
+    };
+    const deps = createMergeDeps({
+      verificationModel: 'tdd',
+      execAsync,
+      projectDir: '/fake/project',
+      worktreeServiceOverrides: {
+        merge: async () => mergeSuccess({ filesChanged: ['services/api/app.py', 'services/api/tests/test_app.py'] }),
+      },
+      verification: {
+        build: { command: 'make build' },
+        test: { command: 'make test' },
+        packages: {
+          'services/api': { build: { enabled: false }, test: { command: 'pytest -q' }, lint: { enabled: false } },
+        },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(resolveFeature);
+
+    const result = await mergeTool.execute(
+      { task: '01-task', strategy: 'merge', feature: 'test-feature' },
+      {} as never,
+    );
+
+    expect(calls).toEqual([{ command: 'pytest -q', cwd: '/fake/project/services/api' }]);
+    const verification = parseToolResult(result).verification as {
+      passed: boolean;
+      results: Record<string, { exitCode: number }>;
+      output: string;
+    };
+    expect(verification.passed).toBe(false);
+    expect(verification.results.test.exitCode).toBe(1);
+    expect(verification.output).toContain('1 failed');
+  });
+});
+
+describe('mergeTaskTool integration branch', () => {
+  const resolveFeature = () => 'test-feature';
+
+  it('merges into the integration branch and verifies in its worktree when enabled', async () => {
+    const mergeCalls: unknown[][] = [];
+    const { mockExec, getCalls } = createMockExec();
+    const deps = createMergeDeps({
+      verificationModel: 'tdd',
+      integrationBranchEnabled: true,
+      execAsync: mockExec,
+      projectDir: '/fake/project',
+      verification: { build: { command: 'make build' }, test: { command: 'make test' }, lint: { enabled: false } },
+      worktreeServiceOverrides: {
+        merge: async (...args: unknown[]) => {
+          mergeCalls.push(args);
+          return mergeSuccess();
+        },
+        getIntegrationBranchName: (feature: string) => `warcraft/${feature}/integration`,
+        getIntegration: async () => ({
+          feature: 'test-feature',
+          branch: 'warcraft/test-feature/integration',
+          path: '/fake/integration/test-feature',
+          commit: 'int-sha',
+        }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(resolveFeature);
+
+    const result = await mergeTool.execute(
+      { task: '01-task', strategy: 'merge', feature: 'test-feature' },
+      {} as never,
+    );
+
+    expect(mergeCalls).toEqual([['test-feature', '01-task', 'merge', { target: 'integration' }]]);
+    const data = parseToolResult(result);
+    expect(data.target).toBe('warcraft/test-feature/integration');
+    expect(data.message).toContain('integration branch warcraft/test-feature/integration');
+    expect(getCalls().map((c) => c.options.cwd)).toEqual([
+      '/fake/integration/test-feature',
+      '/fake/integration/test-feature',
+    ]);
+  });
+
+  it('merges into the current branch by default', async () => {
+    const mergeCalls: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      worktreeServiceOverrides: {
+        merge: async (...args: unknown[]) => {
+          mergeCalls.push(args);
+          return mergeSuccess();
+        },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(resolveFeature);
+
+    const result = await mergeTool.execute(
+      { task: '01-task', strategy: 'merge', feature: 'test-feature' },
+      {} as never,
+    );
+
+    expect(mergeCalls[0][3]).toEqual({ target: 'current' });
+    expect(parseToolResult(result).target).toBeUndefined();
+  });
+});
+
+describe('mergeTaskTool merge record', () => {
+  it('records mergedAt and mergeSha on the task after a successful merge', async () => {
+    const updates: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: { update: (...args: unknown[]) => updates.push(args) },
+      worktreeServiceOverrides: { merge: async () => mergeSuccess({ sha: 'merge-sha-9' }) },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    await mergeTool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].slice(0, 2)).toEqual(['test-feature', '01-task']);
+    expect(updates[0][2]).toMatchObject({ mergeSha: 'merge-sha-9', mergedAt: expect.any(String) });
+  });
+
+  it('also records the resolved task when merging a conflict resolution task', async () => {
+    const updates: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: {
+        getRawStatus: () => ({ workerSession: { workspaceMode: 'worktree' }, resolvesConflictsFor: '02-api' }),
+        update: (...args: unknown[]) => updates.push(args),
+      },
+      worktreeServiceOverrides: { merge: async () => mergeSuccess({ sha: 'resolved-sha' }) },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const data = parseToolResult(
+      await mergeTool.execute({ task: '03-resolve-02-api-conflicts', feature: 'test-feature' }, {} as never),
+    );
+
+    expect(data.resolves).toBe('02-api');
+    expect(updates.map((u) => u[1])).toEqual(['03-resolve-02-api-conflicts', '02-api']);
+    expect(updates[1][2]).toMatchObject({ mergeSha: 'resolved-sha' });
+  });
+
+  it('records the applied range of a rebase merge', async () => {
+    const updates: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: { update: (...args: unknown[]) => updates.push(args) },
+      worktreeServiceOverrides: {
+        merge: async () => mergeSuccess({ strategy: 'rebase', sha: 'last-pick', baseSha: 'before-head' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    await mergeTool.execute({ task: '01-task', strategy: 'rebase', feature: 'test-feature' }, {} as never);
+
+    expect(updates[0][2]).toMatchObject({ mergeSha: 'last-pick', mergeBaseSha: 'before-head' });
+  });
+
+  it('records a merge that found nothing to apply without a merge commit', async () => {
+    const updates: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: { update: (...args: unknown[]) => updates.push(args) },
+      worktreeServiceOverrides: {
+        merge: async () =>
+          mergeSuccess({ outcome: 'already-up-to-date', sha: 'target-head', targetBranch: 'main', filesChanged: [] }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const data = parseToolResult(await mergeTool.execute({ task: '01-task', feature: 'test-feature' }, {} as never));
+
+    expect(data.outcome).toBe('already-up-to-date');
+    expect(updates).toHaveLength(1);
+    expect(updates[0][2]).toMatchObject({ mergeBranch: 'main', mergeSha: undefined, mergeBaseSha: undefined });
+    expect((updates[0][2] as { mergedAt?: string }).mergedAt).toBeDefined();
+  });
+
+  it('records the branch a merge landed on', async () => {
+    const updates: unknown[][] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: { update: (...args: unknown[]) => updates.push(args) },
+      worktreeServiceOverrides: {
+        merge: async () => mergeSuccess({ sha: 'merge-sha', targetBranch: 'warcraft/test-feature/integration' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    await mergeTool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+
+    expect(updates[0][2]).toMatchObject({ mergeSha: 'merge-sha', mergeBranch: 'warcraft/test-feature/integration' });
+  });
+});
+
+describe('mergeRevertTool', () => {
+  function createRevertDeps(
+    revertMerge: (...args: unknown[]) => Promise<unknown>,
+    raw: Record<string, Record<string, unknown>> = {
+      '02-api': { status: 'done', mergeSha: 'merge-sha', workerSession: { workspaceMode: 'worktree' } },
+    },
+  ) {
+    const transitions: Array<[string, string]> = [];
+    const updates: unknown[][] = [];
+    const events: Array<Record<string, unknown>> = [];
+    const removed: unknown[][] = [];
+    const reports: Record<string, string> = { '02-api': '# Task Report: 02-api\n\nDone.\n' };
+    const deps = createMergeDeps({
+      taskServiceOverrides: {
+        get: (_feature: string, folder: string) =>
+          raw[folder] ? { folder, name: folder, status: raw[folder].status, origin: 'plan' } : null,
+        getRawStatus: (_feature: string, folder: string) => raw[folder] ?? null,
+        list: () => Object.keys(raw).map((folder) => ({ folder, name: folder, status: raw[folder].status })),
+        readReport: (_feature: string, folder: string) => reports[folder] ?? null,
+        writeReport: (_feature: string, folder: string, report: string) => {
+          reports[folder] = report;
+          return `/reports/${folder}.md`;
+        },
+        update: (...args: unknown[]) => updates.push(args),
+        transition: (_feature: string, folder: string, status: string) => transitions.push([folder, status]),
+      },
+      worktreeServiceOverrides: {
+        revertMerge,
+        remove: async (...args: unknown[]) => {
+          removed.push(args);
+        },
+      },
+      eventLogger: {
+        emit: (event: Record<string, unknown>) => events.push(event),
+        getLatestTraceContext: () => undefined,
+      } as unknown as WorktreeToolsDependencies['eventLogger'],
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    return { deps, transitions, updates, events, reports, removed };
+  }
+
+  it('reverts the merge, reopens the tasks it landed, and records the revert in the report', async () => {
+    const revertCalls: unknown[][] = [];
+    const { deps, transitions, updates, events, reports, removed } = createRevertDeps(
+      async (...args) => {
+        revertCalls.push(args);
+        return { success: true, sha: 'revert-sha', revertedSha: 'merge-sha', filesChanged: ['src/api.ts'] };
+      },
+      {
+        '02-api': { status: 'done', mergeSha: 'merge-sha', workerSession: { workspaceMode: 'worktree' } },
+        '03-resolve-02-api-conflicts': { status: 'done', mergeSha: 'merge-sha', resolvesConflictsFor: '02-api' },
+        '01-core': { status: 'done', mergeSha: 'core-sha' },
+      },
+    );
+    const revertTool = new WorktreeTools(deps).mergeRevertTool(() => 'test-feature');
+
+    const data = parseToolResult(
+      await revertTool.execute({ task: '02-api', reason: 'Broke login', feature: 'test-feature' }, {
+        agent: 'saurfang',
+      } as never),
+    );
+
+    expect(revertCalls[0]).toEqual(['test-feature', '02-api', 'merge-sha', { target: 'current', baseSha: undefined }]);
+    expect(data).toMatchObject({
+      status: 'pending',
+      revertSha: 'revert-sha',
+      revertedSha: 'merge-sha',
+      alsoReopened: ['03-resolve-02-api-conflicts'],
+    });
+    expect(transitions).toEqual([
+      ['02-api', 'cancelled'],
+      ['02-api', 'pending'],
+      ['03-resolve-02-api-conflicts', 'cancelled'],
+      ['03-resolve-02-api-conflicts', 'pending'],
+    ]);
+    expect(updates).toEqual([]);
+    expect(removed).toEqual([
+      ['test-feature', '02-api', true],
+      ['test-feature', '03-resolve-02-api-conflicts', true],
+    ]);
+    expect(reports['02-api']).toContain('Done.\n\n---\n\n## Reverted');
+    expect(reports['02-api']).toContain('- **Reverted by:** saurfang');
+    expect(reports['02-api']).toContain('- **Reason:** Broke login');
+    expect(events[0]).toMatchObject({
+      type: 'reopen',
+      task: '02-api',
+      details: { previousStatus: 'done', newStatus: 'pending', reason: 'Broke login', revertSha: 'revert-sha' },
+    });
+    expect(events[1]).toMatchObject({
+      type: 'reopen',
+      task: '03-resolve-02-api-conflicts',
+      details: { newStatus: 'pending', revertedWith: '02-api' },
+    });
+  });
+
+  it('reverts on the branch the task was merged into, whatever the current config', async () => {
+    const revertCalls: unknown[][] = [];
+    const { deps } = createRevertDeps(
+      async (...args) => {
+        revertCalls.push(args);
+        return { success: true, sha: 'revert-sha', revertedSha: 'merge-sha', filesChanged: [] };
+      },
+      {
+        '02-api': {
+          status: 'done',
+          mergeSha: 'merge-sha',
+          mergeBranch: 'warcraft/test-feature/integration',
+          workerSession: { workspaceMode: 'worktree' },
+        },
+      },
+    );
+    const revertTool = new WorktreeTools({ ...deps, integrationBranchEnabled: false }).mergeRevertTool(
+      () => 'test-feature',
+    );
+
+    const data = parseToolResult(
+      await revertTool.execute({ task: '02-api', reason: 'Broke login', feature: 'test-feature' }, {} as never),
+    );
+
+    expect(revertCalls[0]).toEqual([
+      'test-feature',
+      '02-api',
+      'merge-sha',
+      { branch: 'warcraft/test-feature/integration', baseSha: undefined },
+    ]);
+    expect(data.target).toBe('warcraft/test-feature/integration');
+  });
+
+  it('reverts the whole applied range of a rebase merge', async () => {
+    const revertCalls: unknown[][] = [];
+    const { deps, reports } = createRevertDeps(
+      async (...args) => {
+        revertCalls.push(args);
+        return { success: true, sha: 'revert-sha', revertedSha: 'last-pick', filesChanged: ['a.ts', 'b.ts'] };
+      },
+      {
+        '02-api': {
+          status: 'done',
+          mergeSha: 'last-pick',
+          mergeBaseSha: 'before-head',
+          workerSession: { workspaceMode: 'worktree' },
+        },
+      },
+    );
+    const revertTool = new WorktreeTools(deps).mergeRevertTool(() => 'test-feature');
+
+    await revertTool.execute({ task: '02-api', reason: 'Broke login', feature: 'test-feature' }, {} as never);
+
+    expect(revertCalls[0]).toEqual([
+      'test-feature',
+      '02-api',
+      'last-pick',
+      { target: 'current', baseSha: 'before-head' },
+    ]);
+    expect(reports['02-api']).toContain('- **Merge commit:** before-head..last-pick');
+  });
+
+  it('leaves the task untouched when the revert conflicts', async () => {
+    const { deps, transitions, events } = createRevertDeps(async () => ({
+      success: false,
+      outcome: 'conflicted',
+      revertedSha: 'merge-sha',
+      conflicts: ['src/api.ts'],
+      error: 'Reverting 02-api conflicts with later changes',
+    }));
+    const revertTool = new WorktreeTools(deps).mergeRevertTool(() => 'test-feature');
+
+    const result = JSON.parse(
+      (await revertTool.execute(
+        { task: '02-api', reason: 'Broke login', feature: 'test-feature' },
+        {} as never,
+      )) as string,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('- src/api.ts');
+    expect(transitions).toEqual([]);
+    expect(events).toEqual([]);
+  });
+
+  it('rejects tasks without a recorded merge', async () => {
+    const { deps } = createRevertDeps(
+      async () => {
+        throw new Error('should not revert');
+      },
+      { '02-api': { status: 'done', workerSession: { workspaceMode: 'worktree' } } },
+    );
+    const revertTool = new WorktreeTools(deps).mergeRevertTool(() => 'test-feature');
+
+    const result = JSON.parse(
+      (await revertTool.execute(
+        { task: '02-api', reason: 'Broke login', feature: 'test-feature' },
+        {} as never,
+      )) as string,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Task "02-api" has no merge commit of its own to revert.');
+  });
+});
+
+describe('mergeTaskTool preview mode', () => {
+  it('reports predicted conflicts and diffstat without merging', async () => {
+    let mergeCalled = false;
+    const previewCalls: unknown[][] = [];
+    const deps = createMergeDeps({
+      taskServiceOverrides: {
+        get: () => ({ folder: '02-api', name: 'API', status: 'in_progress', origin: 'plan' }),
+        getRawStatus: () => ({ baseCommit: 'base-sha', workerSession: { workspaceMode: 'worktree' } }),
+      },
+      worktreeServiceOverrides: {
+        merge: async () => {
+          mergeCalled = true;
+          return mergeSuccess();
+        },
+        previewMerge: async (...args: unknown[]) => {
+          previewCalls.push(args);
+          return {
+            feature: 'test-feature',
+            step: '02-api',
+            targetBranch: 'main',
+            conflicts: ['src/shared.ts'],
+            filesChanged: ['src/shared.ts', 'src/api.ts'],
+            insertions: 12,
+            deletions: 3,
+          };
+        },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const data = parseToolResult(
+      await mergeTool.execute({ task: '02-api', feature: 'test-feature', mode: 'preview' }, {} as never),
+    );
+
+    expect(mergeCalled).toBe(false);
+    expect(previewCalls[0]).toEqual(['test-feature', '02-api', { target: 'current', baseCommit: 'base-sha' }]);
+    expect(data).toMatchObject({
+      mode: 'preview',
+      target: 'main',
+      clean: false,
+      conflicts: ['src/shared.ts'],
+      diffstat: { files: 2, insertions: 12, deletions: 3 },
+    });
+  });
+
+  it('says so when the integration branch to preview against does not exist yet', async () => {
+    const deps = createMergeDeps({
+      integrationBranchEnabled: true,
+      worktreeServiceOverrides: {
+        getIntegrationBranchName: () => 'warcraft/test-feature/integration',
+        previewMerge: async () => ({
+          feature: 'test-feature',
+          step: '01-task',
+          targetBranch: 'warcraft/test-feature/integration',
+          conflicts: [],
+          filesChanged: ['src/a.ts'],
+          insertions: 2,
+          deletions: 0,
+          integrationMissing: true,
+        }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const data = parseToolResult(
+      await mergeTool.execute({ task: '01-task', feature: 'test-feature', mode: 'preview' }, {} as never),
+    );
+
+    expect(data).toMatchObject({
+      target: 'warcraft/test-feature/integration',
+      integrationMissing: true,
+      clean: null,
+      diffstat: { files: 1, insertions: 2, deletions: 0 },
+    });
+    expect(data.message).toContain('does not exist yet');
+  });
+
+  it('surfaces preview errors', async () => {
+    const deps = createMergeDeps({
+      worktreeServiceOverrides: {
+        previewMerge: async () => ({
+          feature: 'test-feature',
+          step: '01-task',
+          targetBranch: 'main',
+          conflicts: [],
+          filesChanged: [],
+          insertions: 0,
+          deletions: 0,
+          error: 'getDiff failed: no worktree',
+        }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const result = JSON.parse(
+      (await mergeTool.execute({ task: '01-task', feature: 'test-feature', mode: 'preview' }, {} as never)) as string,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Merge preview failed: getDiff failed: no worktree');
+  });
+});
+
+describe('mergeTaskTool conflict handoff', () => {
+  it('keeps the conflict error and explains why the handoff could not start', async () => {
+    const deps = createMergeDeps({
+      featureService: { getSession: () => 'sess-1' } as unknown as WorktreeToolsDependencies['featureService'],
+      taskServiceOverrides: {
+        list: () => [
+          { folder: '02-api', name: '02-api', status: 'done', origin: 'plan' },
+          { folder: '03-resolve-02-api-conflicts', name: 'resolve', status: 'in_progress', origin: 'manual' },
+        ],
+        getRawStatus: (_feature: string, folder: string) =>
+          folder === '03-resolve-02-api-conflicts'
+            ? { status: 'in_progress', resolvesConflictsFor: '02-api' }
+            : { workerSession: { workspaceMode: 'worktree' } },
+      },
+      worktreeServiceOverrides: {
+        create: async () => ({}),
+        get: async () => null,
+        remove: async () => {},
+        merge: async () =>
+          mergeFailure({ outcome: 'conflicted', conflicts: ['src/shared.ts'], error: 'Merge conflicts detected' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const result = JSON.parse(
+      (await mergeTool.execute({ task: '02-api', feature: 'test-feature', onConflict: 'handoff' }, {
+        sessionID: 'sess-1',
+      } as never)) as string,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('- src/shared.ts');
+    expect(result.error).toContain('Conflict handoff failed: Task "03-resolve-02-api-conflicts" already resolves');
+  });
+
+  it('suggests the handoff when a conflict aborts the merge', async () => {
+    const deps = createMergeDeps({
+      worktreeServiceOverrides: {
+        merge: async () =>
+          mergeFailure({ outcome: 'conflicted', conflicts: ['src/shared.ts'], error: 'Merge conflicts detected' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const mergeTool = new WorktreeTools(deps).mergeTaskTool(() => 'test-feature');
+
+    const result = JSON.parse(
+      (await mergeTool.execute({ task: '02-api', feature: 'test-feature' }, {} as never)) as string,
+    );
+
+    expect(result.success).toBe(false);
+    expect(JSON.stringify(result)).toContain('onConflict: \\"handoff\\"');
+  });
+});
+
+describe('mergeQueueTool', () => {
+  const resolveFeature = () => 'test-feature';
+
+  type QueueTask = {
+    folder: string;
+    status: string;
+    dependsOn?: string[];
+    mergedAt?: string;
+    resolvesConflictsFor?: string;
+    workspaceMode?: 'worktree' | 'direct';
+  };
+
+  function createQueueDeps(
+    tasks: QueueTask[],
+    merge: (feature: string, task: string) => Promise<MergeResult>,
+    overrides: Record<string, unknown> = {},
+  ) {
+    const byFolder = new Map(tasks.map((t) => [t.folder, t]));
+    const mergeOrder: string[] = [];
+    const deps = createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: {
+        list: () => tasks.map((t) => ({ folder: t.folder, name: t.folder, status: t.status, origin: 'plan' })),
+        getRawStatus: (_feature: string, folder: string) => {
+          const t = byFolder.get(folder);
+          return t
+            ? {
+                status: t.status,
+                dependsOn: t.dependsOn,
+                mergedAt: t.mergedAt,
+                resolvesConflictsFor: t.resolvesConflictsFor,
+                workerSession: { workspaceMode: t.workspaceMode ?? 'worktree' },
+              }
+            : null;
+        },
+        update: (_feature: string, folder: string, patch: { mergedAt?: string }) => {
+          const t = byFolder.get(folder);
+          if (t) t.mergedAt = patch.mergedAt;
+        },
+      },
+      worktreeServiceOverrides: {
+        merge: async (feature: string, task: string) => {
+          mergeOrder.push(task);
+          return merge(feature, task);
+        },
+      },
+      ...overrides,
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    return { deps, mergeOrder };
+  }
+
+  it('merges done tasks in dependency order and records them', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-ui', status: 'done', dependsOn: ['03-api'] },
+      { folder: '02-docs', status: 'done', dependsOn: [], mergedAt: '2024-01-01T00:00:00Z' },
+      { folder: '03-api', status: 'done', dependsOn: [] },
+      { folder: '04-later', status: 'pending', dependsOn: ['01-ui'] },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async (_f, task) => mergeSuccess({ sha: `sha-${task}` }));
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const data = parseToolResult(await queueTool.execute({ feature: 'test-feature' }, {} as never));
+
+    expect(mergeOrder).toEqual(['03-api', '01-ui']);
+    expect(data.order).toEqual(['03-api', '01-ui']);
+    expect((data.merged as Array<{ task: string; sha: string }>).map((m) => [m.task, m.sha])).toEqual([
+      ['03-api', 'sha-03-api'],
+      ['01-ui', 'sha-01-ui'],
+    ]);
+    expect(data.stopped).toBeNull();
+    expect(tasks[0].mergedAt).toBeDefined();
+    expect(tasks[2].mergedAt).toBeDefined();
+  });
+
+  it('skips tasks whose dependencies are not merged and treats direct-mode tasks as integrated', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-direct', status: 'done', dependsOn: [], workspaceMode: 'direct' },
+      { folder: '02-blocked-dep', status: 'in_progress', dependsOn: [] },
+      { folder: '03-waits', status: 'done', dependsOn: ['02-blocked-dep'] },
+      { folder: '04-ok', status: 'done', dependsOn: ['01-direct'] },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async () => mergeSuccess());
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const data = parseToolResult(await queueTool.execute({ feature: 'test-feature' }, {} as never));
+
+    expect(mergeOrder).toEqual(['04-ok']);
+    expect(data.skipped).toEqual([
+      { task: '03-waits', reason: 'Dependencies not merged: 02-blocked-dep (in_progress)' },
+    ]);
+  });
+
+  it('stops on the first conflict and reports what is left', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-a', status: 'done', dependsOn: [] },
+      { folder: '02-b', status: 'done', dependsOn: ['01-a'] },
+      { folder: '03-c', status: 'done', dependsOn: ['02-b'] },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async (_f, task) =>
+      task === '02-b'
+        ? mergeFailure({ conflicts: ['src/shared.ts'], error: 'Merge conflicts detected' })
+        : mergeSuccess(),
+    );
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const result = JSON.parse((await queueTool.execute({ feature: 'test-feature' }, {} as never)) as string);
+
+    expect(mergeOrder).toEqual(['01-a', '02-b']);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Merge queue stopped at "02-b"');
+    expect(result.error).toContain('- src/shared.ts');
+    expect(result.data.stopped).toMatchObject({ task: '02-b', reason: 'conflict' });
+    expect(result.data.remaining).toEqual(['02-b', '03-c']);
+    expect(tasks[1].mergedAt).toBeUndefined();
+  });
+
+  it('verifies between merges and stops when verification fails', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-a', status: 'done', dependsOn: [] },
+      { folder: '02-b', status: 'done', dependsOn: ['01-a'] },
+    ];
+    const { mockExec, getCalls } = createMockExec({ shouldFail: true });
+    const { deps, mergeOrder } = createQueueDeps(tasks, async () => mergeSuccess(), {
+      verificationModel: 'tdd',
+      execAsync: mockExec,
+      projectDir: '/fake/project',
+      verification: { build: { enabled: false }, test: { command: 'make test' }, lint: { enabled: false } },
+    });
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const result = JSON.parse((await queueTool.execute({ feature: 'test-feature' }, {} as never)) as string);
+
+    expect(mergeOrder).toEqual(['01-a']);
+    expect(getCalls().map((c) => c.command)).toEqual(['make test']);
+    expect(result.success).toBe(false);
+    expect(result.data.stopped).toMatchObject({ task: '01-a', reason: 'verification-failed' });
+    expect(result.data.remaining).toEqual(['02-b']);
+    expect(tasks[0].mergedAt).toBeDefined();
+  });
+
+  it('merges a done resolution task in place of the task whose conflicts it resolved', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-a', status: 'done', dependsOn: [] },
+      { folder: '02-b', status: 'done', dependsOn: ['01-a'] },
+      { folder: '03-c', status: 'done', dependsOn: ['02-b'] },
+      { folder: '04-resolve-02-b-conflicts', status: 'done', dependsOn: [], resolvesConflictsFor: '02-b' },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async () => mergeSuccess());
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const data = parseToolResult(await queueTool.execute({ feature: 'test-feature' }, {} as never));
+
+    expect(mergeOrder).toEqual(['01-a', '04-resolve-02-b-conflicts', '03-c']);
+    expect((data.merged as Array<Record<string, unknown>>)[1]).toMatchObject({
+      task: '04-resolve-02-b-conflicts',
+      resolves: '02-b',
+    });
+    expect(tasks[1].mergedAt).toBeDefined();
+  });
+
+  it('records queue entries whose merge was a no-op so later runs skip them', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-a', status: 'done', dependsOn: [] },
+      { folder: '02-b', status: 'done', dependsOn: ['01-a'] },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async (_f, task) =>
+      task === '01-a' ? mergeSuccess({ outcome: 'already-up-to-date', filesChanged: [] }) : mergeSuccess(),
+    );
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const data = parseToolResult(await queueTool.execute({ feature: 'test-feature' }, {} as never));
+
+    expect(mergeOrder).toEqual(['01-a', '02-b']);
+    expect((data.merged as Array<{ outcome: string }>).map((m) => m.outcome)).toEqual(['already-up-to-date', 'merged']);
+    expect(tasks[0].mergedAt).toBeDefined();
+    expect(tasks[1].mergedAt).toBeDefined();
+
+    mergeOrder.length = 0;
+    const rerun = parseToolResult(await queueTool.execute({ feature: 'test-feature' }, {} as never));
+    expect(mergeOrder).toEqual([]);
+    expect(rerun.order).toEqual([]);
+  });
+
+  it('reports the planned order without merging in dryRun mode', async () => {
+    const tasks: QueueTask[] = [
+      { folder: '01-a', status: 'done' },
+      { folder: '02-b', status: 'done' },
+    ];
+    const { deps, mergeOrder } = createQueueDeps(tasks, async () => mergeSuccess());
+    const queueTool = new WorktreeTools(deps).mergeQueueTool(resolveFeature);
+
+    const data = parseToolResult(await queueTool.execute({ feature: 'test-feature', dryRun: true }, {} as never));
+
+    expect(mergeOrder).toEqual([]);
+    expect(data.planned).toEqual(['01-a', '02-b']);
+    expect(data.merged).toEqual([]);
+  });
+});
+
+describe('featureMergeTool', () => {
+  const resolveFeature = () => 'test-feature';
+
+  function createFeatureMergeDeps(
+    tasks: Array<{ folder: string; status: string; mergedAt?: string; workspaceMode?: 'worktree' | 'direct' }>,
+    overrides: Record<string, unknown> = {},
+  ): WorktreeToolsDependencies {
+    return createMergeDeps({
+      verificationModel: 'best-effort',
+      taskServiceOverrides: {
+        list: () => tasks,
+        getRawStatus: (_feature: string, folder: string) => {
+          const task = tasks.find((t) => t.folder === folder);
+          return task
+            ? { mergedAt: task.mergedAt, workerSession: { workspaceMode: task.workspaceMode ?? 'worktree' } }
+            : null;
+        },
+      },
+      ...overrides,
+      worktreeServiceOverrides: {
+        getIntegrationBranchName: (feature: string) => `warcraft/${feature}/integration`,
+        mergeFeature: async () => mergeSuccess({ sha: 'feature-sha', filesChanged: ['src/a.ts', 'src/b.ts'] }),
+        removeIntegration: async () => {},
+        ...((overrides.worktreeServiceOverrides as Record<string, unknown>) ?? {}),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+  }
+
+  it('rejects the merge while tasks are unfinished', async () => {
+    let merged = false;
+    const deps = createFeatureMergeDeps(
+      [
+        { folder: '01-a', status: 'done' },
+        { folder: '02-b', status: 'in_progress' },
+      ],
+      {
+        worktreeServiceOverrides: {
+          mergeFeature: async () => {
+            merged = true;
+            return mergeSuccess();
+          },
+        },
+      },
+    );
+    const featureMergeTool = new WorktreeTools(deps).featureMergeTool(resolveFeature);
+
+    const result = JSON.parse((await featureMergeTool.execute({ feature: 'test-feature' }, {} as never)) as string);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('02-b (in_progress)');
+    expect(merged).toBe(false);
+  });
+
+  it('merges the feature, emits a feature-scope merge event, and verifies once', async () => {
+    const events: Array<Record<string, unknown>> = [];
+    const featurePatches: unknown[][] = [];
+    const { mockExec, getCalls } = createMockExec();
+    let removed: unknown[] | undefined;
+    const deps = createFeatureMergeDeps(
+      [
+        { folder: '01-a', status: 'done', mergedAt: '2024-01-01T00:00:00Z' },
+        { folder: '02-b', status: 'cancelled' },
+      ],
+      {
+        verificationModel: 'tdd',
+        execAsync: mockExec,
+        projectDir: '/fake/project',
+        verification: { build: { command: 'make build' }, test: { command: 'make test' }, lint: { enabled: false } },
+        featureService: { patchMetadata: (...args: unknown[]) => featurePatches.push(args) },
+        eventLogger: {
+          emit: (event: Record<string, unknown>) => events.push(event),
+          getLatestTraceContext: () => undefined,
+        },
+        worktreeServiceOverrides: {
+          removeIntegration: async (...args: unknown[]) => {
+            removed = args;
+          },
+        },
+      },
+    );
+    const featureMergeTool = new WorktreeTools(deps).featureMergeTool(resolveFeature);
+
+    const result = await featureMergeTool.execute(
+      { feature: 'test-feature', strategy: 'squash', cleanup: true },
+      {} as never,
+    );
+
+    const data = parseToolResult(result);
+    expect(data.branch).toBe('warcraft/test-feature/integration');
+    expect(data.sha).toBe('feature-sha');
+    expect(data.tasks).toEqual(['01-a']);
+    expect(data.cleanup).toEqual({ requested: true, removed: true });
+    expect(removed).toEqual(['test-feature', true]);
+    expect((data.verification as { passed: boolean }).passed).toBe(true);
+    expect(getCalls().map((c) => c.command)).toEqual(['make build', 'make test']);
+
+    const mergeEvent = events.find((e) => e.type === 'merge');
+    expect(mergeEvent?.task).toBe('');
+    expect(mergeEvent?.details).toMatchObject({ scope: 'feature', filesChanged: 2, tasks: 1 });
+    expect(data.notMerged).toBeUndefined();
+    expect(featurePatches).toEqual([['test-feature', { mergedAt: expect.any(String) }]]);
+  });
+
+  it('refuses the merge while done tasks are not on the integration branch', async () => {
+    let merged = false;
+    const featurePatches: unknown[][] = [];
+    const deps = createFeatureMergeDeps(
+      [
+        { folder: '01-a', status: 'done', mergedAt: '2024-01-01T00:00:00Z' },
+        { folder: '02-b', status: 'done' },
+        { folder: '03-direct', status: 'done', workspaceMode: 'direct' },
+      ],
+      {
+        featureService: { patchMetadata: (...args: unknown[]) => featurePatches.push(args) },
+        worktreeServiceOverrides: {
+          mergeFeature: async () => {
+            merged = true;
+            return mergeSuccess();
+          },
+        },
+      },
+    );
+    const featureMergeTool = new WorktreeTools(deps).featureMergeTool(resolveFeature);
+
+    const result = JSON.parse((await featureMergeTool.execute({ feature: 'test-feature' }, {} as never)) as string);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Done tasks of feature "test-feature" are not on the integration branch yet: 02-b');
+    expect(merged).toBe(false);
+    expect(featurePatches).toEqual([]);
+  });
+
+  it('merges without unmerged tasks on allowPartial but does not mark the feature merged', async () => {
+    const events: Array<Record<string, unknown>> = [];
+    const featurePatches: unknown[][] = [];
+    const deps = createFeatureMergeDeps(
+      [
+        { folder: '01-a', status: 'done', mergedAt: '2024-01-01T00:00:00Z' },
+        { folder: '02-b', status: 'done' },
+        { folder: '03-direct', status: 'done', workspaceMode: 'direct' },
+      ],
+      {
+        featureService: { patchMetadata: (...args: unknown[]) => featurePatches.push(args) },
+        eventLogger: {
+          emit: (event: Record<string, unknown>) => events.push(event),
+          getLatestTraceContext: () => undefined,
+        },
+      },
+    );
+    const featureMergeTool = new WorktreeTools(deps).featureMergeTool(resolveFeature);
+
+    const data = parseToolResult(
+      await featureMergeTool.execute({ feature: 'test-feature', allowPartial: true }, {} as never),
+    );
+
+    expect(data.tasks).toEqual(['01-a']);
+    expect(data.notMerged).toEqual(['02-b']);
+    expect(data.message).toContain('left out: 02-b');
+    expect(events.find((e) => e.type === 'merge')?.details).toMatchObject({ tasks: 1, notMerged: 1 });
+    expect(featurePatches).toEqual([]);
+  });
+
+  it('explains that an integration branch is required when the merge fails', async () => {
+    const deps = createFeatureMergeDeps([{ folder: '01-a', status: 'done', mergedAt: '2024-01-01T00:00:00Z' }], {
+      worktreeServiceOverrides: {
+        mergeFeature: async () => mergeFailure({ error: 'Integration branch not found' }),
+      },
+    });
+    const featureMergeTool = new WorktreeTools(deps).featureMergeTool(resolveFeature);
+
+    const result = JSON.parse((await featureMergeTool.execute({ feature: 'test-feature' }, {} as never)) as string);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Integration branch not found');
+  });
+});
+
 describe('mergeTaskTool verification uses projectDir not process.cwd()', () => {
   const resolveFeature = () => 'test-feature';
 
@@ -1047,22 +2017,134 @@ describe('direct workspace mode', () => {
         }),
       },
       worktreeServiceOverrides: {
-        remove: async () => {
-          removeCalls += 1;
+        remove: async () => {
+          removeCalls += 1;
+        },
+      },
+    });
+    const tools = new WorktreeTools(deps);
+    const discardTool = tools.discardWorktreeTool(resolveFeature);
+
+    const result = await discardTool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+
+    expect(removeCalls).toBe(0);
+    expect(getTransitionCalls().map((call) => call.toStatus)).toEqual(['cancelled', 'pending']);
+    const data = parseToolResult(result);
+    expect(data.workspaceMode).toBe('direct');
+    expect(data.workspacePath).toBe('/repo/root');
+    expect(data.message).toContain('were not reverted');
+  });
+});
+
+describe('pruneWorktreeTool', () => {
+  it('logs dry-runs and confirmed prunes for trust metrics', async () => {
+    const events: Array<Record<string, unknown>> = [];
+    const stale = [
+      { feature: 'test-feature', step: '01-task', path: '/tmp/wt', branch: 'warcraft/test-feature/01-task' },
+    ];
+    const deps = createMergeDeps({
+      eventLogger: { emit: (event: Record<string, unknown>) => events.push(event) },
+      worktreeServiceOverrides: {
+        prune: async ({ dryRun }: { dryRun: boolean }) => ({
+          wouldRemove: stale,
+          removed: dryRun ? [] : ['/tmp/wt'],
+        }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tool = new WorktreeTools(deps).pruneWorktreeTool(() => 'test-feature');
+
+    await tool.execute({}, {} as never);
+    await tool.execute({ dryRun: false, confirm: true }, {} as never);
+
+    expect(events).toEqual([
+      {
+        type: 'prune',
+        feature: '',
+        task: '',
+        details: { dryRun: true, confirmed: false, staleCount: 1, removedCount: 0 },
+      },
+      {
+        type: 'prune',
+        feature: '',
+        task: '',
+        details: { dryRun: false, confirmed: true, staleCount: 1, removedCount: 1 },
+      },
+    ]);
+  });
+});
+
+describe('refreshWorktreeTool', () => {
+  const resolveFeature = () => 'test-feature';
+
+  it('records the new base commit after a successful refresh', async () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const deps = createMergeDeps({
+      taskServiceOverrides: {
+        get: () => ({ folder: '01-task', name: 'Task', status: 'blocked', origin: 'plan' as const }),
+        update: (_feature: string, _task: string, patch: Record<string, unknown>) => {
+          updates.push(patch);
+        },
+      },
+      worktreeServiceOverrides: {
+        refresh: async () => ({ ...mergeSuccess({ strategy: 'rebase', sha: 'head456' }), baseCommit: 'base789' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tool = new WorktreeTools(deps).refreshWorktreeTool(resolveFeature);
+
+    const result = await tool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+
+    const data = parseToolResult(result);
+    expect(data.outcome).toBe('merged');
+    expect(data.strategy).toBe('rebase');
+    expect(data.sha).toBe('head456');
+    expect(data.baseCommit).toBe('base789');
+    expect(updates).toEqual([{ baseCommit: 'base789' }]);
+  });
+
+  it('lists conflicting files and leaves the base commit alone on conflict', async () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const deps = createMergeDeps({
+      taskServiceOverrides: {
+        update: (_feature: string, _task: string, patch: Record<string, unknown>) => {
+          updates.push(patch);
+        },
+      },
+      worktreeServiceOverrides: {
+        refresh: async () =>
+          mergeFailure({ outcome: 'conflicted', strategy: 'rebase', conflicts: ['src/a.ts'], error: 'conflict' }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tool = new WorktreeTools(deps).refreshWorktreeTool(resolveFeature);
+
+    const result = await tool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+
+    const parsed = JSON.parse(result as string) as { success: boolean; error: string };
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toContain('- src/a.ts');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('refuses to refresh while a worker is running in the worktree', async () => {
+    let refreshCalls = 0;
+    const deps = createMergeDeps({
+      taskServiceOverrides: {
+        get: () => ({ folder: '01-task', name: 'Task', status: 'in_progress', origin: 'plan' as const }),
+      },
+      worktreeServiceOverrides: {
+        refresh: async () => {
+          refreshCalls += 1;
+          return mergeSuccess();
         },
       },
-    });
-    const tools = new WorktreeTools(deps);
-    const discardTool = tools.discardWorktreeTool(resolveFeature);
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tool = new WorktreeTools(deps).refreshWorktreeTool(resolveFeature);
 
-    const result = await discardTool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
+    const result = await tool.execute({ task: '01-task', feature: 'test-feature' }, {} as never);
 
-    expect(removeCalls).toBe(0);
-    expect(getTransitionCalls().map((call) => call.toStatus)).toEqual(['cancelled', 'pending']);
-    const data = parseToolResult(result);
-    expect(data.workspaceMode).toBe('direct');
-    expect(data.workspacePath).toBe('/repo/root');
-    expect(data.message).toContain('were not reverted');
+    const parsed = JSON.parse(result as string) as { success: boolean; error: string };
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toContain('in_progress');
+    expect(refreshCalls).toBe(0);
   });
 });
 
@@ -1339,6 +2421,28 @@ describe('commitWorktreeTool learnings', () => {
     expect(finalTransition!.extras?.learnings).toBeUndefined();
   });
 
+  it('records the diffstat in taskService.transition for worktree tasks', async () => {
+    const { deps, getTransitionCalls } = createCommitDeps({
+      worktreeServiceOverrides: {
+        getDiff: async () => ({ hasDiff: true, filesChanged: ['src/a.ts'], insertions: 4, deletions: 1 }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Did things. build: exit 0, test: exit 0, lint: exit 0',
+        status: 'completed',
+      },
+      {} as never,
+    );
+
+    const finalTransition = getTransitionCalls().find((t) => t.toStatus === 'done');
+    expect(finalTransition!.extras?.diffStats).toEqual({ filesChanged: ['src/a.ts'], insertions: 4, deletions: 1 });
+  });
+
   it('preserves existing completed behavior when learnings is omitted', async () => {
     const { deps } = createCommitDeps();
     const tools = new WorktreeTools(deps);
@@ -1481,6 +2585,411 @@ describe('commitWorktreeTool learnings edge cases', () => {
   });
 });
 
+describe('commitWorktreeTool structured verification', () => {
+  const resolveFeature = () => 'test-feature';
+  const passingVerification = {
+    build: { cmd: 'bun run build', exitCode: 0 },
+    test: { cmd: 'bun test', exitCode: 0, output: '42 pass' },
+    lint: { cmd: 'bun run lint', exitCode: 0 },
+  };
+
+  it('accepts structured gate results without pass signals in the summary', async () => {
+    const { deps, getTransitionCalls } = createCommitDeps({
+      verificationModel: 'tdd',
+      workflowGatesMode: 'enforce',
+      hasCompletionGateEvidence: () => false,
+    });
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      { task: '01-task', summary: 'Implemented X.', status: 'completed', verification: passingVerification },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.ok).toBe(true);
+    expect(data.status).toBe('completed');
+    const finalTransition = getTransitionCalls().find((t) => t.toStatus === 'done');
+    expect(finalTransition!.extras?.verification).toEqual(passingVerification);
+  });
+
+  it('returns needs_verification with failedGates when a gate exited non-zero', async () => {
+    const { deps, getTransitionCalls } = createCommitDeps({
+      verificationModel: 'tdd',
+      workflowGatesMode: 'enforce',
+    });
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'build: exit 0, test: exit 0, lint: exit 0',
+        status: 'completed',
+        verification: { ...passingVerification, test: { cmd: 'bun test', exitCode: 1, output: '1 fail' } },
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.ok).toBe(false);
+    expect(data.status).toBe('needs_verification');
+    expect(data.missingGates).toEqual(['test']);
+    expect(data.failedGates).toEqual(['test']);
+    expect(getTransitionCalls()).toHaveLength(0);
+  });
+
+  it('ignores summary pass signals when structuredVerificationMode is enforce', async () => {
+    const { deps } = createCommitDeps({
+      verificationModel: 'tdd',
+      workflowGatesMode: 'enforce',
+      structuredVerificationMode: 'enforce',
+      hasCompletionGateEvidence: () => true,
+    });
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'build: exit 0, test: exit 0, lint: exit 0',
+        status: 'completed',
+        verification: { build: passingVerification.build },
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.status).toBe('needs_verification');
+    expect(data.missingGates).toEqual(['test', 'lint']);
+    expect(data.nextAction).toContain('verification');
+  });
+
+  it('writes gate results into the report and the commit event', async () => {
+    let report = '';
+    const emitted: Array<{ type: string; details?: Record<string, unknown> }> = [];
+    const { deps } = createCommitDeps({
+      taskServiceOverrides: {
+        writeReport: (_feature: string, _task: string, content: string) => {
+          report = content;
+        },
+      },
+      eventLogger: {
+        emit: (event: { type: string; details?: Record<string, unknown> }) => emitted.push(event),
+      } as unknown as WorktreeToolsDependencies['eventLogger'],
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    await commitTool.execute(
+      { task: '01-task', summary: 'Implemented X.', status: 'completed', verification: passingVerification },
+      {} as never,
+    );
+
+    expect(report).toContain('## Verification');
+    expect(report).toContain('- **build:** `bun run build` → exit 0');
+    expect(report).toContain('### test output');
+    expect(report).toContain('42 pass');
+    const commitEvent = emitted.find((e) => e.type === 'commit');
+    expect(commitEvent?.details?.verification).toEqual(passingVerification);
+  });
+
+  it('truncates long gate output before persisting', async () => {
+    const { deps, getTransitionCalls } = createCommitDeps();
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        verification: { test: { cmd: 'bun test', exitCode: 0, output: 'x'.repeat(5000) } },
+      },
+      {} as never,
+    );
+
+    const finalTransition = getTransitionCalls().find((t) => t.toStatus === 'done');
+    const persisted = finalTransition!.extras?.verification as { test: { output: string } };
+    expect(persisted.test.output.length).toBeLessThan(2100);
+    expect(persisted.test.output).toContain('truncated 3000 chars');
+  });
+});
+
+describe('commitWorktreeTool tdd-verified re-execution', () => {
+  const resolveFeature = () => 'test-feature';
+
+  function createExecRecorder(failing: Record<string, { code: number; stderr: string }> = {}) {
+    const calls: Array<{ command: string; cwd: string }> = [];
+    const execAsync = async (command: string, options: { cwd: string; timeout: number }) => {
+      calls.push({ command, cwd: options.cwd });
+      const failure = Object.entries(failing).find(([fragment]) => command.includes(fragment));
+      if (failure) {
+        throw Object.assign(new Error(`Command failed: ${command}`), {
+          code: failure[1].code,
+          stdout: '',
+          stderr: failure[1].stderr,
+        });
+      }
+      return { stdout: `${command} ok`, stderr: '' };
+    };
+    return { execAsync, calls };
+  }
+
+  it('runs gates in the task worktree and persists the executed results', async () => {
+    const { execAsync, calls } = createExecRecorder();
+    let report = '';
+    const { deps, getTransitionCalls } = createCommitDeps({
+      verificationModel: 'tdd-verified',
+      workflowGatesMode: 'warn',
+      execAsync,
+      taskServiceOverrides: {
+        writeReport: (_feature: string, _task: string, content: string) => {
+          report = content;
+        },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        verification: { test: { cmd: 'bun test', exitCode: 0, output: 'claimed by worker' } },
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.ok).toBe(true);
+    expect(data.verifiedGates).toEqual(['build', 'test']);
+    expect(calls.length).toBe(2);
+    expect(calls.every((call) => call.cwd === '/tmp/wt')).toBe(true);
+
+    const finalTransition = getTransitionCalls().find((t) => t.toStatus === 'done');
+    const persisted = finalTransition!.extras?.verification as Record<string, { cmd: string; output?: string }>;
+    expect(persisted.test.output).not.toContain('claimed by worker');
+    expect(persisted.build.cmd).toBe(calls[0].command);
+    expect(report).toContain('_(re-run by Warcraft)_');
+  });
+
+  it('returns needs_verification when a re-run gate fails, even in warn mode', async () => {
+    const { execAsync } = createExecRecorder({ test: { code: 2, stderr: 'expected 1 to be 2' } });
+    const { deps, getTransitionCalls } = createCommitDeps({
+      verificationModel: 'tdd-verified',
+      workflowGatesMode: 'warn',
+      execAsync,
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      { task: '01-task', summary: 'build: exit 0, test: exit 0, lint: exit 0', status: 'completed' },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result) as { ok: boolean; status: string; failedGates: string[]; verification: any };
+    expect(data.ok).toBe(false);
+    expect(data.status).toBe('needs_verification');
+    expect(data.failedGates).toEqual(['test']);
+    expect(data.verification.test.exitCode).toBe(2);
+    expect(data.verification.test.output).toContain('expected 1 to be 2');
+    expect(getTransitionCalls()).toHaveLength(0);
+  });
+
+  it('does not re-run gates for non-completed statuses', async () => {
+    const { execAsync, calls } = createExecRecorder();
+    const { deps } = createCommitDeps({
+      verificationModel: 'tdd-verified',
+      execAsync,
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    await commitTool.execute({ task: '01-task', summary: 'Partial progress', status: 'partial' }, {} as never);
+
+    expect(calls).toHaveLength(0);
+  });
+
+  it('re-runs the configured commands instead of detected ones', async () => {
+    const { execAsync, calls } = createExecRecorder();
+    const { deps } = createCommitDeps({
+      verificationModel: 'tdd-verified',
+      workflowGatesMode: 'warn',
+      execAsync,
+      verification: {
+        build: { enabled: false },
+        test: { command: 'go test ./...' },
+        lint: { command: 'go vet ./...' },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      { task: '01-task', summary: 'Implemented X.', status: 'completed' },
+      {} as never,
+    );
+
+    expect(calls.map((call) => call.command)).toEqual(['go test ./...', 'go vet ./...']);
+    expect(parseCommitResult(result).verifiedGates).toEqual(['test', 'lint']);
+  });
+
+  it('runs gates in the project root for direct-mode tasks', async () => {
+    const { execAsync, calls } = createExecRecorder();
+    const { deps } = createCommitDeps({
+      verificationModel: 'tdd-verified',
+      execAsync,
+      taskServiceOverrides: {
+        getRawStatus: () => ({ workerSession: { workspaceMode: 'direct' as const, workspacePath: '/repo/root' } }),
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    const tools = new WorktreeTools(deps);
+    const commitTool = tools.commitWorktreeTool(resolveFeature);
+
+    await commitTool.execute({ task: '01-task', summary: 'Implemented X.', status: 'completed' }, {} as never);
+
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every((call) => call.cwd === '/repo/root')).toBe(true);
+  });
+});
+
+describe('commitWorktreeTool acceptance criteria', () => {
+  const resolveFeature = () => 'test-feature';
+  const criteria = ['Users can log in', 'Run: `bun test`'];
+
+  function createAcceptanceDeps(overrides: Partial<WorktreeToolsDependencies> = {}) {
+    let report = '';
+    const result = createCommitDeps({
+      workflowGatesMode: 'enforce',
+      ...overrides,
+      taskServiceOverrides: {
+        getRawStatus: () => ({ baseCommit: 'base123', acceptanceCriteria: criteria }),
+        writeReport: (_feature: string, _task: string, content: string) => {
+          report = content;
+        },
+      },
+    } as unknown as Partial<WorktreeToolsDependencies>);
+    return { ...result, getReport: () => report };
+  }
+
+  it('returns needs_acceptance when criteria are unreported', async () => {
+    const { deps, getTransitionCalls } = createAcceptanceDeps();
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        acceptance: [{ criterion: 1, met: true, evidence: 'login.test.ts passes' }],
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.ok).toBe(false);
+    expect(data.status).toBe('needs_acceptance');
+    expect(data.missingCriteria).toEqual([2]);
+    expect(data.acceptanceCriteria).toEqual([
+      '1. [x] Users can log in (evidence: login.test.ts passes)',
+      '2. [ ] Run: `bun test`',
+    ]);
+    expect(getTransitionCalls()).toHaveLength(0);
+  });
+
+  it('returns needs_acceptance when a criterion is reported as not met', async () => {
+    const { deps } = createAcceptanceDeps();
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        acceptance: [
+          { criterion: 1, met: false, evidence: 'SSO login still fails' },
+          { criterion: 2, met: true, evidence: '42 pass' },
+        ],
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.status).toBe('needs_acceptance');
+    expect(data.unmetCriteria).toEqual([1]);
+    expect(data.nextAction).toContain('partial or blocked');
+  });
+
+  it('stores results and writes the checklist into the report when every criterion is met', async () => {
+    const { deps, getTransitionCalls, getReport } = createAcceptanceDeps();
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        acceptance: [
+          { criterion: 1, met: true, evidence: 'login.test.ts passes' },
+          { criterion: 2, met: true, evidence: '42 pass' },
+        ],
+      },
+      {} as never,
+    );
+
+    expect(parseCommitResult(result).status).toBe('completed');
+    expect(getTransitionCalls().find((t) => t.toStatus === 'done')?.extras?.acceptanceResults).toEqual([
+      { criterion: 'Users can log in', met: true, evidence: 'login.test.ts passes' },
+      { criterion: 'Run: `bun test`', met: true, evidence: '42 pass' },
+    ]);
+    expect(getReport()).toContain(
+      '## Acceptance Criteria\n\n1. [x] Users can log in (evidence: login.test.ts passes)\n2. [x] Run: `bun test` (evidence: 42 pass)',
+    );
+  });
+
+  it('completes with an acceptance note in warn mode', async () => {
+    const { deps } = createAcceptanceDeps({ workflowGatesMode: 'warn' });
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Implemented X.',
+        status: 'completed',
+        acceptance: [{ criterion: 3, met: true, evidence: 'n/a' }],
+      },
+      {} as never,
+    );
+
+    const data = parseCommitResult(result);
+    expect(data.status).toBe('completed');
+    expect(data.acceptanceNote).toBe('Acceptance criteria unreported: 1, 2; unknown: 3. Review before merging.');
+  });
+
+  it('records reported results for partial tasks without gating them', async () => {
+    const { deps, getTransitionCalls } = createAcceptanceDeps();
+    const commitTool = new WorktreeTools(deps).commitWorktreeTool(resolveFeature);
+
+    const result = await commitTool.execute(
+      {
+        task: '01-task',
+        summary: 'Login works; tests still failing.',
+        status: 'partial',
+        acceptance: [{ criterion: 1, met: true, evidence: 'manual check' }],
+      },
+      {} as never,
+    );
+
+    expect(parseCommitResult(result).status).toBe('partial');
+    expect(getTransitionCalls().find((t) => t.toStatus === 'partial')?.extras?.acceptanceResults).toEqual([
+      { criterion: 'Users can log in', met: true, evidence: 'manual check' },
+    ]);
+  });
+});
+
 describe('formatSpecContent', () => {
   it('formats SpecData into markdown with all sections', () => {
     const specData: SpecData = {
@@ -4,12 +4,25 @@ import { promisify } from 'util';
 import type {
   EventLogger,
   FeatureService,
+  MergeResult,
   PlanService,
+  TaskAcceptanceResult,
   TaskService,
   TaskStatusType,
+  TaskVerification,
+  VerificationConfig,
+  VerificationModel,
   WorktreeService,
 } from 'warcraft-core';
-import { createChildSpan, createTraceContext } from 'warcraft-core';
+import {
+  buildEffectiveDependencies,
+  checkAcceptanceReports,
+  computeTopologicalOrder,
+  createChildSpan,
+  createTraceContext,
+  formatAcceptanceChecklist,
+} from 'warcraft-core';
+import { checkVerificationGates } from '../guards.js';
 import { DispatchCoordinator, type DispatchCoordinatorDeps } from '../services/dispatch-coordinator.js';
 import type { BlockedResult, ToolContext } from '../types.js';
 import { toolError, toolSuccess } from '../types.js';
@@ -19,14 +32,16 @@ import {
   calculatePromptMeta,
   checkWarnings,
 } from '../utils/prompt-observability.js';
-import { getVerificationCommandsForCwd } from '../utils/runtime-commands.js';
+import { type ResolvedVerificationCommand, resolveVerificationCommands } from '../utils/runtime-commands.js';
 import { sanitizeLearnings } from '../utils/sanitize.js';
+import { handOffMergeConflict } from './conflict-handoff.js';
 import { DEFAULT_BUDGET } from './task-dispatch.js';
 import { resolveFeatureInput, validateTaskInput } from './tool-input.js';
+import { formatRefreshFailure, refreshTaskWorktree } from './worktree-refresh.js';
 
 type ExecAsyncFn = (
   command: string,
-  options: { cwd: string; timeout: number },
+  options: { cwd: string; timeout: number; env?: NodeJS.ProcessEnv },
 ) => Promise<{ stdout: string; stderr: string }>;
 
 const defaultExecAsync = promisify(execCb) as ExecAsyncFn;
@@ -38,6 +53,153 @@ function createTaskTrace(eventLogger: EventLogger, feature: string, task: string
 
 type CompletionGate = 'build' | 'test' | 'lint';
 
+/** Gates that can carry structured verification results. */
+const VERIFICATION_GATES: readonly CompletionGate[] = ['build', 'test', 'lint'];
+
+/** Maximum characters of gate output persisted in task status, reports, and events. */
+const MAX_VERIFICATION_OUTPUT_CHARS = 2000;
+
+function truncateVerificationOutput(output: string): string {
+  if (output.length <= MAX_VERIFICATION_OUTPUT_CHARS) return output;
+  return `${output.slice(0, MAX_VERIFICATION_OUTPUT_CHARS)}\n... (truncated ${output.length - MAX_VERIFICATION_OUTPUT_CHARS} chars)`;
+}
+
+/** Normalize a worker-supplied verification payload: drop absent gates and truncate captured output. */
+function normalizeVerification(verification: TaskVerification | undefined): TaskVerification | undefined {
+  if (!verification) return undefined;
+  const normalized: TaskVerification = {};
+  for (const gate of VERIFICATION_GATES) {
+    const result = verification[gate];
+    if (!result) continue;
+    normalized[gate] = {
+      cmd: result.cmd,
+      exitCode: result.exitCode,
+      ...(result.output ? { output: truncateVerificationOutput(result.output) } : {}),
+    };
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Run resolved verification commands sequentially, recording exit code and truncated output per gate.
+ * A failing command does not stop later gates so the report shows the full picture.
+ */
+async function runVerificationGates(
+  execAsync: ExecAsyncFn,
+  commands: ResolvedVerificationCommand[],
+): Promise<TaskVerification> {
+  const results: TaskVerification = {};
+  for (const { gate, command: cmd, cwd, timeoutMs, env } of commands) {
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        cwd,
+        timeout: timeoutMs,
+        ...(env ? { env: { ...process.env, ...env } } : {}),
+      });
+      const output = [stdout, stderr].filter(Boolean).join('\n');
+      results[gate] = { cmd, exitCode: 0, ...(output ? { output: truncateVerificationOutput(output) } : {}) };
+    } catch (err: unknown) {
+      const execErr = err as { code?: unknown; stdout?: string; stderr?: string; message?: string };
+      const output = [execErr.stdout, execErr.stderr].filter(Boolean).join('\n') || execErr.message || '';
+      results[gate] = {
+        cmd,
+        exitCode: typeof execErr.code === 'number' && execErr.code !== 0 ? execErr.code : 1,
+        ...(output ? { output: truncateVerificationOutput(output) } : {}),
+      };
+    }
+  }
+  return results;
+}
+
+function formatVerificationReport(verification: TaskVerification, executedGates: CompletionGate[] = []): string[] {
+  const lines: string[] = ['---', '', '## Verification', ''];
+  for (const gate of VERIFICATION_GATES) {
+    const result = verification[gate];
+    if (!result) continue;
+    const failed = result.exitCode === 0 ? '' : ' (failed)';
+    const source = executedGates.includes(gate) ? ' _(re-run by Warcraft)_' : '';
+    lines.push(`- **${gate}:** \`${result.cmd}\` → exit ${result.exitCode}${failed}${source}`);
+  }
+  lines.push('');
+  for (const gate of VERIFICATION_GATES) {
+    const output = verification[gate]?.output;
+    if (!output) continue;
+    lines.push(`### ${gate} output`, '', '```', output, '```', '');
+  }
+  return lines;
+}
+
+function formatAcceptanceReport(criteria: string[], results: TaskAcceptanceResult[]): string[] {
+  return ['---', '', '## Acceptance Criteria', '', ...formatAcceptanceChecklist(criteria, results), ''];
+}
+
+/**
+ * Run the verification gates against freshly merged code and emit a `verification_run` event.
+ * Shared by task merges and feature merges; `changedFiles` selects a monorepo package override.
+ */
+async function verifyMergedChanges(
+  execAsync: ExecAsyncFn,
+  eventLogger: EventLogger,
+  input: {
+    feature: string;
+    task: string;
+    trace: ReturnType<typeof createTraceContext>;
+    cwd: string;
+    config: VerificationConfig | undefined;
+    changedFiles: string[];
+    source: 'merge' | 'merge_queue' | 'feature_merge';
+  },
+): Promise<{ passed: boolean; commands: Record<string, string>; results: TaskVerification; output: string }> {
+  const resolved = resolveVerificationCommands(input.cwd, input.config, { changedFiles: input.changedFiles });
+  const results = await runVerificationGates(execAsync, resolved);
+  const commands = Object.fromEntries(resolved.map(({ gate, command }) => [gate, command]));
+  const passed = resolved.every(({ gate }) => results[gate]?.exitCode === 0);
+  const output = resolved
+    .map(({ gate }) => results[gate]?.output)
+    .filter(Boolean)
+    .join('\n');
+  eventLogger.emit({
+    type: 'verification_run',
+    feature: input.feature,
+    task: input.task,
+    ...createChildSpan(input.trace),
+    details: {
+      passed,
+      source: input.source,
+      commands,
+      gates: Object.fromEntries(resolved.map(({ gate }) => [gate, results[gate]?.exitCode])),
+    },
+  });
+  return { passed, commands, results, output: output || (passed ? '' : 'Verification failed') };
+}
+
+/**
+ * Record that a task branch has been merged, and into which branch, so status, the merge queue and
+ * cross-feature dependencies can tell merged work apart. A no-op merge (the branch was already
+ * integrated) is recorded without `mergeSha`: it reports the target HEAD, which warcraft_merge_revert
+ * must never revert. Non-fatal: the merge has already landed, so a failed status write must not
+ * turn it into an error.
+ */
+function recordTaskMerge(
+  taskService: TaskService,
+  feature: string,
+  task: string,
+  result: Extract<MergeResult, { success: true }>,
+): boolean {
+  try {
+    taskService.update(feature, task, {
+      mergedAt: new Date().toISOString(),
+      mergeBranch: result.targetBranch,
+      ...(result.outcome === 'merged'
+        ? { mergeSha: result.sha, mergeBaseSha: result.baseSha }
+        : { mergeSha: undefined, mergeBaseSha: undefined }),
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export interface WorktreeToolsDependencies {
   featureService: FeatureService;
   planService: PlanService;
@@ -51,11 +213,15 @@ export interface WorktreeToolsDependencies {
   checkDependencies: (feature: string, taskFolder: string) => { allowed: boolean; error?: string };
   hasCompletionGateEvidence: (summary: string, gate: CompletionGate) => boolean;
   completionGates: readonly CompletionGate[];
-  verificationModel: 'tdd' | 'best-effort';
+  verificationModel: VerificationModel;
   workflowGatesMode: 'enforce' | 'warn';
   structuredVerificationMode?: 'compat' | 'enforce';
-  /** Lazy getter for feature-level reopen rate from trust metrics (0.0–1.0). Called at dispatch time. */
-  getFeatureReopenRate?: () => number;
+  /** Configured verification commands; gates without a command fall back to runtime detection. */
+  verification?: VerificationConfig;
+  /** Land task merges on the feature integration branch instead of the checked-out branch. */
+  integrationBranchEnabled?: boolean;
+  /** Lazy getter for the feature's reopen rate from trust metrics (0.0–1.0). Called at dispatch time. */
+  getFeatureReopenRate?: (feature: string) => number;
   lockDir?: string;
   execAsync?: ExecAsyncFn;
   eventLogger: EventLogger;
@@ -63,6 +229,27 @@ export interface WorktreeToolsDependencies {
   projectDir?: string;
 }
 
+function toCoordinatorDeps(deps: WorktreeToolsDependencies, feature: string): DispatchCoordinatorDeps {
+  const { worktreeService } = deps;
+  return {
+    taskService: deps.taskService,
+    planService: deps.planService,
+    contextService: deps.contextService,
+    worktreeService: {
+      create: worktreeService.create.bind(worktreeService),
+      get: worktreeService.get.bind(worktreeService),
+      remove: worktreeService.remove.bind(worktreeService),
+    },
+    checkBlocked: deps.checkBlocked,
+    checkDependencies: deps.checkDependencies,
+    verificationModel: deps.verificationModel,
+    verification: deps.verification,
+    featureReopenRate: deps.getFeatureReopenRate?.(feature),
+    lockDir: deps.lockDir,
+    eventLogger: deps.eventLogger,
+  };
+}
+
 /**
  * Worktree domain tools - Create worktrees, commit, discard, merge
  */
@@ -74,19 +261,8 @@ export class WorktreeTools {
    */
   createWorktreeTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
-    const {
-      featureService,
-      taskService,
-      planService,
-      contextService,
-      worktreeService,
-      checkBlocked,
-      checkDependencies,
-      verificationModel,
-      getFeatureReopenRate,
-      eventLogger,
-      lockDir,
-    } = this.deps;
+    const { featureService, taskService, planService, eventLogger } = this.deps;
+    const deps = this.deps;
     return tool({
       description: 'Create/reuse a task workspace and return the task() payload needed to launch Mekkatorque.',
       args: {
@@ -102,24 +278,7 @@ export class WorktreeTools {
         const feature = resolution.feature;
         const sessionId = (toolContext as ToolContext | undefined)?.sessionID ?? featureService.getSession(feature);
 
-        // Build coordinator deps from the tool dependencies
-        const coordinatorDeps: DispatchCoordinatorDeps = {
-          taskService,
-          planService,
-          contextService,
-          worktreeService: {
-            create: worktreeService.create.bind(worktreeService),
-            get: worktreeService.get.bind(worktreeService),
-            remove: worktreeService.remove.bind(worktreeService),
-          },
-          checkBlocked,
-          checkDependencies,
-          verificationModel,
-          featureReopenRate: getFeatureReopenRate?.(),
-          lockDir,
-        };
-
-        const coordinator = new DispatchCoordinator(coordinatorDeps);
+        const coordinator = new DispatchCoordinator(toCoordinatorDeps(deps, feature));
         const dispatchResult = await coordinator.dispatch({
           feature,
           task,
@@ -273,6 +432,7 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           details: {
             agent,
             continueFrom: continueFrom || null,
+            ...(decision ? { decision } : {}),
             createdWorktree: dispatchResult.createdWorktree ?? false,
           },
         });
@@ -312,8 +472,18 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
       completionGates,
       workflowGatesMode,
       verificationModel,
+      structuredVerificationMode = 'compat',
+      verification: verificationConfig,
+      execAsync: injectedExecAsync,
       eventLogger,
     } = this.deps;
+    const execAsync = injectedExecAsync ?? defaultExecAsync;
+    const projectDir = this.deps.projectDir ?? process.cwd();
+    const gateResultSchema = tool.schema.object({
+      cmd: tool.schema.string().describe('Command that was run (e.g. "bun run build")'),
+      exitCode: tool.schema.number().int().describe('Process exit code (0 = success)'),
+      output: tool.schema.string().optional().describe('Captured output (tail is enough; truncated when stored)'),
+    });
     return tool({
       description:
         'Complete task: finalize work, write report. Supports blocked/failed/partial status for worker communication.',
@@ -339,6 +509,24 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           .array(tool.schema.string())
           .optional()
           .describe('Learnings discovered during this task (persisted for future workers)'),
+        verification: tool.schema
+          .object({
+            build: gateResultSchema.optional(),
+            test: gateResultSchema.optional(),
+            lint: gateResultSchema.optional(),
+          })
+          .optional()
+          .describe('Structured build/test/lint results ({ cmd, exitCode, output }) used for completion gates'),
+        acceptance: tool.schema
+          .array(
+            tool.schema.object({
+              criterion: tool.schema.number().int().describe('1-based number of the criterion in the task checklist'),
+              met: tool.schema.boolean().describe('Whether the criterion is met'),
+              evidence: tool.schema.string().describe('How you know: command output, test name, file:line'),
+            }),
+          )
+          .optional()
+          .describe("One entry per acceptance criterion from the task's checklist, required to complete the task"),
       },
       async execute({
         task,
@@ -347,9 +535,14 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
         blocker,
         feature: explicitFeature,
         learnings: rawLearnings,
+        verification: rawVerification,
+        acceptance,
       }) {
         const learnings = sanitizeLearnings(rawLearnings);
+        let verification = normalizeVerification(rawVerification);
+        let executedGates: CompletionGate[] = [];
         let missingGatesForWarn: string[] = [];
+        let acceptanceNote: string | undefined;
         validateTaskInput(task);
         const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
         if (!resolution.ok) return toolError(resolution.error);
@@ -387,23 +580,83 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           }
         }
 
+        const rawStatus = taskService.getRawStatus(feature, task);
+        const workspaceMode = rawStatus?.workerSession?.workspaceMode ?? 'worktree';
+        const workspacePath = rawStatus?.workerSession?.workspacePath;
+
         // GATE: Check for explicit build/test/lint pass evidence when completing
         if (status === 'completed') {
           // In best-effort mode, skip gate checks entirely — verification deferred to orchestrator
           if (verificationModel === 'best-effort') {
             // Continue to commit — gates are deferred
           } else {
-            const missingGates = completionGates.filter((gate) => !hasCompletionGateEvidence(summary, gate));
+            // In tdd-verified mode, re-run the gates in the task workspace instead of trusting the worker's claims
+            if (verificationModel === 'tdd-verified') {
+              const gateCwd =
+                workspaceMode === 'worktree'
+                  ? ((await worktreeService.get(feature, task))?.path ?? workspacePath ?? projectDir)
+                  : (workspacePath ?? projectDir);
+              // Package overrides are chosen from the files the task touched, so only diff when they exist
+              const changedFiles =
+                workspaceMode === 'worktree' && verificationConfig?.packages
+                  ? (await worktreeService.getDiff(feature, task, rawStatus?.baseCommit)).filesChanged
+                  : undefined;
+              const executed = await runVerificationGates(
+                execAsync,
+                resolveVerificationCommands(gateCwd, verificationConfig, { changedFiles }),
+              );
+              executedGates = VERIFICATION_GATES.filter((gate) => executed[gate]);
+              verification = { ...verification, ...executed };
+              const failedGates = executedGates.filter((gate) => executed[gate]!.exitCode !== 0);
+
+              eventLogger.emit({
+                type: 'verification_run',
+                feature,
+                task,
+                ...createTaskTrace(eventLogger, feature, task),
+                details: {
+                  passed: failedGates.length === 0,
+                  source: 'commit',
+                  cwd: gateCwd,
+                  gates: Object.fromEntries(executedGates.map((gate) => [gate, executed[gate]!.exitCode])),
+                },
+              });
+
+              if (failedGates.length > 0) {
+                return toolSuccess({
+                  ok: false,
+                  terminal: false,
+                  status: 'needs_verification',
+                  nextAction: `Warcraft re-ran verification in the task workspace and ${failedGates.join(', ')} failed. Fix the failures, then re-run warcraft_worktree_commit.`,
+                  missingGates: failedGates,
+                  failedGates,
+                  verification: executed,
+                });
+              }
+            }
+
+            const gateCheck = checkVerificationGates(
+              verification,
+              summary,
+              completionGates,
+              structuredVerificationMode,
+              hasCompletionGateEvidence,
+            );
+            const missingGates = gateCheck.missing;
 
             if (missingGates.length > 0) {
               if (workflowGatesMode === 'enforce') {
+                const failedGates = missingGates.filter((gate) => (verification?.[gate]?.exitCode ?? 0) !== 0);
                 return toolSuccess({
                   ok: false,
                   terminal: false,
                   status: 'needs_verification',
                   nextAction:
-                    'Run build, test, and lint gates. Include pass signals in summary (e.g. "build: exit 0"). Then re-run warcraft_worktree_commit.',
+                    structuredVerificationMode === 'enforce'
+                      ? 'Run build, test, and lint gates. Pass each result in `verification` as { cmd, exitCode, output }. Then re-run warcraft_worktree_commit.'
+                      : 'Run build, test, and lint gates. Pass each result in `verification` as { cmd, exitCode, output } (or include pass signals in summary, e.g. "build: exit 0"). Then re-run warcraft_worktree_commit.',
                   missingGates,
+                  ...(failedGates.length > 0 ? { failedGates } : {}),
                 });
               }
               // warn mode: proceed but note missing evidence
@@ -412,9 +665,40 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           }
         }
 
-        const rawStatus = taskService.getRawStatus(feature, task);
-        const workspaceMode = rawStatus?.workerSession?.workspaceMode ?? 'worktree';
-        const workspacePath = rawStatus?.workerSession?.workspacePath;
+        // GATE: Every acceptance criterion from the plan must be reported as met, with evidence
+        const acceptanceCriteria = rawStatus?.acceptanceCriteria ?? [];
+        const acceptanceCheck =
+          acceptanceCriteria.length > 0 && (status === 'completed' || acceptance)
+            ? checkAcceptanceReports(acceptanceCriteria, acceptance ?? [])
+            : null;
+        if (status === 'completed' && acceptanceCheck) {
+          const { missing, unmet, unknown } = acceptanceCheck;
+          if (missing.length > 0 || unmet.length > 0 || unknown.length > 0) {
+            if (workflowGatesMode === 'enforce') {
+              return toolSuccess({
+                ok: false,
+                terminal: false,
+                status: 'needs_acceptance',
+                nextAction:
+                  unmet.length > 0
+                    ? 'Address the unmet acceptance criteria, or report the task as partial or blocked. Then re-run warcraft_worktree_commit.'
+                    : 'Report every acceptance criterion in `acceptance` as { criterion, met, evidence }. Then re-run warcraft_worktree_commit.',
+                acceptanceCriteria: formatAcceptanceChecklist(acceptanceCriteria, acceptanceCheck.results),
+                ...(missing.length > 0 ? { missingCriteria: missing } : {}),
+                ...(unmet.length > 0 ? { unmetCriteria: unmet } : {}),
+                ...(unknown.length > 0 ? { unknownCriteria: unknown } : {}),
+              });
+            }
+            // warn mode: proceed but note the gaps
+            acceptanceNote = [
+              missing.length > 0 ? `unreported: ${missing.join(', ')}` : '',
+              unmet.length > 0 ? `not met: ${unmet.join(', ')}` : '',
+              unknown.length > 0 ? `unknown: ${unknown.join(', ')}` : '',
+            ]
+              .filter(Boolean)
+              .join('; ');
+          }
+        }
 
         if (status === 'blocked') {
           taskService.transition(feature, task, 'blocked', {
@@ -510,6 +794,7 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           `**Completed:** ${new Date().toISOString()}`,
           `**Status:** ${statusLabel}`,
           `**Commit:** ${commitResult.sha || 'none'}`,
+          ...(rawStatus?.splitFrom ? [`**Split from:** ${rawStatus.splitFrom}`] : []),
           '',
           '---',
           '',
@@ -564,12 +849,25 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           );
         }
 
+        if (verification) {
+          reportLines.push(...formatVerificationReport(verification, executedGates));
+        }
+
+        if (acceptanceCheck) {
+          reportLines.push(...formatAcceptanceReport(acceptanceCriteria, acceptanceCheck.results));
+        }
+
         taskService.writeReport(feature, task, reportLines.join('\n'));
 
         const finalStatus = status === 'completed' ? 'done' : status;
         taskService.transition(feature, task, validateTaskStatus(finalStatus), {
           summary,
           ...(learnings && learnings.length > 0 ? { learnings } : {}),
+          ...(verification ? { verification } : {}),
+          ...(acceptanceCheck ? { acceptanceResults: acceptanceCheck.results } : {}),
+          ...(workspaceMode === 'worktree'
+            ? { diffStats: { filesChanged: diff.filesChanged, insertions: diff.insertions, deletions: diff.deletions } }
+            : {}),
         });
 
         eventLogger.emit({
@@ -577,7 +875,22 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           feature,
           task,
           ...createTaskTrace(eventLogger, feature, task),
-          details: { status, finalStatus, sha: commitResult.sha, workspaceMode },
+          details: {
+            status,
+            finalStatus,
+            sha: commitResult.sha,
+            workspaceMode,
+            ...(verification ? { verification } : {}),
+            ...(workspaceMode === 'worktree'
+              ? {
+                  diffStats: {
+                    filesChanged: diff.filesChanged,
+                    insertions: diff.insertions,
+                    deletions: diff.deletions,
+                  },
+                }
+              : {}),
+          },
         });
 
         const workspace = workspaceMode === 'worktree' ? await worktreeService.get(feature, task) : null;
@@ -602,6 +915,14 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           terminalResult.deferredTo = 'orchestrator';
         }
 
+        if (executedGates.length > 0) {
+          terminalResult.verifiedGates = executedGates;
+        }
+
+        if (acceptanceNote) {
+          terminalResult.acceptanceNote = `Acceptance criteria ${acceptanceNote}. Review before merging.`;
+        }
+
         if (status === 'completed' && missingGatesForWarn.length > 0) {
           return toolSuccess({
             ...terminalResult,
@@ -662,7 +983,7 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
    * Prune stale worktrees with dry-run safety by default.
    */
   pruneWorktreeTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
-    const { worktreeService } = this.deps;
+    const { worktreeService, eventLogger } = this.deps;
     return tool({
       description: 'Prune stale worktrees (safe by default via dryRun=true)',
       args: {
@@ -688,6 +1009,18 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
         };
 
         const result = await worktreeServiceWithPrune.prune({ dryRun, confirm, feature });
+        // Dry-runs and confirmed prunes feed the prune acceptance rate in trust metrics
+        eventLogger.emit({
+          type: 'prune',
+          feature: feature ?? '',
+          task: '',
+          details: {
+            dryRun,
+            confirmed: !dryRun && confirm,
+            staleCount: result.wouldRemove.length,
+            removedCount: result.removed.length,
+          },
+        });
 
         return toolSuccess({
           dryRun,
@@ -700,15 +1033,91 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
   }
 
   /**
-   * Integrate completed task work into current branch (explicit merge or direct-mode status check)
+   * Bring a stale task worktree up to date with the latest base (integration branch or HEAD).
+   */
+  refreshWorktreeTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const { taskService, worktreeService } = this.deps;
+    return tool({
+      description: 'Rebase (or merge) the latest base into a task worktree and record the new base commit',
+      args: {
+        task: tool.schema.string().describe('Task folder name'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to detection or single feature)'),
+        strategy: tool.schema
+          .enum(['rebase', 'merge'])
+          .optional()
+          .default('rebase')
+          .describe('Rebase the task branch onto the base (default) or merge the base into it'),
+      },
+      async execute({ task, feature: explicitFeature, strategy = 'rebase' }) {
+        validateTaskInput(task);
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        const taskInfo = taskService.get(feature, task);
+        if (!taskInfo) return toolError(`Task "${task}" not found`);
+
+        const rawStatus = taskService.getRawStatus(feature, task);
+        if (rawStatus?.workerSession?.workspaceMode === 'direct') {
+          return toolSuccess({
+            outcome: 'direct',
+            message: `Task "${task}" runs in direct mode; there is no task branch to refresh.`,
+          });
+        }
+        if (taskInfo.status === 'in_progress' || taskInfo.status === 'dispatch_prepared') {
+          return toolError(`Task "${task}" is ${taskInfo.status}. Refresh only while no worker is running in it.`, [
+            'Wait for the worker to finish or block, then refresh before resuming.',
+          ]);
+        }
+
+        const result = await refreshTaskWorktree({ taskService, worktreeService }, feature, task, strategy);
+        if (!result.success) {
+          return toolError(formatRefreshFailure(task, result), [
+            result.conflicts.length > 0
+              ? 'The task branch was left unchanged. Resolve the overlap by resuming the worker with the conflicting files in its instructions, or retry with strategy: "merge".'
+              : 'Check that the worktree exists (warcraft_worktree_create) and has no uncommitted changes.',
+          ]);
+        }
+
+        return toolSuccess({
+          outcome: result.outcome,
+          strategy,
+          sha: result.sha,
+          baseCommit: result.baseCommit,
+          filesChanged: result.filesChanged,
+          conflicts: result.conflicts,
+          message:
+            result.outcome === 'already-up-to-date'
+              ? `Task "${task}" is already up to date with its base.`
+              : `Task "${task}" refreshed onto ${result.baseCommit?.slice(0, 8) ?? 'the latest base'} via ${strategy}.`,
+        });
+      },
+    });
+  }
+
+  /**
+   * Integrate completed task work into current branch (explicit merge or direct-mode status check).
+   * When integrationBranchEnabled is set, task branches merge into the feature integration branch instead.
+   * With onConflict "handoff", a conflicted merge is handed to a resolution worker instead of aborting.
    */
   mergeTaskTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
     // Capture deps in closure to avoid 'this' binding issues
-    const { taskService, worktreeService, verificationModel, execAsync: injectedExecAsync, eventLogger } = this.deps;
+    const deps = this.deps;
+    const {
+      featureService,
+      taskService,
+      worktreeService,
+      verificationModel,
+      verification: verificationConfig,
+      integrationBranchEnabled = false,
+      execAsync: injectedExecAsync,
+      eventLogger,
+    } = this.deps;
     const execAsync = injectedExecAsync ?? defaultExecAsync;
     const projectDir = this.deps.projectDir ?? process.cwd();
     return tool({
-      description: 'Integrate completed task work into current branch (explicit merge or direct-mode status check)',
+      description:
+        'Integrate completed task work into current branch, or the feature integration branch when enabled (explicit merge, conflict preview, or direct-mode status check)',
       args: {
         task: tool.schema.string().describe('Task folder name to merge'),
         strategy: tool.schema
@@ -719,14 +1128,41 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
         verify: tool.schema
           .boolean()
           .optional()
-          .describe('Run build+test after merge to verify integration (defaults to enabled in TDD mode)'),
+          .describe(
+            'Run the verification gates (build/test/lint) after merge to verify integration (defaults to enabled in TDD modes)',
+          ),
         cleanup: tool.schema
           .boolean()
           .optional()
           .default(false)
           .describe('Remove worktree after successful merge (keeps branch)'),
+        onConflict: tool.schema
+          .enum(['abort', 'handoff'])
+          .optional()
+          .default('abort')
+          .describe(
+            'On conflict: abort and list files (default), or leave the merge in a resolution worktree and return a task() payload for a worker to resolve it',
+          ),
+        mode: tool.schema
+          .enum(['merge', 'preview'])
+          .optional()
+          .default('merge')
+          .describe(
+            'merge (default), or preview to report predicted conflicts and diffstat without touching any working tree',
+          ),
       },
-      async execute({ task, strategy = 'merge', feature: explicitFeature, verify, cleanup: cleanupRequested }) {
+      async execute(
+        {
+          task,
+          strategy = 'merge',
+          feature: explicitFeature,
+          verify,
+          cleanup: cleanupRequested,
+          onConflict = 'abort',
+          mode = 'merge',
+        },
+        toolContext,
+      ) {
         validateTaskInput(task);
         const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
         if (!resolution.ok) return toolError(resolution.error);
@@ -734,14 +1170,22 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
 
         const taskInfo = taskService.get(feature, task);
         if (!taskInfo) return toolError(`Task "${task}" not found`);
-        if (taskInfo.status !== 'done')
+        if (taskInfo.status !== 'done' && mode !== 'preview')
           return toolError('Task must be completed before merging. Use warcraft_worktree_commit first.');
 
         const rawStatus = taskService.getRawStatus(feature, task);
         const workspaceMode = rawStatus?.workerSession?.workspaceMode ?? 'worktree';
         const workspacePath = rawStatus?.workerSession?.workspacePath;
+        if (workspaceMode === 'direct' && mode === 'preview') {
+          return toolSuccess({
+            mode,
+            workspaceMode,
+            workspacePath,
+            message: `Task "${task}" was executed in direct mode. There is no task branch to preview; its changes are already in the project root.`,
+          });
+        }
         if (workspaceMode === 'direct') {
-          const effectiveVerify = verify ?? verificationModel === 'tdd';
+          const effectiveVerify = verify ?? verificationModel !== 'best-effort';
           return toolSuccess({
             workspaceMode,
             workspacePath,
@@ -753,24 +1197,112 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           });
         }
 
-        const result = await worktreeService.merge(feature, task, strategy);
+        const integrationBranch = integrationBranchEnabled ? worktreeService.getIntegrationBranchName(feature) : null;
+        const targetLabel = integrationBranch ? `integration branch ${integrationBranch}` : 'the current branch';
+
+        if (mode === 'preview') {
+          const preview = await worktreeService.previewMerge(feature, task, {
+            target: integrationBranch ? 'integration' : 'current',
+            baseCommit: rawStatus?.baseCommit,
+          });
+          if (preview.error) {
+            return toolError(`Merge preview failed: ${preview.error}`, [
+              'Check that the task worktree exists and has a recorded base commit.',
+            ]);
+          }
+          const diffstat = {
+            files: preview.filesChanged.length,
+            insertions: preview.insertions,
+            deletions: preview.deletions,
+          };
+          if (preview.integrationMissing) {
+            return toolSuccess({
+              mode,
+              task,
+              target: preview.targetBranch,
+              integrationMissing: true,
+              clean: null,
+              conflicts: [],
+              filesChanged: preview.filesChanged,
+              diffstat,
+              message: `Integration branch ${preview.targetBranch} does not exist yet, so there is nothing to check task "${task}" against; the first merge creates it from the branch checked out in the project root. Nothing was merged.`,
+            });
+          }
+          return toolSuccess({
+            mode,
+            task,
+            target: preview.targetBranch,
+            clean: preview.conflicts.length === 0,
+            conflicts: preview.conflicts,
+            filesChanged: preview.filesChanged,
+            diffstat,
+            message:
+              preview.conflicts.length === 0
+                ? `Task "${task}" applies cleanly to ${preview.targetBranch} (${preview.filesChanged.length} file(s), +${preview.insertions}/-${preview.deletions}). Nothing was merged.`
+                : `Task "${task}" is predicted to conflict with ${preview.targetBranch} in ${preview.conflicts.length} file(s). Nothing was merged.`,
+          });
+        }
+
+        const result = await worktreeService.merge(feature, task, strategy, {
+          target: integrationBranch ? 'integration' : 'current',
+        });
 
         if (!result.success) {
+          if (result.conflicts && result.conflicts.length > 0 && onConflict === 'handoff') {
+            try {
+              const handoff = await handOffMergeConflict(
+                {
+                  feature,
+                  task,
+                  target: integrationBranch ? 'integration' : 'current',
+                  sessionId: (toolContext as ToolContext | undefined)?.sessionID ?? featureService.getSession(feature),
+                },
+                { taskService, worktreeService, coordinatorDeps: toCoordinatorDeps(deps, feature) },
+              );
+              return toolSuccess({
+                outcome: 'conflicted',
+                merged: false,
+                strategy: result.strategy,
+                conflicts: result.conflicts,
+                handoff: {
+                  resolutionTask: handoff.resolutionTask,
+                  workspacePath: handoff.workspacePath,
+                  branch: handoff.branch,
+                  targetBranch: handoff.targetBranch,
+                  baseCommit: handoff.baseCommit,
+                  overlappingTasks: handoff.overlappingTasks,
+                },
+                taskToolCall: handoff.taskToolCall,
+                instructions: `Issue the task() call to resolve the conflicts, then merge "${handoff.resolutionTask}" with warcraft_merge; that lands "${task}" as well.`,
+                message: `Merge of "${task}" conflicted in ${result.conflicts.length} file(s). Resolution handed off to "${handoff.resolutionTask}" in ${handoff.workspacePath}; ${targetLabel} is unchanged.`,
+              });
+            } catch (error) {
+              return toolError(
+                `Merge failed with conflicts in:\n${result.conflicts.map((f: string) => `- ${f}`).join('\n')}\n\nConflict handoff failed: ${error instanceof Error ? error.message : String(error)}`,
+              );
+            }
+          }
           if (result.conflicts && result.conflicts.length > 0) {
             return toolError(
               `Merge failed with conflicts in:\n${result.conflicts.map((f: string) => `- ${f}`).join('\n')}\n\nResolve conflicts manually or try a different strategy.`,
+              ['Retry with onConflict: "handoff" to dispatch a worker that resolves the conflicts.'],
             );
           }
           return toolError(`Merge failed: ${result.error}`);
         }
 
+        recordTaskMerge(taskService, feature, task, result);
+        // A resolution task's merge also lands the task whose conflicts it resolved
+        const resolvedTask = rawStatus?.resolvesConflictsFor;
+        if (resolvedTask) recordTaskMerge(taskService, feature, resolvedTask, result);
+
         const filesChangedCount = result.filesChanged?.length || 0;
         const successMessage = (() => {
           switch (result.outcome) {
             case 'merged':
-              return `Task "${task}" merged into the current branch using ${result.strategy} strategy.\nCommit: ${result.sha}\nFiles changed: ${filesChangedCount}`;
+              return `Task "${task}" merged into ${targetLabel} using ${result.strategy} strategy.\nCommit: ${result.sha}\nFiles changed: ${filesChangedCount}`;
             case 'already-up-to-date':
-              return `Task "${task}" is already integrated into the current branch. No new merge commit was created.\nCurrent HEAD: ${result.sha}\nFiles changed: ${filesChangedCount}`;
+              return `Task "${task}" is already integrated into ${targetLabel}. No new merge commit was created.\nCurrent HEAD: ${result.sha}\nFiles changed: ${filesChangedCount}`;
             case 'no-commits-to-apply':
               return `Task "${task}" has no commits to apply using ${result.strategy} strategy.\nCurrent HEAD: ${result.sha}\nFiles changed: ${filesChangedCount}`;
           }
@@ -782,6 +1314,8 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           sha: result.sha,
           filesChanged: result.filesChanged,
           conflicts: result.conflicts,
+          ...(integrationBranch ? { target: integrationBranch } : {}),
+          ...(resolvedTask ? { resolves: resolvedTask } : {}),
           message: successMessage,
         };
         const mergeTrace = createTaskTrace(eventLogger, feature, task);
@@ -796,6 +1330,7 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
             strategy: result.strategy,
             sha: result.sha,
             filesChanged: filesChangedCount,
+            ...(integrationBranch ? { target: integrationBranch } : {}),
           },
         });
 
@@ -824,57 +1359,577 @@ The worker prompt is passed inline in \`taskToolCall.prompt\`.
           mergeResult.cleanup = { requested: false, removed: false, reason: 'not-requested' };
         }
 
-        const effectiveVerify = verify ?? verificationModel === 'tdd';
+        const effectiveVerify = verify ?? verificationModel !== 'best-effort';
         if (effectiveVerify) {
-          const execOpts = { cwd: projectDir, timeout: 300_000 };
-          const cmds = getVerificationCommandsForCwd(execOpts.cwd);
-          try {
-            const buildResult = await execAsync(cmds.build, execOpts);
-            const testResult = await execAsync(cmds.test, execOpts);
-            const output = [buildResult.stdout, buildResult.stderr, testResult.stdout, testResult.stderr]
-              .filter(Boolean)
-              .join('\n');
-            eventLogger.emit({
-              type: 'verification_run',
-              feature,
+          // Merged code lives in the integration worktree when task merges land on the feature branch
+          const verifyDir = integrationBranch
+            ? ((await worktreeService.getIntegration(feature))?.path ?? projectDir)
+            : projectDir;
+          const verification = await verifyMergedChanges(execAsync, eventLogger, {
+            feature,
+            task,
+            trace: mergeTrace,
+            cwd: verifyDir,
+            config: verificationConfig,
+            changedFiles: result.filesChanged,
+            source: 'merge',
+          });
+          return toolSuccess({ ...mergeResult, verification });
+        }
+
+        return toolSuccess(mergeResult);
+      },
+    });
+  }
+
+  /**
+   * Merge every done-but-unmerged task in dependency order, verifying between steps and
+   * stopping at the first conflict or verification failure.
+   */
+  mergeQueueTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const {
+      taskService,
+      worktreeService,
+      verificationModel,
+      verification: verificationConfig,
+      integrationBranchEnabled = false,
+      execAsync: injectedExecAsync,
+      eventLogger,
+    } = this.deps;
+    const execAsync = injectedExecAsync ?? defaultExecAsync;
+    const projectDir = this.deps.projectDir ?? process.cwd();
+
+    return tool({
+      description:
+        'Merge all done but unmerged tasks in dependency order, running verification between merges. Stops on the first conflict or verification failure.',
+      args: {
+        feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+        strategy: tool.schema
+          .enum(['merge', 'squash', 'rebase'])
+          .optional()
+          .describe('Merge strategy for every task (default: merge)'),
+        verify: tool.schema
+          .boolean()
+          .optional()
+          .describe('Run the verification gates after each merge (defaults to enabled in TDD modes)'),
+        dryRun: tool.schema.boolean().optional().default(false).describe('Only report the merge order without merging'),
+      },
+      async execute({ feature: explicitFeature, strategy = 'merge', verify, dryRun = false }) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        const tasks = taskService.list(feature).map((task) => {
+          const raw = taskService.getRawStatus(feature, task.folder);
+          return {
+            folder: task.folder,
+            status: task.status,
+            dependsOn: raw?.dependsOn,
+            mergedAt: raw?.mergedAt,
+            resolvesConflictsFor: raw?.resolvesConflictsFor,
+            workspaceMode: raw?.workerSession?.workspaceMode ?? 'worktree',
+          };
+        });
+        const statusByFolder = new Map(tasks.map((task) => [task.folder, task.status]));
+        const effectiveDeps = buildEffectiveDependencies(tasks);
+        const { order, cyclic } = computeTopologicalOrder(tasks);
+
+        // Merged tasks and direct-mode tasks (no branch to merge) satisfy dependents.
+        const integrated = new Set(
+          tasks
+            .filter((task) => task.status === 'done' && (task.mergedAt || task.workspaceMode === 'direct'))
+            .map((task) => task.folder),
+        );
+        const pending = order.filter((folder) => statusByFolder.get(folder) === 'done' && !integrated.has(folder));
+        // A done resolution task lands its conflicted task, so it takes that task's place in the queue
+        const resolutionFor = new Map(
+          tasks
+            .filter(
+              (task) =>
+                task.resolvesConflictsFor &&
+                pending.includes(task.folder) &&
+                pending.includes(task.resolvesConflictsFor),
+            )
+            .map((task) => [task.resolvesConflictsFor as string, task.folder]),
+        );
+        const resolvedBy = new Map([...resolutionFor].map(([resolved, resolver]) => [resolver, resolved]));
+        const queue = pending
+          .filter((folder) => !resolvedBy.has(folder))
+          .map((folder) => resolutionFor.get(folder) ?? folder);
+        const skipped: Array<{ task: string; reason: string }> = cyclic
+          .filter((folder) => statusByFolder.get(folder) === 'done' && !integrated.has(folder))
+          .map((folder) => ({ task: folder, reason: 'Part of a dependency cycle' }));
+
+        if (queue.length === 0) {
+          return toolSuccess({
+            feature,
+            dryRun,
+            order: [],
+            merged: [],
+            skipped,
+            stopped: null,
+            remaining: [],
+            message:
+              skipped.length > 0
+                ? `No tasks can be merged: ${skipped.map((s) => s.task).join(', ')} sit on a dependency cycle.`
+                : `No done but unmerged tasks in feature "${feature}".`,
+          });
+        }
+
+        const integrationBranch = integrationBranchEnabled ? worktreeService.getIntegrationBranchName(feature) : null;
+        const effectiveVerify = !dryRun && (verify ?? verificationModel !== 'best-effort');
+        const merged: Array<Record<string, unknown>> = [];
+        const planned: string[] = [];
+        let stopped: Record<string, unknown> | null = null;
+
+        for (const [index, task] of queue.entries()) {
+          const resolvedTask = resolvedBy.get(task);
+          const unmet = (effectiveDeps.get(resolvedTask ?? task) ?? []).filter((dep) => !integrated.has(dep));
+          if (unmet.length > 0) {
+            const depList = unmet.map((dep) => `${dep} (${statusByFolder.get(dep) ?? 'unknown'})`).join(', ');
+            skipped.push({ task, reason: `Dependencies not merged: ${depList}` });
+            continue;
+          }
+          if (dryRun) {
+            planned.push(task);
+            integrated.add(task);
+            if (resolvedTask) integrated.add(resolvedTask);
+            continue;
+          }
+
+          const result = await worktreeService.merge(feature, task, strategy, {
+            target: integrationBranch ? 'integration' : 'current',
+          });
+          if (!result.success) {
+            stopped = {
               task,
-              ...createChildSpan(mergeTrace),
-              details: { passed: true, commands: { build: cmds.build, test: cmds.test } },
-            });
-            return toolSuccess({
-              ...mergeResult,
-              verification: {
-                passed: true,
-                commands: { build: cmds.build, test: cmds.test },
-                output,
-              },
-            });
-          } catch (err: unknown) {
-            const execErr = err as { stdout?: string; stderr?: string; message?: string };
-            const output = [execErr.stdout, execErr.stderr].filter(Boolean).join('\n');
-            eventLogger.emit({
-              type: 'verification_run',
+              reason: result.conflicts.length > 0 ? 'conflict' : 'merge-failed',
+              conflicts: result.conflicts,
+              error: result.error,
+            };
+            break;
+          }
+
+          recordTaskMerge(taskService, feature, task, result);
+          integrated.add(task);
+          if (resolvedTask) {
+            recordTaskMerge(taskService, feature, resolvedTask, result);
+            integrated.add(resolvedTask);
+          }
+          const mergeTrace = createTaskTrace(eventLogger, feature, task);
+          eventLogger.emit({
+            type: 'merge',
+            feature,
+            task,
+            ...mergeTrace,
+            details: {
+              outcome: result.outcome,
+              strategy: result.strategy,
+              sha: result.sha,
+              filesChanged: result.filesChanged.length,
+              queuePosition: index + 1,
+              ...(integrationBranch ? { target: integrationBranch } : {}),
+            },
+          });
+
+          const entry: Record<string, unknown> = {
+            task,
+            outcome: result.outcome,
+            sha: result.sha,
+            filesChanged: result.filesChanged,
+            ...(resolvedTask ? { resolves: resolvedTask } : {}),
+          };
+          merged.push(entry);
+
+          if (effectiveVerify) {
+            const verifyDir = integrationBranch
+              ? ((await worktreeService.getIntegration(feature))?.path ?? projectDir)
+              : projectDir;
+            const verification = await verifyMergedChanges(execAsync, eventLogger, {
               feature,
               task,
-              ...createChildSpan(mergeTrace),
-              details: {
-                passed: false,
-                commands: { build: cmds.build, test: cmds.test },
-                error: execErr.message || 'Verification failed',
-              },
-            });
-            return toolSuccess({
-              ...mergeResult,
-              verification: {
-                passed: false,
-                commands: { build: cmds.build, test: cmds.test },
-                output: output || execErr.message || 'Verification failed',
-              },
+              trace: mergeTrace,
+              cwd: verifyDir,
+              config: verificationConfig,
+              changedFiles: result.filesChanged,
+              source: 'merge_queue',
             });
+            entry.verification = verification;
+            if (!verification.passed) {
+              stopped = { task, reason: 'verification-failed', output: verification.output };
+              break;
+            }
           }
         }
 
-        return toolSuccess(mergeResult);
+        const processed = new Set([...merged.map((m) => m.task as string), ...planned, ...skipped.map((s) => s.task)]);
+        const remaining = queue.filter((task) => !processed.has(task));
+        const report = {
+          feature,
+          dryRun,
+          order: queue,
+          merged,
+          skipped,
+          stopped,
+          remaining,
+          ...(integrationBranch ? { target: integrationBranch } : {}),
+        };
+
+        if (dryRun) {
+          return toolSuccess({
+            ...report,
+            planned,
+            message: `Would merge ${planned.length} task(s) in order: ${planned.join(', ') || '(none)'}.`,
+          });
+        }
+
+        const mergedList = merged.map((m) => m.task).join(', ');
+        if (stopped) {
+          const stoppedTask = stopped.task as string;
+          const detail =
+            stopped.reason === 'conflict'
+              ? `conflicts in:\n${(stopped.conflicts as string[]).map((f) => `- ${f}`).join('\n')}`
+              : stopped.reason === 'verification-failed'
+                ? `verification failed after merging it:\n${stopped.output as string}`
+                : `merge failed: ${stopped.error as string}`;
+          return toolError(
+            `Merge queue stopped at "${stoppedTask}": ${detail}\n\nMerged before stopping: ${mergedList || '(none)'}. Remaining: ${remaining.join(', ') || '(none)'}.`,
+            [
+              stopped.reason === 'verification-failed'
+                ? `"${stoppedTask}" is merged but broke verification. Fix forward or revert it before re-running warcraft_merge_queue.`
+                : `Resolve "${stoppedTask}" (warcraft_merge with onConflict: "handoff" dispatches a resolution worker), then re-run warcraft_merge_queue.`,
+            ],
+            { data: report },
+          );
+        }
+
+        return toolSuccess({
+          ...report,
+          message:
+            `Merged ${merged.length} task(s) in dependency order: ${mergedList}.` +
+            (skipped.length > 0 ? ` Skipped: ${skipped.map((s) => `${s.task} (${s.reason})`).join('; ')}.` : ''),
+        });
+      },
+    });
+  }
+
+  /**
+   * Merge the feature integration branch into the current branch once every task is done and
+   * merged, verifying the combined result once instead of per task.
+   */
+  featureMergeTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const {
+      featureService,
+      taskService,
+      worktreeService,
+      verificationModel,
+      verification: verificationConfig,
+      execAsync: injectedExecAsync,
+      eventLogger,
+    } = this.deps;
+    const execAsync = injectedExecAsync ?? defaultExecAsync;
+    const projectDir = this.deps.projectDir ?? process.cwd();
+
+    return tool({
+      description:
+        'Merge the feature integration branch (where task merges land when integrationBranchEnabled is set) into the current branch after all tasks are done. Runs verification once for the whole feature.',
+      args: {
+        feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+        strategy: tool.schema
+          .enum(['merge', 'squash', 'rebase'])
+          .optional()
+          .describe('Merge strategy (default: merge; use squash for a single feature commit)'),
+        verify: tool.schema
+          .boolean()
+          .optional()
+          .describe('Run the verification gates after merge (defaults to enabled in TDD modes)'),
+        cleanup: tool.schema
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Remove the integration worktree and branch after a successful merge'),
+        allowPartial: tool.schema
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            'Merge even though some done tasks are not on the integration branch; the feature is not marked merged',
+          ),
+      },
+      async execute({
+        feature: explicitFeature,
+        strategy = 'merge',
+        verify,
+        cleanup: cleanupRequested,
+        allowPartial = false,
+      }) {
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        const tasks = taskService.list(feature);
+        if (tasks.length === 0) return toolError(`Feature "${feature}" has no tasks to merge`);
+        const notDone = tasks.filter((t) => t.status !== 'done' && t.status !== 'cancelled');
+        if (notDone.length > 0) {
+          return toolError(
+            `All tasks must be done before merging feature "${feature}". Not done: ${notDone.map((t) => `${t.folder} (${t.status})`).join(', ')}`,
+            ['Merge each completed task with warcraft_merge first, or cancel tasks that will not ship.'],
+          );
+        }
+
+        // Only tasks merged into the integration branch ship with it; direct-mode tasks never had a branch
+        const mergedTasks: string[] = [];
+        const notMerged: string[] = [];
+        for (const t of tasks.filter((t) => t.status === 'done')) {
+          const raw = taskService.getRawStatus(feature, t.folder);
+          if (raw?.mergedAt) mergedTasks.push(t.folder);
+          else if (raw?.workerSession?.workspaceMode !== 'direct') notMerged.push(t.folder);
+        }
+        if (notMerged.length > 0 && !allowPartial) {
+          return toolError(
+            `Done tasks of feature "${feature}" are not on the integration branch yet: ${notMerged.join(', ')}`,
+            [
+              'Merge them with warcraft_merge or warcraft_merge_queue, then run warcraft_feature_merge again.',
+              'Pass allowPartial: true to merge without them; the feature is then not marked merged.',
+            ],
+          );
+        }
+
+        const branch = worktreeService.getIntegrationBranchName(feature);
+        const result = await worktreeService.mergeFeature(feature, strategy);
+
+        if (!result.success) {
+          if (result.conflicts && result.conflicts.length > 0) {
+            return toolError(
+              `Feature merge failed with conflicts in:\n${result.conflicts.map((f: string) => `- ${f}`).join('\n')}\n\nResolve conflicts manually or try a different strategy.`,
+            );
+          }
+          return toolError(`Feature merge failed: ${result.error}`, [
+            'Feature merges require integrationBranchEnabled so task merges land on the integration branch.',
+          ]);
+        }
+
+        // Cross-feature dependencies on this feature are satisfied from here on, but only once every
+        // done task has shipped (non-fatal)
+        if (notMerged.length === 0) {
+          try {
+            featureService.patchMetadata(feature, { mergedAt: new Date().toISOString() });
+          } catch {
+            // The merge has landed; a failed metadata write must not turn it into an error
+          }
+        }
+
+        const filesChangedCount = result.filesChanged?.length || 0;
+        const message =
+          result.outcome === 'merged'
+            ? `Feature "${feature}" merged from ${branch} into the current branch using ${result.strategy} strategy.\nCommit: ${result.sha}\nFiles changed: ${filesChangedCount}`
+            : `Feature "${feature}" is already integrated into the current branch. No new commit was created.\nCurrent HEAD: ${result.sha}`;
+
+        const featureMergeResult: Record<string, unknown> = {
+          feature,
+          branch,
+          outcome: result.outcome,
+          strategy: result.strategy,
+          sha: result.sha,
+          filesChanged: result.filesChanged,
+          conflicts: result.conflicts,
+          tasks: mergedTasks,
+          ...(notMerged.length > 0 ? { notMerged } : {}),
+          message:
+            notMerged.length > 0
+              ? `${message}\nNot on the integration branch, so left out: ${notMerged.join(', ')}. The feature is not marked merged until they ship: merge them with warcraft_merge and run warcraft_feature_merge again.`
+              : message,
+        };
+        const mergeTrace = createTraceContext();
+
+        eventLogger.emit({
+          type: 'merge',
+          feature,
+          task: '',
+          ...mergeTrace,
+          details: {
+            scope: 'feature',
+            branch,
+            outcome: result.outcome,
+            strategy: result.strategy,
+            sha: result.sha,
+            filesChanged: filesChangedCount,
+            tasks: mergedTasks.length,
+            ...(notMerged.length > 0 ? { notMerged: notMerged.length } : {}),
+          },
+        });
+
+        if (cleanupRequested) {
+          try {
+            await worktreeService.removeIntegration(feature, true);
+            featureMergeResult.cleanup = { requested: true, removed: true };
+          } catch (err: unknown) {
+            const cleanupErr = err as { message?: string };
+            featureMergeResult.cleanup = {
+              requested: true,
+              removed: false,
+              error: cleanupErr.message || 'Integration cleanup failed',
+            };
+          }
+        } else {
+          featureMergeResult.cleanup = { requested: false, removed: false, reason: 'not-requested' };
+        }
+
+        const effectiveVerify = verify ?? verificationModel !== 'best-effort';
+        if (effectiveVerify) {
+          const verification = await verifyMergedChanges(execAsync, eventLogger, {
+            feature,
+            task: '',
+            trace: mergeTrace,
+            cwd: projectDir,
+            config: verificationConfig,
+            changedFiles: result.filesChanged,
+            source: 'feature_merge',
+          });
+          return toolSuccess({ ...featureMergeResult, verification });
+        }
+
+        return toolSuccess(featureMergeResult);
+      },
+    });
+  }
+
+  /**
+   * Back out a merged task: commit the revert of its merge on the branch it was merged into, reopen
+   * the task and any task landed by the same merge (done → cancelled → pending, emitting a reopen
+   * event each), drop their branches so re-dispatch starts from the reverted target, and note the
+   * revert in the task report.
+   */
+  mergeRevertTool(resolveFeature: (name?: string) => string | null): ToolDefinition {
+    const { taskService, worktreeService, integrationBranchEnabled = false, eventLogger } = this.deps;
+    return tool({
+      description:
+        'Revert a merged task: commit the revert of its merge, reopen the task as pending, and record who reverted it and why in its report',
+      args: {
+        task: tool.schema.string().describe('Task folder name to revert'),
+        reason: tool.schema.string().describe('Why the merge is being backed out (recorded in the task report)'),
+        feature: tool.schema.string().optional().describe('Feature name (defaults to active)'),
+      },
+      async execute({ task, reason, feature: explicitFeature }, toolContext) {
+        validateTaskInput(task);
+        const resolution = resolveFeatureInput(resolveFeature, explicitFeature);
+        if (!resolution.ok) return toolError(resolution.error);
+        const feature = resolution.feature;
+
+        const taskInfo = taskService.get(feature, task);
+        if (!taskInfo) return toolError(`Task "${task}" not found`);
+
+        const rawStatus = taskService.getRawStatus(feature, task);
+        if (rawStatus?.workerSession?.workspaceMode === 'direct') {
+          return toolError(`Task "${task}" was executed in direct mode; there is no merge commit to revert.`, [
+            'Undo direct-mode changes in the project root by hand, then reset the task with warcraft_task_update.',
+          ]);
+        }
+        const mergeSha = rawStatus?.mergeSha;
+        if (taskInfo.status !== 'done' || !mergeSha) {
+          return toolError(`Task "${task}" has no merge commit of its own to revert.`, [
+            'Only done tasks whose warcraft_merge or warcraft_merge_queue run created commits can be reverted; a merge that found nothing to apply records none.',
+          ]);
+        }
+        const mergeBaseSha = rawStatus?.mergeBaseSha;
+        // Merges recorded before the merge branch was tracked fall back to the configured target
+        const mergeBranch =
+          rawStatus?.mergeBranch ??
+          (integrationBranchEnabled ? worktreeService.getIntegrationBranchName(feature) : null);
+
+        const result = await worktreeService.revertMerge(feature, task, mergeSha, {
+          ...(mergeBranch ? { branch: mergeBranch } : { target: 'current' }),
+          baseSha: mergeBaseSha,
+        });
+        if (!result.success) {
+          if (result.conflicts.length > 0) {
+            return toolError(
+              `Revert of "${task}" (${mergeSha}) conflicts with later changes in:\n${result.conflicts.map((f) => `- ${f}`).join('\n')}\n\nThe revert was aborted; nothing changed.`,
+              ['Revert the tasks merged after it first, or back the change out by hand.'],
+            );
+          }
+          return toolError(`Revert failed: ${result.error}`);
+        }
+
+        const revertedBy = (toolContext as ToolContext | undefined)?.agent || 'unknown';
+        const revertedAt = new Date().toISOString();
+        const report = taskService.readReport(feature, task) ?? `# Task Report: ${task}\n`;
+        taskService.writeReport(
+          feature,
+          task,
+          [
+            report.trimEnd(),
+            '',
+            '---',
+            '',
+            '## Reverted',
+            '',
+            `- **Reverted by:** ${revertedBy}`,
+            `- **Reason:** ${reason}`,
+            `- **Merge commit:** ${mergeBaseSha ? `${mergeBaseSha}..${mergeSha}` : mergeSha}`,
+            `- **Revert commit:** ${result.sha}`,
+            `- **Reverted at:** ${revertedAt}`,
+            '',
+          ].join('\n'),
+        );
+
+        // Tasks landed by the same merge (a conflict resolution and the task it resolved) are reverted too
+        const alsoReopened = taskService
+          .list(feature)
+          .filter(
+            (t) =>
+              t.folder !== task &&
+              t.status === 'done' &&
+              taskService.getRawStatus(feature, t.folder)?.mergeSha === mergeSha,
+          )
+          .map((t) => t.folder);
+
+        const branchesKept: string[] = [];
+        for (const folder of [task, ...alsoReopened]) {
+          // pending clears the merge record, so the task shows up as unmerged work again
+          taskService.transition(feature, folder, 'cancelled');
+          taskService.transition(feature, folder, 'pending');
+
+          eventLogger.emit({
+            type: 'reopen',
+            feature,
+            task: folder,
+            ...createTaskTrace(eventLogger, feature, folder),
+            details: {
+              previousStatus: 'done',
+              newStatus: 'pending',
+              reason,
+              revertedBy,
+              mergeSha,
+              revertSha: result.sha,
+              ...(folder !== task ? { revertedWith: task } : {}),
+            },
+          });
+
+          // The branch's commits are in the target's history, so re-merging it would not re-apply them
+          try {
+            await worktreeService.remove(feature, folder, true);
+          } catch {
+            branchesKept.push(folder);
+          }
+        }
+
+        const target = mergeBranch ?? 'the current branch';
+        return toolSuccess({
+          task,
+          status: 'pending',
+          revertSha: result.sha,
+          revertedSha: mergeSha,
+          filesChanged: result.filesChanged,
+          ...(alsoReopened.length > 0 ? { alsoReopened } : {}),
+          ...(mergeBranch ? { target: mergeBranch } : {}),
+          ...(branchesKept.length > 0 ? { branchesKept } : {}),
+          message:
+            `Reverted the merge of "${task}" (${mergeSha}) with ${result.sha} on ${target}. ` +
+            `${alsoReopened.length > 0 ? `"${task}" and ${alsoReopened.map((f) => `"${f}"`).join(', ')} are` : 'The task is'} pending again. ` +
+            `${branchesKept.length > 0 ? `Remove the branches of ${branchesKept.join(', ')} by hand before re-dispatching; a kept branch would not re-apply the reverted changes. ` : ''}` +
+            `Re-dispatching with warcraft_worktree_create starts a fresh branch from ${target}; the reverted work stays reachable at ${mergeSha}.`,
+        });
       },
     });
   }
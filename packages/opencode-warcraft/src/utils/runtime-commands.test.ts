@@ -1,8 +1,15 @@
 import { describe, expect, it } from 'bun:test';
-import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { detectRuntime, getVerificationCommands, getVerificationCommandsForCwd } from './runtime-commands.js';
+import {
+  DEFAULT_VERIFICATION_TIMEOUT_MS,
+  detectRuntime,
+  getVerificationCommands,
+  getVerificationCommandsForCwd,
+  resolveVerificationCommands,
+  selectVerificationPackage,
+} from './runtime-commands.js';
 
 describe('runtime-commands', () => {
   function withTempDir(fn: (dir: string) => void): void {
@@ -63,6 +70,30 @@ describe('runtime-commands', () => {
         expect(detectRuntime(dir)).toBe('bun');
       });
     });
+
+    it('detects non-JS runtimes from their manifests', () => {
+      const cases: Array<[string, string]> = [
+        ['Cargo.toml', 'cargo'],
+        ['go.mod', 'go'],
+        ['pyproject.toml', 'python'],
+        ['requirements.txt', 'python'],
+        ['Makefile', 'make'],
+      ];
+      for (const [manifest, runtime] of cases) {
+        withTempDir((dir) => {
+          writeFileSync(join(dir, manifest), '');
+          expect(detectRuntime(dir)).toBe(runtime);
+        });
+      }
+    });
+
+    it('prefers package.json over other manifests', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'package.json'), '{}');
+        writeFileSync(join(dir, 'Makefile'), '');
+        expect(detectRuntime(dir)).toBe('bun');
+      });
+    });
   });
 
   describe('getVerificationCommands()', () => {
@@ -100,5 +131,129 @@ describe('runtime-commands', () => {
         expect(cmds.test).toBe('yarn test');
       });
     });
+
+    it('includes lint only when package.json defines a lint script', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'package.json'), JSON.stringify({ scripts: { build: 'tsc' } }));
+        expect(getVerificationCommandsForCwd(dir).lint).toBeUndefined();
+        writeFileSync(join(dir, 'package.json'), JSON.stringify({ scripts: { lint: 'biome check' } }));
+        expect(getVerificationCommandsForCwd(dir).lint).toBe('bun run lint');
+      });
+    });
+
+    it('includes make lint only when the Makefile has a lint target', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'Makefile'), 'test:\n\tgo test ./...\n');
+        expect(getVerificationCommandsForCwd(dir)).toEqual({ build: 'make', test: 'make test' });
+        writeFileSync(join(dir, 'Makefile'), 'lint:\n\tgolangci-lint run\n');
+        expect(getVerificationCommandsForCwd(dir).lint).toBe('make lint');
+      });
+    });
+
+    it('returns cargo commands with clippy lint', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'Cargo.toml'), '');
+        expect(getVerificationCommandsForCwd(dir)).toEqual({
+          build: 'cargo build',
+          test: 'cargo test',
+          lint: 'cargo clippy -- -D warnings',
+        });
+      });
+    });
+  });
+
+  describe('selectVerificationPackage()', () => {
+    const packages = { 'packages/api': {}, 'packages/api/plugins': {}, 'packages/web': {} };
+
+    it('selects the package owning every changed file', () => {
+      expect(selectVerificationPackage(packages, ['packages/web/src/a.ts', 'packages/web/README.md'])).toBe(
+        'packages/web',
+      );
+    });
+
+    it('prefers the longest matching package key', () => {
+      expect(selectVerificationPackage(packages, ['packages/api/plugins/x.ts'])).toBe('packages/api/plugins');
+    });
+
+    it('returns undefined when changes span packages or touch the root', () => {
+      expect(selectVerificationPackage(packages, ['packages/api/a.ts', 'packages/web/b.ts'])).toBeUndefined();
+      expect(selectVerificationPackage(packages, ['packages/api/a.ts', 'package.json'])).toBeUndefined();
+      expect(selectVerificationPackage(packages, [])).toBeUndefined();
+    });
+  });
+
+  describe('resolveVerificationCommands()', () => {
+    it('falls back to detected commands when nothing is configured', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'go.mod'), '');
+        expect(resolveVerificationCommands(dir)).toEqual([
+          {
+            gate: 'build',
+            command: 'go build ./...',
+            cwd: dir,
+            timeoutMs: DEFAULT_VERIFICATION_TIMEOUT_MS,
+            source: 'detected',
+          },
+          {
+            gate: 'test',
+            command: 'go test ./...',
+            cwd: dir,
+            timeoutMs: DEFAULT_VERIFICATION_TIMEOUT_MS,
+            source: 'detected',
+          },
+          {
+            gate: 'lint',
+            command: 'go vet ./...',
+            cwd: dir,
+            timeoutMs: DEFAULT_VERIFICATION_TIMEOUT_MS,
+            source: 'detected',
+          },
+        ]);
+      });
+    });
+
+    it('applies configured commands, disabled gates, timeouts, cwd and env', () => {
+      withTempDir((dir) => {
+        writeFileSync(join(dir, 'Cargo.toml'), '');
+        const resolved = resolveVerificationCommands(dir, {
+          timeoutMs: 60_000,
+          env: { CI: '1' },
+          test: { command: 'cargo nextest run', cwd: 'crates/core', timeoutMs: 900_000, env: { RUST_LOG: 'debug' } },
+          lint: { enabled: false },
+        });
+        expect(resolved).toEqual([
+          { gate: 'build', command: 'cargo build', cwd: dir, timeoutMs: 60_000, env: { CI: '1' }, source: 'detected' },
+          {
+            gate: 'test',
+            command: 'cargo nextest run',
+            cwd: join(dir, 'crates/core'),
+            timeoutMs: 900_000,
+            env: { CI: '1', RUST_LOG: 'debug' },
+            source: 'config',
+          },
+        ]);
+      });
+    });
+
+    it('uses the package override when all changed files belong to one package', () => {
+      withTempDir((dir) => {
+        mkdirSync(join(dir, 'packages', 'api'), { recursive: true });
+        writeFileSync(join(dir, 'packages', 'api', 'pyproject.toml'), '');
+        const config = {
+          test: { command: 'bun run test' },
+          packages: { 'packages/api': { test: { command: 'pytest -q' }, env: { PYTHONPATH: 'src' } } },
+        };
+
+        const resolved = resolveVerificationCommands(dir, config, { changedFiles: ['packages/api/app.py'] });
+        expect(resolved.map(({ gate, command, cwd, package: pkg }) => ({ gate, command, cwd, pkg }))).toEqual([
+          { gate: 'build', command: 'python -m compileall -q .', cwd: join(dir, 'packages/api'), pkg: 'packages/api' },
+          { gate: 'test', command: 'pytest -q', cwd: join(dir, 'packages/api'), pkg: 'packages/api' },
+        ]);
+        expect(resolved[1].env).toEqual({ PYTHONPATH: 'src' });
+
+        const rootResolved = resolveVerificationCommands(dir, config, { changedFiles: ['README.md'] });
+        expect(rootResolved.find((c) => c.gate === 'test')?.command).toBe('bun run test');
+      });
+    });
   });
 });
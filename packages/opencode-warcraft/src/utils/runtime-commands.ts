@@ -1,32 +1,223 @@
-import { existsSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join, normalize, relative, resolve } from 'path';
+import type { VerificationConfig, VerificationGateConfig, VerificationScopeConfig } from 'warcraft-core';
 
-export type RuntimeKind = 'bun' | 'npm' | 'pnpm' | 'yarn';
+export type RuntimeKind = 'bun' | 'npm' | 'pnpm' | 'yarn' | 'cargo' | 'go' | 'python' | 'make';
+
+export type VerificationGate = 'build' | 'test' | 'lint';
 
 export interface VerificationCommands {
   build: string;
   test: string;
+  /** Only present when the project has a lint setup for its runtime. */
+  lint?: string;
+}
+
+/** A verification command with everything needed to execute it. */
+export interface ResolvedVerificationCommand {
+  gate: VerificationGate;
+  command: string;
+  cwd: string;
+  timeoutMs: number;
+  env?: Record<string, string>;
+  /** 'config' when the command comes from the verification section, 'detected' when guessed from the runtime. */
+  source: 'config' | 'detected';
+  /** Package override key that supplied this command, when a monorepo override applies. */
+  package?: string;
 }
 
-const RUNTIME_COMMANDS: Record<RuntimeKind, VerificationCommands> = {
-  bun: { build: 'bun run build', test: 'bun run test' },
-  npm: { build: 'npm run build', test: 'npm run test' },
-  pnpm: { build: 'pnpm run build', test: 'pnpm run test' },
-  yarn: { build: 'yarn build', test: 'yarn test' },
+export const VERIFICATION_GATE_ORDER: readonly VerificationGate[] = ['build', 'test', 'lint'];
+
+/** Default timeout for each verification command (5 minutes). */
+export const DEFAULT_VERIFICATION_TIMEOUT_MS = 300_000;
+
+const RUNTIME_COMMANDS: Record<RuntimeKind, Required<VerificationCommands>> = {
+  bun: { build: 'bun run build', test: 'bun run test', lint: 'bun run lint' },
+  npm: { build: 'npm run build', test: 'npm run test', lint: 'npm run lint' },
+  pnpm: { build: 'pnpm run build', test: 'pnpm run test', lint: 'pnpm run lint' },
+  yarn: { build: 'yarn build', test: 'yarn test', lint: 'yarn lint' },
+  cargo: { build: 'cargo build', test: 'cargo test', lint: 'cargo clippy -- -D warnings' },
+  go: { build: 'go build ./...', test: 'go test ./...', lint: 'go vet ./...' },
+  python: { build: 'python -m compileall -q .', test: 'pytest', lint: 'ruff check .' },
+  make: { build: 'make', test: 'make test', lint: 'make lint' },
 };
 
+const JS_RUNTIMES: readonly RuntimeKind[] = ['bun', 'npm', 'pnpm', 'yarn'];
+
+/**
+ * Detect the project runtime from manifests and lockfiles.
+ * JS lockfiles win, then package.json (bun), then the same manifests
+ * DockerSandboxService.detectImage recognises, then a Makefile.
+ */
 export function detectRuntime(cwd: string): RuntimeKind {
   if (existsSync(join(cwd, 'bun.lockb')) || existsSync(join(cwd, 'bun.lock'))) return 'bun';
   if (existsSync(join(cwd, 'pnpm-lock.yaml'))) return 'pnpm';
   if (existsSync(join(cwd, 'yarn.lock'))) return 'yarn';
   if (existsSync(join(cwd, 'package-lock.json'))) return 'npm';
+  if (existsSync(join(cwd, 'package.json'))) return 'bun';
+  if (existsSync(join(cwd, 'Cargo.toml'))) return 'cargo';
+  if (existsSync(join(cwd, 'go.mod'))) return 'go';
+  if (existsSync(join(cwd, 'pyproject.toml')) || existsSync(join(cwd, 'requirements.txt'))) return 'python';
+  if (existsSync(join(cwd, 'Makefile'))) return 'make';
   return 'bun';
 }
 
+function readFileOrNull(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the project in `cwd` has a lint setup the runtime's default lint command can use. */
+function hasLintSetup(cwd: string, runtime: RuntimeKind): boolean {
+  if (JS_RUNTIMES.includes(runtime)) {
+    const pkg = readFileOrNull(join(cwd, 'package.json'));
+    if (!pkg) return false;
+    try {
+      const scripts = (JSON.parse(pkg) as { scripts?: Record<string, unknown> }).scripts;
+      return typeof scripts?.lint === 'string';
+    } catch {
+      return false;
+    }
+  }
+  if (runtime === 'make') {
+    return /^lint\s*:/m.test(readFileOrNull(join(cwd, 'Makefile')) ?? '');
+  }
+  if (runtime === 'python') {
+    return (
+      existsSync(join(cwd, 'ruff.toml')) || /^\[tool\.ruff/m.test(readFileOrNull(join(cwd, 'pyproject.toml')) ?? '')
+    );
+  }
+  return true;
+}
+
 export function getVerificationCommands(runtime: RuntimeKind): VerificationCommands {
   return RUNTIME_COMMANDS[runtime];
 }
 
 export function getVerificationCommandsForCwd(cwd: string): VerificationCommands {
-  return getVerificationCommands(detectRuntime(cwd));
+  const runtime = detectRuntime(cwd);
+  const { build, test, lint } = RUNTIME_COMMANDS[runtime];
+  return hasLintSetup(cwd, runtime) ? { build, test, lint } : { build, test };
+}
+
+function toPosixPath(path: string): string {
+  return normalize(path).replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Pick the package override that owns every changed file (longest matching key wins per file).
+ * Returns undefined when there are no overrides, no changed files, or the change spans packages.
+ */
+export function selectVerificationPackage(
+  packages: VerificationConfig['packages'],
+  changedFiles: string[] = [],
+): string | undefined {
+  const keys = Object.keys(packages ?? {});
+  if (keys.length === 0 || changedFiles.length === 0) return undefined;
+
+  let selected: string | undefined;
+  for (const file of changedFiles) {
+    const filePath = toPosixPath(file);
+    const owner = keys
+      .filter((key) => {
+        const prefix = toPosixPath(key);
+        return filePath === prefix || filePath.startsWith(`${prefix}/`);
+      })
+      .sort((a, b) => b.length - a.length)[0];
+    if (!owner || (selected !== undefined && owner !== selected)) return undefined;
+    selected = owner;
+  }
+  return selected;
+}
+
+function mergeEnv(...layers: Array<Record<string, string> | undefined>): Record<string, string> | undefined {
+  const merged = Object.assign({}, ...layers.filter(Boolean)) as Record<string, string>;
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * Resolve the verification commands to run for a workspace.
+ *
+ * Configured gate commands win over runtime detection; gates without a configured command fall back
+ * to the detected command for the scope directory. When `changedFiles` all fall inside one
+ * `verification.packages` entry, that package's settings apply and commands run from the package directory.
+ */
+export function resolveVerificationCommands(
+  rootDir: string,
+  config: VerificationConfig = {},
+  options: { changedFiles?: string[] } = {},
+): ResolvedVerificationCommand[] {
+  const packageKey = selectVerificationPackage(config.packages, options.changedFiles);
+  const scope: VerificationScopeConfig = packageKey ? (config.packages?.[packageKey] ?? {}) : config;
+  const scopeDir = packageKey ? resolve(rootDir, packageKey) : rootDir;
+  let detected: VerificationCommands | undefined;
+
+  const resolved: ResolvedVerificationCommand[] = [];
+  for (const gate of VERIFICATION_GATE_ORDER) {
+    const gateConfig: VerificationGateConfig = scope[gate] ?? {};
+    if (gateConfig.enabled === false) continue;
+
+    let command = gateConfig.command?.trim();
+    let source: ResolvedVerificationCommand['source'] = 'config';
+    if (!command) {
+      detected ??= getVerificationCommandsForCwd(scopeDir);
+      command = detected[gate];
+      source = 'detected';
+    }
+    if (!command) continue;
+
+    const env = mergeEnv(config.env, packageKey ? scope.env : undefined, gateConfig.env);
+    resolved.push({
+      gate,
+      command,
+      cwd: gateConfig.cwd ? resolve(scopeDir, gateConfig.cwd) : scopeDir,
+      timeoutMs: gateConfig.timeoutMs ?? scope.timeoutMs ?? config.timeoutMs ?? DEFAULT_VERIFICATION_TIMEOUT_MS,
+      ...(env ? { env } : {}),
+      source,
+      ...(packageKey ? { package: packageKey } : {}),
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Validate a verification section against the project layout.
+ * Returns human-readable problems (missing package directories, working directories, bad timeouts).
+ */
+export function validateVerificationConfig(rootDir: string, config: VerificationConfig = {}): string[] {
+  const problems: string[] = [];
+  const checkScope = (scope: VerificationScopeConfig, scopeDir: string, label: string) => {
+    if (scope.timeoutMs !== undefined && !(Number.isInteger(scope.timeoutMs) && scope.timeoutMs > 0)) {
+      problems.push(`${label}.timeoutMs must be a positive integer`);
+    }
+    for (const gate of VERIFICATION_GATE_ORDER) {
+      const gateConfig = scope[gate];
+      if (!gateConfig) continue;
+      if (gateConfig.timeoutMs !== undefined && !(Number.isInteger(gateConfig.timeoutMs) && gateConfig.timeoutMs > 0)) {
+        problems.push(`${label}.${gate}.timeoutMs must be a positive integer`);
+      }
+      if (gateConfig.cwd && !existsSync(resolve(scopeDir, gateConfig.cwd))) {
+        problems.push(`${label}.${gate}.cwd does not exist: ${gateConfig.cwd}`);
+      }
+    }
+  };
+
+  checkScope(config, rootDir, 'verification');
+  for (const [key, scope] of Object.entries(config.packages ?? {})) {
+    const packageDir = resolve(rootDir, key);
+    const rel = relative(rootDir, packageDir);
+    if (isAbsolute(key) || rel.startsWith('..')) {
+      problems.push(`verification.packages["${key}"] must be a path inside the project`);
+      continue;
+    }
+    if (!existsSync(packageDir)) {
+      problems.push(`verification.packages["${key}"] does not exist`);
+      continue;
+    }
+    checkScope(scope, packageDir, `verification.packages["${key}"]`);
+  }
+  return problems;
 }
@@ -255,6 +255,75 @@ describe('buildWorkerPrompt verificationModel', () => {
   });
 });
 
+describe('buildWorkerPrompt verificationCommands', () => {
+  const verificationCommands = [
+    {
+      gate: 'build' as const,
+      command: 'cargo build',
+      cwd: '/tmp/worktree',
+      timeoutMs: 300_000,
+      source: 'config' as const,
+    },
+    {
+      gate: 'test' as const,
+      command: 'cargo test',
+      cwd: '/tmp/worktree/crates/core',
+      timeoutMs: 300_000,
+      source: 'config' as const,
+    },
+  ];
+
+  it('lists the exact commands and uses them in the completion example', () => {
+    const prompt = buildWorkerPrompt(createTestParams({ verificationCommands }));
+
+    expect(prompt).toContain('## Verification Commands');
+    expect(prompt).toContain('- **build:** `cargo build`');
+    expect(prompt).toContain('- **test:** `cargo test` (run in `crates/core`)');
+    expect(prompt).toContain('build: { cmd: "cargo build", exitCode: 0 }');
+    expect(prompt).not.toContain('<lint command>');
+  });
+
+  it('mentions commit-time re-execution in tdd-verified mode', () => {
+    const prompt = buildWorkerPrompt(createTestParams({ verificationModel: 'tdd-verified', verificationCommands }));
+
+    expect(prompt).toContain('Warcraft re-runs these commands in your workspace when you commit');
+  });
+
+  it('falls back to placeholders and omits the section without resolved commands', () => {
+    const prompt = buildWorkerPrompt(createTestParams());
+
+    expect(prompt).not.toContain('## Verification Commands');
+    expect(prompt).toContain('build: { cmd: "<build command>", exitCode: 0 }');
+  });
+
+  it('omits the section in best-effort mode', () => {
+    const prompt = buildWorkerPrompt(createTestParams({ verificationModel: 'best-effort', verificationCommands }));
+
+    expect(prompt).not.toContain('## Verification Commands');
+  });
+});
+
+describe('buildWorkerPrompt acceptance criteria', () => {
+  it('renders the criteria as a numbered checklist and asks for one report per criterion', () => {
+    const prompt = buildWorkerPrompt(
+      createTestParams({ acceptanceCriteria: ['Users can log in', 'Run: `bun test` -> PASS'] }),
+    );
+
+    expect(prompt).toContain('## Acceptance Criteria');
+    expect(prompt).toContain('1. [ ] Users can log in\n2. [ ] Run: `bun test` -> PASS');
+    expect(prompt).toContain('{ criterion: 1, met: true, evidence: "<how you know>" }');
+    expect(prompt).toContain('{ criterion: 2, met: true, evidence: "<how you know>" }');
+    expect(prompt.indexOf('## Acceptance Criteria')).toBeLessThan(prompt.indexOf('## Completion Protocol'));
+  });
+
+  it('omits the section and the example field for tasks without criteria', () => {
+    const prompt = buildWorkerPrompt(createTestParams());
+
+    expect(prompt).not.toContain('## Acceptance Criteria');
+    expect(prompt).not.toContain('acceptance: [');
+  });
+});
+
 // ============================================================================
 // Edge cases
 // ============================================================================
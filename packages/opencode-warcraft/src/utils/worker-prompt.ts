@@ -3,6 +3,9 @@
  * Builds context-rich prompts for worker agents with all Warcraft context.
  */
 
+import { relative } from 'path';
+import { formatAcceptanceChecklist, type VerificationModel } from 'warcraft-core';
+import type { ResolvedVerificationCommand, VerificationGate } from './runtime-commands.js';
 import type { TaskComplexity } from './task-complexity.js';
 
 export interface WorkerContextFile {
@@ -35,11 +38,15 @@ export interface WorkerPromptParams {
   spec: string;
   previousTasks?: CompletedTask[];
   continueFrom?: ContinueFromBlocked;
-  verificationModel?: 'tdd' | 'best-effort';
+  verificationModel?: VerificationModel;
+  /** Resolved verification commands for the workspace; replaces placeholder commands when provided. */
+  verificationCommands?: ResolvedVerificationCommand[];
   /** Task complexity level for prompt mode selection. Defaults to 'standard'. */
   complexity?: TaskComplexity;
   /** Prior-attempt context injected when previousAttempts > 0. */
   failureContext?: string;
+  /** The task's acceptance criteria from the plan; reported one by one in \`acceptance\`. */
+  acceptanceCriteria?: string[];
 }
 
 /**
@@ -67,8 +74,10 @@ export function buildWorkerPrompt(params: WorkerPromptParams): string {
     spec,
     continueFrom,
     verificationModel = 'tdd',
+    verificationCommands = [],
     complexity = 'standard',
     failureContext,
+    acceptanceCriteria = [],
   } = params;
 
   const continuationLocation =
@@ -118,6 +127,53 @@ This is a complex task. Break implementation into smaller verified steps.
 `;
   }
 
+  const exampleGates: VerificationGate[] =
+    verificationCommands.length > 0 ? verificationCommands.map((c) => c.gate) : ['build', 'test', 'lint'];
+  const verificationExample = exampleGates
+    .map((gate) => {
+      const cmd = verificationCommands.find((c) => c.gate === gate)?.command ?? `<${gate} command>`;
+      const output = gate === 'test' ? ', output: "<tail of output>"' : '';
+      return `    ${gate}: { cmd: ${JSON.stringify(cmd)}, exitCode: 0${output} }`;
+    })
+    .join(',\n');
+  const verificationCommandsSection =
+    verificationModel !== 'best-effort' && verificationCommands.length > 0
+      ? `## Verification Commands
+
+Run these exact commands before completing and report their exit codes in \`verification\`:
+
+${verificationCommands
+  .map(({ gate, command, cwd }) => {
+    const dir = relative(workspacePath, cwd);
+    return `- **${gate}:** \`${command}\`${dir ? ` (run in \`${dir}\`)` : ''}`;
+  })
+  .join('\n')}
+${verificationModel === 'tdd-verified' ? '\nWarcraft re-runs these commands in your workspace when you commit; a failing gate rejects completion.\n' : ''}
+---
+
+`
+      : '';
+
+  const acceptanceSection =
+    acceptanceCriteria.length > 0
+      ? `## Acceptance Criteria
+
+The plan defines these criteria for this task. Address each one, then report every criterion by number in \`acceptance\` with the evidence (command output, test name, file:line) that it is met. Completion is rejected while a criterion is unreported or not met.
+
+${formatAcceptanceChecklist(acceptanceCriteria).join('\n')}
+
+---
+
+`
+      : '';
+  const acceptanceExample =
+    acceptanceCriteria.length > 0
+      ? `,
+  acceptance: [
+${acceptanceCriteria.map((_, index) => `    { criterion: ${index + 1}, met: true, evidence: "<how you know>" }`).join(',\n')}
+  ]`
+      : '';
+
   const executionPreamble =
     workspaceMode === 'worktree'
       ? 'You are a worker agent executing a task in an isolated git worktree.'
@@ -158,8 +214,8 @@ ${spec}
 Before writing code, confirm:
 1. Dependencies are satisfied and required context is present.
 2. The exact files/sections to touch (from references) are identified.
-${verificationModel === 'tdd' ? '3. The first failing test to write is clear (TDD).' : ''}
-${verificationModel === 'tdd' ? '4. The minimal change needed to reach green is planned.' : ''}
+${verificationModel !== 'best-effort' ? '3. The first failing test to write is clear (TDD).' : ''}
+${verificationModel !== 'best-effort' ? '4. The minimal change needed to reach green is planned.' : ''}
 
 ---
 
@@ -197,7 +253,7 @@ This keeps the user focused on ONE conversation (Warcraft Master) instead of mul
 
 ---
 
-## Completion Protocol
+${verificationCommandsSection}${acceptanceSection}## Completion Protocol
 
 When your task is **fully complete**:
 
@@ -206,7 +262,14 @@ warcraft_worktree_commit({
   task: "${task}",
   feature: "${feature}",
   status: "completed",
-  summary: "Concise summary of what you accomplished"
+  summary: "Concise summary of what you accomplished"${
+    verificationModel !== 'best-effort'
+      ? `,
+  verification: {
+${verificationExample}
+  }`
+      : ''
+  }${acceptanceExample}
 })
 \`\`\`
 
@@ -217,7 +280,7 @@ The Warcraft Master will take over from here.
 **Summary Guidance** (used verbatim for downstream task context):
 1. Start with **what changed** (files/areas touched).
 2. Mention **why** if it affects future tasks.
-3. Note **verification evidence** (tests/build/lint) or explicitly say "Not run".
+3. Note **verification evidence** (tests/build/lint) or explicitly say "Not run". Report the exact commands and exit codes in \`verification\` rather than only in prose.
 4. Keep it **2-4 sentences** max.
 
 If you encounter an **unrecoverable error**:
@@ -244,7 +307,7 @@ warcraft_worktree_commit({
 
 ---
 ${
-  verificationModel === 'tdd'
+  verificationModel !== 'best-effort'
     ? `## TDD Protocol (Required)
 
 1. **Red**: Write failing test first
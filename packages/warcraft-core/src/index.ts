@@ -3,6 +3,7 @@ export * from './services/index.js';
 export * from './types.js';
 export * from './utils/detection.js';
 export * from './utils/fs.js';
+export * from './utils/json-lines.js';
 export type { LockOptions } from './utils/json-lock.js';
 export {
   acquireLock,
@@ -17,6 +18,7 @@ export {
   writeJsonLocked,
   writeJsonLockedSync,
 } from './utils/json-lock.js';
+export * from './utils/line-diff.js';
 export type { ConsoleLoggerOptions, LogEntry, Logger, LogLevel, LogSink } from './utils/logger.js';
 export { createConsoleLogger, createNoopLogger, LOG_LEVELS } from './utils/logger.js';
 export * from './utils/paths.js';
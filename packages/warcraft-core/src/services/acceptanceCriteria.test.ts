@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  checkAcceptanceReports,
+  formatAcceptanceChecklist,
+  parseAcceptanceCriteria,
+  summarizeAcceptance,
+} from './acceptanceCriteria.js';
+
+describe('parseAcceptanceCriteria', () => {
+  it('collects Verify and Acceptance Criteria list items', () => {
+    const description = [
+      'Build the thing.',
+      '',
+      '**Acceptance Criteria**:',
+      '- Users can log in',
+      '- [ ] Sessions expire after 1h',
+      '',
+      '**Verify**:',
+      '- [ ] Run: `bun test` -> PASS',
+      '1. Run: `bun run lint`',
+      '',
+      '**Must NOT do**:',
+      '- Touch the database',
+    ].join('\n');
+
+    expect(parseAcceptanceCriteria(description)).toEqual([
+      'Users can log in',
+      'Sessions expire after 1h',
+      'Run: `bun test` -> PASS',
+      'Run: `bun run lint`',
+    ]);
+  });
+
+  it('accepts inline items, heading labels and the colon inside the bold marker', () => {
+    expect(parseAcceptanceCriteria('Verify: `bun test` passes')).toEqual(['`bun test` passes']);
+    expect(parseAcceptanceCriteria('**Verify:**\n- A\n- A')).toEqual(['A']);
+    expect(parseAcceptanceCriteria('#### Acceptance Criteria\n\n- B\nProse ends the list.\n- C')).toEqual(['B']);
+  });
+
+  it('returns nothing for tasks without criteria', () => {
+    expect(parseAcceptanceCriteria('Just do it.\n- a bullet')).toEqual([]);
+  });
+
+  it('prefers declared acceptance and verify commands over markdown lists', () => {
+    const declaration = { order: 1, title: 'Build', acceptance: ['dist/ exists'], verify: ['bun run build'] };
+
+    expect(parseAcceptanceCriteria('**Verify**:\n- ignored', declaration)).toEqual([
+      'dist/ exists',
+      'Run: `bun run build`',
+    ]);
+  });
+});
+
+describe('checkAcceptanceReports', () => {
+  const criteria = ['Users can log in', 'Tests pass', 'Docs updated'];
+
+  it('maps reports onto criteria and sorts out missing, unmet and unknown numbers', () => {
+    const check = checkAcceptanceReports(criteria, [
+      { criterion: 1, met: true, evidence: 'login.test.ts passes' },
+      { criterion: 2, met: false, evidence: '2 failures in auth.test.ts' },
+      { criterion: 3, met: true, evidence: '  ' },
+      { criterion: 7, met: true, evidence: 'n/a' },
+    ]);
+
+    expect(check).toEqual({
+      results: [
+        { criterion: 'Users can log in', met: true, evidence: 'login.test.ts passes' },
+        { criterion: 'Tests pass', met: false, evidence: '2 failures in auth.test.ts' },
+      ],
+      missing: [3],
+      unmet: [2],
+      unknown: [7],
+    });
+  });
+});
+
+describe('summarizeAcceptance', () => {
+  it('returns null for tasks without criteria', () => {
+    expect(summarizeAcceptance({})).toBeNull();
+    expect(summarizeAcceptance(null)).toBeNull();
+  });
+
+  it('counts met, unmet and unreported criteria', () => {
+    expect(
+      summarizeAcceptance({
+        acceptanceCriteria: ['A', 'B', 'C'],
+        acceptanceResults: [
+          { criterion: 'A', met: true, evidence: 'ok' },
+          { criterion: 'B', met: false, evidence: 'broken' },
+        ],
+      }),
+    ).toEqual({ total: 3, met: 1, unmet: 1, unreported: 1, unmetCriteria: ['B'] });
+  });
+});
+
+describe('formatAcceptanceChecklist', () => {
+  it('renders a numbered checklist with recorded evidence', () => {
+    expect(
+      formatAcceptanceChecklist(
+        ['A', 'B', 'C'],
+        [
+          { criterion: 'A', met: true, evidence: 'ok' },
+          { criterion: 'B', met: false, evidence: 'broken' },
+        ],
+      ),
+    ).toEqual(['1. [x] A (evidence: ok)', '2. [ ] B (NOT MET: broken)', '3. [ ] C']);
+  });
+});
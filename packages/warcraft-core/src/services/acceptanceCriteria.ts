@@ -0,0 +1,119 @@
+import type { PlanTaskDeclaration, TaskAcceptanceResult, TaskStatus } from '../types.js';
+
+// `**Verify**:`, `**Verify:**`, `Verify:` or a `#### Verify` heading, with an optional inline item.
+const LABEL_PATTERN =
+  /^\s*(?:#+\s*(?:Acceptance Criteria|Verify)\s*:?|\*{0,2}(?:Acceptance Criteria|Verify)(?::\*{0,2}|\*{0,2}:))\s*(.*)$/i;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/;
+
+/** A worker's report on one criterion; `criterion` is its 1-based number in the task's checklist. */
+export interface TaskAcceptanceReport {
+  criterion: number;
+  met: boolean;
+  evidence: string;
+}
+
+export interface AcceptanceCheckResult {
+  /** Reports mapped onto criteria text, in criteria order; only reported criteria are included. */
+  results: TaskAcceptanceResult[];
+  /** Criterion numbers without a report (or with empty evidence). */
+  missing: number[];
+  /** Criterion numbers reported as not met. */
+  unmet: number[];
+  /** Reported numbers that are not criteria of the task. */
+  unknown: number[];
+}
+
+export interface AcceptanceSummary {
+  total: number;
+  met: number;
+  unmet: number;
+  /** Criteria without a recorded result. */
+  unreported: number;
+  /** Text of the criteria reported as not met. */
+  unmetCriteria: string[];
+}
+
+/**
+ * Collect a plan task's acceptance criteria: the items of its `**Acceptance Criteria**:` and
+ * `**Verify**:` lists. When the plan's `warcraft-tasks` block declares `acceptance` or `verify` for
+ * the task, those declarations replace the markdown lists.
+ */
+export function parseAcceptanceCriteria(description: string, declaration?: PlanTaskDeclaration | null): string[] {
+  if (declaration?.acceptance?.length || declaration?.verify?.length) {
+    return [...(declaration.acceptance ?? []), ...(declaration.verify ?? []).map((command) => `Run: \`${command}\``)];
+  }
+
+  const criteria: string[] = [];
+  let inList = false;
+  for (const line of description.split('\n')) {
+    const label = line.match(LABEL_PATTERN);
+    if (label) {
+      inList = true;
+      if (label[1].trim()) criteria.push(label[1].trim());
+      continue;
+    }
+    if (!inList || line.trim() === '') continue;
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      criteria.push(item[1].trim());
+    } else {
+      inList = false;
+    }
+  }
+  return [...new Set(criteria)];
+}
+
+/** Match a worker's reports against the task's criteria. */
+export function checkAcceptanceReports(criteria: string[], reports: TaskAcceptanceReport[]): AcceptanceCheckResult {
+  const byNumber = new Map<number, TaskAcceptanceReport>();
+  const unknown: number[] = [];
+  for (const report of reports) {
+    if (Number.isInteger(report.criterion) && report.criterion >= 1 && report.criterion <= criteria.length) {
+      byNumber.set(report.criterion, report);
+    } else {
+      unknown.push(report.criterion);
+    }
+  }
+
+  const results: TaskAcceptanceResult[] = [];
+  const missing: number[] = [];
+  const unmet: number[] = [];
+  criteria.forEach((criterion, index) => {
+    const report = byNumber.get(index + 1);
+    if (!report || report.evidence.trim() === '') {
+      missing.push(index + 1);
+      return;
+    }
+    results.push({ criterion, met: report.met, evidence: report.evidence.trim() });
+    if (!report.met) unmet.push(index + 1);
+  });
+  return { results, missing, unmet, unknown };
+}
+
+/** Summarize a task's recorded acceptance results; null when the task has no criteria. */
+export function summarizeAcceptance(
+  status: Pick<TaskStatus, 'acceptanceCriteria' | 'acceptanceResults'> | null | undefined,
+): AcceptanceSummary | null {
+  const criteria = status?.acceptanceCriteria ?? [];
+  if (criteria.length === 0) return null;
+  const results = new Map((status?.acceptanceResults ?? []).map((result) => [result.criterion, result]));
+  const reported = criteria.map((criterion) => results.get(criterion)).filter((result) => result !== undefined);
+  const unmetCriteria = reported.filter((result) => !result.met).map((result) => result.criterion);
+  return {
+    total: criteria.length,
+    met: reported.length - unmetCriteria.length,
+    unmet: unmetCriteria.length,
+    unreported: criteria.length - reported.length,
+    unmetCriteria,
+  };
+}
+
+/** Render the criteria as a numbered checklist for worker prompts and reports. */
+export function formatAcceptanceChecklist(criteria: string[], results: TaskAcceptanceResult[] = []): string[] {
+  const byCriterion = new Map(results.map((result) => [result.criterion, result]));
+  return criteria.map((criterion, index) => {
+    const result = byCriterion.get(criterion);
+    if (!result) return `${index + 1}. [ ] ${criterion}`;
+    return `${index + 1}. [${result.met ? 'x' : ' '}] ${criterion} (${result.met ? 'evidence' : 'NOT MET'}: ${result.evidence})`;
+  });
+}
@@ -126,6 +126,22 @@ describe('artifactSchemas', () => {
       expect(decoded!.brief).toBe(original.brief);
     });
 
+    it('should preserve structured verification through TaskStatus conversion', () => {
+      const taskStatus: TaskStatus = {
+        status: 'done',
+        origin: 'plan',
+        verification: {
+          build: { cmd: 'bun run build', exitCode: 0 },
+          test: { cmd: 'bun test', exitCode: 0, output: '12 pass' },
+        },
+      };
+
+      const decoded = decodeTaskState(encodeTaskState(taskStateFromTaskStatus(taskStatus)));
+
+      expect(decoded).not.toBeNull();
+      expect(taskStateToTaskStatus(decoded!).verification).toEqual(taskStatus.verification);
+    });
+
     it('should omit learnings when absent', () => {
       const original = {
         schemaVersion: 1,
@@ -10,7 +10,7 @@
  * All bead metadata writes MUST use these schemas to ensure consistency.
  */
 
-import type { TaskStatus } from '../../types.js';
+import type { TaskStatus, TaskVerification } from '../../types.js';
 
 // ============================================================================
 // Schema Versioning
@@ -45,6 +45,8 @@ export interface TaskStateArtifact extends VersionedArtifact {
   origin: 'plan' | 'manual';
   /** Plan section title (optional) */
   planTitle?: string;
+  /** Priority the task was created with, 1-5 (optional) */
+  priority?: number;
   /** Task summary (optional) */
   summary?: string;
   /** ISO timestamp when task was started (optional) */
@@ -97,6 +99,18 @@ export interface TaskStateArtifact extends VersionedArtifact {
   brief?: string;
   /** Learnings surfaced by the worker upon task completion (done tasks only). */
   learnings?: string[];
+  /** Structured verification results reported with warcraft_worktree_commit. */
+  verification?: TaskVerification;
+  /** ISO timestamp when the task branch was merged (optional) */
+  mergedAt?: string;
+  /** Commit SHA recorded for the merge (optional) */
+  mergeSha?: string;
+  /** Target HEAD before a rebase merge (optional) */
+  mergeBaseSha?: string;
+  /** Branch the task was merged into (optional) */
+  mergeBranch?: string;
+  /** Task whose conflicted merge this task resolves (optional) */
+  resolvesConflictsFor?: string;
 }
 
 /**
@@ -107,6 +121,7 @@ interface LegacyTaskState {
   status?: string;
   origin?: string;
   planTitle?: string;
+  priority?: number;
   summary?: string;
   startedAt?: string;
   completedAt?: string;
@@ -120,6 +135,12 @@ interface LegacyTaskState {
   folder?: string;
   brief?: string;
   learnings?: string[];
+  verification?: TaskVerification;
+  mergedAt?: string;
+  mergeSha?: string;
+  mergeBaseSha?: string;
+  mergeBranch?: string;
+  resolvesConflictsFor?: string;
 }
 
 /**
@@ -158,6 +179,7 @@ export function decodeTaskState(raw: string | null): TaskStateArtifact | null {
       status: (legacy.status || 'pending') as TaskStateArtifact['status'],
       origin: (legacy.origin || 'plan') as TaskStateArtifact['origin'],
       planTitle: legacy.planTitle,
+      priority: legacy.priority,
       summary: legacy.summary,
       startedAt: legacy.startedAt,
       completedAt: legacy.completedAt,
@@ -171,6 +193,12 @@ export function decodeTaskState(raw: string | null): TaskStateArtifact | null {
       folder: legacy.folder,
       brief: legacy.brief,
       learnings: legacy.learnings,
+      verification: legacy.verification,
+      mergedAt: legacy.mergedAt,
+      mergeSha: legacy.mergeSha,
+      mergeBaseSha: legacy.mergeBaseSha,
+      mergeBranch: legacy.mergeBranch,
+      resolvesConflictsFor: legacy.resolvesConflictsFor,
     };
   } catch {
     return null;
@@ -186,6 +214,7 @@ export function taskStateFromTaskStatus(taskStatus: TaskStatus): TaskStateArtifa
     status: taskStatus.status,
     origin: taskStatus.origin,
     planTitle: taskStatus.planTitle,
+    priority: taskStatus.priority,
     summary: taskStatus.summary,
     startedAt: taskStatus.startedAt,
     completedAt: taskStatus.completedAt,
@@ -199,6 +228,12 @@ export function taskStateFromTaskStatus(taskStatus: TaskStatus): TaskStateArtifa
     folder: taskStatus.folder,
     brief: taskStatus.brief,
     learnings: taskStatus.learnings,
+    verification: taskStatus.verification,
+    mergedAt: taskStatus.mergedAt,
+    mergeSha: taskStatus.mergeSha,
+    mergeBaseSha: taskStatus.mergeBaseSha,
+    mergeBranch: taskStatus.mergeBranch,
+    resolvesConflictsFor: taskStatus.resolvesConflictsFor,
   };
 }
 
@@ -211,6 +246,7 @@ export function taskStateToTaskStatus(artifact: TaskStateArtifact): TaskStatus {
     status: artifact.status,
     origin: artifact.origin,
     planTitle: artifact.planTitle,
+    priority: artifact.priority,
     summary: artifact.summary,
     startedAt: artifact.startedAt,
     completedAt: artifact.completedAt,
@@ -224,6 +260,12 @@ export function taskStateToTaskStatus(artifact: TaskStateArtifact): TaskStatus {
     folder: artifact.folder,
     brief: artifact.brief,
     learnings: artifact.learnings,
+    verification: artifact.verification,
+    mergedAt: artifact.mergedAt,
+    mergeSha: artifact.mergeSha,
+    mergeBaseSha: artifact.mergeBaseSha,
+    mergeBranch: artifact.mergeBranch,
+    resolvesConflictsFor: artifact.resolvesConflictsFor,
   };
 }
 
@@ -712,6 +712,15 @@ describe('ConfigService.getVerificationModel', () => {
     expect(svc.getVerificationModel()).toBe('best-effort');
   });
 
+  it('returns tdd-verified when configured', () => {
+    const service = new ConfigService();
+    const configPath = service.getPath();
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify({ verificationModel: 'tdd-verified' }));
+    const svc = new ConfigService();
+    expect(svc.getVerificationModel()).toBe('tdd-verified');
+  });
+
   it('returns tdd for invalid values', () => {
     const service = new ConfigService();
     const configPath = service.getPath();
@@ -725,6 +734,63 @@ describe('ConfigService.getVerificationModel', () => {
   });
 });
 
+describe('ConfigService.getVerificationConfig', () => {
+  it('returns an empty section when verification is not configured', () => {
+    const service = new ConfigService();
+    expect(service.getVerificationConfig()).toEqual({});
+  });
+
+  it('returns configured gate commands and package overrides', () => {
+    const service = new ConfigService();
+    const configPath = service.getPath();
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    const verification = {
+      timeoutMs: 600_000,
+      test: { command: 'cargo test --workspace', env: { RUST_BACKTRACE: '1' } },
+      lint: { enabled: false },
+      packages: { 'packages/web': { test: { command: 'pnpm vitest run' } } },
+    };
+    fs.writeFileSync(configPath, JSON.stringify({ verification }));
+    const svc = new ConfigService();
+    expect(svc.getVerificationConfig()).toEqual(verification);
+  });
+});
+
+describe('ConfigService.isIntegrationBranchEnabled', () => {
+  it('is disabled by default', () => {
+    const service = new ConfigService();
+    expect(service.isIntegrationBranchEnabled()).toBe(false);
+  });
+
+  it('returns true only when explicitly enabled', () => {
+    const service = new ConfigService();
+    const configPath = service.getPath();
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify({ integrationBranchEnabled: true }));
+    expect(new ConfigService().isIntegrationBranchEnabled()).toBe(true);
+
+    fs.writeFileSync(configPath, JSON.stringify({ integrationBranchEnabled: 'yes' }));
+    expect(new ConfigService().isIntegrationBranchEnabled()).toBe(false);
+  });
+});
+
+describe('ConfigService.getForgeConfig', () => {
+  it('returns null when no forge is configured', () => {
+    expect(new ConfigService().getForgeConfig()).toBeNull();
+  });
+
+  it('returns the filesystem forge and ignores unknown adapters', () => {
+    const service = new ConfigService();
+    const configPath = service.getPath();
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify({ forge: { adapter: 'filesystem', outputDir: 'prs' } }));
+    expect(new ConfigService().getForgeConfig()).toEqual({ adapter: 'filesystem', outputDir: 'prs' });
+
+    fs.writeFileSync(configPath, JSON.stringify({ forge: { adapter: 'gitea' } }));
+    expect(new ConfigService().getForgeConfig()).toBeNull();
+  });
+});
+
 describe('ConfigService rollout flags', () => {
   it("getStructuredVerificationMode() returns 'compat' by default", () => {
     const service = new ConfigService();
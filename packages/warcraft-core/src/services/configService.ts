@@ -2,7 +2,14 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { DEFAULT_WARCRAFT_CONFIG } from '../defaults.js';
-import type { BeadsMode, ParallelExecutionConfig, WarcraftConfig } from '../types.js';
+import type {
+  BeadsMode,
+  ForgeConfig,
+  ParallelExecutionConfig,
+  VerificationConfig,
+  VerificationModel,
+  WarcraftConfig,
+} from '../types.js';
 import type { Logger } from '../utils/logger.js';
 import { createNoopLogger } from '../utils/logger.js';
 import type { SandboxConfig } from './dockerSandboxService.js';
@@ -265,10 +272,11 @@ export class ConfigService {
   /**
    * Get the verification model. Defaults to 'tdd'.
    */
-  getVerificationModel(): 'tdd' | 'best-effort' {
+  getVerificationModel(): VerificationModel {
     const config = this.get();
     const model = config.verificationModel;
     if (model === 'best-effort') return 'best-effort';
+    if (model === 'tdd-verified') return 'tdd-verified';
     return 'tdd';
   }
 
@@ -295,6 +303,15 @@ export class ConfigService {
     return 'compat';
   }
 
+  /**
+   * Get the configured verification commands.
+   * Returns an empty section when unset, meaning commands are detected from the project runtime.
+   */
+  getVerificationConfig(): VerificationConfig {
+    const config = this.get();
+    return config.verification ?? {};
+  }
+
   /** @deprecated Unified dispatch is always enabled. Returns true. */
   isUnifiedDispatchEnabled(): boolean {
     return true;
@@ -310,6 +327,26 @@ export class ConfigService {
     return config.strictTaskTransitionsEnabled === true;
   }
 
+  /**
+   * Get the forge `warcraft_pr_export` opens pull requests on.
+   * Returns null when unset or when `adapter` names no known forge.
+   */
+  getForgeConfig(): ForgeConfig | null {
+    const forge = this.get().forge;
+    if (!forge || forge.adapter !== 'filesystem') {
+      return null;
+    }
+    return { adapter: 'filesystem', ...(typeof forge.outputDir === 'string' ? { outputDir: forge.outputDir } : {}) };
+  }
+
+  /**
+   * Check if task merges should land on the feature integration branch.
+   */
+  isIntegrationBranchEnabled(): boolean {
+    const config = this.get();
+    return config.integrationBranchEnabled === true;
+  }
+
   /**
    * Backward-compatible alias for strict task transitions mode.
    */
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'bun:test';
+import type { FeatureJson, TaskInfo, TaskStatus } from '../types.js';
+import {
+  type CrossFeatureLookup,
+  collectCrossFeatureDependencies,
+  findCrossFeatureCycles,
+  parseCrossFeatureRef,
+  resolveCrossFeatureRef,
+} from './crossFeatureDependencies.js';
+
+function createLookup(
+  features: Array<Partial<FeatureJson> & { name: string }>,
+  tasks: Record<string, Record<string, Partial<TaskStatus>>> = {},
+): CrossFeatureLookup {
+  return {
+    featureService: {
+      get: (name) => {
+        const feature = features.find((candidate) => candidate.name === name);
+        return feature ? ({ epicBeadId: '', status: 'executing', createdAt: '', ...feature } as FeatureJson) : null;
+      },
+      list: () => features.map((feature) => feature.name),
+    },
+    taskService: {
+      list: (featureName) =>
+        Object.entries(tasks[featureName] ?? {}).map(
+          ([folder, status]) =>
+            ({ folder, name: folder, status: status.status ?? 'pending', origin: 'plan' }) as TaskInfo,
+        ),
+      getRawStatus: (featureName, folder) => {
+        const status = tasks[featureName]?.[folder];
+        return status ? ({ status: 'pending', origin: 'plan', ...status } as TaskStatus) : null;
+      },
+    },
+  };
+}
+
+describe('parseCrossFeatureRef', () => {
+  it('parses feature and feature/task references', () => {
+    expect(parseCrossFeatureRef('billing-api')).toEqual({ feature: 'billing-api' });
+    expect(parseCrossFeatureRef(' billing-api/02-endpoint ')).toEqual({ feature: 'billing-api', task: '02-endpoint' });
+  });
+
+  it('rejects malformed references', () => {
+    expect(parseCrossFeatureRef('')).toBeNull();
+    expect(parseCrossFeatureRef('a/b/c')).toBeNull();
+    expect(parseCrossFeatureRef('../secrets')).toBeNull();
+    expect(parseCrossFeatureRef('has space')).toBeNull();
+  });
+});
+
+describe('resolveCrossFeatureRef', () => {
+  const lookup = createLookup([{ name: 'done-feature', status: 'completed' }, { name: 'billing-api' }], {
+    'billing-api': {
+      '01-merged': { status: 'done', mergedAt: '2024-01-01T00:00:00Z' },
+      '02-unmerged': { status: 'done' },
+      '03-direct': { status: 'done', workerSession: { sessionId: 's', workspaceMode: 'direct' } },
+      '04-running': { status: 'in_progress' },
+    },
+  });
+
+  it('is satisfied by completed features and done, merged tasks', () => {
+    expect(resolveCrossFeatureRef('done-feature', lookup).satisfied).toBe(true);
+    expect(resolveCrossFeatureRef('billing-api/01-merged', lookup).satisfied).toBe(true);
+    expect(resolveCrossFeatureRef('billing-api/03-direct', lookup).satisfied).toBe(true);
+  });
+
+  it('explains why a dependency is not satisfied', () => {
+    expect(resolveCrossFeatureRef('billing-api', lookup)).toMatchObject({
+      satisfied: false,
+      status: 'executing',
+      reason: 'feature "billing-api" is executing',
+    });
+    expect(resolveCrossFeatureRef('billing-api/02-unmerged', lookup).reason).toBe(
+      'task "billing-api/02-unmerged" is done but not merged',
+    );
+    expect(resolveCrossFeatureRef('billing-api/04-running', lookup, '01-local')).toEqual({
+      ref: 'billing-api/04-running',
+      feature: 'billing-api',
+      task: '04-running',
+      declaredBy: '01-local',
+      satisfied: false,
+      status: 'in_progress',
+      reason: 'task "billing-api/04-running" is in_progress',
+    });
+    expect(resolveCrossFeatureRef('nope/01-x', lookup)).toMatchObject({ status: 'missing', satisfied: false });
+    expect(resolveCrossFeatureRef('billing-api/09-x', lookup)).toMatchObject({ status: 'missing', satisfied: false });
+  });
+
+  it('waits for the feature merge while task merges land on the integration branch', () => {
+    const tasks = {
+      api: { '01-endpoint': { status: 'done' as const, mergedAt: '2024-01-02T00:00:00Z' } },
+    };
+    const unlanded = {
+      ...createLookup([{ name: 'api', status: 'completed' }], tasks),
+      integrationBranchEnabled: true,
+    };
+    expect(resolveCrossFeatureRef('api/01-endpoint', unlanded)).toMatchObject({
+      satisfied: false,
+      reason:
+        'task "api/01-endpoint" is merged into its integration branch, but feature "api" is not yet merged with warcraft_feature_merge',
+    });
+    expect(resolveCrossFeatureRef('api', unlanded)).toMatchObject({
+      satisfied: false,
+      reason: 'feature "api" is completed but not yet merged with warcraft_feature_merge',
+    });
+
+    const landed = {
+      ...createLookup([{ name: 'api', status: 'completed', mergedAt: '2024-01-03T00:00:00Z' }], tasks),
+      integrationBranchEnabled: true,
+    };
+    expect(resolveCrossFeatureRef('api/01-endpoint', landed).satisfied).toBe(true);
+    expect(resolveCrossFeatureRef('api', landed).satisfied).toBe(true);
+
+    // A task merged after the last feature merge is not on the dependent's base yet
+    const stale = {
+      ...createLookup([{ name: 'api', status: 'completed', mergedAt: '2024-01-01T00:00:00Z' }], tasks),
+      integrationBranchEnabled: true,
+    };
+    expect(resolveCrossFeatureRef('api/01-endpoint', stale).satisfied).toBe(false);
+  });
+
+  it('decides from the branch a task was merged into rather than the current config', () => {
+    const lookup = createLookup([{ name: 'api', status: 'completed' }], {
+      api: {
+        '01-integrated': {
+          status: 'done',
+          mergedAt: '2024-01-02T00:00:00Z',
+          mergeBranch: 'warcraft/api/integration',
+        },
+        // A no-op merge records no mergeSha but still counts as merged
+        '02-landed': { status: 'done', mergedAt: '2024-01-02T00:00:00Z', mergeBranch: 'main' },
+      },
+    });
+
+    expect(resolveCrossFeatureRef('api/01-integrated', lookup).satisfied).toBe(false);
+    expect(resolveCrossFeatureRef('api', lookup).satisfied).toBe(false);
+    expect(resolveCrossFeatureRef('api/02-landed', { ...lookup, integrationBranchEnabled: true }).satisfied).toBe(true);
+  });
+});
+
+describe('collectCrossFeatureDependencies', () => {
+  const lookup = createLookup(
+    [
+      { name: 'billing-api', status: 'completed' },
+      { name: 'checkout', dependsOn: ['billing-api'] },
+    ],
+    {
+      'billing-api': { '01-endpoint': { status: 'done', mergedAt: 'x' } },
+      checkout: {
+        '01-cart': { crossFeatureDependsOn: ['billing-api/01-endpoint'] },
+        '02-pay': {},
+      },
+    },
+  );
+
+  it('combines feature-level and task-level dependencies', () => {
+    expect(collectCrossFeatureDependencies('checkout', lookup).map((state) => [state.ref, state.declaredBy])).toEqual([
+      ['billing-api', undefined],
+      ['billing-api/01-endpoint', '01-cart'],
+    ]);
+  });
+
+  it('limits task-level dependencies to one task when given', () => {
+    expect(collectCrossFeatureDependencies('checkout', lookup, '02-pay').map((state) => state.ref)).toEqual([
+      'billing-api',
+    ]);
+  });
+});
+
+describe('findCrossFeatureCycles', () => {
+  it('finds cycles through feature and task dependencies', () => {
+    const lookup = createLookup([{ name: 'a', dependsOn: ['b'] }, { name: 'b' }, { name: 'c', dependsOn: ['a'] }], {
+      b: { '01-task': { crossFeatureDependsOn: ['a/01-task'] } },
+    });
+
+    expect(findCrossFeatureCycles(lookup)).toEqual([['a', 'b', 'a']]);
+  });
+
+  it('returns nothing for an acyclic graph', () => {
+    const lookup = createLookup([{ name: 'a', dependsOn: ['b'] }, { name: 'b' }]);
+
+    expect(findCrossFeatureCycles(lookup)).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import type { FeatureJson, TaskInfo, TaskStatus } from '../types.js';
+import { getIntegrationBranchName } from './worktreeService.js';
+
+/** A reference to another feature (`<feature>`) or to one of its tasks (`<feature>/<task-folder>`). */
+export interface CrossFeatureRef {
+  feature: string;
+  task?: string;
+}
+
+export interface CrossFeatureDependencyState {
+  ref: string;
+  feature: string;
+  task?: string;
+  /** Local task that declared the dependency; absent for feature-level dependencies. */
+  declaredBy?: string;
+  satisfied: boolean;
+  /** Status of the referenced feature or task, or 'missing' when it does not exist. */
+  status: string;
+  /** Why the dependency is not satisfied yet. */
+  reason?: string;
+}
+
+/** Lookups the resolver needs; FeatureService and TaskService satisfy them. */
+export interface CrossFeatureLookup {
+  featureService: { get(name: string): FeatureJson | null; list(): string[] };
+  taskService: {
+    list(featureName: string): TaskInfo[];
+    getRawStatus(featureName: string, taskFolder: string): TaskStatus | null;
+  };
+  /**
+   * Task merges land on the feature integration branch, so merged work only reaches other features
+   * once warcraft_feature_merge lands that branch. Only consulted for merges recorded without
+   * `mergeBranch`; otherwise the recorded branch decides.
+   */
+  integrationBranchEnabled?: boolean;
+}
+
+const REF_PATTERN = /^([^/\s]+)(?:\/([^/\s]+))?$/;
+
+/** Parse a `<feature>` or `<feature>/<task-folder>` reference; null when malformed. */
+export function parseCrossFeatureRef(ref: string): CrossFeatureRef | null {
+  const match = ref.trim().match(REF_PATTERN);
+  if (!match || match[1].startsWith('.')) return null;
+  return match[2] ? { feature: match[1], task: match[2] } : { feature: match[1] };
+}
+
+/** Whether a task's merge is still only on the integration branch of `feature`. */
+function awaitsFeatureMerge(feature: FeatureJson, task: TaskStatus | null, lookup: CrossFeatureLookup): boolean {
+  if (!task?.mergedAt) return false;
+  const onIntegration =
+    task.mergeBranch !== undefined
+      ? task.mergeBranch === getIntegrationBranchName(feature.name)
+      : lookup.integrationBranchEnabled === true;
+  return onIntegration && (!feature.mergedAt || Date.parse(task.mergedAt) > Date.parse(feature.mergedAt));
+}
+
+/**
+ * Resolve one reference. A feature reference is satisfied once that feature is completed; a task
+ * reference once that task is done and merged (direct-mode tasks have nothing to merge). Task work
+ * merged into the feature integration branch also has to be landed by warcraft_feature_merge.
+ */
+export function resolveCrossFeatureRef(
+  ref: string,
+  lookup: CrossFeatureLookup,
+  declaredBy?: string,
+): CrossFeatureDependencyState {
+  const parsed = parseCrossFeatureRef(ref);
+  const base = { ref, feature: parsed?.feature ?? ref, ...(declaredBy ? { declaredBy } : {}) };
+  if (!parsed) {
+    return {
+      ...base,
+      satisfied: false,
+      status: 'missing',
+      reason: `"${ref}" is not a <feature> or <feature>/<task> reference`,
+    };
+  }
+  const feature = lookup.featureService.get(parsed.feature);
+  if (!feature) {
+    return { ...base, satisfied: false, status: 'missing', reason: `feature "${parsed.feature}" does not exist` };
+  }
+  if (!parsed.task) {
+    if (feature.status !== 'completed') {
+      return {
+        ...base,
+        satisfied: false,
+        status: feature.status,
+        reason: `feature "${parsed.feature}" is ${feature.status}`,
+      };
+    }
+    const unlanded = lookup.taskService
+      .list(parsed.feature)
+      .some((task) =>
+        awaitsFeatureMerge(feature, lookup.taskService.getRawStatus(parsed.feature, task.folder), lookup),
+      );
+    return unlanded
+      ? {
+          ...base,
+          satisfied: false,
+          status: feature.status,
+          reason: `feature "${parsed.feature}" is completed but not yet merged with warcraft_feature_merge`,
+        }
+      : { ...base, satisfied: true, status: feature.status };
+  }
+
+  const task = lookup.taskService.getRawStatus(parsed.feature, parsed.task);
+  const withTask = { ...base, task: parsed.task };
+  if (!task) {
+    return { ...withTask, satisfied: false, status: 'missing', reason: `task "${ref}" does not exist` };
+  }
+  if (task.status !== 'done') {
+    return { ...withTask, satisfied: false, status: task.status, reason: `task "${ref}" is ${task.status}` };
+  }
+  if (!task.mergedAt && task.workerSession?.workspaceMode !== 'direct') {
+    return { ...withTask, satisfied: false, status: task.status, reason: `task "${ref}" is done but not merged` };
+  }
+  if (awaitsFeatureMerge(feature, task, lookup)) {
+    return {
+      ...withTask,
+      satisfied: false,
+      status: task.status,
+      reason: `task "${ref}" is merged into its integration branch, but feature "${parsed.feature}" is not yet merged with warcraft_feature_merge`,
+    };
+  }
+  return { ...withTask, satisfied: true, status: task.status };
+}
+
+/**
+ * Collect the cross-feature dependencies that gate a feature: its own `dependsOn` plus the
+ * `crossFeatureDependsOn` of one task, or of every task when `taskFolder` is omitted.
+ */
+export function collectCrossFeatureDependencies(
+  featureName: string,
+  lookup: CrossFeatureLookup,
+  taskFolder?: string,
+): CrossFeatureDependencyState[] {
+  const featureRefs = lookup.featureService.get(featureName)?.dependsOn ?? [];
+  const states = featureRefs.map((ref) => resolveCrossFeatureRef(ref, lookup));
+  const folders = taskFolder ? [taskFolder] : lookup.taskService.list(featureName).map((task) => task.folder);
+  for (const folder of folders) {
+    const taskRefs = lookup.taskService.getRawStatus(featureName, folder)?.crossFeatureDependsOn ?? [];
+    states.push(...taskRefs.map((ref) => resolveCrossFeatureRef(ref, lookup, folder)));
+  }
+  return states;
+}
+
+/**
+ * Find cycles in the feature graph, where an edge runs from a feature to every feature its own or
+ * its tasks' cross-feature dependencies reference. Each cycle lists feature names, closing on the first.
+ */
+export function findCrossFeatureCycles(lookup: CrossFeatureLookup): string[][] {
+  const features = lookup.featureService.list();
+  const edges = new Map<string, string[]>();
+  for (const name of features) {
+    const targets = collectCrossFeatureDependencies(name, lookup)
+      .map((state) => state.feature)
+      .filter((target) => target !== name && features.includes(target));
+    edges.set(name, [...new Set(targets)]);
+  }
+
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const visit = (name: string, path: string[]): void => {
+    const cycleStart = path.indexOf(name);
+    if (cycleStart !== -1) {
+      cycles.push([...path.slice(cycleStart), name]);
+      return;
+    }
+    if (done.has(name)) return;
+    for (const target of edges.get(name) ?? []) {
+      visit(target, [...path, name]);
+    }
+    done.add(name);
+  };
+  for (const name of features) {
+    visit(name, []);
+  }
+  return cycles;
+}
@@ -0,0 +1,178 @@
+/**
+ * Segment handling for the `.beads/events.jsonl` event log.
+ *
+ * The live log rotates into `.beads/events-archive/` once it grows too large or too old. Archived
+ * segments are named by rotation time, so sorting their names restores the order of events; the
+ * live log always holds the newest events.
+ *
+ * {@link EventLogTail} reads the segments incrementally: each call parses only the bytes appended
+ * since the previous call, and a segment renamed into the archive keeps its read position.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { WarcraftEvent } from './event-logger.js';
+
+export const EVENT_LOG_FILE = 'events.jsonl';
+export const EVENT_ARCHIVE_DIR = 'events-archive';
+
+/** Bytes compared to recognise a segment that was replaced by a different file. */
+const FINGERPRINT_BYTES = 64;
+
+/** Paths of every event log segment under `beadsDir`, oldest first, the live log last. */
+export function listEventLogSegments(beadsDir: string): string[] {
+  const archiveDir = path.join(beadsDir, EVENT_ARCHIVE_DIR);
+  let archived: string[] = [];
+  try {
+    archived = fs
+      .readdirSync(archiveDir)
+      .filter((name) => name.endsWith('.jsonl'))
+      .sort()
+      .map((name) => path.join(archiveDir, name));
+  } catch {
+    // No archive yet
+  }
+  const live = path.join(beadsDir, EVENT_LOG_FILE);
+  return fs.existsSync(live) ? [...archived, live] : archived;
+}
+
+/**
+ * Move the live log into the archive. Returns the archived path, or null when there was nothing to
+ * rotate or the rename failed (another process may have rotated first).
+ */
+export function rotateEventLog(beadsDir: string, now: Date = new Date()): string | null {
+  const live = path.join(beadsDir, EVENT_LOG_FILE);
+  try {
+    if (!fs.existsSync(live) || fs.statSync(live).size === 0) {
+      return null;
+    }
+    const archiveDir = path.join(beadsDir, EVENT_ARCHIVE_DIR);
+    fs.mkdirSync(archiveDir, { recursive: true });
+    const stamp = now.toISOString().replace(/[:.]/g, '-');
+    // A padded sequence keeps rotations within the same millisecond in order
+    let sequence = 0;
+    const targetFor = (seq: number) => path.join(archiveDir, `events-${stamp}-${String(seq).padStart(4, '0')}.jsonl`);
+    while (fs.existsSync(targetFor(sequence))) sequence++;
+    const target = targetFor(sequence);
+    fs.renameSync(live, target);
+    return target;
+  } catch {
+    return null;
+  }
+}
+
+/** Timestamp of the first event in a segment, or null when it has none. */
+export function readFirstEventTimestamp(segment: string): string | null {
+  try {
+    const head = readBytes(segment, 0, 4096).toString('utf-8');
+    const firstLine = head.slice(0, head.indexOf('\n') === -1 ? head.length : head.indexOf('\n'));
+    const event = JSON.parse(firstLine) as Partial<WarcraftEvent>;
+    return typeof event.timestamp === 'string' ? event.timestamp : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse JSONL text into events, skipping blank and malformed lines. */
+export function parseEventLines(content: string): WarcraftEvent[] {
+  return content
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as WarcraftEvent];
+      } catch {
+        return [];
+      }
+    });
+}
+
+interface SegmentPosition {
+  inode: number;
+  /** Bytes parsed so far; always ends on a line boundary. */
+  offset: number;
+  head: Buffer;
+  /** The last bytes before `offset`, to notice a rewritten file that kept its inode. */
+  tail: Buffer;
+}
+
+/**
+ * Incremental reader over the event log segments of one `.beads` directory.
+ */
+export class EventLogTail {
+  private positions: SegmentPosition[] = [];
+
+  constructor(private readonly beadsDir: string) {}
+
+  /**
+   * Parse the events appended since the previous call, in log order. Returns null when segments
+   * read earlier were removed or rewritten; the caller must discard what it derived and call
+   * {@link reset}. A trailing partial line is left for the next call.
+   */
+  readNew(): WarcraftEvent[] | null {
+    const segments = listEventLogSegments(this.beadsDir).flatMap((segment) => {
+      try {
+        const stat = fs.statSync(segment);
+        return [{ segment, inode: stat.ino, size: stat.size }];
+      } catch {
+        return [];
+      }
+    });
+
+    // Segments already read must still lead the list, unchanged up to where reading stopped
+    for (const [index, position] of this.positions.entries()) {
+      const current = segments[index];
+      if (!current || current.inode !== position.inode || current.size < position.offset) return null;
+      const { head, tail } = fingerprint(current.segment, position.offset);
+      if (!head.equals(position.head) || !tail.equals(position.tail)) return null;
+    }
+
+    const events: WarcraftEvent[] = [];
+    for (const [index, current] of segments.entries()) {
+      const position = this.positions[index] ?? {
+        inode: current.inode,
+        offset: 0,
+        head: Buffer.alloc(0),
+        tail: Buffer.alloc(0),
+      };
+      if (current.size > position.offset) {
+        const chunk = readBytes(current.segment, position.offset, current.size - position.offset);
+        const complete = chunk.lastIndexOf(0x0a) + 1;
+        if (complete > 0) {
+          for (const event of parseEventLines(chunk.subarray(0, complete).toString('utf-8'))) {
+            events.push(event);
+          }
+          position.offset += complete;
+          Object.assign(position, fingerprint(current.segment, position.offset));
+        }
+      }
+      this.positions[index] = position;
+    }
+    return events;
+  }
+
+  /** Forget every read position so the next {@link readNew} starts from the oldest segment. */
+  reset(): void {
+    this.positions = [];
+  }
+}
+
+function fingerprint(segment: string, offset: number): { head: Buffer; tail: Buffer } {
+  const length = Math.min(FINGERPRINT_BYTES, offset);
+  return {
+    head: readBytes(segment, 0, length),
+    tail: readBytes(segment, offset - length, length),
+  };
+}
+
+function readBytes(file: string, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  if (length === 0) return buffer;
+  const fd = fs.openSync(file, 'r');
+  try {
+    const read = fs.readSync(fd, buffer, 0, length, position);
+    return buffer.subarray(0, read);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
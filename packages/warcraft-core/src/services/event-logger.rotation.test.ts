@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EVENT_ARCHIVE_DIR, listEventLogSegments } from './event-log-segments.js';
+import { computeTrustMetrics, createEventLogger, readEventLog, readRecordedDiffStats } from './event-logger.js';
+
+const TEST_DIR = path.join(os.tmpdir(), `warcraft-event-logger-rotation-test-${process.pid}`);
+const BEADS_DIR = path.join(TEST_DIR, '.beads');
+const LOG_FILE = path.join(BEADS_DIR, 'events.jsonl');
+
+function archivedSegments(): string[] {
+  const archiveDir = path.join(BEADS_DIR, EVENT_ARCHIVE_DIR);
+  return fs.existsSync(archiveDir) ? fs.readdirSync(archiveDir).sort() : [];
+}
+
+describe('EventLogger rotation and indexing', () => {
+  beforeEach(() => {
+    fs.mkdirSync(BEADS_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_DIR)) {
+      fs.rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  it('rotates the live log into the archive once it would exceed maxBytes', () => {
+    const logger = createEventLogger(TEST_DIR, { maxBytes: 400 });
+
+    for (let index = 0; index < 10; index++) {
+      logger.emit({ type: 'commit', feature: 'f', task: `t${index}`, details: { status: 'completed' } });
+    }
+
+    expect(archivedSegments().length).toBeGreaterThan(0);
+    for (const segment of listEventLogSegments(BEADS_DIR)) {
+      expect(fs.statSync(segment).size).toBeLessThanOrEqual(400);
+    }
+    expect(readEventLog(TEST_DIR).map((event) => event.task)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `t${index}`),
+    );
+    expect(computeTrustMetrics(TEST_DIR).totalCompleted).toBe(10);
+  });
+
+  it('rotates the live log once its first event is older than maxAgeMs', () => {
+    const logger = createEventLogger(TEST_DIR, { maxAgeMs: 60_000 });
+
+    logger.emit({ type: 'dispatch', feature: 'f', task: 't1', timestamp: '2020-01-01T00:00:00.000Z' });
+    logger.emit({ type: 'dispatch', feature: 'f', task: 't2' });
+    logger.emit({ type: 'dispatch', feature: 'f', task: 't3' });
+
+    expect(archivedSegments()).toHaveLength(1);
+    expect(fs.readFileSync(LOG_FILE, 'utf-8').trim().split('\n')).toHaveLength(2);
+    expect(readEventLog(TEST_DIR).map((event) => event.task)).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('finds the latest trace across rotations and events written by other loggers', () => {
+    const logger = createEventLogger(TEST_DIR, { maxBytes: 300 });
+    const otherProcess = createEventLogger(TEST_DIR, { maxBytes: 300 });
+
+    logger.emit({ type: 'dispatch', feature: 'f', task: 't1', traceId: 'trace-1', spanId: 'span-1' });
+    expect(logger.getLatestTraceContext?.('f', 't1')).toEqual({ traceId: 'trace-1', spanId: 'span-1' });
+
+    for (let index = 0; index < 5; index++) {
+      otherProcess.emit({ type: 'dispatch', feature: 'f', task: `other-${index}` });
+    }
+    otherProcess.emit({
+      type: 'commit',
+      feature: 'f',
+      task: 't1',
+      traceId: 'trace-1',
+      spanId: 'span-2',
+      parentSpanId: 'span-1',
+    });
+
+    expect(archivedSegments().length).toBeGreaterThan(0);
+    expect(logger.getLatestTraceContext?.('f', 't1')).toEqual({
+      traceId: 'trace-1',
+      spanId: 'span-2',
+      parentSpanId: 'span-1',
+    });
+  });
+
+  it('rebuilds its index when the log is replaced', () => {
+    const logger = createEventLogger(TEST_DIR);
+    logger.emit({ type: 'dispatch', feature: 'f', task: 't1', traceId: 'trace-1', spanId: 'span-1' });
+    expect(logger.getLatestTraceContext?.('f', 't1')).not.toBeNull();
+    expect(computeTrustMetrics(TEST_DIR).meanAttemptsPerTask).toBe(1);
+
+    fs.writeFileSync(LOG_FILE, `${JSON.stringify({ type: 'dispatch', feature: 'f', task: 't2' })}\n`);
+
+    expect(logger.getLatestTraceContext?.('f', 't1')).toBeNull();
+    expect(computeTrustMetrics(TEST_DIR, {}).meanAttemptsPerTask).toBe(1);
+    expect(computeTrustMetrics(TEST_DIR, { task: 't1' }).meanAttemptsPerTask).toBeNull();
+  });
+
+  it('reads only appended bytes for trace lookups, trust metrics and diff stats at 100k events', () => {
+    const lines: string[] = [];
+    for (let index = 0; index < 100_000; index++) {
+      const task = `t${index % 500}`;
+      lines.push(
+        JSON.stringify({
+          type: index % 2 === 0 ? 'dispatch' : 'commit',
+          feature: `feature-${index % 20}`,
+          task,
+          traceId: `trace-${task}`,
+          spanId: `span-${index}`,
+          timestamp: new Date(Date.UTC(2025, 0, 1) + index * 1000).toISOString(),
+          details:
+            index % 2 === 0
+              ? { agent: 'mekkatorque' }
+              : { status: 'completed', diffStats: { filesChanged: ['a.ts'], insertions: 1, deletions: 0 } },
+        }),
+      );
+    }
+    fs.writeFileSync(LOG_FILE, `${lines.join('\n')}\n`);
+    const logger = createEventLogger(TEST_DIR);
+
+    // The first lookup and aggregation read the whole log once
+    expect(logger.getLatestTraceContext?.('feature-19', 't499')).toEqual({
+      traceId: 'trace-t499',
+      spanId: 'span-99999',
+    });
+    expect(computeTrustMetrics(TEST_DIR).totalCompleted).toBe(50_000);
+    expect(readRecordedDiffStats(TEST_DIR)).toHaveLength(250);
+    const logSize = fs.statSync(LOG_FILE).size;
+
+    const readSync = spyOn(fs, 'readSync');
+    const readFileSync = spyOn(fs, 'readFileSync');
+    try {
+      let bytesRead = 0;
+      for (let index = 0; index < 200; index++) {
+        logger.emit({ type: 'commit', feature: 'f', task: 'new', traceId: 'trace-new', spanId: `span-new-${index}` });
+        expect(logger.getLatestTraceContext?.('f', 'new')?.spanId).toBe(`span-new-${index}`);
+        expect(computeTrustMetrics(TEST_DIR).totalCompleted).toBe(50_000);
+        expect(readRecordedDiffStats(TEST_DIR)).toHaveLength(250);
+        bytesRead += readSync.mock.results.reduce((total, result) => total + (result.value as number), 0);
+        readSync.mockClear();
+        expect(readFileSync).not.toHaveBeenCalled();
+        // All lookups together read less than a single full pass over the log would
+        expect(bytesRead).toBeLessThan(logSize);
+      }
+      expect(bytesRead).toBeGreaterThan(0);
+    } finally {
+      readSync.mockRestore();
+      readFileSync.mockRestore();
+    }
+  });
+});
@@ -3,7 +3,14 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import type { WarcraftEvent } from './event-logger.js';
-import { computeTrustMetrics, createEventLogger, createNoopEventLogger, WARCRAFT_EVENT_TYPES } from './event-logger.js';
+import {
+  computeTrustMetrics,
+  createEventLogger,
+  createNoopEventLogger,
+  emitDegradedEvents,
+  WARCRAFT_EVENT_TYPES,
+} from './event-logger.js';
+import { diagnostic } from './outcomes.js';
 
 const TEST_DIR = path.join(os.tmpdir(), `warcraft-event-logger-test-${process.pid}`);
 const LOG_FILE = path.join(TEST_DIR, '.beads', 'events.jsonl');
@@ -186,6 +193,39 @@ describe('EventLogger', () => {
     });
   });
 
+  describe('emitDegradedEvents()', () => {
+    it('emits one degraded event per degraded diagnostic', () => {
+      const events: WarcraftEvent[] = [];
+      const logger = { emit: (event: WarcraftEvent) => events.push(event) };
+
+      emitDegradedEvents(logger, { feature: 'f', operation: 'feature_create' }, [
+        diagnostic('flush_failed', 'Flush failed', 'degraded', { attempt: 2 }),
+        diagnostic('note', 'Informational', 'ok'),
+        diagnostic('sync_failed', 'Sync failed'),
+      ]);
+
+      expect(events).toEqual([
+        {
+          type: 'degraded',
+          feature: 'f',
+          task: '',
+          details: {
+            operation: 'feature_create',
+            code: 'flush_failed',
+            message: 'Flush failed',
+            context: { attempt: 2 },
+          },
+        },
+        {
+          type: 'degraded',
+          feature: 'f',
+          task: '',
+          details: { operation: 'feature_create', code: 'sync_failed', message: 'Sync failed' },
+        },
+      ]);
+    });
+  });
+
   describe('getLatestTraceContext()', () => {
     it('returns the most recent trace context for a task', () => {
       const logger = createEventLogger(TEST_DIR);
@@ -393,5 +433,133 @@ describe('EventLogger', () => {
       const metrics = computeTrustMetrics(TEST_DIR);
       expect(metrics.pruneAcceptanceRate).toBe(0);
     });
+
+    it('computes attempts, first-pass success, dispatch-to-commit time and post-merge verification failures', () => {
+      const logger = createEventLogger(TEST_DIR);
+      const at = (minute: number) => `2025-01-01T10:${String(minute).padStart(2, '0')}:00.000Z`;
+
+      // t1: one dispatch, done 10 minutes later — first pass
+      logger.emit({ type: 'dispatch', feature: 'f', task: 't1', timestamp: at(0) });
+      logger.emit({ type: 'commit', feature: 'f', task: 't1', timestamp: at(10), details: { status: 'completed' } });
+      // t2: blocked, resumed, done 20 minutes after the resume
+      logger.emit({ type: 'dispatch', feature: 'f', task: 't2', timestamp: at(0) });
+      logger.emit({ type: 'blocked', feature: 'f', task: 't2', timestamp: at(5) });
+      logger.emit({ type: 'dispatch', feature: 'f', task: 't2', timestamp: at(10) });
+      logger.emit({ type: 'commit', feature: 'f', task: 't2', timestamp: at(30), details: { status: 'completed' } });
+      // t3: one dispatch, done, then reopened
+      logger.emit({ type: 'dispatch', feature: 'f', task: 't3', timestamp: at(0) });
+      logger.emit({ type: 'commit', feature: 'f', task: 't3', timestamp: at(30), details: { status: 'completed' } });
+      logger.emit({ type: 'reopen', feature: 'f', task: 't3', timestamp: at(40) });
+      for (const [source, passed] of [
+        ['merge', true],
+        ['merge', false],
+        ['feature_merge', true],
+        ['commit', false],
+      ] as const) {
+        logger.emit({
+          type: 'verification_run',
+          feature: 'f',
+          task: 't1',
+          timestamp: at(50),
+          details: { source, passed },
+        });
+      }
+
+      const metrics = computeTrustMetrics(TEST_DIR);
+      expect(metrics.firstPassSuccessRate).toBeCloseTo(1 / 3);
+      expect(metrics.meanAttemptsPerTask).toBeCloseTo(4 / 3);
+      expect(metrics.meanDispatchToCommitMs).toBe(20 * 60_000);
+      expect(metrics.postMergeVerificationFailureRate).toBeCloseTo(1 / 3);
+    });
+
+    it('returns null attempt and timing metrics when nothing was dispatched', () => {
+      const metrics = computeTrustMetrics(path.join(TEST_DIR, 'empty-project'));
+
+      expect(metrics.firstPassSuccessRate).toBe(0);
+      expect(metrics.meanAttemptsPerTask).toBeNull();
+      expect(metrics.meanDispatchToCommitMs).toBeNull();
+      expect(metrics.postMergeVerificationFailureRate).toBe(0);
+    });
+
+    describe('filters', () => {
+      beforeEach(() => {
+        const logger = createEventLogger(TEST_DIR);
+        const completed = { status: 'completed' };
+        logger.emit({
+          type: 'dispatch',
+          feature: 'old',
+          task: 't1',
+          timestamp: '2024-01-01T00:00:00Z',
+          details: { agent: 'mekkatorque' },
+        });
+        logger.emit({
+          type: 'commit',
+          feature: 'old',
+          task: 't1',
+          timestamp: '2024-01-01T01:00:00Z',
+          details: completed,
+        });
+        logger.emit({ type: 'reopen', feature: 'old', task: 't1', timestamp: '2024-01-02T00:00:00Z' });
+        logger.emit({
+          type: 'dispatch',
+          feature: 'new',
+          task: 't1',
+          timestamp: '2025-01-01T00:00:00Z',
+          details: { agent: 'mekkatorque' },
+        });
+        logger.emit({
+          type: 'commit',
+          feature: 'new',
+          task: 't1',
+          timestamp: '2025-01-01T01:00:00Z',
+          details: completed,
+        });
+        logger.emit({
+          type: 'dispatch',
+          feature: 'new',
+          task: 't2',
+          timestamp: '2025-01-01T00:00:00Z',
+          details: { agent: 'khadgar' },
+        });
+        logger.emit({
+          type: 'commit',
+          feature: 'new',
+          task: 't2',
+          timestamp: '2025-01-01T02:00:00Z',
+          details: completed,
+        });
+        // The logger stamps every event, so write the undated reopen directly
+        fs.appendFileSync(LOG_FILE, `${JSON.stringify({ type: 'reopen', feature: 'new', task: 't2' })}\n`);
+      });
+
+      it('limits metrics to one feature or task', () => {
+        expect(computeTrustMetrics(TEST_DIR).reopenRate).toBeCloseTo(2 / 3);
+        expect(computeTrustMetrics(TEST_DIR, { feature: 'new' })).toMatchObject({ totalCompleted: 2, reopenCount: 1 });
+        expect(computeTrustMetrics(TEST_DIR, { feature: 'new', task: 't1' })).toMatchObject({
+          totalCompleted: 1,
+          reopenRate: 0,
+          firstPassSuccessRate: 1,
+        });
+      });
+
+      it('keeps the tasks dispatched to an agent', () => {
+        expect(computeTrustMetrics(TEST_DIR, { agent: 'khadgar' })).toMatchObject({
+          totalCompleted: 1,
+          reopenCount: 1,
+          meanDispatchToCommitMs: 2 * 3_600_000,
+        });
+      });
+
+      it('drops events outside the time window, including undated ones', () => {
+        expect(computeTrustMetrics(TEST_DIR, { since: '2025-01-01T00:00:00Z' })).toMatchObject({
+          totalCompleted: 2,
+          reopenCount: 0,
+        });
+        expect(computeTrustMetrics(TEST_DIR, { until: '2024-12-31T23:59:59Z' })).toMatchObject({
+          totalCompleted: 1,
+          reopenRate: 1,
+        });
+      });
+    });
   });
 });
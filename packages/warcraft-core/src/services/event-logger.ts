@@ -7,16 +7,31 @@
  *
  * Events are appended as newline-delimited JSON for easy grep/streaming analysis.
  * All writes are best-effort — event logging never blocks or fails operations.
+ * The log rotates into `.beads/events-archive/` by size and age; readers cover the
+ * archived segments too, and repeated lookups only parse newly appended events.
  *
  * Trust metrics tracked:
  * - Reopen rate after `done` (reopen events)
  * - Blocked-task MTTR (blocked + commit pairs)
  * - Duplicate-dispatch prevention count (duplicate_dispatch_prevented events)
  * - Prune dry-run acceptance rate (prune events with dryRun/confirmed details)
+ * - First-pass success rate and mean attempts per task (dispatch, reopen and commit events)
+ * - Mean dispatch-to-commit time (dispatch + commit pairs)
+ * - Verification failure rate after merge (verification_run events with a merge source)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import type { TaskDiffStats } from '../types.js';
+import {
+  EVENT_LOG_FILE,
+  EventLogTail,
+  listEventLogSegments,
+  parseEventLines,
+  readFirstEventTimestamp,
+  rotateEventLog,
+} from './event-log-segments.js';
+import type { Diagnostic } from './outcomes.js';
 import type { TraceContext } from './trace-context.js';
 
 /** Supported event types for the Warcraft event log */
@@ -74,44 +89,109 @@ export interface TrustMetrics {
   pruneConfirmedCount: number;
   /** Prune acceptance rate: pruneConfirmedCount / pruneDryRunCount (0 if no dry-runs) */
   pruneAcceptanceRate: number;
+  /** Share of completed tasks finished on their only dispatch and never reopened (0 if none completed) */
+  firstPassSuccessRate: number;
+  /** Dispatches per dispatched task, null if nothing was dispatched */
+  meanAttemptsPerTask: number | null;
+  /** Mean time from a dispatch to the task's next completed commit (ms), null if no such pairs */
+  meanDispatchToCommitMs: number | null;
+  /** Failed share of verification runs after a merge (0 if none ran) */
+  postMergeVerificationFailureRate: number;
 }
 
+/**
+ * Narrow trust metrics to part of the event log. `since`/`until` are inclusive ISO timestamps;
+ * `agent` keeps the tasks dispatched to that agent.
+ */
+export interface TrustMetricsFilter {
+  feature?: string;
+  task?: string;
+  agent?: string;
+  since?: string;
+  until?: string;
+}
+
+/** Verification sources that run after a task or feature has been merged. */
+const POST_MERGE_VERIFICATION_SOURCES = new Set(['merge', 'merge_queue', 'feature_merge']);
+
+/** When the live event log rotates into `.beads/events-archive/`. */
+export interface EventLogRotationOptions {
+  /** Rotate once the live log would grow past this many bytes. Default: 10 MiB. */
+  maxBytes?: number;
+  /** Rotate once the live log's first event is older than this. Default: 30 days. */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_ROTATION_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ROTATION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
 /** Create an event logger that appends JSONL to `.beads/events.jsonl` */
-export function createEventLogger(projectRoot: string): EventLogger {
+export function createEventLogger(projectRoot: string, rotation: EventLogRotationOptions = {}): EventLogger {
   const logDir = path.join(projectRoot, '.beads');
-  const logFile = path.join(logDir, 'events.jsonl');
+  const logFile = path.join(logDir, EVENT_LOG_FILE);
+  const maxBytes = rotation.maxBytes ?? DEFAULT_ROTATION_MAX_BYTES;
+  const maxAgeMs = rotation.maxAgeMs ?? DEFAULT_ROTATION_MAX_AGE_MS;
+  // Latest trace context per feature/task, kept current by reading only new events
+  const tail = new EventLogTail(logDir);
+  const latestTraces = new Map<string, TraceContext>();
+  // First event time of the live log; undefined until read, null for an empty log
+  let liveStartedAt: number | null | undefined;
+
+  const shouldRotate = (entryBytes: number, now: number): boolean => {
+    let size: number;
+    try {
+      size = fs.statSync(logFile).size;
+    } catch {
+      liveStartedAt = null;
+      return false;
+    }
+    if (size === 0) return false;
+    if (size + entryBytes > maxBytes) return true;
+    if (liveStartedAt === undefined || liveStartedAt === null) {
+      const first = readFirstEventTimestamp(logFile);
+      liveStartedAt = first ? Date.parse(first) : null;
+    }
+    return liveStartedAt !== null && !Number.isNaN(liveStartedAt) && now - liveStartedAt > maxAgeMs;
+  };
 
   return {
     emit(event): void {
       try {
+        const now = new Date();
         const entry: WarcraftEvent = {
           ...event,
-          timestamp: event.timestamp ?? new Date().toISOString(),
+          timestamp: event.timestamp ?? now.toISOString(),
         };
+        const line = `${JSON.stringify(entry)}\n`;
         if (!fs.existsSync(logDir)) {
           fs.mkdirSync(logDir, { recursive: true });
         }
-        fs.appendFileSync(logFile, `${JSON.stringify(entry)}\n`);
+        if (shouldRotate(Buffer.byteLength(line), now.getTime()) && rotateEventLog(logDir, now)) {
+          liveStartedAt = null;
+        }
+        fs.appendFileSync(logFile, line);
+        if (liveStartedAt === null) {
+          liveStartedAt = Date.parse(entry.timestamp!);
+        }
       } catch {
         // Best-effort: never throw from event logging
       }
     },
     getLatestTraceContext(feature: string, task: string): TraceContext | null {
-      const events = readEvents(logFile);
-
-      for (let index = events.length - 1; index >= 0; index--) {
-        const event = events[index];
-        if (event.feature !== feature || event.task !== task) {
-          continue;
-        }
-
+      let events = tail.readNew();
+      if (events === null) {
+        tail.reset();
+        latestTraces.clear();
+        events = tail.readNew() ?? [];
+      }
+      for (const event of events) {
         const trace = extractTraceContext(event);
         if (trace) {
-          return trace;
+          latestTraces.set(`${event.feature}::${event.task}`, trace);
         }
       }
 
-      return null;
+      return latestTraces.get(`${feature}::${task}`) ?? null;
     },
   };
 }
@@ -126,29 +206,42 @@ export function createNoopEventLogger(): EventLogger {
   };
 }
 
-function readEvents(logFile: string): WarcraftEvent[] {
-  if (!fs.existsSync(logFile)) {
-    return [];
-  }
-
-  let content: string;
-  try {
-    content = fs.readFileSync(logFile, 'utf-8');
-  } catch {
-    return [];
+/**
+ * Emit one `degraded` event per diagnostic with severity `degraded`, so operations that succeeded
+ * with failed side-effects show up in the event log. `task` is empty for feature-level operations.
+ */
+export function emitDegradedEvents(
+  eventLogger: EventLogger,
+  scope: { feature: string; task?: string; operation: string },
+  diagnostics: Diagnostic[],
+): void {
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.severity !== 'degraded') continue;
+    eventLogger.emit({
+      type: 'degraded',
+      feature: scope.feature,
+      task: scope.task ?? '',
+      details: {
+        operation: scope.operation,
+        code: diagnostic.code,
+        message: diagnostic.message,
+        ...(diagnostic.context ? { context: diagnostic.context } : {}),
+      },
+    });
   }
+}
 
-  return content
-    .trim()
-    .split('\n')
-    .filter(Boolean)
-    .flatMap((line) => {
-      try {
-        return [JSON.parse(line) as WarcraftEvent];
-      } catch {
-        return [];
-      }
-    });
+/**
+ * Read every event from the project's event log, archived segments first, skipping malformed lines.
+ */
+export function readEventLog(projectRoot: string): WarcraftEvent[] {
+  return listEventLogSegments(path.join(projectRoot, '.beads')).flatMap((segment) => {
+    try {
+      return parseEventLines(fs.readFileSync(segment, 'utf-8'));
+    } catch {
+      return [];
+    }
+  });
 }
 
 function extractTraceContext(event: WarcraftEvent): TraceContext | null {
@@ -163,100 +256,270 @@ function extractTraceContext(event: WarcraftEvent): TraceContext | null {
   };
 }
 
+interface CachedEventIndex<T> {
+  tail: EventLogTail;
+  index: T;
+}
+
+/** Most cached indexes kept per index kind; the least recently used one is dropped beyond it. */
+const EVENT_INDEX_CACHE_LIMIT = 64;
+
 /**
- * Compute trust metrics from a JSONL event log file.
+ * Bring the cached index under `key` up to date with the events appended since it was last read,
+ * rebuilding it from the oldest segment when the log was replaced.
+ */
+function advanceEventIndex<T>(
+  cache: Map<string, CachedEventIndex<T>>,
+  key: string,
+  beadsDir: string,
+  create: () => T,
+  add: (index: T, event: WarcraftEvent) => void,
+): T {
+  let cached = cache.get(key);
+  if (cached) {
+    // Re-insert to keep the most recently used entries at the end
+    cache.delete(key);
+  } else {
+    cached = { tail: new EventLogTail(beadsDir), index: create() };
+    if (cache.size >= EVENT_INDEX_CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+  cache.set(key, cached);
+
+  let events = cached.tail.readNew();
+  if (events === null) {
+    cached.tail.reset();
+    cached.index = create();
+    events = cached.tail.readNew() ?? [];
+  }
+  for (const event of events) {
+    add(cached.index, event);
+  }
+  return cached.index;
+}
+
+/** Diff stats recorded on a task's latest completed commit event. */
+export interface RecordedTaskDiffStats {
+  feature: string;
+  task: string;
+  diffStats: Partial<TaskDiffStats> & Pick<TaskDiffStats, 'filesChanged'>;
+}
+
+/** Latest recorded diff stats per project, keyed by feature/task. */
+const diffStatsCache = new Map<string, CachedEventIndex<Map<string, RecordedTaskDiffStats>>>();
+
+/**
+ * Diff stats of every task's latest completed commit event that recorded them, archived segments
+ * included. A repeated call only reads the events appended since the last one.
+ */
+export function readRecordedDiffStats(projectRoot: string): RecordedTaskDiffStats[] {
+  const beadsDir = path.join(projectRoot, '.beads');
+  const byTask = advanceEventIndex(
+    diffStatsCache,
+    path.resolve(beadsDir),
+    beadsDir,
+    () => new Map<string, RecordedTaskDiffStats>(),
+    (index, event) => {
+      if (event.type !== 'commit' || event.details?.status !== 'completed') return;
+      const diffStats = event.details.diffStats as RecordedTaskDiffStats['diffStats'] | undefined;
+      if (!Array.isArray(diffStats?.filesChanged)) return;
+      index.set(`${event.feature}/${event.task}`, { feature: event.feature, task: event.task, diffStats });
+    },
+  );
+  return [...byTask.values()];
+}
+
+/** Cached aggregations per project and filter, advanced by the events appended since. */
+const trustMetricsCache = new Map<string, CachedEventIndex<TrustMetricsAccumulator>>();
+
+/**
+ * Compute trust metrics from the project's event log, archived segments included.
  *
- * Reads `.beads/events.jsonl` and aggregates:
+ * Aggregates:
  * - Reopen rate after done
  * - Blocked-task MTTR
  * - Duplicate-dispatch prevention count
  * - Prune dry-run acceptance rate
+ * - First-pass success rate, mean attempts per task and mean dispatch-to-commit time
+ * - Verification failure rate after merge
+ *
+ * With a filter, only matching events count; a time window drops events without a timestamp,
+ * and an agent filter counts a task's events from its first dispatch to that agent on.
+ * Aggregation is incremental: a repeated call only reads the events appended since the last one.
  */
-export function computeTrustMetrics(projectRoot: string): TrustMetrics {
-  const logFile = path.join(projectRoot, '.beads', 'events.jsonl');
-
-  const defaults: TrustMetrics = {
-    reopenCount: 0,
-    totalCompleted: 0,
-    reopenRate: 0,
-    blockedMttrMs: null,
-    duplicateDispatchPreventedCount: 0,
-    pruneDryRunCount: 0,
-    pruneConfirmedCount: 0,
-    pruneAcceptanceRate: 0,
-  };
+export function computeTrustMetrics(projectRoot: string, filter: TrustMetricsFilter = {}): TrustMetrics {
+  const beadsDir = path.join(projectRoot, '.beads');
+  const key = JSON.stringify([
+    path.resolve(beadsDir),
+    filter.feature,
+    filter.task,
+    filter.agent,
+    filter.since,
+    filter.until,
+  ]);
+  return advanceEventIndex(
+    trustMetricsCache,
+    key,
+    beadsDir,
+    () => new TrustMetricsAccumulator(filter),
+    (accumulator, event) => accumulator.add(event),
+  ).snapshot();
+}
 
-  const events = readEvents(logFile);
-  if (events.length === 0) {
-    return defaults;
-  }
+/**
+ * Running trust metric totals over the events of a filter, fed one event at a time in log order.
+ */
+class TrustMetricsAccumulator {
+  private readonly start: number;
+  private readonly end: number;
+  private readonly windowed: boolean;
+  /** Tasks dispatched to the filtered agent so far; null without an agent filter. */
+  private readonly agentTasks: Set<string> | null;
 
-  let reopenCount = 0;
-  let totalCompleted = 0;
-  let duplicateDispatchPreventedCount = 0;
-  let pruneDryRunCount = 0;
-  let pruneConfirmedCount = 0;
+  private reopenCount = 0;
+  private totalCompleted = 0;
+  private duplicateDispatchPreventedCount = 0;
+  private pruneDryRunCount = 0;
+  private pruneConfirmedCount = 0;
+  private postMergeVerificationCount = 0;
+  private postMergeVerificationFailures = 0;
 
   // Track blocked timestamps per task for MTTR calculation
-  const blockedAt = new Map<string, string>();
-  const mttrValues: number[] = [];
+  private readonly blockedAt = new Map<string, string>();
+  private mttrTotal = 0;
+  private mttrCount = 0;
+  // Track dispatches per task for attempts, first-pass success and dispatch-to-commit time
+  private readonly dispatchCounts = new Map<string, number>();
+  private dispatchTotal = 0;
+  private readonly lastDispatchAt = new Map<string, string>();
+  private dispatchToCommitTotal = 0;
+  private dispatchToCommitCount = 0;
+  /** Dispatches each completed task had when it first completed. */
+  private readonly completedTasks = new Map<string, number>();
+  private readonly reopenedTasks = new Set<string>();
 
-  for (const event of events) {
+  constructor(private readonly filter: TrustMetricsFilter) {
+    this.start = filter.since ? Date.parse(filter.since) : Number.NEGATIVE_INFINITY;
+    this.end = filter.until ? Date.parse(filter.until) : Number.POSITIVE_INFINITY;
+    this.windowed = filter.since !== undefined || filter.until !== undefined;
+    this.agentTasks = filter.agent ? new Set() : null;
+  }
+
+  add(event: WarcraftEvent): void {
+    const { feature, task, agent } = this.filter;
+    if (feature !== undefined && event.feature !== feature) return;
+    if (task !== undefined && event.task !== task) return;
     const taskKey = `${event.feature}::${event.task}`;
+    if (this.agentTasks) {
+      // A task belongs to an agent through its dispatches, wherever they fall relative to the window
+      if (event.type === 'dispatch' && event.details?.agent === agent) this.agentTasks.add(taskKey);
+      if (!this.agentTasks.has(taskKey)) return;
+    }
+    if (this.windowed) {
+      const time = event.timestamp ? Date.parse(event.timestamp) : Number.NaN;
+      if (Number.isNaN(time) || time < this.start || time > this.end) return;
+    }
 
     switch (event.type) {
+      case 'dispatch':
+        this.dispatchCounts.set(taskKey, (this.dispatchCounts.get(taskKey) ?? 0) + 1);
+        this.dispatchTotal++;
+        if (event.timestamp) {
+          this.lastDispatchAt.set(taskKey, event.timestamp);
+        }
+        break;
+
       case 'commit':
         if (event.details?.status === 'completed') {
-          totalCompleted++;
+          this.totalCompleted++;
+          if (!this.completedTasks.has(taskKey)) {
+            this.completedTasks.set(taskKey, this.dispatchCounts.get(taskKey) ?? 0);
+          }
+          const dispatchedAt = this.lastDispatchAt.get(taskKey);
+          if (dispatchedAt && event.timestamp) {
+            const elapsed = elapsedMs(dispatchedAt, event.timestamp);
+            if (elapsed !== null) {
+              this.dispatchToCommitTotal += elapsed;
+              this.dispatchToCommitCount++;
+            }
+            this.lastDispatchAt.delete(taskKey);
+          }
         }
         // If this task was blocked, calculate MTTR
-        if (blockedAt.has(taskKey) && event.timestamp) {
-          const blockedTime = new Date(blockedAt.get(taskKey)!).getTime();
-          const resolvedTime = new Date(event.timestamp).getTime();
-          if (!Number.isNaN(blockedTime) && !Number.isNaN(resolvedTime) && resolvedTime >= blockedTime) {
-            mttrValues.push(resolvedTime - blockedTime);
+        if (this.blockedAt.has(taskKey) && event.timestamp) {
+          const elapsed = elapsedMs(this.blockedAt.get(taskKey)!, event.timestamp);
+          if (elapsed !== null) {
+            this.mttrTotal += elapsed;
+            this.mttrCount++;
           }
-          blockedAt.delete(taskKey);
+          this.blockedAt.delete(taskKey);
         }
         break;
 
       case 'reopen':
-        reopenCount++;
+        this.reopenCount++;
+        this.reopenedTasks.add(taskKey);
+        break;
+
+      case 'verification_run':
+        if (POST_MERGE_VERIFICATION_SOURCES.has(String(event.details?.source))) {
+          this.postMergeVerificationCount++;
+          if (event.details?.passed === false) {
+            this.postMergeVerificationFailures++;
+          }
+        }
         break;
 
       case 'blocked':
         if (event.timestamp) {
-          blockedAt.set(taskKey, event.timestamp);
+          this.blockedAt.set(taskKey, event.timestamp);
         }
         break;
 
       case 'duplicate_dispatch_prevented':
-        duplicateDispatchPreventedCount++;
+        this.duplicateDispatchPreventedCount++;
         break;
 
       case 'prune':
         if (event.details?.dryRun === true) {
-          pruneDryRunCount++;
+          this.pruneDryRunCount++;
         }
         if (event.details?.confirmed === true) {
-          pruneConfirmedCount++;
+          this.pruneConfirmedCount++;
         }
         break;
     }
   }
 
-  const reopenRate = totalCompleted > 0 ? reopenCount / totalCompleted : 0;
-  const blockedMttrMs = mttrValues.length > 0 ? mttrValues.reduce((a, b) => a + b, 0) / mttrValues.length : null;
-  const pruneAcceptanceRate = pruneDryRunCount > 0 ? pruneConfirmedCount / pruneDryRunCount : 0;
+  snapshot(): TrustMetrics {
+    let firstPassCount = 0;
+    for (const [taskKey, dispatches] of this.completedTasks) {
+      if (dispatches <= 1 && !this.reopenedTasks.has(taskKey)) firstPassCount++;
+    }
+
+    return {
+      reopenCount: this.reopenCount,
+      totalCompleted: this.totalCompleted,
+      reopenRate: this.totalCompleted > 0 ? this.reopenCount / this.totalCompleted : 0,
+      blockedMttrMs: this.mttrCount > 0 ? this.mttrTotal / this.mttrCount : null,
+      duplicateDispatchPreventedCount: this.duplicateDispatchPreventedCount,
+      pruneDryRunCount: this.pruneDryRunCount,
+      pruneConfirmedCount: this.pruneConfirmedCount,
+      pruneAcceptanceRate: this.pruneDryRunCount > 0 ? this.pruneConfirmedCount / this.pruneDryRunCount : 0,
+      firstPassSuccessRate: this.completedTasks.size > 0 ? firstPassCount / this.completedTasks.size : 0,
+      meanAttemptsPerTask: this.dispatchCounts.size > 0 ? this.dispatchTotal / this.dispatchCounts.size : null,
+      meanDispatchToCommitMs:
+        this.dispatchToCommitCount > 0 ? this.dispatchToCommitTotal / this.dispatchToCommitCount : null,
+      postMergeVerificationFailureRate:
+        this.postMergeVerificationCount > 0 ? this.postMergeVerificationFailures / this.postMergeVerificationCount : 0,
+    };
+  }
+}
 
-  return {
-    reopenCount,
-    totalCompleted,
-    reopenRate,
-    blockedMttrMs,
-    duplicateDispatchPreventedCount,
-    pruneDryRunCount,
-    pruneConfirmedCount,
-    pruneAcceptanceRate,
-  };
+/** Milliseconds from `from` to `to`, or null when either is unparseable or `to` comes first. */
+function elapsedMs(from: string, to: string): number | null {
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  return !Number.isNaN(start) && !Number.isNaN(end) && end >= start ? end - start : null;
 }
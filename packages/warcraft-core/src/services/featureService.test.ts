@@ -324,6 +324,73 @@ describe('FeatureService.create', () => {
   });
 });
 
+describe('FeatureService cross-feature dependencies', () => {
+  it('persists validated dependencies on create', () => {
+    const stores = createStores(testRoot, 'off', createMockRepository());
+    const service = new FeatureService(testRoot, stores.featureStore, 'off');
+    service.create('billing-api');
+
+    const outcome = service.create('checkout', undefined, 3, ['billing-api/02-endpoint', 'billing-api']);
+
+    expect(outcome.severity).toBe('ok');
+    expect(service.get('checkout')?.dependsOn).toEqual(['billing-api/02-endpoint', 'billing-api']);
+  });
+
+  it('rejects malformed, self and unknown-feature dependencies before creating anything', () => {
+    const stores = createStores(testRoot, 'off', createMockRepository());
+    const service = new FeatureService(testRoot, stores.featureStore, 'off');
+
+    const outcome = service.create('checkout', undefined, 3, ['a/b/c', 'checkout', 'missing/01-task']);
+
+    expect(outcome.severity).toBe('fatal');
+    expect(outcome.diagnostics.map((d) => d.message)).toEqual([
+      "Invalid feature dependency 'a/b/c': use <feature> or <feature>/<task-folder>",
+      "Feature 'checkout' cannot depend on itself",
+      "Feature dependency 'missing/01-task' names unknown feature 'missing'",
+    ]);
+    expect(service.get('checkout')).toBeNull();
+  });
+
+  it('mirrors dependencies as epic edges for the feature and its dependents', () => {
+    const features = new Map<string, FeatureJson>([
+      ['billing-api', { name: 'billing-api', epicBeadId: 'epic-billing', status: 'executing', createdAt: '' }],
+      [
+        'checkout',
+        {
+          name: 'checkout',
+          epicBeadId: 'epic-checkout',
+          status: 'planning',
+          createdAt: '',
+          dependsOn: ['billing-api/02-endpoint', 'billing-api/09-missing'],
+        },
+      ],
+    ]);
+    const syncCalls: Array<[string, string[]]> = [];
+    const store = createFeatureStoreStub(features.get('billing-api')!, {
+      get: (name: string) => features.get(name) ?? null,
+      list: () => [...features.keys()],
+      syncDependencies: (feature: FeatureJson, beadIds: string[]) => {
+        syncCalls.push([feature.name, beadIds]);
+        return [];
+      },
+    });
+    const service = new FeatureService(testRoot, store, 'on', {
+      list: (featureName: string) =>
+        featureName === 'billing-api'
+          ? [{ folder: '02-endpoint', name: 'Endpoint', status: 'pending', origin: 'plan', beadId: 'bd-task-2' }]
+          : [],
+    });
+
+    const diagnostics = service.syncDependencies('billing-api');
+
+    expect(syncCalls).toEqual([
+      ['billing-api', []],
+      ['checkout', ['bd-task-2']],
+    ]);
+    expect(diagnostics.map((d) => d.code)).toEqual(['dep_unresolved_feature']);
+  });
+});
+
 describe('FeatureService.complete', () => {
   it('closes epic bead on completion when beadsMode is on', () => {
     // Track repository method calls
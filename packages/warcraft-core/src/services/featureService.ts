@@ -1,8 +1,9 @@
 import type { BeadsMode, FeatureInfo, FeatureJson, FeatureStatusType, TaskInfo } from '../types.js';
 import { fileExists } from '../utils/fs.js';
 import { getPlanPath, sanitizeName } from '../utils/paths.js';
-import type { OperationOutcome } from './outcomes.js';
-import { diagnostic, fatal, ok } from './outcomes.js';
+import { parseCrossFeatureRef } from './crossFeatureDependencies.js';
+import type { Diagnostic, OperationOutcome } from './outcomes.js';
+import { diagnostic, fatal, ok, withDiagnostics } from './outcomes.js';
 import type { FeatureStore } from './state/types.js';
 
 export class FeatureService {
@@ -13,13 +14,22 @@ export class FeatureService {
     private readonly taskLister?: { list(featureName: string): TaskInfo[] },
   ) {}
 
-  create(name: string, ticket?: string, priority: number = 3): OperationOutcome<FeatureJson> {
+  /**
+   * Create a feature. `dependsOn` lists cross-feature dependencies (`<feature>` or
+   * `<feature>/<task-folder>`); each must name an existing feature.
+   */
+  create(name: string, ticket?: string, priority: number = 3, dependsOn: string[] = []): OperationOutcome<FeatureJson> {
     name = sanitizeName(name);
 
     if (this.store.exists(name)) {
       return fatal([diagnostic('feature_already_exists', `Feature '${name}' already exists`, 'fatal')]);
     }
 
+    const dependencyErrors = this.validateDependencies(name, dependsOn);
+    if (dependencyErrors.length > 0) {
+      return fatal(dependencyErrors);
+    }
+
     // Validate priority
     if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
       return fatal([
@@ -31,17 +41,94 @@ export class FeatureService {
       ]);
     }
 
-    return ok(
-      this.store.create(
-        {
-          name,
-          ticket,
-          status: 'planning',
-          createdAt: new Date().toISOString(),
-        },
-        priority,
-      ),
+    const created = this.store.create(
+      {
+        name,
+        ticket,
+        status: 'planning',
+        createdAt: new Date().toISOString(),
+      },
+      priority,
     );
+    if (dependsOn.length === 0) {
+      return ok(created);
+    }
+
+    const feature: FeatureJson = { ...created, dependsOn: [...new Set(dependsOn)] };
+    this.store.save(feature);
+    return withDiagnostics(ok(feature), this.syncDependencies(name));
+  }
+
+  /**
+   * Mirror cross-feature dependencies as epic bead edges: for the feature itself and for every
+   * feature that depends on it, since their task references may only now resolve to beads.
+   * No-op for stores without bead edges.
+   */
+  syncDependencies(name: string): Diagnostic[] {
+    if (!this.store.syncDependencies) return [];
+
+    const diagnostics: Diagnostic[] = [];
+    const dependents = this.list().filter(
+      (other) =>
+        other !== name && (this.get(other)?.dependsOn ?? []).some((ref) => parseCrossFeatureRef(ref)?.feature === name),
+    );
+    for (const featureName of [name, ...dependents]) {
+      const feature = this.get(featureName);
+      if (!feature) continue;
+      const beadIds: string[] = [];
+      for (const ref of feature.dependsOn ?? []) {
+        const beadId = this.resolveDependencyBeadId(ref);
+        if (beadId) {
+          beadIds.push(beadId);
+        } else {
+          diagnostics.push(
+            diagnostic(
+              'dep_unresolved_feature',
+              `Cross-feature dependency '${ref}' of feature '${featureName}' cannot be resolved to a bead ID`,
+              'degraded',
+              { featureName, dependsOnRef: ref },
+            ),
+          );
+        }
+      }
+      diagnostics.push(...this.store.syncDependencies(feature, beadIds));
+    }
+    return diagnostics;
+  }
+
+  private validateDependencies(name: string, dependsOn: string[]): Diagnostic[] {
+    return dependsOn.flatMap((ref) => {
+      const parsed = parseCrossFeatureRef(ref);
+      if (!parsed) {
+        return [
+          diagnostic(
+            'invalid_dependency',
+            `Invalid feature dependency '${ref}': use <feature> or <feature>/<task-folder>`,
+            'fatal',
+          ),
+        ];
+      }
+      if (parsed.feature === name) {
+        return [diagnostic('invalid_dependency', `Feature '${name}' cannot depend on itself`, 'fatal')];
+      }
+      if (!this.store.exists(parsed.feature)) {
+        return [
+          diagnostic(
+            'invalid_dependency',
+            `Feature dependency '${ref}' names unknown feature '${parsed.feature}'`,
+            'fatal',
+          ),
+        ];
+      }
+      return [];
+    });
+  }
+
+  private resolveDependencyBeadId(ref: string): string | undefined {
+    const parsed = parseCrossFeatureRef(ref);
+    if (!parsed) return undefined;
+    if (!parsed.task) return this.get(parsed.feature)?.epicBeadId;
+    return this.taskLister?.list(parsed.feature).find((task) => task.folder === parsed.task)?.beadId;
   }
 
   get(name: string): FeatureJson | null {
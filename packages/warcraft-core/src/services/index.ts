@@ -1,3 +1,10 @@
+export type { AcceptanceCheckResult, AcceptanceSummary, TaskAcceptanceReport } from './acceptanceCriteria.js';
+export {
+  checkAcceptanceReports,
+  formatAcceptanceChecklist,
+  parseAcceptanceCriteria,
+  summarizeAcceptance,
+} from './acceptanceCriteria.js';
 export type { ApplyResult as AgentsMdApplyResult, InitResult, SyncResult } from './agentsMdService.js';
 export { AgentsMdService } from './agentsMdService.js';
 export { BeadGateway } from './beads/BeadGateway.js';
@@ -25,25 +32,61 @@ export type { BvCommandExecutor, BvHealth } from './beads/bv-runner.js';
 export { defaultBvExecutor, runBvCommand } from './beads/bv-runner.js';
 export { ConfigService } from './configService.js';
 export { ContextService } from './contextService.js';
+export type {
+  CrossFeatureDependencyState,
+  CrossFeatureLookup,
+  CrossFeatureRef,
+} from './crossFeatureDependencies.js';
+export {
+  collectCrossFeatureDependencies,
+  findCrossFeatureCycles,
+  parseCrossFeatureRef,
+  resolveCrossFeatureRef,
+} from './crossFeatureDependencies.js';
 export type { SandboxConfig } from './dockerSandboxService.js';
 export { DockerSandboxService } from './dockerSandboxService.js';
-export type { EventLogger, TrustMetrics, WarcraftEvent, WarcraftEventType } from './event-logger.js';
-export { computeTrustMetrics, createEventLogger, createNoopEventLogger, WARCRAFT_EVENT_TYPES } from './event-logger.js';
+export type {
+  EventLogger,
+  EventLogRotationOptions,
+  TrustMetrics,
+  TrustMetricsFilter,
+  WarcraftEvent,
+  WarcraftEventType,
+} from './event-logger.js';
+export {
+  computeTrustMetrics,
+  createEventLogger,
+  createNoopEventLogger,
+  emitDegradedEvents,
+  readEventLog,
+  WARCRAFT_EVENT_TYPES,
+} from './event-logger.js';
 export { FeatureService } from './featureService.js';
 export * from './outcomes.js';
+export { amendPlanContent, splitPlanTask } from './planAmendment.js';
 export * from './planGates/index.js';
+export type { PlanRevisionDiff } from './planService.js';
 export { PlanService } from './planService.js';
+export type { PlanTasksBlockResult } from './planTasksBlock.js';
+export { formatPlanTasksBlockIssues, PLAN_TASKS_BLOCK_LANG, parsePlanTasksBlock } from './planTasksBlock.js';
+export { FilesystemForgeAdapter } from './ports/filesystem-forge-adapter.js';
+export type { ForgeAdapter, PullRequestDraft, PullRequestSubmission } from './ports/forge-adapter.js';
+export { createForgeAdapter, DEFAULT_FILESYSTEM_FORGE_DIR } from './ports/forge-adapter-factory.js';
 export type { GitClient, GitClientFactory } from './ports/git-client.js';
 export { SimpleGitClient } from './ports/simple-git-client.js';
 export { formatSpecContent } from './specFormatter.js';
 export type {
   CreateFeatureInput,
   FeatureStore,
+  JournalEntry,
   PlanStore,
   StoreSet,
   TaskArtifactKind,
+  TaskHistory,
   TaskSaveOptions,
   TaskStore,
+  TransitionRecoveryReport,
+  TransitionRepair,
 } from './state/index.js';
 // Storage ports and adapters
 export {
@@ -57,15 +100,34 @@ export {
 } from './state/index.js';
 export { InvalidTransitionError, isTransitionAllowed, validateTransition } from './task-state-machine.js';
 export type { RunnableBlockedResult, TaskWithDeps } from './taskDependencyGraph.js';
-export { buildEffectiveDependencies, computeRunnableAndBlocked } from './taskDependencyGraph.js';
+export {
+  buildEffectiveDependencies,
+  computeRunnableAndBlocked,
+  computeTopologicalOrder,
+  type TopologicalOrderResult,
+} from './taskDependencyGraph.js';
 export { TaskService } from './taskService.js';
+export type { Timeline, TimelineEntry, TimelineSource, TimelineSources, TimelineWindow } from './timeline.js';
+export { buildTimeline } from './timeline.js';
 export type { TraceContext } from './trace-context.js';
 export { createChildSpan, createTraceContext } from './trace-context.js';
+export { collectWorkflowSignals } from './workflowSignals.js';
 export type {
   ApplyResult,
   CommitResult,
+  ConflictHunk,
+  ConflictMatrix,
+  ConflictPair,
+  ConflictResolutionInfo,
   DiffResult,
+  IntegrationInfo,
+  MergePreview,
   MergeResult,
+  MergeStrategy,
+  MergeTarget,
+  RefreshResult,
+  RefreshStrategy,
+  RevertResult,
   StaleWorktreeInfo,
   WorktreeConfig,
   WorktreeInfo,
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'bun:test';
+import { amendPlanContent, splitPlanTask } from './planAmendment.js';
+import { parsePlanTasksBlock } from './planTasksBlock.js';
+
+const PLAN = `# Plan
+
+## Tasks
+
+### 1. Setup
+
+Install deps.
+
+### 2. Build
+
+**Depends on**: 1
+
+Build it.
+
+## Non-Goals
+
+Nothing else.
+`;
+
+describe('amendPlanContent', () => {
+  it('appends added tasks after the last task section', () => {
+    const result = amendPlanContent(PLAN, [{ action: 'add', title: 'Deploy', body: '**Depends on**: 2\n\nShip it.' }]);
+
+    expect(result.added).toEqual([3]);
+    expect(result.content).toContain('Build it.\n\n### 3. Deploy\n\n**Depends on**: 2\n\nShip it.\n\n## Non-Goals');
+  });
+
+  it('replaces the body and title of a modified task', () => {
+    const result = amendPlanContent(PLAN, [
+      { action: 'modify', task: 1, title: 'Bootstrap', body: 'Install and lock deps.' },
+    ]);
+
+    expect(result.modified).toEqual([1]);
+    expect(result.content).toContain('### 1. Bootstrap\n\nInstall and lock deps.\n\n### 2. Build');
+    expect(result.content).not.toContain('Install deps.');
+  });
+
+  it('keeps cancelled sections with a cancellation note', () => {
+    const result = amendPlanContent(PLAN, [{ action: 'cancel', task: 2, reason: 'covered by CI' }]);
+
+    expect(result.cancelled).toEqual([2]);
+    expect(result.content).toContain(
+      '### 2. Build\n\n> **Cancelled** by plan amendment: covered by CI\n\n**Depends on**: 1',
+    );
+  });
+
+  it('rejects unknown or repeated task numbers', () => {
+    expect(() => amendPlanContent(PLAN, [{ action: 'cancel', task: 9 }])).toThrow('Task 9 is not in the plan.');
+    expect(() =>
+      amendPlanContent(PLAN, [
+        { action: 'cancel', task: 1 },
+        { action: 'modify', task: 1, body: 'x' },
+      ]),
+    ).toThrow('Task 1 is changed more than once');
+    expect(() => amendPlanContent(PLAN, [])).toThrow('at least one change');
+  });
+});
+
+describe('amendPlanContent with a warcraft-tasks block', () => {
+  const BLOCK_PLAN = PLAN.replace(
+    '## Tasks\n',
+    '## Task Manifest\n\n```warcraft-tasks\n{ "tasks": [{ "order": 1, "title": "Setup" }, { "order": 2, "title": "Build", "dependsOn": [1], "verify": ["bun run build"] }] }\n```\n\n## Tasks\n',
+  );
+
+  it('keeps the block in step with added and modified tasks', () => {
+    const result = amendPlanContent(BLOCK_PLAN, [
+      { action: 'modify', task: 2, title: 'Bundle', body: '**Depends on**: none\n\nBundle it.' },
+      { action: 'add', title: 'Deploy', body: 'Ship it.' },
+    ]);
+
+    expect(parsePlanTasksBlock(result.content)).toEqual({
+      tasks: [
+        { order: 1, title: 'Setup' },
+        { order: 2, title: 'Bundle', verify: ['bun run build'] },
+        { order: 3, title: 'Deploy' },
+      ],
+      issues: [],
+    });
+  });
+});
+
+describe('splitPlanTask', () => {
+  const SPLIT_PLAN = PLAN.replace(
+    'Build it.\n',
+    'Build it.\n\n### 3. Test\n\nTest it.\n\n### 4. Docs\n\n**Depends on**: 2, 3\n\nDocument it.\n',
+  );
+  const SUBTASKS = [
+    { title: 'Build core', description: '**Depends on**: 9\n\nBuild the core.' },
+    { title: 'Build CLI', description: 'Build the CLI.' },
+  ];
+
+  it('cancels the task and adds sequential subtasks inheriting its dependencies', () => {
+    const result = splitPlanTask(SPLIT_PLAN, 2, SUBTASKS, 'too big');
+
+    expect(result.cancelled).toEqual([2]);
+    expect(result.added).toEqual([5, 6]);
+    expect(result.content).toContain('> **Cancelled** by plan amendment: Split into tasks 5, 6 (too big)');
+    expect(result.content).toContain(
+      '### 5. Build core\n\n**Depends on**: 1\n\nBuild the core.\n\n> Split from task 2 (Build).\n\n### 6. Build CLI\n\n**Depends on**: 5\n\nBuild the CLI.',
+    );
+  });
+
+  it('re-wires explicit and implicit dependents to the last subtask', () => {
+    const result = splitPlanTask(SPLIT_PLAN, 2, SUBTASKS);
+
+    expect(result.modified).toEqual([3, 4]);
+    expect(result.content).toContain('### 3. Test\n\n**Depends on**: 6\n\nTest it.');
+    expect(result.content).toContain('### 4. Docs\n\n**Depends on**: 6, 3\n\nDocument it.');
+  });
+
+  it('takes dependencies from a warcraft-tasks block over the markdown', () => {
+    const blockPlan = SPLIT_PLAN.replace(
+      '## Tasks\n',
+      '```warcraft-tasks\n{ "tasks": [{ "order": 1, "title": "Setup" }, { "order": 2, "title": "Build" }, { "order": 3, "title": "Test", "dependsOn": [1] }, { "order": 4, "title": "Docs" }] }\n```\n\n## Tasks\n',
+    );
+
+    const result = splitPlanTask(blockPlan, 2, SUBTASKS);
+
+    expect(result.modified).toEqual([4]);
+    expect(result.content).toContain('### 3. Test\n\nTest it.');
+  });
+
+  it('rejects cancelled tasks and splits into fewer than two subtasks', () => {
+    const cancelled = amendPlanContent(SPLIT_PLAN, [{ action: 'cancel', task: 3 }]).content;
+
+    expect(() => splitPlanTask(cancelled, 3, SUBTASKS)).toThrow('Task 3 is cancelled');
+    expect(() => splitPlanTask(SPLIT_PLAN, 9, SUBTASKS)).toThrow('Task 9 is not in the plan.');
+    expect(() => splitPlanTask(SPLIT_PLAN, 2, SUBTASKS.slice(0, 1))).toThrow('at least two subtasks');
+  });
+});
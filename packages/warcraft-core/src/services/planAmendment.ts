@@ -0,0 +1,205 @@
+import type { AmendedPlan, PlanAmendmentChange, PlanTaskDeclaration, TaskSplitSubtask } from '../types.js';
+import { DEPENDS_ON_PATTERN, type PlanTaskSection, scanPlanTaskSections } from './planTaskSections.js';
+import { parsePlanTasksBlock, replacePlanTasksBlock } from './planTasksBlock.js';
+
+const CANCELLED_NOTE_PATTERN = /^>\s*\*\*Cancelled\*\*/;
+
+function bodyLines(body: string): string[] {
+  return ['', ...body.trim().split('\n'), ''];
+}
+
+/**
+ * Apply add/modify/cancel changes to the `### N.` task sections of a plan.
+ * Added tasks are numbered after the highest existing task; cancelled tasks keep their
+ * section with a cancellation note so later syncs still recognise them.
+ * A `warcraft-tasks` block is kept in step; amended entries drop `dependsOn` so the
+ * `Depends on` line of the new body decides their dependencies.
+ *
+ * @throws Error when a change targets a task number that is not in the plan
+ */
+export function amendPlanContent(content: string, changes: PlanAmendmentChange[]): AmendedPlan {
+  if (changes.length === 0) {
+    throw new Error('A plan amendment needs at least one change.');
+  }
+
+  let lines = content.split('\n');
+  const sections = scanPlanTaskSections(lines);
+  if (sections.length === 0) {
+    throw new Error('The plan has no `### N. Title` task sections to amend.');
+  }
+
+  const touched = new Set<number>();
+  for (const change of changes) {
+    if (change.action === 'add') continue;
+    if (!sections.some((section) => section.order === change.task)) {
+      throw new Error(`Task ${change.task} is not in the plan.`);
+    }
+    if (touched.has(change.task)) {
+      throw new Error(`Task ${change.task} is changed more than once in the same amendment.`);
+    }
+    touched.add(change.task);
+  }
+
+  const modified: number[] = [];
+  const cancelled: number[] = [];
+  // Rewrite bottom-up so earlier line indexes stay valid.
+  for (const section of [...sections].reverse()) {
+    const change = changes.find((candidate) => candidate.action !== 'add' && candidate.task === section.order);
+    if (!change || change.action === 'add') continue;
+
+    if (change.action === 'modify') {
+      const title = change.title?.trim() || section.title;
+      lines.splice(
+        section.start,
+        section.end - section.start,
+        `### ${section.order}. ${title}`,
+        ...bodyLines(change.body),
+      );
+      modified.unshift(section.order);
+    } else {
+      const note = `> **Cancelled** by plan amendment${change.reason?.trim() ? `: ${change.reason.trim()}` : '.'}`;
+      lines.splice(section.start + 1, 0, '', note);
+      cancelled.unshift(section.order);
+    }
+  }
+
+  const added: number[] = [];
+  const additions = changes.filter((change) => change.action === 'add');
+  if (additions.length > 0) {
+    const last = scanPlanTaskSections(lines).at(-1) as PlanTaskSection;
+    let nextOrder = Math.max(...sections.map((section) => section.order)) + 1;
+    const inserted: string[] = [];
+    for (const addition of additions) {
+      const title = addition.title.trim();
+      if (!title) {
+        throw new Error('Added tasks need a title.');
+      }
+      inserted.push(`### ${nextOrder}. ${title}`, ...bodyLines(addition.body));
+      added.push(nextOrder++);
+    }
+    // Exactly one blank line around the added sections.
+    let insertAt = last.end;
+    while (insertAt > last.start + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+    let resumeAt = last.end;
+    while (resumeAt < lines.length && lines[resumeAt].trim() === '') resumeAt++;
+    lines = [...lines.slice(0, insertAt), '', ...inserted, ...lines.slice(resumeAt)];
+  }
+
+  let amended = lines.join('\n');
+  const declared = parsePlanTasksBlock(content).tasks;
+  if (declared) {
+    const titles = new Map(scanPlanTaskSections(lines).map((section) => [section.order, section.title]));
+    const tasks = declared.map((task) => {
+      if (!modified.includes(task.order)) return task;
+      const { dependsOn: _dependsOn, ...rest } = task;
+      return { ...rest, title: titles.get(task.order) ?? task.title };
+    });
+    for (const order of added) {
+      tasks.push({ order, title: titles.get(order) as string });
+    }
+    amended = replacePlanTasksBlock(amended, tasks);
+  }
+
+  return { content: amended, added, modified, cancelled };
+}
+
+/**
+ * Dependencies of a task as `Depends on` entries, resolved the way TaskService does: a
+ * `warcraft-tasks` declaration wins over the `Depends on` line (cross-feature entries always come
+ * from the line), and without either the task depends on the previous one.
+ */
+function effectiveDependencies(
+  section: PlanTaskSection,
+  orders: number[],
+  declaration: PlanTaskDeclaration | undefined,
+): string[] {
+  const { order, dependsOn: entries } = section;
+  if (declaration?.dependsOn) {
+    return [...declaration.dependsOn.map(String), ...(entries ?? []).filter((entry) => entry.includes('/'))];
+  }
+  if (entries !== null) return entries;
+  return orders.includes(order - 1) ? [String(order - 1)] : [];
+}
+
+/** Section body with its `Depends on` line set to `entries` (added at the top when missing). */
+function withDependsOn(body: string[], entries: string[]): string {
+  const line = `**Depends on**: ${entries.length > 0 ? entries.join(', ') : 'none'}`;
+  const kept = body.filter((candidate) => !DEPENDS_ON_PATTERN.test(candidate));
+  const at = body.findIndex((candidate) => DEPENDS_ON_PATTERN.test(candidate));
+  if (at === -1) return `${line}\n\n${kept.join('\n').trim()}`.trim();
+  return [...kept.slice(0, at), line, ...kept.slice(at)].join('\n').trim();
+}
+
+const isTaskNumber = (entry: string, order: number) => !entry.includes('/') && parseInt(entry, 10) === order;
+
+/**
+ * Split the `### N.` task of a plan into subtasks, as a plan amendment: the task is cancelled with
+ * a note naming its subtasks, the subtasks are added after the last task and run in sequence (the
+ * first inherits the task's dependencies), and every task that depended on it is re-wired to
+ * depend on the last subtask. `Depends on` lines in the subtask bodies are replaced.
+ *
+ * @throws Error when the task is not in the plan, is already cancelled, or fewer than two subtasks are given
+ */
+export function splitPlanTask(
+  content: string,
+  task: number,
+  subtasks: TaskSplitSubtask[],
+  reason?: string,
+): AmendedPlan {
+  if (subtasks.length < 2) {
+    throw new Error('A split needs at least two subtasks.');
+  }
+  const lines = content.split('\n');
+  const sections = scanPlanTaskSections(lines);
+  const target = sections.find((section) => section.order === task);
+  if (!target) {
+    throw new Error(`Task ${task} is not in the plan.`);
+  }
+  const bodyOf = (section: PlanTaskSection) => lines.slice(section.start + 1, section.end);
+  const isCancelled = (section: PlanTaskSection) => bodyOf(section).some((line) => CANCELLED_NOTE_PATTERN.test(line));
+  if (isCancelled(target)) {
+    throw new Error(`Task ${task} is cancelled and cannot be split.`);
+  }
+
+  const declared = parsePlanTasksBlock(content).tasks ?? [];
+  const orders = sections.map((section) => section.order);
+  const dependenciesOf = (section: PlanTaskSection) =>
+    effectiveDependencies(
+      section,
+      orders,
+      declared.find((declaration) => declaration.order === section.order),
+    );
+
+  // amendPlanContent numbers added tasks after the highest existing task.
+  const firstSubtask = Math.max(...orders) + 1;
+  const subtaskOrders = subtasks.map((_, index) => firstSubtask + index);
+  const lastSubtask = String(subtaskOrders.at(-1));
+  const changes: PlanAmendmentChange[] = [
+    {
+      action: 'cancel',
+      task,
+      reason: `Split into tasks ${subtaskOrders.join(', ')}${reason?.trim() ? ` (${reason.trim()})` : ''}`,
+    },
+  ];
+
+  for (const section of sections) {
+    if (section.order === task || isCancelled(section)) continue;
+    const dependencies = dependenciesOf(section);
+    if (!dependencies.some((entry) => isTaskNumber(entry, task))) continue;
+    const rewired = [...new Set(dependencies.map((entry) => (isTaskNumber(entry, task) ? lastSubtask : entry)))];
+    changes.push({ action: 'modify', task: section.order, body: withDependsOn(bodyOf(section), rewired) });
+  }
+
+  const inherited = dependenciesOf(target);
+  subtasks.forEach((subtask, index) => {
+    const title = subtask.title.trim();
+    if (!title) {
+      throw new Error('Subtasks need a title.');
+    }
+    const dependencies = index === 0 ? inherited : [String(subtaskOrders[index - 1])];
+    const body = withDependsOn(subtask.description.trim().split('\n'), dependencies);
+    changes.push({ action: 'add', title, body: `${body}\n\n> Split from task ${task} (${target.title}).` });
+  });
+
+  return amendPlanContent(content, changes);
+}
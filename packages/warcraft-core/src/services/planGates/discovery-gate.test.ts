@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { validateDiscoverySection } from './discovery-gate.js';
+import { inspectDiscoverySection, validateDiscoverySection } from './discovery-gate.js';
 
 /**
  * Discovery Gate Tests
@@ -197,3 +197,23 @@ Small safe update for docs and command wiring only.
     expect(result).toContain('Lightweight workflow requires a mini-record');
   });
 });
+
+describe('inspectDiscoverySection', () => {
+  test('locates the section by line', () => {
+    const content = `# Plan\n\n## Discovery\n\nShort notes.\n\n## Tasks\n`;
+
+    expect(inspectDiscoverySection(content)).toEqual({
+      problem: 'too_thin',
+      miniRecordMissing: false,
+      workflowPath: 'standard',
+      startLine: 3,
+      endLine: 5,
+      length: 12,
+      minLength: 100,
+    });
+  });
+
+  test('reports a missing section without lines', () => {
+    expect(inspectDiscoverySection('# Plan\n')).toMatchObject({ problem: 'missing', startLine: null, endLine: null });
+  });
+});
@@ -1,9 +1,58 @@
-import { detectWorkflowPath, hasLightweightMiniRecord } from './workflow-path.js';
+import { detectWorkflowPath, hasLightweightMiniRecord, type WorkflowPath } from './workflow-path.js';
 
-export function validateDiscoverySection(content: string): string | null {
+export interface DiscoveryInspection {
+  problem: 'missing' | 'too_thin' | null;
+  /** Lightweight plans only: the Impact/Safety/Verify/Rollback mini-record is incomplete. */
+  miniRecordMissing: boolean;
+  workflowPath: WorkflowPath;
+  /** 1-based line of the `## Discovery` heading, or null when the section is missing. */
+  startLine: number | null;
+  /** 1-based last line of the section, or null when the section is missing. */
+  endLine: number | null;
+  length: number;
+  minLength: number;
+}
+
+/** Locate the `## Discovery` section and measure it against the workflow path's requirements. */
+export function inspectDiscoverySection(content: string): DiscoveryInspection {
   const workflowPath = detectWorkflowPath(content);
+  const minLength = workflowPath === 'lightweight' ? 40 : 100;
+  const miniRecordMissing = workflowPath === 'lightweight' && !hasLightweightMiniRecord(content);
   const discoveryMatch = content.match(/^##\s+Discovery\s*$/im);
-  if (!discoveryMatch) {
+  if (!discoveryMatch || discoveryMatch.index === undefined) {
+    return {
+      problem: 'missing',
+      miniRecordMissing,
+      workflowPath,
+      startLine: null,
+      endLine: null,
+      length: 0,
+      minLength,
+    };
+  }
+
+  const afterDiscovery = content.slice(discoveryMatch.index + discoveryMatch[0].length);
+  const nextHeading = afterDiscovery.search(/^##\s+/m);
+  const rawSection = nextHeading > -1 ? afterDiscovery.slice(0, nextHeading) : afterDiscovery;
+  const discoveryContent = rawSection.trim();
+  const sectionEnd = discoveryMatch.index + discoveryMatch[0].length + rawSection.trimEnd().length;
+  const startLine = content.slice(0, discoveryMatch.index).split('\n').length;
+  const endLine = Math.max(startLine, content.slice(0, sectionEnd).split('\n').length);
+
+  return {
+    problem: discoveryContent.length < minLength ? 'too_thin' : null,
+    miniRecordMissing,
+    workflowPath,
+    startLine,
+    endLine,
+    length: discoveryContent.length,
+    minLength,
+  };
+}
+
+export function validateDiscoverySection(content: string): string | null {
+  const inspection = inspectDiscoverySection(content);
+  if (inspection.problem === 'missing') {
     return `BLOCKED: Discovery section required before planning.
 
 Your plan must include a \`## Discovery\` section documenting:
@@ -14,13 +63,8 @@ Your plan must include a \`## Discovery\` section documenting:
 Add this section to your plan content and try again.`;
   }
 
-  const afterDiscovery = content.slice(discoveryMatch.index! + discoveryMatch[0].length);
-  const nextHeading = afterDiscovery.search(/^##\s+/m);
-  const discoveryContent = nextHeading > -1 ? afterDiscovery.slice(0, nextHeading).trim() : afterDiscovery.trim();
-
-  const minLength = workflowPath === 'lightweight' ? 40 : 100;
-  if (discoveryContent.length < minLength) {
-    return `BLOCKED: Discovery section is too thin (${discoveryContent.length} chars, minimum ${minLength}).
+  if (inspection.problem === 'too_thin') {
+    return `BLOCKED: Discovery section is too thin (${inspection.length} chars, minimum ${inspection.minLength}).
 
 A substantive Discovery section should include:
 - Original request quoted
@@ -30,7 +74,7 @@ A substantive Discovery section should include:
 Expand your Discovery section and try again.`;
   }
 
-  if (workflowPath === 'lightweight' && !hasLightweightMiniRecord(content)) {
+  if (inspection.miniRecordMissing) {
     return `BLOCKED: Lightweight workflow requires a mini-record.
 
 Include these fields in the plan:
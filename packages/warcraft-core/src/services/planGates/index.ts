@@ -1,10 +1,21 @@
-export { validateDiscoverySection } from './discovery-gate.js';
+export type { DiscoveryInspection } from './discovery-gate.js';
+export { inspectDiscoverySection, validateDiscoverySection } from './discovery-gate.js';
+export type { ResolvePlanCommentsResult } from './plan-comments.js';
+export { parsePlanComments, resolvePlanComments } from './plan-comments.js';
+export type {
+  PlanLintCategory,
+  PlanLintDiagnostic,
+  PlanLintResult,
+  PlanLintStage,
+} from './plan-lint.js';
+export { formatPlanLintDiagnostics, lintPlan } from './plan-lint.js';
 export type { PlanReviewResult } from './plan-review-gate.js';
 export {
   formatPlanReviewChecklistIssues,
+  PLAN_REVIEW_CHECKLIST_ITEMS,
   validatePlanReviewChecklist,
 } from './plan-review-gate.js';
-export type { WorkflowRecommendation } from './workflow-analysis.js';
+export type { WorkflowAnalysisResult, WorkflowRecommendation, WorkflowRepositorySignals } from './workflow-analysis.js';
 export { analyzeWorkflowRequest } from './workflow-analysis.js';
 export type { WorkflowPath } from './workflow-path.js';
 export {
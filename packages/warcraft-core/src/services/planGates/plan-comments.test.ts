@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { parsePlanComments, resolvePlanComments } from './plan-comments.js';
+
+const PLAN = `# Auth Plan
+<!-- REVIEW: Name the ticket -->
+
+## Tasks
+
+### 1. Add login form
+<!-- REVIEW @alice: Cover the
+empty-password case -->
+
+### 2. Add logout
+<!-- REVIEW @bob [resolved by mimiron]: Clear the session cookie -->
+
+\`\`\`html
+<!-- REVIEW @carol: not a comment, just sample markup -->
+\`\`\`
+`;
+
+describe('plan comments', () => {
+  test('parses comments with their anchor, author and resolved state', () => {
+    const comments = parsePlanComments(PLAN);
+
+    expect(comments.map(({ id: _id, ...rest }) => rest)).toEqual([
+      { anchor: 'Auth Plan', line: 2, author: null, body: 'Name the ticket', resolved: false },
+      {
+        anchor: '1. Add login form',
+        line: 7,
+        author: 'alice',
+        body: 'Cover the\nempty-password case',
+        resolved: false,
+      },
+      {
+        anchor: '2. Add logout',
+        line: 11,
+        author: 'bob',
+        body: 'Clear the session cookie',
+        resolved: true,
+        resolvedBy: 'mimiron',
+      },
+    ]);
+  });
+
+  test('keeps ids stable when unrelated parts of the plan change', () => {
+    const before = parsePlanComments(PLAN)[1].id;
+    const after = parsePlanComments(PLAN.replace('# Auth Plan', '# Auth Plan\n\nMore context.'))[1].id;
+
+    expect(after).toBe(before);
+  });
+
+  test('gives repeated comments under the same heading distinct ids', () => {
+    const comments = parsePlanComments('## Tasks\n<!-- REVIEW: Why? -->\n<!-- REVIEW: Why? -->\n');
+
+    expect(comments).toHaveLength(2);
+    expect(comments[1].id).toBe(`${comments[0].id}-2`);
+  });
+
+  test('marks selected comments resolved and reports unknown or already resolved ids', () => {
+    const [first, second, third] = parsePlanComments(PLAN);
+
+    const result = resolvePlanComments(PLAN, [second.id, third.id, 'cmissing'], 'mimiron');
+
+    expect(result.resolved).toEqual([second.id]);
+    expect(result.alreadyResolved).toEqual([third.id]);
+    expect(result.notFound).toEqual(['cmissing']);
+    expect(result.content).toContain('<!-- REVIEW @alice [resolved by mimiron]: Cover the\nempty-password case -->');
+
+    const reparsed = parsePlanComments(result.content);
+    expect(reparsed.map((comment) => [comment.id, comment.resolved])).toEqual([
+      [first.id, false],
+      [second.id, true],
+      [third.id, true],
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { createHash } from 'node:crypto';
+import type { PlanComment } from '../../types.js';
+
+/**
+ * Inline review comments are HTML comments, so they stay invisible in rendered markdown:
+ *
+ *   <!-- REVIEW @alice: Split this task, it touches two packages -->
+ *   <!-- REVIEW @alice [resolved by mimiron]: Split this task, it touches two packages -->
+ *
+ * The author and the resolution marker are optional. A comment is anchored to the nearest heading above it.
+ */
+const COMMENT_PATTERN =
+  /<!--\s*REVIEW(?:\s+@([^\s:[\]]+))?(\s*\[resolved(?:\s+by\s+([^\]]*?))?\s*\])?\s*:\s*([\s\S]*?)\s*-->/g;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+interface LineInfo {
+  /** Offset of the line start in the plan content. */
+  offset: number;
+  inFence: boolean;
+  /** Nearest heading at or above this line, outside fenced code. */
+  anchor: string | null;
+}
+
+function scanLines(content: string): LineInfo[] {
+  const lines: LineInfo[] = [];
+  let offset = 0;
+  let inFence = false;
+  let anchor: string | null = null;
+  for (const line of content.split('\n')) {
+    const isFence = FENCE_PATTERN.test(line);
+    if (!inFence && !isFence) {
+      const heading = line.match(HEADING_PATTERN);
+      if (heading) anchor = heading[1];
+    }
+    lines.push({ offset, inFence: inFence || isFence, anchor });
+    if (isFence) inFence = !inFence;
+    offset += line.length + 1;
+  }
+  return lines;
+}
+
+function lineIndexAt(lines: LineInfo[], offset: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lines[mid].offset <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+interface CommentMatch {
+  comment: PlanComment;
+  start: number;
+  end: number;
+}
+
+function matchComments(content: string): CommentMatch[] {
+  const lines = scanLines(content);
+  const seen = new Map<string, number>();
+  const matches: CommentMatch[] = [];
+
+  for (const match of content.matchAll(COMMENT_PATTERN)) {
+    const start = match.index ?? 0;
+    const lineIndex = lineIndexAt(lines, start);
+    if (lines[lineIndex].inFence) continue;
+
+    const [, author, resolvedMarker, resolvedBy, body] = match;
+    const anchor = lines[lineIndex].anchor;
+    // Ids hash the comment itself so they survive edits elsewhere in the plan.
+    const hash = createHash('sha1')
+      .update(`${anchor ?? ''}\n${author ?? ''}\n${body}`)
+      .digest('hex')
+      .slice(0, 6);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+
+    matches.push({
+      start,
+      end: start + match[0].length,
+      comment: {
+        id: occurrence === 1 ? `c${hash}` : `c${hash}-${occurrence}`,
+        anchor,
+        line: lineIndex + 1,
+        author: author ?? null,
+        body,
+        resolved: resolvedMarker !== undefined,
+        ...(resolvedBy ? { resolvedBy } : {}),
+      },
+    });
+  }
+  return matches;
+}
+
+/** Extract the inline review comments of a plan, in document order. */
+export function parsePlanComments(content: string): PlanComment[] {
+  return matchComments(content).map((match) => match.comment);
+}
+
+function formatComment(comment: PlanComment): string {
+  const author = comment.author ? ` @${comment.author}` : '';
+  const resolved = comment.resolved ? ` [resolved${comment.resolvedBy ? ` by ${comment.resolvedBy}` : ''}]` : '';
+  return `<!-- REVIEW${author}${resolved}: ${comment.body} -->`;
+}
+
+export interface ResolvePlanCommentsResult {
+  content: string;
+  /** Ids that were unresolved and are now marked resolved. */
+  resolved: string[];
+  /** Ids that were already resolved; left untouched. */
+  alreadyResolved: string[];
+  /** Ids that match no comment in the plan. */
+  notFound: string[];
+}
+
+/**
+ * Mark review comments resolved in place. The comment text is kept so the plan
+ * still records what was asked; only the `[resolved]` marker is added.
+ */
+export function resolvePlanComments(content: string, ids: string[], resolvedBy?: string): ResolvePlanCommentsResult {
+  const matches = matchComments(content);
+  const wanted = new Set(ids);
+  const known = new Set(matches.map((match) => match.comment.id));
+  const resolved: string[] = [];
+  const alreadyResolved: string[] = [];
+
+  let next = content;
+  // Replace back to front so earlier offsets stay valid.
+  for (const { comment, start, end } of [...matches].reverse()) {
+    if (!wanted.has(comment.id)) continue;
+    if (comment.resolved) {
+      alreadyResolved.unshift(comment.id);
+      continue;
+    }
+    const replacement = formatComment({ ...comment, resolved: true, ...(resolvedBy ? { resolvedBy } : {}) });
+    next = next.slice(0, start) + replacement + next.slice(end);
+    resolved.unshift(comment.id);
+  }
+
+  return {
+    content: next,
+    resolved,
+    alreadyResolved,
+    notFound: ids.filter((id) => !known.has(id)),
+  };
+}
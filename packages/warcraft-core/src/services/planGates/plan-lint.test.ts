@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'bun:test';
+import { formatPlanLintDiagnostics, lintPlan } from './plan-lint.js';
+
+const DISCOVERY = `## Discovery
+
+Original request: add login. Interviewed the user about session handling and read src/auth/session.ts:12-40.`;
+
+const CHECKLIST = `## Plan Review Checklist
+
+- [x] Discovery is complete and current
+- [x] Scope and non-goals are explicit
+- [x] Risks, rollout, and verification are defined
+- [x] Tasks and dependencies are actionable`;
+
+const TASK = `**Files:**
+- Modify: \`src/auth.ts\`
+
+**Verify**:
+- [ ] Run: \`bun test\` -> PASS`;
+
+function plan(tasks: string, discovery = DISCOVERY, checklist = CHECKLIST): string {
+  return `# Login\n\n${discovery}\n\n${checklist}\n\n## Tasks\n\n${tasks}\n`;
+}
+
+describe('lintPlan', () => {
+  test('reports nothing for a complete plan', () => {
+    const result = lintPlan(plan(`### 1. Add login\n\n${TASK}\n\n### 2. Add logout\n\n${TASK}`), {
+      stage: 'approval',
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      stage: 'approval',
+      workflowPath: 'standard',
+      errorCount: 0,
+      warningCount: 0,
+      diagnostics: [],
+    });
+  });
+
+  test('returns every diagnostic at once, located and sorted by line', () => {
+    const content = plan(
+      [
+        '### 1. Add login',
+        '',
+        '**Depends on**: 3, 1',
+        '',
+        TASK,
+        '',
+        '### 2. Add logout',
+        '',
+        '**Depends on**: 7',
+        '',
+        '### 2. Add Logout!',
+        '',
+        TASK,
+      ].join('\n'),
+      '## Discovery\n\nToo short.',
+      '## Plan Review Checklist\n\n- [ ] Discovery is complete and current',
+    );
+
+    const result = lintPlan(content, { stage: 'approval' });
+
+    expect(result.ok).toBe(false);
+    expect(result.diagnostics.map((d) => [d.code, d.severity, d.startLine, d.endLine])).toEqual([
+      ['discovery_too_thin', 'error', 3, 5],
+      ['checklist_item_unchecked', 'error', 7, 9],
+      ['checklist_item_unchecked', 'error', 7, 9],
+      ['checklist_item_unchecked', 'error', 7, 9],
+      ['checklist_item_unchecked', 'error', 9, 9],
+      ['dependency_unknown', 'error', 15, 15],
+      ['dependency_self', 'error', 15, 15],
+      ['task_files_missing', 'warning', 23, 25],
+      ['task_verify_missing', 'warning', 23, 25],
+      ['dependency_unknown', 'error', 25, 25],
+      ['task_number_duplicate', 'error', 27, 27],
+      ['task_slug_collision', 'error', 27, 27],
+    ]);
+    expect(result.diagnostics.find((d) => d.code === 'dependency_unknown' && d.task === 2)?.fix).toBe(
+      'Use one of the existing task numbers (1, 2) or `none`.',
+    );
+  });
+
+  test('treats the checklist as advisory for drafts', () => {
+    const result = lintPlan(plan(`### 1. Add login\n\n${TASK}`, DISCOVERY, ''));
+
+    expect(result.ok).toBe(true);
+    expect(result.diagnostics.map((d) => [d.code, d.severity])).toEqual([['checklist_missing', 'warning']]);
+  });
+
+  test('reports dependency cycles across their tasks', () => {
+    const result = lintPlan(plan(`### 1. Add login\n\n**Depends on**: 2\n\n${TASK}\n\n### 2. Add logout\n\n${TASK}`));
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'dependency_cycle', message: 'Dependency cycle: 1 -> 2 -> 1.', task: 1 }),
+    ]);
+  });
+
+  test('enforces lightweight limits and the mini-record', () => {
+    const result = lintPlan(
+      `# Fix\n\nWorkflow Path: lightweight\n\n## Discovery\n\nA short fix for the login typo in the header.\n\n## Tasks\n\n### 1. A\n\n${TASK}\n\n### 2. B\n\n${TASK}\n\n### 3. C\n\n${TASK}\n`,
+    );
+
+    expect(result.workflowPath).toBe('lightweight');
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'lightweight_mini_record_missing',
+      'lightweight_task_limit',
+      'checklist_missing',
+    ]);
+  });
+
+  test('reports unfilled template placeholders, as errors only at approval', () => {
+    const content = plan(
+      `### 1. Add login\n\n**Files:**\n- Modify: \`[TODO: path/to/file.ts]\`\n\n**Verify**:\n- [ ] Run: \`bun test\``,
+    );
+
+    expect(lintPlan(content).diagnostics.map((d) => [d.code, d.severity, d.startLine])).toEqual([
+      ['template_placeholder_unfilled', 'warning', 19],
+    ]);
+    expect(lintPlan(content, { stage: 'approval' }).ok).toBe(false);
+  });
+
+  test('uses warcraft-tasks declarations for files, verify and dependencies', () => {
+    const declaration =
+      '"order": 1, "title": "Add login", "files": { "modify": ["src/auth.ts"] }, "verify": ["bun test"]';
+    const section = '### 1. Add login\n\n**Depends on**: 5\n\nDo it.';
+
+    const valid = lintPlan(
+      plan(`\`\`\`warcraft-tasks\n{ "tasks": [{ ${declaration}, "dependsOn": [] }] }\n\`\`\`\n\n${section}`),
+    );
+    expect(valid.diagnostics).toEqual([]);
+
+    const invalid = lintPlan(
+      plan(`\`\`\`warcraft-tasks\n{ "tasks": [{ ${declaration}, "dependsOn": [1] }] }\n\`\`\`\n\n${section}`),
+    );
+    expect(invalid.diagnostics.map((d) => [d.code, d.category, d.startLine])).toEqual([
+      ['tasks_block_invalid', 'structure', 17],
+      ['task_files_missing', 'content', 20],
+      ['task_verify_missing', 'content', 20],
+      ['dependency_unknown', 'structure', 22],
+    ]);
+  });
+});
+
+describe('formatPlanLintDiagnostics', () => {
+  test('prints one line per diagnostic with its range and fix', () => {
+    expect(
+      formatPlanLintDiagnostics([
+        {
+          code: 'task_verify_missing',
+          severity: 'warning',
+          category: 'content',
+          message: 'Task 1 does not say how to verify it.',
+          startLine: 4,
+          endLine: 9,
+          fix: 'Add a `**Verify**:` list.',
+          task: 1,
+        },
+      ]),
+    ).toBe(
+      '- lines 4-9 [warning] task_verify_missing: Task 1 does not say how to verify it. Fix: Add a `**Verify**:` list.',
+    );
+  });
+});
@@ -0,0 +1,388 @@
+import { slugifyTaskName } from '../../utils/slug.js';
+import { dependsOnNumbers, scanPlanTaskSections } from '../planTaskSections.js';
+import { parsePlanTasksBlock } from '../planTasksBlock.js';
+import { inspectDiscoverySection } from './discovery-gate.js';
+import { PLAN_REVIEW_CHECKLIST_ITEMS } from './plan-review-gate.js';
+import type { WorkflowPath } from './workflow-path.js';
+
+/**
+ * When the plan is linted: `draft` before writing (the review checklist is only advisory),
+ * `approval` before approving (the review checklist is required).
+ */
+export type PlanLintStage = 'draft' | 'approval';
+
+/**
+ * - `discovery`: the `## Discovery` section and the lightweight mini-record
+ * - `checklist`: the `## Plan Review Checklist`
+ * - `workflow`: lightweight path limits
+ * - `content`: what each task tells its worker, and unfilled plan template placeholders
+ * - `structure`: numbering, slugs, dependencies and the `warcraft-tasks` block; these make `warcraft_tasks_sync` fail
+ */
+export type PlanLintCategory = 'discovery' | 'checklist' | 'workflow' | 'content' | 'structure';
+
+export interface PlanLintDiagnostic {
+  code: string;
+  severity: 'error' | 'warning';
+  category: PlanLintCategory;
+  message: string;
+  /** 1-based first line in plan.md the diagnostic points at. */
+  startLine: number;
+  /** 1-based last line, inclusive. */
+  endLine: number;
+  /** What to change to clear the diagnostic. */
+  fix: string;
+  /** Task number, when the diagnostic concerns one task. */
+  task?: number;
+}
+
+export interface PlanLintResult {
+  /** True when there are no error diagnostics. */
+  ok: boolean;
+  stage: PlanLintStage;
+  workflowPath: WorkflowPath;
+  errorCount: number;
+  warningCount: number;
+  /** Sorted by line. */
+  diagnostics: PlanLintDiagnostic[];
+}
+
+interface LintTask {
+  order: number;
+  title: string;
+  startLine: number;
+  endLine: number;
+  /** Dependency numbers; null when not declared (implicit previous task). */
+  dependsOn: number[] | null;
+  /** Line of the `Depends on` annotation, when dependencies come from the markdown. */
+  dependsLine: number | null;
+  body: string;
+}
+
+const FILES_PATTERN = /^\s*(?:\*\*Files\b|[-*]\s*(?:Create|Modify|Test):)/im;
+const VERIFY_PATTERN = /^\s*(?:#+\s*|[-*]\s+)?\*{0,2}Verify\b/im;
+// Placeholder left by plan templates.
+const PLACEHOLDER_PATTERN = /\[TODO:[^\]]*\]/;
+
+function scanTasks(lines: string[]): LintTask[] {
+  return scanPlanTaskSections(lines).map((section) => {
+    const startLine = section.start + 1;
+    let end = section.end;
+    while (end > startLine && lines[end - 1].trim() === '') end--;
+    return {
+      order: section.order,
+      title: section.title,
+      startLine,
+      endLine: Math.max(end, startLine),
+      dependsOn: section.dependsOn ? dependsOnNumbers(section.dependsOn) : null,
+      dependsLine: section.dependsLine === null ? null : section.dependsLine + 1,
+      body: lines.slice(section.start + 1, section.end).join('\n'),
+    };
+  });
+}
+
+function findCycles(tasks: LintTask[]): LintTask[][] {
+  const byOrder = new Map(tasks.map((task) => [task.order, task]));
+  const dependenciesOf = (task: LintTask) => task.dependsOn ?? (task.order > 1 ? [task.order - 1] : []);
+  const state = new Map<number, 'visiting' | 'done'>();
+  const path: LintTask[] = [];
+  const cycles: LintTask[][] = [];
+
+  const visit = (task: LintTask) => {
+    state.set(task.order, 'visiting');
+    path.push(task);
+    for (const dep of dependenciesOf(task)) {
+      const next = byOrder.get(dep);
+      if (!next || next === task) continue;
+      if (state.get(dep) === 'visiting') {
+        cycles.push(path.slice(path.findIndex((entry) => entry.order === dep)));
+      } else if (!state.has(dep)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    state.set(task.order, 'done');
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.order)) visit(task);
+  }
+  return cycles;
+}
+
+function findLine(lines: string[], pattern: RegExp, from = 0, to = lines.length): number | null {
+  for (let index = from; index < to; index++) {
+    if (pattern.test(lines[index])) return index + 1;
+  }
+  return null;
+}
+
+/**
+ * Lint a plan and return every diagnostic at once, each located by line range with a fix suggestion.
+ * Covers what `validateDiscoverySection`, `validatePlanReviewChecklist` and `validateLightweightPlan`
+ * check, plus the task problems `warcraft_tasks_sync` would otherwise only report by throwing.
+ */
+export function lintPlan(content: string, options: { stage?: PlanLintStage } = {}): PlanLintResult {
+  const stage = options.stage ?? 'draft';
+  const lines = content.split('\n');
+  const lastLine = Math.max(lines.length, 1);
+  const diagnostics: PlanLintDiagnostic[] = [];
+  const add = (diagnostic: PlanLintDiagnostic) => diagnostics.push(diagnostic);
+
+  // Discovery and the lightweight mini-record
+  const discovery = inspectDiscoverySection(content);
+  if (discovery.problem === 'missing') {
+    add({
+      code: 'discovery_missing',
+      severity: 'error',
+      category: 'discovery',
+      message: 'The plan has no `## Discovery` section.',
+      startLine: 1,
+      endLine: 1,
+      fix: 'Add a `## Discovery` section with the original request, interview summary and research findings.',
+    });
+  } else if (discovery.problem === 'too_thin') {
+    add({
+      code: 'discovery_too_thin',
+      severity: 'error',
+      category: 'discovery',
+      message: `The Discovery section is too thin (${discovery.length} chars, minimum ${discovery.minLength}).`,
+      startLine: discovery.startLine as number,
+      endLine: discovery.endLine as number,
+      fix: 'Expand Discovery with the decisions made and file:line research findings.',
+    });
+  }
+  if (discovery.miniRecordMissing) {
+    add({
+      code: 'lightweight_mini_record_missing',
+      severity: 'error',
+      category: 'discovery',
+      message: 'Lightweight plans need mini-record details for Impact, Safety, Verify and Rollback.',
+      startLine: discovery.startLine ?? 1,
+      endLine: discovery.endLine ?? 1,
+      fix: 'Add `Impact:`, `Safety:`, `Verify:` and `Rollback:` lines to Discovery.',
+    });
+  }
+
+  // Plan review checklist
+  const checklistSeverity = stage === 'approval' ? 'error' : 'warning';
+  const checklistLine = findLine(lines, /^##\s+Plan Review Checklist\s*$/i);
+  if (checklistLine === null) {
+    add({
+      code: 'checklist_missing',
+      severity: checklistSeverity,
+      category: 'checklist',
+      message: 'The plan has no `## Plan Review Checklist` section.',
+      startLine: lastLine,
+      endLine: lastLine,
+      fix: `Add \`## Plan Review Checklist\` with ${PLAN_REVIEW_CHECKLIST_ITEMS.map((item) => `\`- [x] ${item}\``).join(', ')}.`,
+    });
+  } else {
+    let sectionEnd = (findLine(lines, /^##\s+/, checklistLine) ?? lastLine + 1) - 1;
+    while (sectionEnd > checklistLine && lines[sectionEnd - 1].trim() === '') sectionEnd--;
+    for (const item of PLAN_REVIEW_CHECKLIST_ITEMS) {
+      const escaped = item.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (findLine(lines, new RegExp(`^\\s*-\\s*\\[[xX]\\]\\s*${escaped}\\s*$`), checklistLine, sectionEnd)) continue;
+      const itemLine = findLine(lines, new RegExp(escaped, 'i'), checklistLine, sectionEnd);
+      add({
+        code: 'checklist_item_unchecked',
+        severity: checklistSeverity,
+        category: 'checklist',
+        message: `Checklist item must be checked: ${item}`,
+        startLine: itemLine ?? checklistLine,
+        endLine: itemLine ?? sectionEnd,
+        fix: `Confirm the item, then write it as \`- [x] ${item}\`.`,
+      });
+    }
+  }
+
+  // Unfilled plan template placeholders
+  lines.forEach((line, index) => {
+    if (!PLACEHOLDER_PATTERN.test(line)) return;
+    add({
+      code: 'template_placeholder_unfilled',
+      severity: stage === 'approval' ? 'error' : 'warning',
+      category: 'content',
+      message: 'Plan template placeholder `[TODO: ...]` is not filled in.',
+      startLine: index + 1,
+      endLine: index + 1,
+      fix: 'Replace the placeholder with the real content, or delete the line if it does not apply.',
+    });
+  });
+
+  // Tasks
+  const tasks = scanTasks(lines);
+  const block = parsePlanTasksBlock(content);
+  for (const issue of block.issues) {
+    add({
+      code: 'tasks_block_invalid',
+      severity: 'error',
+      category: 'structure',
+      message: issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+      startLine: issue.line,
+      endLine: issue.line,
+      fix: 'Fix the `warcraft-tasks` block so it matches its schema and the `### N. Title` headings.',
+    });
+  }
+  const declarations = new Map((block.tasks ?? []).map((declaration) => [declaration.order, declaration]));
+  for (const task of tasks) {
+    const declaration = declarations.get(task.order);
+    if (declaration?.dependsOn) {
+      task.dependsOn = declaration.dependsOn;
+      task.dependsLine = null;
+    }
+  }
+
+  if (tasks.length === 0) {
+    add({
+      code: 'tasks_missing',
+      severity: discovery.workflowPath === 'lightweight' ? 'error' : 'warning',
+      category: 'content',
+      message: 'The plan has no `### N. Title` task sections.',
+      startLine: lastLine,
+      endLine: lastLine,
+      fix: 'Add at least one task (`### 1. Task title`) under `## Tasks`.',
+    });
+  }
+  if (discovery.workflowPath === 'lightweight' && tasks.length > 2) {
+    add({
+      code: 'lightweight_task_limit',
+      severity: 'error',
+      category: 'workflow',
+      message: `Lightweight path supports max 2 tasks; found ${tasks.length}.`,
+      startLine: tasks[2].startLine,
+      endLine: (tasks.at(-1) as LintTask).endLine,
+      fix: 'Merge tasks down to two, or remove `Workflow Path: lightweight` to use the standard path.',
+    });
+  }
+
+  const seenOrders = new Map<number, LintTask>();
+  const seenSlugs = new Map<string, LintTask>();
+  for (const task of tasks) {
+    const first = seenOrders.get(task.order);
+    if (first) {
+      add({
+        code: 'task_number_duplicate',
+        severity: 'error',
+        category: 'structure',
+        message: `Task number ${task.order} is used by "${first.title}" (line ${first.startLine}) and "${task.title}".`,
+        startLine: task.startLine,
+        endLine: task.startLine,
+        fix: 'Renumber the tasks so each `### N.` number is unique.',
+        task: task.order,
+      });
+    } else {
+      seenOrders.set(task.order, task);
+    }
+
+    const slug = slugifyTaskName(task.title);
+    const sameSlug = seenSlugs.get(slug);
+    if (sameSlug && sameSlug.title !== task.title) {
+      add({
+        code: 'task_slug_collision',
+        severity: 'error',
+        category: 'structure',
+        message: `"${task.title}" and "${sameSlug.title}" (line ${sameSlug.startLine}) both map to the folder slug "${slug}".`,
+        startLine: task.startLine,
+        endLine: task.startLine,
+        fix: 'Rename one of the tasks so their titles differ by more than punctuation or case.',
+        task: task.order,
+      });
+    } else if (!sameSlug) {
+      seenSlugs.set(slug, task);
+    }
+
+    const declaration = declarations.get(task.order);
+    if (!declaration?.files && !FILES_PATTERN.test(task.body)) {
+      add({
+        code: 'task_files_missing',
+        severity: 'warning',
+        category: 'content',
+        message: `Task ${task.order} does not list the files it touches.`,
+        startLine: task.startLine,
+        endLine: task.endLine,
+        fix: 'Add a `**Files:**` list with `- Create:`, `- Modify:` and `- Test:` entries.',
+        task: task.order,
+      });
+    }
+    if (!declaration?.verify?.length && !VERIFY_PATTERN.test(task.body)) {
+      add({
+        code: 'task_verify_missing',
+        severity: 'warning',
+        category: 'content',
+        message: `Task ${task.order} does not say how to verify it.`,
+        startLine: task.startLine,
+        endLine: task.endLine,
+        fix: 'Add a `**Verify**:` list with the exact commands to run.',
+        task: task.order,
+      });
+    }
+  }
+
+  // Markdown dependencies; the block validates its own declarations.
+  const known = new Set(tasks.map((task) => task.order));
+  for (const task of tasks) {
+    if (task.dependsLine === null || task.dependsOn === null) continue;
+    for (const dep of task.dependsOn) {
+      if (dep === task.order) {
+        add({
+          code: 'dependency_self',
+          severity: 'error',
+          category: 'structure',
+          message: `Task ${task.order} depends on itself.`,
+          startLine: task.dependsLine,
+          endLine: task.dependsLine,
+          fix: "Remove the task's own number from its `Depends on` line.",
+          task: task.order,
+        });
+      } else if (!known.has(dep)) {
+        add({
+          code: 'dependency_unknown',
+          severity: 'error',
+          category: 'structure',
+          message: `Task ${task.order} depends on unknown task ${dep}.`,
+          startLine: task.dependsLine,
+          endLine: task.dependsLine,
+          fix: `Use one of the existing task numbers (${[...known].sort((a, b) => a - b).join(', ')}) or \`none\`.`,
+          task: task.order,
+        });
+      }
+    }
+  }
+  for (const cycle of findCycles(tasks)) {
+    const orders = cycle.map((task) => task.order);
+    add({
+      code: 'dependency_cycle',
+      severity: 'error',
+      category: 'structure',
+      message: `Dependency cycle: ${[...orders, orders[0]].join(' -> ')}.`,
+      startLine: Math.min(...cycle.map((task) => task.startLine)),
+      endLine: Math.max(...cycle.map((task) => task.endLine)),
+      fix: 'Break the cycle by removing one of these dependencies; remember a task without `Depends on` depends on the previous task.',
+      task: orders[0],
+    });
+  }
+
+  diagnostics.sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine);
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  return {
+    ok: errorCount === 0,
+    stage,
+    workflowPath: discovery.workflowPath,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
+
+/** Format diagnostics for tool and error output, one per line. */
+export function formatPlanLintDiagnostics(diagnostics: PlanLintDiagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) => {
+      const lines =
+        diagnostic.startLine === diagnostic.endLine
+          ? `line ${diagnostic.startLine}`
+          : `lines ${diagnostic.startLine}-${diagnostic.endLine}`;
+      return `- ${lines} [${diagnostic.severity}] ${diagnostic.code}: ${diagnostic.message} Fix: ${diagnostic.fix}`;
+    })
+    .join('\n');
+}
@@ -1,4 +1,5 @@
-const REQUIRED_CHECKLIST_ITEMS = [
+/** Items every `## Plan Review Checklist` must have checked before approval. */
+export const PLAN_REVIEW_CHECKLIST_ITEMS = [
   'Discovery is complete and current',
   'Scope and non-goals are explicit',
   'Risks, rollout, and verification are defined',
@@ -34,7 +35,7 @@ export function validatePlanReviewChecklist(content: string): PlanReviewResult {
     return { ok: false, issues };
   }
 
-  for (const item of REQUIRED_CHECKLIST_ITEMS) {
+  for (const item of PLAN_REVIEW_CHECKLIST_ITEMS) {
     const itemRegex = new RegExp(
       String.raw`^\s*-\s*\[[xX]\]\s*${item.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\s*$`,
       'm',
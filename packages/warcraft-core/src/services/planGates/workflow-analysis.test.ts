@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { analyzeWorkflowRequest } from './workflow-analysis.js';
+import { analyzeWorkflowRequest, type WorkflowRepositorySignals } from './workflow-analysis.js';
 
 describe('analyzeWorkflowRequest', () => {
   it('defaults to standard when request text is empty', () => {
@@ -26,3 +26,75 @@ describe('analyzeWorkflowRequest', () => {
     expect(result.workflowPath).toBe('standard');
   });
 });
+
+describe('analyzeWorkflowRequest with repository signals', () => {
+  const noSignals: WorkflowRepositorySignals = {
+    mentionedPaths: [],
+    packages: [],
+    history: { reopenRate: 0, totalCompleted: 0 },
+    similarTasks: [],
+  };
+
+  it('reports text-only confidence below certainty', () => {
+    const result = analyzeWorkflowRequest('Fix the wording in the feature-create prompt message.');
+    expect(result.confidence).toBe(0.67);
+  });
+
+  it('raises confidence and lists evidence when signals agree with the text', () => {
+    const result = analyzeWorkflowRequest('Fix the typo in src/cli.ts', {
+      ...noSignals,
+      mentionedPaths: [{ path: 'src/cli.ts', matchingFiles: 1, hasTests: true }],
+      similarTasks: [{ feature: 'docs', task: '01-fix-typo', filesChanged: 1, linesChanged: 2 }],
+    });
+
+    expect(result.workflowPath).toBe('instant');
+    expect(result.confidence).toBe(0.8);
+    expect(result.rationale).toContain('Evidence: mentioned paths match 1 file(s): src/cli.ts (1).');
+    expect(result.rationale).toContain('Evidence: every mentioned path has tests.');
+    expect(result.rationale).toContain(
+      'Evidence: 1 similar past task(s) (docs/01-fix-typo) changed a median of 1 file(s) and 2 line(s).',
+    );
+  });
+
+  it('moves a tiny-looking request to standard when it crosses packages and many files', () => {
+    const result = analyzeWorkflowRequest('Rename the logger in packages/', {
+      ...noSignals,
+      mentionedPaths: [{ path: 'packages', matchingFiles: 40, hasTests: true }],
+      packages: ['packages/core', 'packages/plugin'],
+    });
+
+    expect(result.workflowPath).toBe('standard');
+    expect(result.rationale[0]).toBe(
+      'Repository signals point to the standard path rather than the instant path the request text suggests.',
+    );
+    expect(result.rationale).toContain('Evidence: the change crosses 2 packages (packages/core, packages/plugin).');
+    expect(result.confidence).toBe(0.5);
+  });
+
+  it('treats untested files, a high reopen rate and larger past tasks as reasons for more review', () => {
+    const result = analyzeWorkflowRequest('Fix the typo in src/cli.ts', {
+      ...noSignals,
+      mentionedPaths: [{ path: 'src/cli.ts', matchingFiles: 1, hasTests: false }],
+      history: { reopenRate: 0.5, totalCompleted: 10 },
+      similarTasks: [{ feature: 'cli', task: '02-fix-cli-typo', filesChanged: 5, linesChanged: 200 }],
+    });
+
+    // instant (text + one file) ties lightweight (untested + reopen rate + past size); ties go to the safer path
+
+    expect(result.workflowPath).toBe('lightweight');
+    expect(result.rationale).toContain(
+      'Evidence: no tests found for src/cli.ts, so a direct change has no safety net.',
+    );
+    expect(result.rationale).toContain('Evidence: 50% of 10 completed tasks were reopened, so extra review pays off.');
+  });
+
+  it('ignores reopen history with too few completed tasks', () => {
+    const result = analyzeWorkflowRequest('Fix the typo in src/cli.ts', {
+      ...noSignals,
+      history: { reopenRate: 1, totalCompleted: 2 },
+    });
+
+    expect(result.workflowPath).toBe('instant');
+    expect(result.rationale.some((line) => line.includes('reopened'))).toBe(false);
+  });
+});
@@ -4,9 +4,24 @@ export type WorkflowRecommendation = WorkflowPath | 'instant';
 
 export interface WorkflowAnalysisResult {
   workflowPath: WorkflowRecommendation;
+  /** Share of the weighted evidence that supports `workflowPath`, from 0 to 1. */
+  confidence: number;
+  /** Why this path was picked, followed by one `Evidence:` line per repository signal. */
   rationale: string[];
 }
 
+/** What the repository says about a request; see `collectWorkflowSignals`. */
+export interface WorkflowRepositorySignals {
+  /** Paths mentioned in the request with the files they match and whether those files have tests. */
+  mentionedPaths: Array<{ path: string; matchingFiles: number; hasTests: boolean }>;
+  /** Workspace packages the matching files belong to. */
+  packages: string[];
+  /** Reopen rate and completed-task count from the event log. */
+  history: { reopenRate: number; totalCompleted: number };
+  /** Completed tasks from the event log whose names overlap the request, with their diff size. */
+  similarTasks: Array<{ feature: string; task: string; filesChanged: number; linesChanged: number }>;
+}
+
 const INSTANT_SIGNALS = [
   /\btypo\b/i,
   /\bwording\b/i,
@@ -43,19 +58,172 @@ const STANDARD_SIGNALS = [
   /\bbeads\b/i,
 ];
 
+const WORKFLOW_ORDER: WorkflowRecommendation[] = ['instant', 'lightweight', 'standard'];
+
+const WORKFLOW_GUIDANCE: Record<WorkflowRecommendation, string> = {
+  instant: 'Capture Background, Impact, Safety, Verify, and Rollback in the task description before dispatching.',
+  lightweight: 'Use Workflow Path: lightweight and keep the task list short and traceable.',
+  standard: 'Use the standard beads-aligned path: discovery, plan, approval, then synced tasks.',
+};
+
+/** Weight of the request-text heuristic against each repository signal (weight 1 or 1.5). */
+const TEXT_WEIGHT = 2;
+/** Weight that stands for unknowns, so text alone never reaches full confidence. */
+const UNCERTAINTY_WEIGHT = 1;
+/** Reopen rate above which history argues for one more level of review. */
+const HIGH_REOPEN_RATE = 0.2;
+/** Completed tasks needed before the reopen rate is trusted. */
+const MIN_HISTORY = 5;
+
+interface WorkflowVote {
+  path: WorkflowRecommendation;
+  weight: number;
+}
+
 function countMatches(input: string, patterns: RegExp[]): number {
   return patterns.reduce((count, pattern) => count + (pattern.test(input) ? 1 : 0), 0);
 }
 
-export function analyzeWorkflowRequest(request: string): WorkflowAnalysisResult {
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function oneLevelSafer(path: WorkflowRecommendation): WorkflowRecommendation {
+  return WORKFLOW_ORDER[Math.min(WORKFLOW_ORDER.indexOf(path) + 1, WORKFLOW_ORDER.length - 1)];
+}
+
+/** Turn repository signals into weighted votes, each with the evidence line behind it. */
+function voteFromSignals(
+  signals: WorkflowRepositorySignals,
+  textPath: WorkflowRecommendation,
+): Array<{ vote: WorkflowVote | null; evidence: string }> {
+  const results: Array<{ vote: WorkflowVote | null; evidence: string }> = [];
+
+  const matched = signals.mentionedPaths.filter((entry) => entry.matchingFiles > 0);
+  const fileCount = matched.reduce((total, entry) => total + entry.matchingFiles, 0);
+  if (signals.mentionedPaths.length > 0) {
+    const listed = signals.mentionedPaths.map((entry) => `${entry.path} (${entry.matchingFiles})`).join(', ');
+    results.push({
+      vote:
+        fileCount === 0
+          ? null
+          : fileCount === 1
+            ? { path: 'instant', weight: 1 }
+            : fileCount <= 5
+              ? { path: 'lightweight', weight: 1 }
+              : { path: 'standard', weight: 1.5 },
+      evidence: `Evidence: mentioned paths match ${fileCount} file(s): ${listed}.`,
+    });
+  }
+
+  if (matched.length > 0) {
+    const untested = matched.filter((entry) => !entry.hasTests).map((entry) => entry.path);
+    results.push(
+      untested.length > 0
+        ? {
+            vote: { path: 'lightweight', weight: 1 },
+            evidence: `Evidence: no tests found for ${untested.join(', ')}, so a direct change has no safety net.`,
+          }
+        : { vote: null, evidence: 'Evidence: every mentioned path has tests.' },
+    );
+  }
+
+  if (signals.packages.length > 0) {
+    results.push({
+      vote: signals.packages.length >= 2 ? { path: 'standard', weight: 1.5 } : null,
+      evidence:
+        signals.packages.length >= 2
+          ? `Evidence: the change crosses ${signals.packages.length} packages (${signals.packages.join(', ')}).`
+          : `Evidence: the change stays inside package ${signals.packages[0]}.`,
+    });
+  }
+
+  const { reopenRate, totalCompleted } = signals.history;
+  if (totalCompleted >= MIN_HISTORY) {
+    const percent = `${Math.round(reopenRate * 100)}%`;
+    results.push(
+      reopenRate > HIGH_REOPEN_RATE
+        ? {
+            vote: { path: oneLevelSafer(textPath), weight: 1 },
+            evidence: `Evidence: ${percent} of ${totalCompleted} completed tasks were reopened, so extra review pays off.`,
+          }
+        : { vote: null, evidence: `Evidence: ${percent} of ${totalCompleted} completed tasks were reopened.` },
+    );
+  }
+
+  if (signals.similarTasks.length > 0) {
+    const files = median(signals.similarTasks.map((task) => task.filesChanged));
+    const lines = median(signals.similarTasks.map((task) => task.linesChanged));
+    const names = signals.similarTasks
+      .slice(0, 3)
+      .map((task) => `${task.feature}/${task.task}`)
+      .join(', ');
+    results.push({
+      vote:
+        files <= 2 && lines <= 50
+          ? { path: 'instant', weight: 1 }
+          : files <= 8 && lines <= 400
+            ? { path: 'lightweight', weight: 1 }
+            : { path: 'standard', weight: 1 },
+      evidence: `Evidence: ${signals.similarTasks.length} similar past task(s) (${names}) changed a median of ${files} file(s) and ${lines} line(s).`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Recommend a workflow path for a request. The request text is classified by keywords and size;
+ * repository signals, when given, add weighted votes that can move the recommendation and set
+ * its confidence. Ties go to the safer path.
+ */
+export function analyzeWorkflowRequest(request: string, signals?: WorkflowRepositorySignals): WorkflowAnalysisResult {
   const normalized = request.trim();
   if (!normalized) {
     return {
       workflowPath: 'standard',
+      confidence: 0,
       rationale: ['No request details were provided, so default to the safer plan-first workflow.'],
     };
   }
 
+  const textAnalysis = classifyRequestText(normalized);
+  const signalVotes = signals ? voteFromSignals(signals, textAnalysis.workflowPath) : [];
+  const votes = [
+    { path: textAnalysis.workflowPath, weight: TEXT_WEIGHT },
+    ...signalVotes.flatMap((entry) => (entry.vote ? [entry.vote] : [])),
+  ];
+  const weights = new Map<WorkflowRecommendation, number>();
+  for (const vote of votes) {
+    weights.set(vote.path, (weights.get(vote.path) ?? 0) + vote.weight);
+  }
+  const workflowPath = [...WORKFLOW_ORDER]
+    .reverse()
+    .reduce<WorkflowRecommendation>(
+      (best, path) => ((weights.get(path) ?? 0) > (weights.get(best) ?? 0) ? path : best),
+      'standard',
+    );
+  const totalWeight = votes.reduce((total, vote) => total + vote.weight, 0) + UNCERTAINTY_WEIGHT;
+  const confidence = Math.round(((weights.get(workflowPath) ?? 0) / totalWeight) * 100) / 100;
+
+  const rationale =
+    workflowPath === textAnalysis.workflowPath
+      ? textAnalysis.rationale
+      : [
+          `Repository signals point to the ${workflowPath} path rather than the ${textAnalysis.workflowPath} path the request text suggests.`,
+          WORKFLOW_GUIDANCE[workflowPath],
+        ];
+  return {
+    workflowPath,
+    confidence,
+    rationale: [...rationale, ...signalVotes.map((entry) => entry.evidence)],
+  };
+}
+
+/** Classify a non-empty request from its wording and size alone. */
+function classifyRequestText(normalized: string): { workflowPath: WorkflowRecommendation; rationale: string[] } {
   const instantSignals = countMatches(normalized, INSTANT_SIGNALS);
   const standardSignals = countMatches(normalized, STANDARD_SIGNALS);
   const pathMentions = (normalized.match(/[\w-]+\/[\w./-]+/g) || []).length;
@@ -66,7 +234,7 @@ export function analyzeWorkflowRequest(request: string): WorkflowAnalysisResult
       workflowPath: 'standard',
       rationale: [
         'The request looks broad or system-level, so a reviewed plan is safer than instant execution.',
-        'Use the standard beads-aligned path: discovery, plan, approval, then synced tasks.',
+        WORKFLOW_GUIDANCE.standard,
       ],
     };
   }
@@ -77,7 +245,7 @@ export function analyzeWorkflowRequest(request: string): WorkflowAnalysisResult
         workflowPath: 'lightweight',
         rationale: [
           'The request is still small, but it touches enough visible surface area that a short reviewed plan is safer than a direct task.',
-          'Use Workflow Path: lightweight and keep the task list short and traceable.',
+          WORKFLOW_GUIDANCE.lightweight,
         ],
       };
     }
@@ -86,7 +254,7 @@ export function analyzeWorkflowRequest(request: string): WorkflowAnalysisResult
       workflowPath: 'instant',
       rationale: [
         'The request looks tiny and self-contained, so a direct manual task can likely replace a formal plan.',
-        'Capture Background, Impact, Safety, Verify, and Rollback in the task description before dispatching.',
+        WORKFLOW_GUIDANCE.instant,
       ],
     };
   }
@@ -95,7 +263,7 @@ export function analyzeWorkflowRequest(request: string): WorkflowAnalysisResult
     workflowPath: 'lightweight',
     rationale: [
       'The request is small enough to avoid a full plan, but still benefits from a lightweight reviewed plan.',
-      'Use Workflow Path: lightweight and keep the task list short and traceable.',
+      WORKFLOW_GUIDANCE.lightweight,
     ],
   };
 }
@@ -2,12 +2,14 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import type { PlanRevision } from '../types.js';
 import { PlanService } from './planService.js';
 import type { PlanStore } from './state/types.js';
 
 function createMockPlanStore(overrides: Partial<PlanStore> = {}): PlanStore {
   let approved = false;
   let approvedContent = '';
+  const revisions: PlanRevision[] = [];
   return {
     approve: (_f, content) => {
       approved = true;
@@ -19,6 +21,14 @@ function createMockPlanStore(overrides: Partial<PlanStore> = {}): PlanStore {
       approvedContent = '';
     },
     syncPlanDescription: () => {},
+    appendRevision: (_f, revision) => {
+      revisions.push({ ...revision });
+    },
+    recordRevisionApproval: (_f, revision, timestamp, approvedBy) => {
+      const entry = revisions.find((r) => r.revision === revision);
+      if (entry) Object.assign(entry, { approvedAt: timestamp, approvedBy });
+    },
+    listRevisions: () => revisions.map((r) => ({ ...r })),
     ...overrides,
   };
 }
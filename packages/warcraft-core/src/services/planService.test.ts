@@ -18,6 +18,7 @@ class MockBeadsRepository {
   // Internal storage for round-trip tests
   private labels = new Map<string, Set<string>>();
   private descriptions = new Map<string, string>();
+  private comments = new Map<string, Array<{ id: string; body: string }>>();
 
   getEpicByFeatureName(_name: string, _cache: boolean) {
     return { success: true as const, value: 'epic-1' };
@@ -51,6 +52,17 @@ class MockBeadsRepository {
   getPlanDescription(beadId: string) {
     return { success: true as const, value: this.descriptions.get(beadId) ?? null };
   }
+
+  appendComment(beadId: string, body: string) {
+    const comments = this.comments.get(beadId) ?? [];
+    comments.push({ id: String(comments.length + 1), body });
+    this.comments.set(beadId, comments);
+    return { success: true as const, value: undefined };
+  }
+
+  getComments(beadId: string) {
+    return { success: true as const, value: this.comments.get(beadId) ?? [] };
+  }
 }
 
 let testRoot = '';
@@ -452,3 +464,75 @@ describe('PlanService bead-backed approval (beadsMode: on)', () => {
     expect(outcome.diagnostics[0].message).toContain('no-plan');
   });
 });
+
+describe.each(['off', 'on'] as const)('PlanService revision history (beadsMode: %s)', (mode) => {
+  function createService(): PlanService {
+    const stores = createStores(testRoot, mode, new MockBeadsRepository() as any);
+    return new PlanService(testRoot, stores.planStore, mode);
+  }
+
+  it('snapshots every changed write and keeps the pre-history plan as the baseline', () => {
+    setupFeature('feature-h');
+    const service = createService();
+
+    service.write('feature-h', '# Plan v2', { agent: 'mimiron', sessionId: 'sess-1' });
+    service.write('feature-h', '# Plan v2', { agent: 'mimiron', sessionId: 'sess-1' });
+    service.write('feature-h', '# Plan v3');
+
+    const revisions = service.listRevisions('feature-h');
+    expect(revisions.map((r) => [r.revision, r.content])).toEqual([
+      [1, '# Plan'],
+      [2, '# Plan v2'],
+      [3, '# Plan v3'],
+    ]);
+    expect(revisions[1].writtenBy).toEqual({ agent: 'mimiron', sessionId: 'sess-1' });
+  });
+
+  it('records the approver on the approved revision and diffs it against the current draft', () => {
+    setupFeature('feature-i');
+    const service = createService();
+
+    service.write('feature-i', '# Plan\n\n- step one\n');
+    service.approve('feature-i', 'sess-2', undefined, 'khadgar');
+    service.write('feature-i', '# Plan\n\n- step one\n- step two\n');
+
+    const approved = service.getLastApprovedRevision('feature-i');
+    expect(approved?.revision).toBe(2);
+    expect(approved?.approvedBy).toEqual({ agent: 'khadgar', sessionId: 'sess-2' });
+    expect(typeof approved?.approvedAt).toBe('string');
+
+    const diff = service.diffRevisions('feature-i', 2);
+    expect(diff).toMatchObject({ from: 2, to: null, added: 1, removed: 0 });
+    expect(diff?.diff).toContain('+- step two');
+    expect(service.diffRevisions('feature-i', 1, 2)?.diff).toContain('--- revision 1\n+++ revision 2');
+    expect(service.diffRevisions('feature-i', 9)).toBeNull();
+  });
+
+  it('snapshots a plan edited outside write() when it is approved', () => {
+    setupFeature('feature-j');
+    const service = createService();
+
+    service.approve('feature-j');
+
+    const revisions = service.listRevisions('feature-j');
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]).toMatchObject({ revision: 1, content: '# Plan' });
+    expect(revisions[0].approvedAt).toBeDefined();
+  });
+
+  it('extracts review comments on read and resolves them as a new revision', () => {
+    setupFeature('feature-k');
+    const service = createService();
+    service.write('feature-k', '# Plan\n\n### 1. Setup\n<!-- REVIEW @alice: Pin the version -->\n');
+
+    const [comment] = service.read('feature-k')?.comments ?? [];
+    expect(comment).toMatchObject({ anchor: '1. Setup', author: 'alice', resolved: false });
+
+    const result = service.resolveComments('feature-k', [comment.id, 'c000000'], { agent: 'mimiron' });
+
+    expect(result).toEqual({ resolved: [comment.id], alreadyResolved: [], notFound: ['c000000'] });
+    expect(service.read('feature-k')?.comments[0]).toMatchObject({ resolved: true, resolvedBy: 'mimiron' });
+    expect(service.listRevisions('feature-k').at(-1)?.writtenBy).toEqual({ agent: 'mimiron' });
+    expect(service.resolveComments('missing', [comment.id])).toBeNull();
+  });
+});
@@ -1,10 +1,18 @@
-import type { BeadsMode, PlanReadResult } from '../types.js';
+import type { BeadsMode, PlanActor, PlanReadResult, PlanRevision } from '../types.js';
 import { fileExists, readText, writeText } from '../utils/fs.js';
+import { diffLines, type LineDiffResult } from '../utils/line-diff.js';
 import { getPlanPath } from '../utils/paths.js';
 import type { OperationOutcome } from './outcomes.js';
 import { diagnostic, fatal, okVoid } from './outcomes.js';
+import { parsePlanComments, type ResolvePlanCommentsResult, resolvePlanComments } from './planGates/plan-comments.js';
 import type { PlanStore } from './state/types.js';
 
+/** Diff between two plan revisions; `to: null` means the current plan.md. */
+export interface PlanRevisionDiff extends LineDiffResult {
+  from: number;
+  to: number | null;
+}
+
 export class PlanService {
   constructor(
     private projectRoot: string,
@@ -12,7 +20,7 @@ export class PlanService {
     private readonly beadsMode: BeadsMode = 'on',
   ) {}
 
-  write(featureName: string, content: string): string {
+  write(featureName: string, content: string, writtenBy?: PlanActor): string {
     const planPath = getPlanPath(this.projectRoot, featureName, this.beadsMode);
 
     // Check if plan content actually changed (for approval invalidation)
@@ -20,6 +28,7 @@ export class PlanService {
     const contentChanged = currentContent !== null && currentContent !== content;
 
     writeText(planPath, content);
+    this.snapshotRevision(featureName, currentContent, content, writtenBy);
 
     // Invalidate approval if plan changed
     if (contentChanged) {
@@ -43,14 +52,34 @@ export class PlanService {
     return {
       content,
       status: isApproved ? 'approved' : 'planning',
+      comments: parsePlanComments(content),
     };
   }
 
+  /**
+   * Mark inline review comments resolved and write the plan back.
+   * Returns null when the plan does not exist. The write goes through `write`, so it is recorded as a revision.
+   */
+  resolveComments(
+    featureName: string,
+    ids: string[],
+    resolvedBy?: PlanActor,
+  ): Omit<ResolvePlanCommentsResult, 'content'> | null {
+    const content = readText(getPlanPath(this.projectRoot, featureName, this.beadsMode));
+    if (content === null) return null;
+
+    const { content: next, ...result } = resolvePlanComments(content, ids, resolvedBy?.agent);
+    if (result.resolved.length > 0) {
+      this.write(featureName, next, resolvedBy);
+    }
+    return result;
+  }
+
   /**
    * Approve the current plan.
    * Optionally accepts already-read plan content to avoid re-reading plan.md.
    */
-  approve(featureName: string, sessionId?: string, preloadedContent?: string): OperationOutcome<void> {
+  approve(featureName: string, sessionId?: string, preloadedContent?: string, agent?: string): OperationOutcome<void> {
     let planContent = preloadedContent ?? null;
 
     if (planContent === null) {
@@ -66,9 +95,60 @@ export class PlanService {
 
     const timestamp = new Date().toISOString();
     this.store.approve(featureName, planContent, timestamp, sessionId);
+
+    // Plans edited outside warcraft_plan_write have no revision yet; snapshot them before recording approval.
+    const revisions = this.store.listRevisions(featureName);
+    let approved = [...revisions].reverse().find((revision) => revision.content === planContent);
+    if (!approved) {
+      approved = { revision: (revisions.at(-1)?.revision ?? 0) + 1, content: planContent, createdAt: timestamp };
+      this.store.appendRevision(featureName, approved);
+    }
+    this.store.recordRevisionApproval(
+      featureName,
+      approved.revision,
+      timestamp,
+      sessionId || agent ? { ...(agent ? { agent } : {}), ...(sessionId ? { sessionId } : {}) } : undefined,
+    );
     return okVoid();
   }
 
+  /** All plan revisions, oldest first. */
+  listRevisions(featureName: string): PlanRevision[] {
+    return this.store.listRevisions(featureName);
+  }
+
+  /** The most recently approved revision, or null when no revision was approved yet. */
+  getLastApprovedRevision(featureName: string): PlanRevision | null {
+    return [...this.store.listRevisions(featureName)].reverse().find((revision) => revision.approvedAt) ?? null;
+  }
+
+  /**
+   * Diff two revisions. Omit `to` to compare against the current plan.md (the draft under review).
+   * Returns null when a revision or the plan does not exist.
+   */
+  diffRevisions(featureName: string, from: number, to?: number): PlanRevisionDiff | null {
+    const revisions = this.store.listRevisions(featureName);
+    const fromRevision = revisions.find((revision) => revision.revision === from);
+    if (!fromRevision) return null;
+
+    let toContent: string | null;
+    if (to === undefined) {
+      toContent = readText(getPlanPath(this.projectRoot, featureName, this.beadsMode));
+    } else {
+      toContent = revisions.find((revision) => revision.revision === to)?.content ?? null;
+    }
+    if (toContent === null) return null;
+
+    return {
+      from,
+      to: to ?? null,
+      ...diffLines(fromRevision.content, toContent, {
+        oldLabel: `revision ${from}`,
+        newLabel: to === undefined ? 'plan.md (current)' : `revision ${to}`,
+      }),
+    };
+  }
+
   isApproved(featureName: string): boolean {
     const planPath = getPlanPath(this.projectRoot, featureName, this.beadsMode);
     if (!fileExists(planPath)) {
@@ -85,4 +165,24 @@ export class PlanService {
   revokeApproval(featureName: string): void {
     this.store.revokeApproval(featureName);
   }
+
+  /** Record `content` as a new revision unless it matches the latest one. */
+  private snapshotRevision(
+    featureName: string,
+    previousContent: string | null,
+    content: string,
+    writtenBy?: PlanActor,
+  ): void {
+    const latest = this.store.listRevisions(featureName).at(-1);
+    if (latest?.content === content) return;
+
+    const createdAt = new Date().toISOString();
+    let revision = (latest?.revision ?? 0) + 1;
+    if (!latest && previousContent !== null && previousContent !== content) {
+      // Plans written before revision history existed keep their text as the baseline revision.
+      this.store.appendRevision(featureName, { revision, content: previousContent, createdAt });
+      revision++;
+    }
+    this.store.appendRevision(featureName, { revision, content, createdAt, ...(writtenBy ? { writtenBy } : {}) });
+  }
 }
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { dependsOnNumbers, scanPlanTaskSections } from './planTaskSections.js';
+
+describe('scanPlanTaskSections', () => {
+  it('locates task sections and ends them at the next task, ## or unnumbered ### heading', () => {
+    const lines = [
+      '# Plan',
+      '## Tasks',
+      '### 1. Setup',
+      'Install deps.',
+      '### 2. Build',
+      'Build it.',
+      '### Notes',
+      'Not a task.',
+      '### 3. Ship',
+      '## Appendix',
+    ];
+
+    expect(scanPlanTaskSections(lines).map(({ order, title, start, end }) => ({ order, title, start, end }))).toEqual([
+      { order: 1, title: 'Setup', start: 2, end: 4 },
+      { order: 2, title: 'Build', start: 4, end: 6 },
+      { order: 3, title: 'Ship', start: 8, end: 9 },
+    ]);
+  });
+
+  it('reads the last Depends on line of a section without markdown', () => {
+    const [first, second] = scanPlanTaskSections([
+      '### 1. Setup',
+      '**Depends on**: none',
+      '### 2. Build',
+      '- Depends on: 1',
+      '* **Depends on**: `1`, other-feature/01-api',
+    ]);
+
+    expect(first).toMatchObject({ dependsOn: [], dependsLine: 1 });
+    expect(second).toMatchObject({ dependsOn: ['1', 'other-feature/01-api'], dependsLine: 4 });
+    expect(dependsOnNumbers(second.dependsOn ?? [])).toEqual([1]);
+  });
+
+  it('ignores headings and Depends on lines inside fenced code', () => {
+    const sections = scanPlanTaskSections([
+      '### 1. Docs',
+      '````markdown',
+      '## Example',
+      '```',
+      '### 9. Not a task',
+      '```',
+      'Depends on: 7',
+      '````',
+      'Still task 1.',
+      '~~~',
+      '### 8. Not a task either',
+      '~~~',
+    ]);
+
+    expect(sections).toEqual([{ order: 1, title: 'Docs', start: 0, end: 12, dependsOn: null, dependsLine: null }]);
+  });
+
+  it('leaves dependsOn null when a section declares none', () => {
+    expect(scanPlanTaskSections(['### 1. Setup', 'Install deps.'])[0]).toMatchObject({
+      dependsOn: null,
+      dependsLine: null,
+    });
+  });
+});
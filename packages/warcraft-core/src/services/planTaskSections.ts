@@ -0,0 +1,92 @@
+/**
+ * The markdown task grammar of plan.md, shared by task sync, plan lint and plan amendments:
+ * a task is a `### N. Title` section that runs until the next task heading, a `##` heading or an
+ * unnumbered `###` heading. Headings and `Depends on` lines inside fenced code blocks are ignored.
+ */
+
+export const TASK_HEADING_PATTERN = /^###\s+(\d+)\.\s+(.+)$/;
+// "Depends on:" or "**Depends on**:", optionally as a list item ("- Depends on:", "* **Depends on**:").
+export const DEPENDS_ON_PATTERN = /^\s*(?:[-*]\s+)?\*{0,2}Depends\s+on\*{0,2}\s*:\s*(.+)$/i;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+export interface PlanTaskSection {
+  order: number;
+  title: string;
+  /** 0-based index of the `### N.` heading line. */
+  start: number;
+  /** 0-based index one past the last line of the section. */
+  end: number;
+  /**
+   * Entries of the last `Depends on` line, without markdown; `[]` for "none" and null when the
+   * section has no such line. Entries containing `/` name tasks of other features.
+   */
+  dependsOn: string[] | null;
+  /** 0-based index of that `Depends on` line, or null. */
+  dependsLine: number | null;
+}
+
+function isSectionEnd(line: string): boolean {
+  return /^##\s+/.test(line) || /^###\s+[^0-9]/.test(line);
+}
+
+function parseDependsOnValue(raw: string): string[] {
+  const value = raw.replace(/\*+/g, '').trim();
+  if (value.toLowerCase() === 'none') return [];
+  return value
+    .split(/[,\s]+/)
+    .map((entry) => entry.replace(/`/g, '').trim())
+    .filter(Boolean);
+}
+
+/** Locate the `### N. Title` task sections of a plan split into lines. */
+export function scanPlanTaskSections(lines: string[]): PlanTaskSection[] {
+  const sections: PlanTaskSection[] = [];
+  let current: PlanTaskSection | null = null;
+  // Marker of the open code fence, if any; a fence closes with at least as many of the same characters.
+  let fence: string | null = null;
+  lines.forEach((line, index) => {
+    const fenceMarker = line.match(FENCE_PATTERN)?.[1];
+    if (fence !== null) {
+      if (fenceMarker?.[0] === fence[0] && fenceMarker.length >= fence.length && line.trim() === fenceMarker) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMarker) {
+      fence = fenceMarker;
+      return;
+    }
+    const heading = line.match(TASK_HEADING_PATTERN);
+    if (current && (heading || isSectionEnd(line))) {
+      current.end = index;
+      sections.push(current);
+      current = null;
+    }
+    if (heading) {
+      current = {
+        order: parseInt(heading[1], 10),
+        title: heading[2].trim(),
+        start: index,
+        end: lines.length,
+        dependsOn: null,
+        dependsLine: null,
+      };
+      return;
+    }
+    const depends = current ? line.match(DEPENDS_ON_PATTERN) : null;
+    if (current && depends) {
+      current.dependsOn = parseDependsOnValue(depends[1]);
+      current.dependsLine = index;
+    }
+  });
+  if (current) sections.push(current);
+  return sections;
+}
+
+/** Task numbers among `Depends on` entries, leaving out cross-feature references. */
+export function dependsOnNumbers(entries: string[]): number[] {
+  return entries
+    .filter((entry) => !entry.includes('/'))
+    .map((entry) => parseInt(entry, 10))
+    .filter((n) => !Number.isNaN(n));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'bun:test';
+import { formatPlanTasksBlockIssues, parsePlanTasksBlock, replacePlanTasksBlock } from './planTasksBlock.js';
+
+function plan(block: string, sections = '### 1. Setup\n\nInstall deps.\n\n### 2. Build\n\nBuild it.\n'): string {
+  return `# Plan\n\n## Task Manifest\n\n\`\`\`warcraft-tasks\n${block}\n\`\`\`\n\n## Tasks\n\n${sections}`;
+}
+
+const VALID = `{
+  "tasks": [
+    { "order": 1, "title": "Setup", "files": { "create": ["package.json"] }, "verify": ["bun install"] },
+    { "order": 2, "title": "Build", "dependsOn": [1], "acceptance": ["dist/ is produced"] }
+  ]
+}`;
+
+describe('parsePlanTasksBlock', () => {
+  it('returns no tasks and no issues for plans without a block', () => {
+    expect(parsePlanTasksBlock('# Plan\n\n### 1. Setup\n')).toEqual({ tasks: null, issues: [] });
+  });
+
+  it('parses declared tasks', () => {
+    const result = parsePlanTasksBlock(plan(VALID));
+
+    expect(result.issues).toEqual([]);
+    expect(result.tasks).toEqual([
+      { order: 1, title: 'Setup', files: { create: ['package.json'] }, verify: ['bun install'] },
+      { order: 2, title: 'Build', dependsOn: [1], acceptance: ['dist/ is produced'] },
+    ]);
+  });
+
+  it('reports JSON syntax errors at their plan.md line', () => {
+    const result = parsePlanTasksBlock(plan('{\n  "tasks": [\n    { "order": 1 "title": "Setup" }\n  ]\n}'));
+
+    expect(result.tasks).toBeNull();
+    expect(result.issues).toEqual([{ line: 8, message: "Invalid JSON: Expected '}' but found '\"' (column 18)." }]);
+  });
+
+  it('reports schema problems with their path and line', () => {
+    const block = `{
+  "tasks": [
+    { "order": 1, "title": "Setup", "owner": "me" },
+    { "order": 2, "title": "Build", "dependsOn": [2, 7], "verify": "bun test" }
+  ]
+}`;
+    const result = parsePlanTasksBlock(plan(block));
+
+    expect(result.tasks).toBeNull();
+    expect(result.issues).toEqual([
+      { line: 8, path: 'tasks[0].owner', message: 'Unknown field "owner".' },
+      { line: 9, path: 'tasks[1].verify', message: '"verify" must be an array of non-empty strings.' },
+      { line: 9, path: 'tasks[1].dependsOn', message: 'Task 2 cannot depend on itself.' },
+      { line: 9, path: 'tasks[1].dependsOn', message: 'Task 2 depends on undeclared task 7.' },
+    ]);
+  });
+
+  it('requires the block and the markdown headings to agree', () => {
+    const block = '{ "tasks": [{ "order": 1, "title": "Bootstrap" }, { "order": 3, "title": "Ship" }] }';
+    const result = parsePlanTasksBlock(plan(block));
+
+    expect(result.issues.map((issue) => issue.message)).toEqual([
+      'Task 3 has no "### 3. Ship" section.',
+      'Task 1 is titled "Bootstrap" in the block but "Setup" in its heading.',
+      'Task 2 is missing from the warcraft-tasks block.',
+    ]);
+  });
+
+  it('does not treat headings in fenced code as tasks', () => {
+    const sections = '### 1. Setup\n\n```markdown\n### 3. Example heading\n```\n\n### 2. Build\n\nBuild it.\n';
+
+    expect(parsePlanTasksBlock(plan(VALID, sections)).issues).toEqual([]);
+  });
+
+  it('rejects unclosed and repeated blocks', () => {
+    expect(parsePlanTasksBlock('# Plan\n\n```warcraft-tasks\n{}\n').issues).toEqual([
+      { line: 3, message: 'The warcraft-tasks block is not closed.' },
+    ]);
+
+    const twice = `${plan(VALID)}\n\`\`\`warcraft-tasks\n${VALID}\n\`\`\`\n`;
+    expect(parsePlanTasksBlock(twice).issues[0].message).toBe('Only one warcraft-tasks block is allowed.');
+  });
+});
+
+describe('formatPlanTasksBlockIssues', () => {
+  it('lists each issue with its line and path', () => {
+    expect(
+      formatPlanTasksBlockIssues([
+        { line: 8, path: 'tasks[0].order', message: '"order" must be a positive integer.' },
+        { line: 12, message: 'Task 2 is missing from the warcraft-tasks block.' },
+      ]),
+    ).toBe(
+      [
+        'Invalid warcraft-tasks block in plan.md:',
+        '- line 8 (tasks[0].order): "order" must be a positive integer.',
+        '- line 12: Task 2 is missing from the warcraft-tasks block.',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('replacePlanTasksBlock', () => {
+  it('rewrites the declarations inside the existing fence', () => {
+    const content = replacePlanTasksBlock(plan(VALID), [{ order: 1, title: 'Setup' }]);
+
+    expect(content).toContain('```warcraft-tasks\n{\n  "tasks": [\n    {\n      "order": 1,');
+    expect(content).toContain('## Tasks\n\n### 1. Setup');
+    expect(parsePlanTasksBlock(content).tasks).toBeNull();
+  });
+});
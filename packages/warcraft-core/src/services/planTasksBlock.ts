@@ -0,0 +1,225 @@
+import type { PlanTaskDeclaration, PlanTaskFiles, PlanTasksBlockIssue } from '../types.js';
+import { JsonSyntaxError, parseJsonWithLines } from '../utils/json-lines.js';
+import { scanPlanTaskSections } from './planTaskSections.js';
+
+/** Info string of the fenced block that declares plan tasks as JSON. */
+export const PLAN_TASKS_BLOCK_LANG = 'warcraft-tasks';
+
+const FENCE_OPEN_PATTERN = new RegExp(`^(\`\`\`|~~~)\\s*${PLAN_TASKS_BLOCK_LANG}\\s*$`);
+const TASK_KEYS = new Set(['order', 'title', 'dependsOn', 'files', 'verify', 'acceptance']);
+const FILE_KEYS = new Set(['create', 'modify', 'test']);
+
+export interface PlanTasksBlockResult {
+  /** Declared tasks; null when the plan has no block or the block has issues. */
+  tasks: PlanTaskDeclaration[] | null;
+  issues: PlanTasksBlockIssue[];
+}
+
+interface BlockLocation {
+  /** 0-based index of the opening fence line. */
+  open: number;
+  /** 0-based index of the closing fence line. */
+  close: number;
+}
+
+function locateBlocks(lines: string[]): { blocks: BlockLocation[]; issues: PlanTasksBlockIssue[] } {
+  const blocks: BlockLocation[] = [];
+  const issues: PlanTasksBlockIssue[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const open = lines[index].match(FENCE_OPEN_PATTERN);
+    if (!open) continue;
+    const close = lines.findIndex((line, i) => i > index && line.trim() === open[1]);
+    if (close === -1) {
+      issues.push({ line: index + 1, message: `The ${PLAN_TASKS_BLOCK_LANG} block is not closed.` });
+      break;
+    }
+    blocks.push({ open: index, close });
+    index = close;
+  }
+  if (blocks.length > 1) {
+    issues.push({ line: blocks[1].open + 1, message: `Only one ${PLAN_TASKS_BLOCK_LANG} block is allowed.` });
+  }
+  return { blocks, issues };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+function validateDeclarations(
+  value: unknown,
+  lineOf: (path: string) => number,
+): { tasks: PlanTaskDeclaration[]; issues: PlanTasksBlockIssue[] } {
+  const issues: PlanTasksBlockIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ line: lineOf(path), path, message });
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issue('', 'The block must be a JSON object with a "tasks" array.');
+    return { tasks: [], issues };
+  }
+  const root = value as Record<string, unknown>;
+  for (const key of Object.keys(root)) {
+    if (key !== 'tasks') issue(key, `Unknown field "${key}".`);
+  }
+  if (!Array.isArray(root.tasks) || root.tasks.length === 0) {
+    issue(root.tasks === undefined ? '' : 'tasks', '"tasks" must be a non-empty array.');
+    return { tasks: [], issues };
+  }
+
+  const tasks: PlanTaskDeclaration[] = [];
+  root.tasks.forEach((raw, index) => {
+    const path = `tasks[${index}]`;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      issue(path, 'Each task must be an object.');
+      return;
+    }
+    const entry = raw as Record<string, unknown>;
+    for (const key of Object.keys(entry)) {
+      if (!TASK_KEYS.has(key)) issue(`${path}.${key}`, `Unknown field "${key}".`);
+    }
+    if (!Number.isInteger(entry.order) || (entry.order as number) < 1) {
+      issue(entry.order === undefined ? path : `${path}.order`, '"order" must be a positive integer.');
+      return;
+    }
+    if (typeof entry.title !== 'string' || entry.title.trim().length === 0) {
+      issue(entry.title === undefined ? path : `${path}.title`, '"title" must be a non-empty string.');
+      return;
+    }
+
+    const declaration: PlanTaskDeclaration = { order: entry.order as number, title: entry.title.trim() };
+    if (entry.dependsOn !== undefined) {
+      if (!Array.isArray(entry.dependsOn) || !entry.dependsOn.every((dep) => Number.isInteger(dep))) {
+        issue(`${path}.dependsOn`, '"dependsOn" must be an array of task numbers.');
+      } else {
+        declaration.dependsOn = entry.dependsOn as number[];
+      }
+    }
+    if (entry.files !== undefined) {
+      if (typeof entry.files !== 'object' || entry.files === null || Array.isArray(entry.files)) {
+        issue(`${path}.files`, '"files" must be an object with create, modify and test arrays.');
+      } else {
+        const files: PlanTaskFiles = {};
+        for (const [key, list] of Object.entries(entry.files)) {
+          if (!FILE_KEYS.has(key)) {
+            issue(`${path}.files.${key}`, `Unknown file kind "${key}"; use create, modify or test.`);
+          } else if (!isStringArray(list)) {
+            issue(`${path}.files.${key}`, `"files.${key}" must be an array of paths.`);
+          } else {
+            files[key as keyof PlanTaskFiles] = list;
+          }
+        }
+        declaration.files = files;
+      }
+    }
+    for (const key of ['verify', 'acceptance'] as const) {
+      if (entry[key] === undefined) continue;
+      if (isStringArray(entry[key])) {
+        declaration[key] = entry[key];
+      } else {
+        issue(`${path}.${key}`, `"${key}" must be an array of non-empty strings.`);
+      }
+    }
+    tasks.push(declaration);
+  });
+
+  const indexByOrder = new Map<number, number>();
+  tasks.forEach((task, index) => {
+    if (indexByOrder.has(task.order)) {
+      issue(`tasks[${index}].order`, `Task number ${task.order} is declared more than once.`);
+    }
+    indexByOrder.set(task.order, index);
+  });
+  tasks.forEach((task, index) => {
+    for (const dep of task.dependsOn ?? []) {
+      if (dep === task.order) {
+        issue(`tasks[${index}].dependsOn`, `Task ${task.order} cannot depend on itself.`);
+      } else if (!indexByOrder.has(dep)) {
+        issue(`tasks[${index}].dependsOn`, `Task ${task.order} depends on undeclared task ${dep}.`);
+      }
+    }
+  });
+
+  return { tasks, issues };
+}
+
+/**
+ * Parse and validate the optional `warcraft-tasks` block of a plan.
+ *
+ * The block is JSON inside a fenced code block and declares each task's number, title, dependencies,
+ * files, verify commands and acceptance criteria. Every declared task must have a matching
+ * `### N. Title` heading; the markdown stays the human view of the same tasks.
+ */
+export function parsePlanTasksBlock(content: string): PlanTasksBlockResult {
+  const lines = content.split('\n');
+  const { blocks, issues } = locateBlocks(lines);
+  if (blocks.length === 0) {
+    return { tasks: null, issues };
+  }
+
+  const { open, close } = blocks[0];
+  let parsed: ReturnType<typeof parseJsonWithLines>;
+  try {
+    parsed = parseJsonWithLines(lines.slice(open + 1, close).join('\n'));
+  } catch (error) {
+    if (!(error instanceof JsonSyntaxError)) throw error;
+    const message = error.message.replace(/ \(line \d+, column \d+\)$/, '');
+    issues.push({ line: open + 1 + error.line, message: `Invalid JSON: ${message} (column ${error.column}).` });
+    return { tasks: null, issues };
+  }
+
+  const lineOf = (path: string) => open + 1 + (parsed.lines.get(path) ?? 1);
+  const validated = validateDeclarations(parsed.value, lineOf);
+  issues.push(...validated.issues);
+
+  // The markdown headings are the human view of the same tasks; they must agree.
+  // Headings in fenced code (including the block itself) are not tasks.
+  const headings = new Map<number, { title: string; line: number }>();
+  for (const section of scanPlanTaskSections(lines)) {
+    headings.set(section.order, { title: section.title, line: section.start + 1 });
+  }
+  validated.tasks.forEach((task, index) => {
+    const heading = headings.get(task.order);
+    if (!heading) {
+      issues.push({
+        line: lineOf(`tasks[${index}]`),
+        path: `tasks[${index}]`,
+        message: `Task ${task.order} has no "### ${task.order}. ${task.title}" section.`,
+      });
+    } else if (heading.title !== task.title) {
+      issues.push({
+        line: heading.line,
+        path: `tasks[${index}].title`,
+        message: `Task ${task.order} is titled "${task.title}" in the block but "${heading.title}" in its heading.`,
+      });
+    }
+  });
+  const declared = new Set(validated.tasks.map((task) => task.order));
+  for (const [order, heading] of headings) {
+    if (!declared.has(order)) {
+      issues.push({ line: heading.line, message: `Task ${order} is missing from the ${PLAN_TASKS_BLOCK_LANG} block.` });
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { tasks: issues.length === 0 ? validated.tasks : null, issues };
+}
+
+/** Format block issues for tool and error output, one per line. */
+export function formatPlanTasksBlockIssues(issues: PlanTasksBlockIssue[]): string {
+  return [
+    `Invalid ${PLAN_TASKS_BLOCK_LANG} block in plan.md:`,
+    ...issues.map((issue) => `- line ${issue.line}${issue.path ? ` (${issue.path})` : ''}: ${issue.message}`),
+  ].join('\n');
+}
+
+/**
+ * Replace the declarations of an existing `warcraft-tasks` block, keeping its fence.
+ * Returns the content unchanged when the plan has no block.
+ */
+export function replacePlanTasksBlock(content: string, tasks: PlanTaskDeclaration[]): string {
+  const lines = content.split('\n');
+  const block = locateBlocks(lines).blocks[0];
+  if (!block) return content;
+  const json = JSON.stringify({ tasks }, null, 2).split('\n');
+  return [...lines.slice(0, block.open + 1), ...json, ...lines.slice(block.close)].join('\n');
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilesystemForgeAdapter } from './filesystem-forge-adapter.js';
+
+describe('FilesystemForgeAdapter', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'forge-adapter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('records each pull request as a numbered JSON file', async () => {
+    const outputDir = path.join(testDir, 'prs');
+    const adapter = new FilesystemForgeAdapter(outputDir);
+
+    const first = await adapter.openPullRequest({
+      feature: 'auth',
+      task: '01-login',
+      title: '[auth] Login',
+      body: '## Summary\n\nAdds login.',
+      headBranch: 'warcraft/auth/01-login',
+      baseBranch: 'main',
+    });
+    const second = await adapter.openPullRequest({
+      feature: 'auth',
+      title: '[auth] 2 tasks',
+      body: 'Whole feature',
+      headBranch: 'warcraft/auth/integration',
+    });
+
+    expect(first).toMatchObject({ forge: 'filesystem', id: '1' });
+    expect(second.id).toBe('2');
+    expect(first.url).toStartWith('file://');
+    const recorded = JSON.parse(fs.readFileSync(path.join(outputDir, '1.json'), 'utf-8'));
+    expect(recorded).toMatchObject({
+      id: '1',
+      feature: 'auth',
+      task: '01-login',
+      title: '[auth] Login',
+      headBranch: 'warcraft/auth/01-login',
+      baseBranch: 'main',
+    });
+    expect(typeof recorded.openedAt).toBe('string');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Filesystem stand-in for a forge.
+ *
+ * Records each pull request as a JSON file instead of calling a code-review host,
+ * so tests and offline setups can exercise the forge path end to end.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { ForgeAdapter, PullRequestDraft, PullRequestSubmission } from './forge-adapter.js';
+
+export class FilesystemForgeAdapter implements ForgeAdapter {
+  readonly name = 'filesystem';
+
+  constructor(private readonly outputDir: string) {}
+
+  async openPullRequest(draft: PullRequestDraft): Promise<PullRequestSubmission> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const existing = await fs.readdir(this.outputDir);
+    const number = existing.filter((name) => /^\d+\.json$/.test(name)).length + 1;
+    const id = String(number);
+    const filePath = path.join(this.outputDir, `${id}.json`);
+    await fs.writeFile(
+      filePath,
+      `${JSON.stringify({ id, ...draft, openedAt: new Date().toISOString() }, null, 2)}\n`,
+      'utf-8',
+    );
+    return { forge: this.name, id, url: pathToFileURL(filePath).href };
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'bun:test';
+import * as path from 'path';
+import { FilesystemForgeAdapter } from './filesystem-forge-adapter.js';
+import { createForgeAdapter } from './forge-adapter-factory.js';
+
+describe('createForgeAdapter', () => {
+  it('returns no adapter when no forge is configured', () => {
+    expect(createForgeAdapter('/project', null)).toBeUndefined();
+  });
+
+  it('resolves the filesystem forge directory against the project root', async () => {
+    const adapter = createForgeAdapter('/project', { adapter: 'filesystem' });
+    expect(adapter).toBeInstanceOf(FilesystemForgeAdapter);
+    expect((adapter as unknown as { outputDir: string }).outputDir).toBe(
+      path.join('/project', '.beads', 'pull-requests'),
+    );
+
+    const custom = createForgeAdapter('/project', { adapter: 'filesystem', outputDir: 'review/prs' });
+    expect((custom as unknown as { outputDir: string }).outputDir).toBe(path.join('/project', 'review', 'prs'));
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Builds the forge adapter selected by the `forge` config section.
+ */
+
+import * as path from 'node:path';
+import type { ForgeConfig } from '../../types.js';
+import { FilesystemForgeAdapter } from './filesystem-forge-adapter.js';
+import type { ForgeAdapter } from './forge-adapter.js';
+
+/** Default directory of the filesystem forge, relative to the project root. */
+export const DEFAULT_FILESYSTEM_FORGE_DIR = path.join('.beads', 'pull-requests');
+
+/** Create the configured forge adapter, or undefined when no forge is configured. */
+export function createForgeAdapter(projectRoot: string, config: ForgeConfig | null): ForgeAdapter | undefined {
+  switch (config?.adapter) {
+    case 'filesystem':
+      return new FilesystemForgeAdapter(path.resolve(projectRoot, config.outputDir ?? DEFAULT_FILESYSTEM_FORGE_DIR));
+    default:
+      return undefined;
+  }
+}
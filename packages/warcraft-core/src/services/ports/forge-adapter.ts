@@ -0,0 +1,34 @@
+/**
+ * ForgeAdapter port interface for opening pull requests.
+ *
+ * Warcraft merges task branches locally; a forge adapter hands the exported
+ * pull request to a code-review host (GitHub, GitLab, ...) instead.
+ */
+
+/** A pull request ready to be opened on a forge. */
+export interface PullRequestDraft {
+  feature: string;
+  /** Task the pull request covers; absent for a whole-feature pull request. */
+  task?: string;
+  title: string;
+  /** Markdown description. */
+  body: string;
+  /** Branch holding the changes. */
+  headBranch: string;
+  /** Branch to merge into; adapters fall back to the forge's default branch when absent. */
+  baseBranch?: string;
+}
+
+/** Where a forge recorded an opened pull request. */
+export interface PullRequestSubmission {
+  /** Name of the adapter that opened the pull request. */
+  forge: string;
+  id: string;
+  url?: string;
+}
+
+export interface ForgeAdapter {
+  /** Adapter name reported in submissions (e.g., 'filesystem', 'github'). */
+  readonly name: string;
+  openPullRequest(draft: PullRequestDraft): Promise<PullRequestSubmission>;
+}
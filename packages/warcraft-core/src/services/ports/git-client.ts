@@ -205,6 +205,12 @@ export interface GitClient {
    */
   mergeAbort(): Promise<void>;
 
+  /**
+   * Rebase the current branch onto an upstream ref.
+   * @param upstream - Branch or commit to rebase onto
+   */
+  rebase(upstream: string): Promise<void>;
+
   /**
    * Abort current rebase.
    */
@@ -215,6 +221,18 @@ export interface GitClient {
    */
   cherryPickAbort(): Promise<void>;
 
+  /**
+   * Create a commit that reverts a commit, or one revert commit per commit of a `from..to` range.
+   * @param commitHash - Commit or commit range to revert
+   * @param options - `mainline` selects the parent to keep when reverting a merge commit
+   */
+  revert(commitHash: string, options?: { mainline?: number }): Promise<void>;
+
+  /**
+   * Abort current revert.
+   */
+  revertAbort(): Promise<void>;
+
   // -------------------------------------------------------------------------
   // Log Operations
   // -------------------------------------------------------------------------
@@ -314,6 +314,24 @@ describe('SimpleGitClient', () => {
       expect(mockGit._calls.raw).toContainEqual(['merge', '--abort']);
     });
 
+    it('should rebase onto an upstream ref', async () => {
+      await client.rebase('main');
+
+      expect(mockGit._calls.raw).toContainEqual(['rebase', 'main']);
+    });
+
+    it('should revert a merge commit against its first parent', async () => {
+      await client.revert('abc123', { mainline: 1 });
+
+      expect(mockGit._calls.raw).toContainEqual(['revert', '--no-edit', '-m', '1', 'abc123']);
+    });
+
+    it('should abort revert', async () => {
+      await client.revertAbort();
+
+      expect(mockGit._calls.raw).toContainEqual(['revert', '--abort']);
+    });
+
     it('should abort rebase', async () => {
       await client.rebaseAbort();
 
@@ -183,6 +183,10 @@ export class SimpleGitClient implements GitClient {
     await this.git.raw(['merge', '--abort']);
   }
 
+  async rebase(upstream: string): Promise<void> {
+    await this.git.raw(['rebase', upstream]);
+  }
+
   async rebaseAbort(): Promise<void> {
     await this.git.raw(['rebase', '--abort']);
   }
@@ -191,6 +195,15 @@ export class SimpleGitClient implements GitClient {
     await this.git.raw(['cherry-pick', '--abort']);
   }
 
+  async revert(commitHash: string, options: { mainline?: number } = {}): Promise<void> {
+    const mainline = options.mainline ? ['-m', String(options.mainline)] : [];
+    await this.git.raw(['revert', '--no-edit', ...mainline, commitHash]);
+  }
+
+  async revertAbort(): Promise<void> {
+    await this.git.raw(['revert', '--abort']);
+  }
+
   // -------------------------------------------------------------------------
   // Log Operations
   // -------------------------------------------------------------------------
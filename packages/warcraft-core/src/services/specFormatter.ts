@@ -1,18 +1,23 @@
-import type { SpecData } from '../types.js';
+import type { PlanTaskFiles, SpecData } from '../types.js';
 import { renderContextSections } from './context-markdown.js';
 
 /**
- * Infer the task type from the plan section content and task name.
+ * Infer the task type from the declared files, falling back to the plan section's
+ * `- Create:/Modify:/Test:` bullets, and finally the task name.
  */
-function inferTaskType(planSection: string | null, taskName: string): string | null {
-  if (!planSection) {
+function inferTaskType(planSection: string | null, taskName: string, files?: PlanTaskFiles): string | null {
+  const declaredTypes = files
+    ? (Object.keys(files) as Array<keyof PlanTaskFiles>).filter((kind) => (files[kind]?.length ?? 0) > 0)
+    : [];
+  if (!planSection && declaredTypes.length === 0) {
     return taskName.toLowerCase().includes('test') ? 'testing' : null;
   }
 
-  const fileTypeMatches = Array.from(planSection.matchAll(/-\s*(Create|Modify|Test):/gi)).map((match) =>
-    match[1].toLowerCase(),
+  const fileTypes = new Set<string>(
+    declaredTypes.length > 0
+      ? declaredTypes
+      : Array.from((planSection ?? '').matchAll(/-\s*(Create|Modify|Test):/gi)).map((match) => match[1].toLowerCase()),
   );
-  const fileTypes = new Set(fileTypeMatches);
 
   if (fileTypes.size === 0) {
     return taskName.toLowerCase().includes('test') ? 'testing' : null;
@@ -39,9 +44,10 @@ function inferTaskType(planSection: string | null, taskName: string): string | n
  * @returns Markdown formatted spec content
  */
 export function formatSpecContent(data: SpecData): string {
-  const { featureName, task, dependsOn, allTasks, planSection, taskBrief, contextFiles, completedTasks } = data;
+  const { featureName, task, dependsOn, allTasks, planSection, declaration, taskBrief, contextFiles, completedTasks } =
+    data;
 
-  const taskType = inferTaskType(planSection, task.name);
+  const taskType = inferTaskType(planSection, task.name, declaration?.files);
 
   const specLines: string[] = [`# Task: ${task.folder}`, '', `## Feature: ${featureName}`, '', '## Dependencies', ''];
 
@@ -84,6 +90,27 @@ export function formatSpecContent(data: SpecData): string {
     specLines.push('## Task Type', '', taskType, '');
   }
 
+  const files = declaration?.files;
+  const fileLines = (['create', 'modify', 'test'] as const).flatMap((kind) =>
+    (files?.[kind] ?? []).map((file) => `- ${kind[0].toUpperCase()}${kind.slice(1)}: \`${file}\``),
+  );
+  if (fileLines.length > 0) {
+    specLines.push('## Files', '', ...fileLines, '');
+  }
+
+  if (declaration?.verify?.length) {
+    specLines.push('## Verify', '', ...declaration.verify.map((command) => `- \`${command}\``), '');
+  }
+
+  if (declaration?.acceptance?.length) {
+    specLines.push(
+      '## Acceptance Criteria',
+      '',
+      ...declaration.acceptance.map((criterion) => `- [ ] ${criterion}`),
+      '',
+    );
+  }
+
   if (contextFiles.length > 0) {
     const contextCompiled = renderContextSections(contextFiles);
     specLines.push('## Context', '', contextCompiled, '');
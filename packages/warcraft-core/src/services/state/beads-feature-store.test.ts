@@ -163,3 +163,55 @@ describe('BeadsFeatureStore lifecycle', () => {
     expect(store.list()).toEqual([]);
   });
 });
+
+describe('BeadsFeatureStore syncDependencies()', () => {
+  const feature: FeatureJson = {
+    name: 'test-feature',
+    epicBeadId: 'epic-1',
+    status: 'planning',
+    createdAt: new Date().toISOString(),
+  };
+
+  it('adds missing epic edges and removes stale ones', () => {
+    const addCalls: Array<[string, string]> = [];
+    const removeCalls: Array<[string, string]> = [];
+    const repository = {
+      listDependencies: () => ({
+        success: true as const,
+        value: [
+          { id: 'epic-2', title: 'billing-api', status: 'open' },
+          { id: 'epic-3', title: 'old-dependency', status: 'open' },
+        ],
+      }),
+      addDependency: (beadId: string, dependsOnBeadId: string) => {
+        addCalls.push([beadId, dependsOnBeadId]);
+        return { success: true as const, value: undefined };
+      },
+      removeDependency: (beadId: string, dependsOnBeadId: string) => {
+        removeCalls.push([beadId, dependsOnBeadId]);
+        return { success: true as const, value: undefined };
+      },
+    };
+
+    const store = new BeadsFeatureStore(createTempProjectRoot(), repository as any);
+    const diagnostics = store.syncDependencies(feature, ['epic-2', 'task-9']);
+
+    expect(diagnostics).toEqual([]);
+    expect(addCalls).toEqual([['epic-1', 'task-9']]);
+    expect(removeCalls).toEqual([['epic-1', 'epic-3']]);
+  });
+
+  it('returns a degraded diagnostic when the existing edges cannot be listed', () => {
+    const repository = {
+      listDependencies: () => ({
+        success: false as const,
+        error: new RepositoryError('gateway_error', 'Bead gateway error: boom'),
+      }),
+    };
+
+    const store = new BeadsFeatureStore(createTempProjectRoot(), repository as any);
+    const diagnostics = store.syncDependencies(feature, ['epic-2']);
+
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([['dep_list_failed', 'degraded']]);
+  });
+});
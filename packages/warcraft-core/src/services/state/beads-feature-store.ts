@@ -5,6 +5,7 @@ import { ensureDir, fileExists, readJson, writeJson } from '../../utils/fs.js';
 import { acquireLockSync } from '../../utils/json-lock.js';
 import { getContextPath, getFeatureJsonPath, getFeaturePath } from '../../utils/paths.js';
 import { type BeadsRepository, throwIfInitFailure } from '../beads/BeadsRepository.js';
+import { type Diagnostic, diagnostic } from '../outcomes.js';
 import type { CreateFeatureInput, FeatureStore } from './types.js';
 
 /**
@@ -116,6 +117,58 @@ export class BeadsFeatureStore implements FeatureStore {
     this.syncEpicLifecycle(feature, 'reopen', () => this.repository.reopenBead(feature.epicBeadId));
   }
 
+  /**
+   * Sync epic-level dependency edges to match the feature's cross-feature dependencies.
+   * Idempotent: reads existing edges, adds missing, removes stale.
+   */
+  syncDependencies(feature: FeatureJson, dependsOnBeadIds: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const context = { featureName: feature.name, beadId: feature.epicBeadId };
+    const existingResult = this.repository.listDependencies(feature.epicBeadId);
+    if (existingResult.success === false) {
+      return [
+        diagnostic(
+          'dep_list_failed',
+          `Failed to list dependencies for epic '${feature.epicBeadId}': ${existingResult.error.message}`,
+          'degraded',
+          context,
+        ),
+      ];
+    }
+
+    const existing = new Set(existingResult.value.map((dependency) => dependency.id));
+    const desired = new Set(dependsOnBeadIds);
+    for (const depBeadId of desired) {
+      if (existing.has(depBeadId)) continue;
+      const addResult = this.repository.addDependency(feature.epicBeadId, depBeadId);
+      if (addResult.success === false) {
+        diagnostics.push(
+          diagnostic(
+            'dep_add_failed',
+            `Failed to add dependency ${feature.epicBeadId} -> ${depBeadId}: ${addResult.error.message}`,
+            'degraded',
+            { ...context, dependsOnBeadId: depBeadId },
+          ),
+        );
+      }
+    }
+    for (const depBeadId of existing) {
+      if (desired.has(depBeadId)) continue;
+      const removeResult = this.repository.removeDependency(feature.epicBeadId, depBeadId);
+      if (removeResult.success === false) {
+        diagnostics.push(
+          diagnostic(
+            'dep_remove_failed',
+            `Failed to remove dependency ${feature.epicBeadId} -> ${depBeadId}: ${removeResult.error.message}`,
+            'degraded',
+            { ...context, dependsOnBeadId: depBeadId },
+          ),
+        );
+      }
+    }
+    return diagnostics;
+  }
+
   private syncEpicLifecycle(
     feature: FeatureJson,
     action: 'close' | 'reopen',
@@ -1,9 +1,12 @@
-import type { FeatureJson } from '../../types.js';
+import type { FeatureJson, PlanActor, PlanRevision } from '../../types.js';
 import { readJson, writeJson } from '../../utils/fs.js';
 import { getFeatureJsonPath } from '../../utils/paths.js';
 import { type BeadsRepository, throwIfInitFailure } from '../beads/BeadsRepository.js';
 import type { PlanStore } from './types.js';
 
+const PLAN_REVISION_COMMENT_PREFIX = 'WARCRAFT_PLAN_REVISION_V1 ';
+const PLAN_APPROVAL_COMMENT_PREFIX = 'WARCRAFT_PLAN_APPROVAL_V1 ';
+
 /**
  * PlanStore backed by bead label + description equality (beadsMode='on').
  *
@@ -12,6 +15,9 @@ import type { PlanStore } from './types.js';
  * 2. plan.md content matches the epic description plan section.
  *
  * Local feature.json is updated for status/timestamps but is NOT the source of truth for approval.
+ *
+ * Plan revisions and their approvals are appended to the epic as comments, so the
+ * history travels with the bead.
  */
 export class BeadsPlanStore implements PlanStore {
   constructor(
@@ -105,10 +111,76 @@ export class BeadsPlanStore implements PlanStore {
     }
   }
 
+  appendRevision(featureName: string, revision: PlanRevision): void {
+    const { content, ...metadata } = revision;
+    this.appendEpicComment(featureName, `${PLAN_REVISION_COMMENT_PREFIX}${JSON.stringify(metadata)}\n${content}`);
+  }
+
+  recordRevisionApproval(featureName: string, revision: number, timestamp: string, approvedBy?: PlanActor): void {
+    this.appendEpicComment(
+      featureName,
+      `${PLAN_APPROVAL_COMMENT_PREFIX}${JSON.stringify({ revision, approvedAt: timestamp, approvedBy })}`,
+    );
+  }
+
+  listRevisions(featureName: string): PlanRevision[] {
+    const epicBeadId = this.resolveEpic(featureName);
+    if (!epicBeadId) return [];
+
+    const commentsResult = this.repository.getComments(epicBeadId);
+    if (commentsResult.success === false) {
+      throwIfInitFailure(commentsResult.error, `[warcraft] Failed to read plan revisions for feature '${featureName}'`);
+      return [];
+    }
+
+    const revisions = new Map<number, PlanRevision>();
+    const approvals: Array<{ revision: number; approvedAt: string; approvedBy?: PlanActor }> = [];
+    for (const comment of commentsResult.value) {
+      try {
+        if (comment.body.startsWith(PLAN_REVISION_COMMENT_PREFIX)) {
+          const newline = comment.body.indexOf('\n');
+          const header = newline === -1 ? comment.body : comment.body.slice(0, newline);
+          const metadata = JSON.parse(header.slice(PLAN_REVISION_COMMENT_PREFIX.length)) as Omit<
+            PlanRevision,
+            'content'
+          >;
+          revisions.set(metadata.revision, {
+            ...metadata,
+            content: newline === -1 ? '' : comment.body.slice(newline + 1),
+          });
+        } else if (comment.body.startsWith(PLAN_APPROVAL_COMMENT_PREFIX)) {
+          approvals.push(JSON.parse(comment.body.slice(PLAN_APPROVAL_COMMENT_PREFIX.length)));
+        }
+      } catch {
+        // Skip malformed comments: the history is best-effort and must not break plan reads.
+      }
+    }
+
+    for (const approval of approvals) {
+      const revision = revisions.get(approval.revision);
+      if (revision) {
+        revision.approvedAt = approval.approvedAt;
+        if (approval.approvedBy) revision.approvedBy = approval.approvedBy;
+      }
+    }
+    return [...revisions.values()].sort((a, b) => a.revision - b.revision);
+  }
+
   // ---------------------------------------------------------------------------
   // Private helpers
   // ---------------------------------------------------------------------------
 
+  private appendEpicComment(featureName: string, body: string): void {
+    const epicBeadId = this.resolveEpic(featureName);
+    if (!epicBeadId) return;
+
+    const result = this.repository.appendComment(epicBeadId, body);
+    if (result.success === false) {
+      throwIfInitFailure(result.error, `[warcraft] Failed to record plan revision for feature '${featureName}'`);
+      console.warn(`[warcraft] Failed to record plan revision for feature '${featureName}': ${result.error.message}`);
+    }
+  }
+
   private resolveEpic(featureName: string): string | null {
     const epicResult = this.repository.getEpicByFeatureName(featureName, false);
     if (epicResult.success === false) {
@@ -4,6 +4,7 @@ import * as os from 'os';
 import * as path from 'path';
 import { RepositoryError } from '../beads/BeadsRepository.js';
 import { BeadsTaskStore } from './beads-task-store.js';
+import { TransitionJournal } from './transition-journal.js';
 
 function initFailure(
   message: string = 'Failed to initialize beads repository [BR_INIT_FAILED]: br command failed',
@@ -534,6 +535,52 @@ describe('BeadsTaskStore caching layer', () => {
       expect(addCalls).toEqual([['task-1', 'task-2']]);
     });
 
+    it('adds edges to task beads of other features and reports unresolved references', () => {
+      const addCalls: Array<[string, string]> = [];
+      const repository = {
+        getEpicByFeatureName: (featureName: string) => ({
+          success: true as const,
+          value: featureName === 'billing-api' ? 'epic-2' : featureName === 'test-feature' ? 'epic-1' : null,
+        }),
+        listTaskBeadsForEpic: (epicBeadId: string) => ({
+          success: true as const,
+          value:
+            epicBeadId === 'epic-2'
+              ? [{ id: 'other-1', title: 'Endpoint', status: 'closed' }]
+              : [{ id: 'task-1', title: 'Task 1', status: 'pending' }],
+        }),
+        getTaskState: (beadId: string) => ({
+          success: true as const,
+          value:
+            beadId === 'other-1'
+              ? { folder: '01-endpoint', status: 'done', origin: 'plan', planTitle: 'Endpoint' }
+              : {
+                  folder: '01-task-1',
+                  status: 'pending',
+                  origin: 'plan',
+                  planTitle: 'Task 1',
+                  dependsOn: [],
+                  crossFeatureDependsOn: ['billing-api/01-endpoint', 'billing-api/09-missing'],
+                },
+        }),
+        listDependencies: () => ({ success: true as const, value: [] }),
+        addDependency: (beadId: string, dependsOnBeadId: string) => {
+          addCalls.push([beadId, dependsOnBeadId]);
+          return { success: true as const, value: undefined };
+        },
+        removeDependency: () => ({ success: true as const, value: undefined }),
+        getViewerHealth: () => ({ available: false }),
+        getRobotInsights: () => null,
+      };
+
+      const store = new BeadsTaskStore('/tmp/project', repository as any);
+      const diagnostics = store.syncDependencies('test-feature');
+
+      expect(addCalls).toEqual([['task-1', 'other-1']]);
+      expect(diagnostics.map((d) => d.code)).toEqual(['dep_unresolved_task']);
+      expect(diagnostics[0].message).toContain("'billing-api/09-missing'");
+    });
+
     it('does not re-add dependency edges that already exist', () => {
       let addCallCount = 0;
       const repository = {
@@ -1050,3 +1097,162 @@ describe('BeadsTaskStore transition audit durability', () => {
     expect(appendCallCount).toBe(2);
   });
 });
+
+describe('BeadsTaskStore transition journal recovery', () => {
+  function createRecoveryFixture(taskStatus: string) {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-recovery-'));
+    const journal = new TransitionJournal(projectRoot);
+    const states = new Map<string, Record<string, unknown>>([
+      ['task-1', { status: taskStatus, origin: 'plan', planTitle: 'Task 1' }],
+    ]);
+    const comments: string[] = [];
+    const synced: string[] = [];
+    const repository = {
+      getTaskState: (beadId: string) => ({ success: true as const, value: states.get(beadId) ?? null }),
+      setTaskState: (beadId: string, status: Record<string, unknown>) => {
+        states.set(beadId, status);
+        return { success: true as const, value: undefined };
+      },
+      syncTaskStatus: (beadId: string, status: string) => {
+        synced.push(`${beadId}:${status}`);
+        return { success: true as const, value: undefined };
+      },
+      getComments: () => ({
+        success: true as const,
+        value: comments.map((body, index) => ({ id: String(index), body })),
+      }),
+      appendComment: (_beadId: string, body: string) => {
+        comments.push(body);
+        return { success: true as const, value: undefined };
+      },
+    };
+    return {
+      projectRoot,
+      journal,
+      states,
+      comments,
+      synced,
+      store: new BeadsTaskStore(projectRoot, repository as any),
+    };
+  }
+
+  it('replays the missing comment and status of an unacknowledged transition, then compacts', () => {
+    const { projectRoot, journal, states, comments, synced, store } = createRecoveryFixture('pending');
+    try {
+      for (let i = 0; i < 100; i++) {
+        const acked = journal.append({ beadId: 'task-1', from: 'pending', to: 'in_progress', timestamp: 't1' });
+        journal.markCommentWritten(acked.seq);
+      }
+      journal.append({
+        beadId: 'task-1',
+        from: 'in_progress',
+        to: 'done',
+        timestamp: 't2',
+        featureName: 'feat',
+        folder: '01-task',
+      });
+
+      const report = store.recoverTransitions();
+
+      expect(report).toEqual({
+        pending: 1,
+        repaired: [
+          {
+            seq: 201,
+            beadId: 'task-1',
+            featureName: 'feat',
+            folder: '01-task',
+            from: 'in_progress',
+            to: 'done',
+            replayed: ['status', 'comment'],
+          },
+        ],
+        failed: [],
+        compacted: 202,
+      });
+      expect(states.get('task-1')?.status).toBe('done');
+      expect(synced).toEqual(['task-1:done']);
+      expect(comments).toEqual(['[warcraft:transition] in_progress → done | t2 |']);
+      expect(journal.readAll()).toEqual([]);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('only acknowledges transitions whose comment already reached the bead', () => {
+    const { projectRoot, journal, comments, store } = createRecoveryFixture('in_progress');
+    try {
+      journal.append({ beadId: 'task-1', from: 'pending', to: 'in_progress', timestamp: 't1', summary: 'start' });
+      comments.push('[warcraft:transition] pending → in_progress | t1 | start');
+
+      const report = store.recoverTransitions();
+
+      expect(report.repaired[0].replayed).toEqual([]);
+      expect(comments).toHaveLength(1);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves a short journal uncompacted', () => {
+    const { projectRoot, journal, store } = createRecoveryFixture('in_progress');
+    try {
+      const acked = journal.append({ beadId: 'task-1', from: 'pending', to: 'in_progress', timestamp: 't1' });
+      journal.markCommentWritten(acked.seq);
+
+      expect(store.recoverTransitions()).toEqual({ pending: 0, repaired: [], failed: [], compacted: 0 });
+      expect(journal.readAll()).toHaveLength(2);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps transitions it cannot replay in the journal', () => {
+    const { projectRoot, journal, store } = createRecoveryFixture('pending');
+    try {
+      journal.append({ beadId: 'task-gone', from: 'pending', to: 'done', timestamp: 't1' });
+
+      const report = store.recoverTransitions();
+
+      expect(report.failed).toEqual([{ seq: 1, beadId: 'task-gone', error: 'task bead has no task state' }]);
+      expect(journal.readUnacknowledged()).toHaveLength(1);
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('BeadsTaskStore task history', () => {
+  it('reads journaled transitions, comments and audit entries of the task bead', () => {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'task-history-'));
+    try {
+      const journal = new TransitionJournal(projectRoot);
+      const started = journal.append({ beadId: 'task-1', from: 'pending', to: 'in_progress', timestamp: 't1' });
+      journal.markCommentWritten(started.seq);
+      journal.append({ beadId: 'task-2', from: 'pending', to: 'in_progress', timestamp: 't2' });
+      const repository = {
+        getEpicByFeatureName: () => ({ success: true as const, value: 'epic-1' }),
+        listTaskBeadsForEpic: () => ({
+          success: true as const,
+          value: [{ id: 'task-1', title: 'Task 1', status: 'in_progress' }],
+        }),
+        getTaskState: () => ({
+          success: true as const,
+          value: { status: 'in_progress', origin: 'plan', planTitle: 'Task 1', folder: '01-task-1' },
+        }),
+        getComments: () => ({ success: true as const, value: [{ id: 'c1', body: 'note' }] }),
+        getAuditLog: () => [{ id: 'a1', kind: 'tool_call', issueId: 'task-1' }],
+      };
+      const store = new BeadsTaskStore(projectRoot, repository as any);
+
+      expect(store.readTaskHistory('test-feature', '01-task-1')).toEqual({
+        transitions: [{ seq: 1, beadId: 'task-1', from: 'pending', to: 'in_progress', timestamp: 't1' }],
+        comments: [{ id: 'c1', body: 'note' }],
+        audit: [{ id: 'a1', kind: 'tool_call', issueId: 'task-1' }],
+      });
+      expect(store.readTaskHistory('test-feature', '09-missing')).toBeNull();
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
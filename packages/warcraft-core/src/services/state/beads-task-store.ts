@@ -7,13 +7,17 @@ import { getTaskReportPath } from '../../utils/paths.js';
 import { deriveTaskFolder, slugifyTaskName } from '../../utils/slug.js';
 import { type BeadsRepository, throwIfInitFailure } from '../beads/BeadsRepository.js';
 import { mapBeadStatusToTaskStatus } from '../beads/beadStatus.js';
+import { parseCrossFeatureRef } from '../crossFeatureDependencies.js';
 import type { Diagnostic } from '../outcomes.js';
 import type { TaskWithDeps } from '../taskDependencyGraph.js';
 import { computeRunnableAndBlocked } from '../taskDependencyGraph.js';
 import type { BackgroundPatchFields, RunnableTask, RunnableTasksResult } from '../taskService.js';
 import { TASK_STATUS_SCHEMA_VERSION } from '../taskService.js';
-import { TransitionJournal } from './transition-journal.js';
-import type { TaskArtifactKind, TaskSaveOptions, TaskStore } from './types.js';
+import { TransitionJournal, type TransitionRecoveryReport } from './transition-journal.js';
+import type { TaskArtifactKind, TaskHistory, TaskSaveOptions, TaskStore } from './types.js';
+
+/** Recovery compacts the transition journal only past this many lines, so routine starts leave it untouched. */
+const JOURNAL_COMPACT_MIN_LINES = 200;
 
 // ============================================================================
 // Audit Trail Types
@@ -330,7 +334,7 @@ export class BeadsTaskStore implements TaskStore {
       }
 
       // Append transition comment for audit trail
-      this.appendTransitionComment(status.beadId, prevStatus, status.status, status.summary);
+      this.appendTransitionComment(status.beadId, prevStatus, status.status, status.summary, { featureName, folder });
     }
   }
 
@@ -425,6 +429,10 @@ export class BeadsTaskStore implements TaskStore {
     return getTaskReportPath(this.projectRoot, featureName, folder, 'off');
   }
 
+  readReport(featureName: string, folder: string): string | null {
+    return this.readArtifact(featureName, folder, 'report');
+  }
+
   getRunnableTasks(featureName: string): RunnableTasksResult | null {
     try {
       const planResult = this.repository.getRobotPlan();
@@ -556,7 +564,8 @@ export class BeadsTaskStore implements TaskStore {
   }
 
   /**
-   * Sync bead-level dependency edges to match task dependsOn relationships.
+   * Sync bead-level dependency edges to match task dependsOn relationships, including
+   * crossFeatureDependsOn edges to task beads of other features.
    * Idempotent: reads existing edges, computes desired edges, adds missing, removes stale.
    */
   syncDependencies(featureName: string): Diagnostic[] {
@@ -575,10 +584,47 @@ export class BeadsTaskStore implements TaskStore {
       }
     }
 
+    const otherFeatureBeadIds = new Map<string, Map<string, string>>();
+    const resolveCrossFeatureBeadId = (ref: string): string | undefined => {
+      const parsed = parseCrossFeatureRef(ref);
+      if (!parsed?.task) return undefined;
+      if (!otherFeatureBeadIds.has(parsed.feature)) {
+        let folders = new Map<string, string>();
+        try {
+          folders = new Map(
+            this.list(parsed.feature)
+              .filter((task): task is TaskInfo & { beadId: string } => task.beadId !== undefined)
+              .map((task) => [task.folder, task.beadId]),
+          );
+        } catch {
+          // Unknown feature: reported as unresolved below
+        }
+        otherFeatureBeadIds.set(parsed.feature, folders);
+      }
+      return otherFeatureBeadIds.get(parsed.feature)?.get(parsed.task);
+    };
+
     const desiredEdges = new Set<string>();
     for (const task of tasks) {
       if (!task.beadId) continue;
       const rawStatus = this.getRawStatus(featureName, task.folder);
+
+      for (const ref of rawStatus?.crossFeatureDependsOn ?? []) {
+        const depBeadId = resolveCrossFeatureBeadId(ref);
+        if (!depBeadId) {
+          diagnostics.push(
+            this.createDependencyDiagnostic(
+              'dep_unresolved_task',
+              `Cross-feature dependency '${ref}' for task '${task.folder}' cannot be resolved to a bead ID`,
+              { featureName, taskFolder: task.folder, dependsOnRef: ref, beadId: task.beadId },
+            ),
+          );
+          continue;
+        }
+
+        desiredEdges.add(`${task.beadId}->${depBeadId}`);
+      }
+
       if (!rawStatus?.dependsOn) continue;
 
       for (const depFolder of rawStatus.dependsOn) {
@@ -837,7 +883,13 @@ export class BeadsTaskStore implements TaskStore {
    * Append a transition comment to track state changes.
    * Wrapped in try/catch to ensure audit failures never block status changes.
    */
-  private appendTransitionComment(beadId: string, from: string, to: string, summary?: string): void {
+  private appendTransitionComment(
+    beadId: string,
+    from: string,
+    to: string,
+    summary?: string,
+    context?: { featureName: string; folder: string },
+  ): void {
     const timestamp = new Date().toISOString();
     const transition: TransitionEvent = {
       beadId,
@@ -848,7 +900,7 @@ export class BeadsTaskStore implements TaskStore {
     };
 
     // Write to local journal first (fast, survives bead flush failures)
-    const journalEntry = this.journal.append({ beadId, from, to, timestamp, summary });
+    const journalEntry = this.journal.append({ beadId, from, to, timestamp, summary, ...context });
     transition.journalSeq = journalEntry.seq;
 
     this.pendingTransitions.push(transition);
@@ -863,8 +915,7 @@ export class BeadsTaskStore implements TaskStore {
    */
   private flushSingleTransition(transition: TransitionEvent): boolean {
     try {
-      const commentBody = `[warcraft:transition] ${transition.from} → ${transition.to} | ${transition.timestamp} | ${transition.summary ?? ''}`;
-      const result = this.repository.appendComment(transition.beadId, commentBody.trim());
+      const result = this.repository.appendComment(transition.beadId, formatTransitionComment(transition));
       if (result.success === false) {
         console.warn(
           `[warcraft] Failed to append transition comment for '${transition.beadId}': ${result.error.message}`,
@@ -899,4 +950,110 @@ export class BeadsTaskStore implements TaskStore {
     }
     this.pendingTransitions = retained;
   }
+
+  /**
+   * Replay journal transitions that were never acknowledged, e.g. because the process died
+   * between the journal write and the bead comment. For each one the bead task state is brought
+   * up to the journal when it is the task's latest transition, the bead status is synced again,
+   * and the audit comment is written unless the bead already has it. A journal that has grown
+   * large is compacted afterwards, keeping only transitions that could not be replayed.
+   */
+  recoverTransitions(): TransitionRecoveryReport {
+    const inFlight = new Set(this.pendingTransitions.map((transition) => transition.journalSeq));
+    const pending = this.journal.readUnacknowledged().filter((entry) => !inFlight.has(entry.seq));
+    const latestSeqByBead = new Map<string, number>();
+    for (const entry of this.journal.readAll()) {
+      if (entry.beadId) latestSeqByBead.set(entry.beadId, Math.max(entry.seq, latestSeqByBead.get(entry.beadId) ?? 0));
+    }
+
+    const report: TransitionRecoveryReport = { pending: pending.length, repaired: [], failed: [], compacted: 0 };
+    for (const entry of pending) {
+      const fail = (error: string) => report.failed.push({ seq: entry.seq, beadId: entry.beadId, error });
+      const stateResult = this.repository.getTaskState(entry.beadId);
+      if (stateResult.success === false) {
+        fail(stateResult.error.message);
+        continue;
+      }
+      if (!stateResult.value) {
+        fail('task bead has no task state');
+        continue;
+      }
+
+      const replayed: Array<'status' | 'comment'> = [];
+      if (latestSeqByBead.get(entry.beadId) === entry.seq) {
+        if (stateResult.value.status !== entry.to) {
+          const setResult = this.repository.setTaskState(entry.beadId, {
+            ...stateResult.value,
+            status: entry.to as TaskStatus['status'],
+          });
+          if (setResult.success === false) {
+            fail(setResult.error.message);
+            continue;
+          }
+          replayed.push('status');
+        }
+        const syncResult = this.repository.syncTaskStatus(entry.beadId, entry.to as TaskStatus['status']);
+        if (syncResult.success === false) {
+          fail(syncResult.error.message);
+          continue;
+        }
+      }
+
+      const body = formatTransitionComment(entry);
+      const commentsResult = this.repository.getComments(entry.beadId);
+      const hasComment = commentsResult.success && commentsResult.value.some((comment) => comment.body.trim() === body);
+      if (!hasComment) {
+        const appendResult = this.repository.appendComment(entry.beadId, body);
+        if (appendResult.success === false) {
+          fail(appendResult.error.message);
+          continue;
+        }
+        replayed.push('comment');
+      }
+
+      this.journal.markCommentWritten(entry.seq);
+      report.repaired.push({
+        seq: entry.seq,
+        beadId: entry.beadId,
+        ...(entry.featureName ? { featureName: entry.featureName } : {}),
+        ...(entry.folder ? { folder: entry.folder } : {}),
+        from: entry.from,
+        to: entry.to,
+        replayed,
+      });
+    }
+
+    // Replayed task states may predate the cached listings
+    if (report.repaired.some((repair) => repair.replayed.includes('status'))) {
+      this.taskIndex.clear();
+      this.beadIdIndex.clear();
+    }
+
+    if (inFlight.size === 0) {
+      report.compacted = this.journal.compact(JOURNAL_COMPACT_MIN_LINES);
+    }
+    return report;
+  }
+
+  readTaskHistory(featureName: string, folder: string): TaskHistory | null {
+    const beadId = this.resolveBeadId(featureName, folder);
+    if (!beadId) return null;
+
+    const comments = this.repository.getComments(beadId);
+    return {
+      transitions: this.journal.readAll().filter((entry) => entry.beadId === beadId),
+      comments: comments.success ? comments.value : [],
+      audit: this.repository.getAuditLog(beadId),
+    };
+  }
+}
+
+/** Body of the `[warcraft:transition]` audit comment written for a transition. */
+function formatTransitionComment(transition: {
+  from: string;
+  to: string;
+  timestamp: string;
+  summary?: string;
+}): string {
+  return `[warcraft:transition] ${transition.from} → ${transition.to} | ${transition.timestamp} | ${transition.summary ?? ''}`.trim();
 }
@@ -1,14 +1,26 @@
 import * as crypto from 'crypto';
-import type { FeatureJson } from '../../types.js';
-import { fileExists, readJson } from '../../utils/fs.js';
+import * as path from 'path';
+import type { FeatureJson, PlanActor, PlanRevision } from '../../types.js';
+import { ensureDir, fileExists, readJson, readText, writeText } from '../../utils/fs.js';
 import { updateJsonLockedSync } from '../../utils/json-lock.js';
-import { getFeatureJsonPath } from '../../utils/paths.js';
+import { getFeatureJsonPath, getPlanRevisionsPath } from '../../utils/paths.js';
 import type { PlanStore } from './types.js';
 
 type FeatureJsonWithPlanState = FeatureJson & {
   planApprovalHash?: string;
 };
 
+/** Revision metadata kept in plan-revisions/index.json; content lives in one markdown file per revision. */
+interface PlanRevisionIndex {
+  revisions: Array<Omit<PlanRevision, 'content'>>;
+}
+
+const PLAN_REVISION_INDEX_FILE = 'index.json';
+
+function getRevisionFileName(revision: number): string {
+  return `${String(revision).padStart(3, '0')}.md`;
+}
+
 function computePlanHash(content: string): string {
   return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
 }
@@ -17,6 +29,7 @@ function computePlanHash(content: string): string {
  * PlanStore backed by local feature.json (beadsMode='off').
  *
  * All approval state is stored in feature.json via SHA-256 hash comparison.
+ * Plan revisions are snapshotted to plan-revisions/ next to plan.md.
  * No bead interaction whatsoever.
  */
 export class FilesystemPlanStore implements PlanStore {
@@ -69,4 +82,46 @@ export class FilesystemPlanStore implements PlanStore {
   syncPlanDescription(_featureName: string, _content: string): void {
     // No-op: filesystem mode has no external store to sync to.
   }
+
+  appendRevision(featureName: string, revision: PlanRevision): void {
+    const revisionsDir = getPlanRevisionsPath(this.projectRoot, featureName, 'off');
+    ensureDir(revisionsDir);
+    writeText(path.join(revisionsDir, getRevisionFileName(revision.revision)), revision.content);
+    const { content: _content, ...metadata } = revision;
+    updateJsonLockedSync<PlanRevisionIndex>(
+      path.join(revisionsDir, PLAN_REVISION_INDEX_FILE),
+      (current) => ({
+        revisions: [...current.revisions.filter((entry) => entry.revision !== revision.revision), metadata],
+      }),
+      { revisions: [] },
+    );
+  }
+
+  recordRevisionApproval(featureName: string, revision: number, timestamp: string, approvedBy?: PlanActor): void {
+    const indexPath = path.join(getPlanRevisionsPath(this.projectRoot, featureName, 'off'), PLAN_REVISION_INDEX_FILE);
+    if (!fileExists(indexPath)) return; // Guard: no revisions recorded yet
+    updateJsonLockedSync<PlanRevisionIndex>(
+      indexPath,
+      (current) => ({
+        revisions: current.revisions.map((entry) =>
+          entry.revision === revision
+            ? { ...entry, approvedAt: timestamp, ...(approvedBy ? { approvedBy } : {}) }
+            : entry,
+        ),
+      }),
+      { revisions: [] },
+    );
+  }
+
+  listRevisions(featureName: string): PlanRevision[] {
+    const revisionsDir = getPlanRevisionsPath(this.projectRoot, featureName, 'off');
+    const index = readJson<PlanRevisionIndex>(path.join(revisionsDir, PLAN_REVISION_INDEX_FILE));
+    if (!index) return [];
+    return [...index.revisions]
+      .sort((a, b) => a.revision - b.revision)
+      .map((entry) => ({
+        ...entry,
+        content: readText(path.join(revisionsDir, getRevisionFileName(entry.revision))) ?? '',
+      }));
+  }
 }
@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import type { TaskInfo, TaskStatus } from '../../types.js';
-import { ensureDir, fileExists, readJson, writeJson, writeText } from '../../utils/fs.js';
+import { ensureDir, fileExists, readJson, readText, writeJson, writeText } from '../../utils/fs.js';
 import type { LockOptions } from '../../utils/json-lock.js';
 import { patchJsonLockedSync, writeJsonLockedSync } from '../../utils/json-lock.js';
 import { getTaskPath, getTaskReportPath, getTaskStatusPath, getTasksPath } from '../../utils/paths.js';
@@ -184,6 +184,10 @@ export class FilesystemTaskStore implements TaskStore {
     return reportPath;
   }
 
+  readReport(featureName: string, folder: string): string | null {
+    return readText(getTaskReportPath(this.projectRoot, featureName, folder));
+  }
+
   getRunnableTasks(_featureName: string): RunnableTasksResult | null {
     // Filesystem store doesn't support advanced scheduling;
     // service layer uses its own filesystem-based dependency resolution.
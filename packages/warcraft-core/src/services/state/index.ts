@@ -9,12 +9,14 @@ export { createStores } from './factory.js';
 export { FilesystemFeatureStore } from './fs-feature-store.js';
 export { FilesystemPlanStore } from './fs-plan-store.js';
 export { FilesystemTaskStore } from './fs-task-store.js';
+export type { JournalEntry, TransitionRecoveryReport, TransitionRepair } from './transition-journal.js';
 export type {
   CreateFeatureInput,
   FeatureStore,
   PlanStore,
   StoreSet,
   TaskArtifactKind,
+  TaskHistory,
   TaskSaveOptions,
   TaskStore,
 } from './types.js';
@@ -131,4 +131,27 @@ describe('TransitionJournal', () => {
     expect(entries[0].featureName).toBe('my-feature');
     expect(entries[0].folder).toBe('01-setup');
   });
+
+  it('readUnacknowledged returns transitions without an ack', () => {
+    const e1 = journal.append({ beadId: 'a', from: 'p', to: 'ip', timestamp: 't1' });
+    const e2 = journal.append({ beadId: 'b', from: 'p', to: 'ip', timestamp: 't2' });
+    journal.markCommentWritten(e1.seq);
+
+    expect(journal.readUnacknowledged().map((entry) => entry.seq)).toEqual([e2.seq]);
+  });
+
+  it('compact keeps only unacknowledged transitions and their sequence numbers', () => {
+    const e1 = journal.append({ beadId: 'a', from: 'p', to: 'ip', timestamp: 't1' });
+    const e2 = journal.append({ beadId: 'b', from: 'p', to: 'ip', timestamp: 't2' });
+    journal.markCommentWritten(e1.seq);
+    appendFileSync(journal.getPath(), 'not json\n');
+
+    expect(journal.compact(5)).toBe(0);
+    expect(journal.compact()).toBe(3);
+    expect(journal.readAll()).toEqual([{ seq: e2.seq, beadId: 'b', from: 'p', to: 'ip', timestamp: 't2' }]);
+    expect(journal.compact()).toBe(0);
+    expect(new TransitionJournal(tempDir).append({ beadId: 'c', from: 'p', to: 'ip', timestamp: 't3' }).seq).toBe(
+      e2.seq + 1,
+    );
+  });
 });
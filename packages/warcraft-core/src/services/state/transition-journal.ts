@@ -6,7 +6,7 @@
  * fast-write journal that survives bead flush failures.
  */
 
-import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
 
 export interface JournalEntry {
@@ -30,6 +30,31 @@ export interface JournalEntry {
   beadCommentWritten?: boolean;
 }
 
+/** A transition replayed by crash recovery, with what had to be redone. */
+export interface TransitionRepair {
+  seq: number;
+  beadId: string;
+  featureName?: string;
+  folder?: string;
+  from: string;
+  to: string;
+  /** `status`: the bead task state was behind the journal; `comment`: the audit comment was missing. Empty when only the ack was lost. */
+  replayed: Array<'status' | 'comment'>;
+}
+
+/** Outcome of replaying un-acknowledged journal entries into beads. */
+export interface TransitionRecoveryReport {
+  /** Un-acknowledged transitions found in the journal. */
+  pending: number;
+  repaired: TransitionRepair[];
+  /** Transitions that could not be replayed; they stay in the journal for the next run. */
+  failed: Array<{ seq: number; beadId: string; error: string }>;
+  /** Journal lines dropped by compaction. */
+  compacted: number;
+}
+
+const ACK_SUMMARY_PATTERN = /^\[ack\] seq=(\d+) bead_comment_written$/;
+
 export class TransitionJournal {
   private seq = 0;
   private readonly journalPath: string;
@@ -94,6 +119,46 @@ export class TransitionJournal {
     }
   }
 
+  /** Transition entries that were never acknowledged, oldest first. */
+  readUnacknowledged(): JournalEntry[] {
+    const entries = this.readAll();
+    const acknowledged = new Set<number>();
+    for (const entry of entries) {
+      const ack = entry.beadId === '' ? entry.summary?.match(ACK_SUMMARY_PATTERN) : null;
+      if (ack) acknowledged.add(parseInt(ack[1], 10));
+    }
+    return entries.filter((entry) => entry.beadId !== '' && !acknowledged.has(entry.seq));
+  }
+
+  /**
+   * Rewrite the journal with only its un-acknowledged transitions, dropping acknowledged
+   * transitions, their acks and corrupt lines. Sequence numbers of kept entries are unchanged.
+   *
+   * @param minLines - Leave the journal alone while it holds fewer lines than this
+   * @returns Number of lines removed
+   */
+  compact(minLines = 0): number {
+    if (!existsSync(this.journalPath)) return 0;
+
+    try {
+      const lineCount = readFileSync(this.journalPath, 'utf-8')
+        .split('\n')
+        .filter((line) => line.trim()).length;
+      if (lineCount < minLines) return 0;
+      const kept = this.readUnacknowledged();
+      if (kept.length === lineCount) return 0;
+
+      const tempPath = `${this.journalPath}.tmp`;
+      writeFileSync(tempPath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+      renameSync(tempPath, this.journalPath);
+      return lineCount - kept.length;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[warcraft] Failed to compact transition journal: ${reason}`);
+      return 0;
+    }
+  }
+
   /** Read the last sequence number from the journal */
   private readLastSeq(): number {
     const entries = this.readAll();
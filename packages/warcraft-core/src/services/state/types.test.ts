@@ -50,6 +50,9 @@ describe('state types validation', () => {
         isApproved: async () => false,
         revokeApproval: async () => {},
         syncPlanDescription: async () => {},
+        appendRevision: () => {},
+        recordRevisionApproval: () => {},
+        listRevisions: () => [],
       };
       expect(typeof store.approve).toBe('function');
       expect(typeof store.isApproved).toBe('function');
@@ -6,10 +6,12 @@
  * from domain services.
  */
 
-import type { FeatureJson, FeatureStatusType, TaskInfo, TaskStatus } from '../../types.js';
+import type { FeatureJson, FeatureStatusType, PlanActor, PlanRevision, TaskInfo, TaskStatus } from '../../types.js';
 import type { LockOptions } from '../../utils/json-lock.js';
+import type { AuditEntry, BeadComment } from '../beads/BeadGateway.types.js';
 import type { Diagnostic } from '../outcomes.js';
 import type { BackgroundPatchFields, RunnableTasksResult } from '../taskService.js';
+import type { JournalEntry, TransitionRecoveryReport } from './transition-journal.js';
 
 // ============================================================================
 // Feature Store
@@ -53,12 +55,26 @@ export interface FeatureStore {
 
   /** Reopen a completed feature (save + reopen bead if applicable). */
   reopen(feature: FeatureJson): void;
+
+  /**
+   * Sync the epic bead's dependency edges to the given bead IDs (epics or task beads of other features).
+   * Idempotent: only adds missing edges and removes stale ones.
+   * No-op for filesystem store.
+   */
+  syncDependencies?(feature: FeatureJson, dependsOnBeadIds: string[]): Diagnostic[];
 }
 
 // ============================================================================
 // Task Store
 // ============================================================================
 
+/** Raw audit sources of one task: journaled transitions plus the comments and audit entries on its bead. */
+export interface TaskHistory {
+  transitions: JournalEntry[];
+  comments: BeadComment[];
+  audit: AuditEntry[];
+}
+
 /** Artifact kinds supported by task storage. */
 export type TaskArtifactKind = 'spec' | 'worker_prompt' | 'report';
 
@@ -122,6 +138,9 @@ export interface TaskStore {
   /** Write a task report. Returns a path or identifier. */
   writeReport(featureName: string, folder: string, report: string): string;
 
+  /** Read a task report. Returns null if none was written. */
+  readReport(featureName: string, folder: string): string | null;
+
   /**
    * Get runnable tasks using store-specific strategies.
    * Returns null if the store doesn't support advanced scheduling (filesystem fallback used).
@@ -147,6 +166,18 @@ export interface TaskStore {
   /** Optional batching hooks for transition audit sidecars. */
   beginTransitionBatch?(): void;
   endTransitionBatch?(): void;
+
+  /**
+   * Replay un-acknowledged transition journal entries into beads and compact the journal.
+   * Only bead-backed stores keep a journal.
+   */
+  recoverTransitions?(): TransitionRecoveryReport;
+
+  /**
+   * Read the task's journaled transitions and its bead comments and audit entries.
+   * Only bead-backed stores keep this history; null when the task has no bead.
+   */
+  readTaskHistory?(featureName: string, folder: string): TaskHistory | null;
 }
 
 // ============================================================================
@@ -154,13 +185,13 @@ export interface TaskStore {
 // ============================================================================
 
 /**
- * PlanStore abstracts plan approval state persistence.
+ * PlanStore abstracts plan approval state and revision history persistence.
  *
  * Plan file reading/writing is always filesystem-based (both modes write plan.md).
- * This interface covers the mode-specific approval storage.
+ * This interface covers the mode-specific approval and revision storage.
  *
- * - BeadsPlanStore: approval via epic label + description equality
- * - FilesystemPlanStore: approval via hash in feature.json
+ * - BeadsPlanStore: approval via epic label + description equality; revisions as epic comments
+ * - FilesystemPlanStore: approval via hash in feature.json; revisions under plan-revisions/
  */
 export interface PlanStore {
   /**
@@ -184,6 +215,15 @@ export interface PlanStore {
 
   /** Sync plan content to external store (bead description). No-op for filesystem. */
   syncPlanDescription(featureName: string, content: string): void;
+
+  /** Persist a plan revision snapshot. Revisions are append-only. */
+  appendRevision(featureName: string, revision: PlanRevision): void;
+
+  /** Record that a stored revision was approved. */
+  recordRevisionApproval(featureName: string, revision: number, timestamp: string, approvedBy?: PlanActor): void;
+
+  /** All stored revisions, oldest first, with approval details merged in. */
+  listRevisions(featureName: string): PlanRevision[];
 }
 
 // ============================================================================
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'bun:test';
 import {
   buildEffectiveDependencies,
   computeRunnableAndBlocked,
+  computeTopologicalOrder,
   type TaskWithDeps,
   validateUniquePrefixes,
 } from './taskDependencyGraph.js';
@@ -210,6 +211,44 @@ describe('buildEffectiveDependencies', () => {
   });
 });
 
+describe('computeTopologicalOrder', () => {
+  it('places explicit dependencies before their dependents', () => {
+    const tasks: TaskWithDeps[] = [
+      { folder: '01-ui', status: 'done', dependsOn: ['03-api'] },
+      { folder: '02-docs', status: 'done', dependsOn: [] },
+      { folder: '03-api', status: 'done', dependsOn: [] },
+    ];
+
+    expect(computeTopologicalOrder(tasks)).toEqual({ order: ['02-docs', '03-api', '01-ui'], cyclic: [] });
+  });
+
+  it('applies the sequential fallback for tasks without dependsOn', () => {
+    const tasks: TaskWithDeps[] = [
+      { folder: '02-api', status: 'done' },
+      { folder: '01-setup', status: 'done' },
+    ];
+
+    expect(computeTopologicalOrder(tasks).order).toEqual(['01-setup', '02-api']);
+  });
+
+  it('ignores dependencies on unknown folders', () => {
+    const tasks: TaskWithDeps[] = [{ folder: '01-a', status: 'done', dependsOn: ['99-missing'] }];
+
+    expect(computeTopologicalOrder(tasks)).toEqual({ order: ['01-a'], cyclic: [] });
+  });
+
+  it('reports tasks on or behind a cycle', () => {
+    const tasks: TaskWithDeps[] = [
+      { folder: '01-a', status: 'done', dependsOn: ['02-b'] },
+      { folder: '02-b', status: 'done', dependsOn: ['01-a'] },
+      { folder: '03-c', status: 'done', dependsOn: ['02-b'] },
+      { folder: '04-d', status: 'done', dependsOn: [] },
+    ];
+
+    expect(computeTopologicalOrder(tasks)).toEqual({ order: ['04-d'], cyclic: ['01-a', '02-b', '03-c'] });
+  });
+});
+
 describe('validateUniquePrefixes', () => {
   it('returns empty array when all prefixes are unique', () => {
     const errors = validateUniquePrefixes(['01-setup', '02-api', '03-frontend']);
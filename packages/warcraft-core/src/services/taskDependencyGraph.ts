@@ -128,6 +128,55 @@ export function buildEffectiveDependencies(tasks: TaskWithDeps[]): Map<string, s
   return effectiveDeps;
 }
 
+/**
+ * Result of ordering tasks by their effective dependencies.
+ */
+export interface TopologicalOrderResult {
+  /** Task folders ordered so every dependency precedes its dependents */
+  order: string[];
+  /** Task folders that could not be ordered because they sit on (or behind) a dependency cycle */
+  cyclic: string[];
+}
+
+/**
+ * Order tasks so that each task comes after its effective dependencies.
+ *
+ * Uses {@link buildEffectiveDependencies}, so the numeric sequential fallback applies
+ * to tasks without explicit `dependsOn`. Ties keep the input order, and dependencies
+ * on folders that are not in `tasks` are ignored for ordering purposes.
+ *
+ * @param tasks - Array of tasks with their status and dependencies
+ * @returns Ordered task folders plus any folders left over by a cycle
+ */
+export function computeTopologicalOrder(tasks: TaskWithDeps[]): TopologicalOrderResult {
+  const effectiveDeps = buildEffectiveDependencies(tasks);
+  const known = new Set(tasks.map((task) => task.folder));
+  const remainingDeps = new Map<string, Set<string>>();
+  for (const task of tasks) {
+    const deps = (effectiveDeps.get(task.folder) ?? []).filter((dep) => dep !== task.folder && known.has(dep));
+    remainingDeps.set(task.folder, new Set(deps));
+  }
+
+  const order: string[] = [];
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const task of tasks) {
+      const deps = remainingDeps.get(task.folder);
+      if (!deps || deps.size > 0) continue;
+      order.push(task.folder);
+      remainingDeps.delete(task.folder);
+      for (const other of remainingDeps.values()) {
+        other.delete(task.folder);
+      }
+      progressed = true;
+      break;
+    }
+  }
+
+  return { order, cyclic: [...remainingDeps.keys()] };
+}
+
 /**
  * Validates that all task folders have unique numeric prefixes.
  * Returns an array of error messages for any collisions found.
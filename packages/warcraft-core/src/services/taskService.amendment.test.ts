@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BeadsRepository } from './beads/BeadsRepository.js';
+import { amendPlanContent } from './planAmendment.js';
+import { createStores, type TaskStore } from './state/index.js';
+import { TaskService } from './taskService.js';
+
+const TEST_DIR = `/tmp/warcraft-core-amendment-test-${process.pid}`;
+const FEATURE = 'amend-test';
+const PLAN = `# Plan
+
+## Tasks
+
+### 1. Setup
+
+Install deps.
+
+### 2. Build
+
+Build it.
+
+### 3. Test
+
+Test it.
+`;
+
+function planPath(): string {
+  return path.join(TEST_DIR, 'docs', FEATURE, 'plan.md');
+}
+
+describe('TaskService plan amendments', () => {
+  let service: TaskService;
+  let taskStore: TaskStore;
+
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(path.join(TEST_DIR, 'docs', FEATURE), { recursive: true });
+    fs.writeFileSync(
+      path.join(TEST_DIR, 'docs', FEATURE, 'feature.json'),
+      JSON.stringify({ name: FEATURE, status: 'executing', createdAt: new Date().toISOString() }),
+    );
+    fs.writeFileSync(planPath(), PLAN);
+    taskStore = createStores(TEST_DIR, 'off', new BeadsRepository(TEST_DIR, {}, 'off')).taskStore;
+    service = new TaskService(TEST_DIR, taskStore, 'off', { strictTaskTransitions: true });
+    service.sync(FEATURE);
+    service.update(FEATURE, '01-setup', { status: 'done' });
+    service.update(FEATURE, '02-build', { status: 'in_progress' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function amend(changes: Parameters<typeof amendPlanContent>[1]) {
+    const amendment = amendPlanContent(fs.readFileSync(planPath(), 'utf-8'), changes);
+    return { amendment, preview: service.previewAmendment(FEATURE, amendment) };
+  }
+
+  it('previews added, modified and running tasks without changing anything', () => {
+    const { preview } = amend([
+      { action: 'modify', task: 2, body: 'Build it with the new bundler.' },
+      { action: 'modify', task: 3, title: 'Integration tests', body: 'Test end to end.' },
+      { action: 'add', title: 'Deploy', body: 'Ship it.' },
+    ]);
+
+    expect(preview).toEqual({
+      added: ['03-integration-tests', '04-deploy'],
+      modified: ['02-build', '03-integration-tests'],
+      cancelled: [],
+      specsRegenerated: ['03-integration-tests', '04-deploy'],
+      activeTasksAffected: [{ folder: '02-build', status: 'in_progress' }],
+      reconciled: [],
+      refused: [],
+    });
+    expect(service.list(FEATURE).map((task) => task.folder)).toEqual(['01-setup', '02-build', '03-test']);
+  });
+
+  it('applies the amendment while keeping done and running tasks intact', () => {
+    const { amendment } = amend([
+      { action: 'modify', task: 3, body: 'Test it, including the CLI.' },
+      { action: 'add', title: 'Deploy', body: 'Ship it.' },
+    ]);
+    fs.writeFileSync(planPath(), amendment.content);
+    const writeArtifact = spyOn(taskStore, 'writeArtifact');
+
+    const impact = service.applyAmendment(FEATURE, amendment);
+
+    expect(impact.specsRegenerated).toEqual(['04-deploy', '03-test']);
+    expect(service.list(FEATURE).map((task) => [task.folder, task.status])).toEqual([
+      ['01-setup', 'done'],
+      ['02-build', 'in_progress'],
+      ['03-test', 'pending'],
+      ['04-deploy', 'pending'],
+    ]);
+    expect(writeArtifact).toHaveBeenCalledWith(
+      FEATURE,
+      '03-test',
+      'spec',
+      expect.stringContaining('including the CLI'),
+    );
+    expect(service.getRawStatus(FEATURE, '04-deploy')?.dependsOn).toEqual(['03-test']);
+  });
+
+  it('cancels a pending task and keeps it cancelled on later syncs', () => {
+    const { amendment } = amend([{ action: 'cancel', task: 3, reason: 'covered by CI' }]);
+    fs.writeFileSync(planPath(), amendment.content);
+
+    service.applyAmendment(FEATURE, amendment);
+    service.sync(FEATURE);
+
+    expect(service.get(FEATURE, '03-test')?.status).toBe('cancelled');
+  });
+
+  it('refuses changes that would lose work or strand dependent tasks', () => {
+    expect(amend([{ action: 'modify', task: 1, body: 'Redo it.' }]).preview.refused).toEqual([
+      'Task 1 (01-setup) is done; add a follow-up task instead.',
+    ]);
+    expect(amend([{ action: 'modify', task: 2, title: 'Bundle', body: 'Bundle it.' }]).preview.refused[0]).toContain(
+      'only pending tasks can be renamed',
+    );
+    expect(amend([{ action: 'cancel', task: 2 }]).preview.refused[0]).toContain(
+      'stop it with warcraft_worktree_discard',
+    );
+
+    service.update(FEATURE, '02-build', { status: 'pending' });
+    const { amendment, preview } = amend([{ action: 'cancel', task: 2 }]);
+    expect(preview.refused).toEqual([
+      'Task 3 (03-test) depends on cancelled 02-build; modify its Depends on in the same amendment.',
+    ]);
+    expect(() => service.applyAmendment(FEATURE, amendment)).toThrow('Plan amendment refused');
+  });
+});
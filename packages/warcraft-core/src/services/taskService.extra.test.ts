@@ -98,6 +98,39 @@ describe('TaskService.update timestamp behavior', () => {
     expect(result.preparedAt).toBeUndefined();
   });
 
+  it('records merge metadata and clears it when the task is re-queued', () => {
+    const featureName = 'merge-record';
+    setupFeature(featureName);
+    setupTask(featureName, '01-test', { status: 'done' });
+
+    const stores = createStores(testRoot, 'off', createMockRepository());
+    const service = new TaskService(testRoot, stores.taskStore, 'off');
+
+    service.update(featureName, '01-test', { mergedAt: '2024-02-01T00:00:00Z', mergeSha: 'abc123' });
+    const merged = service.getRawStatus(featureName, '01-test');
+    expect(merged?.status).toBe('done');
+    expect(merged?.mergedAt).toBe('2024-02-01T00:00:00Z');
+    expect(merged?.mergeSha).toBe('abc123');
+
+    const requeued = service.update(featureName, '01-test', { status: 'pending' });
+    expect(requeued.mergedAt).toBeUndefined();
+    expect(requeued.mergeSha).toBeUndefined();
+  });
+
+  it('persists the conflict-resolution link and explicit dependencies set through update', () => {
+    const featureName = 'resolution-link';
+    setupFeature(featureName);
+    setupTask(featureName, '03-resolve-02-api-conflicts', { status: 'pending', origin: 'manual' });
+
+    const stores = createStores(testRoot, 'off', createMockRepository());
+    const service = new TaskService(testRoot, stores.taskStore, 'off');
+
+    service.update(featureName, '03-resolve-02-api-conflicts', { dependsOn: [], resolvesConflictsFor: '02-api' });
+    const raw = service.getRawStatus(featureName, '03-resolve-02-api-conflicts');
+    expect(raw?.dependsOn).toEqual([]);
+    expect(raw?.resolvesConflictsFor).toBe('02-api');
+  });
+
   it('sets preparedAt when transitioning to dispatch_prepared', () => {
     const featureName = 'prepared-ts';
     setupFeature(featureName);
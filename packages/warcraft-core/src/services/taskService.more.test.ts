@@ -116,6 +116,18 @@ describe('TaskService writeReport', () => {
   });
 });
 
+describe('TaskService readReport', () => {
+  it('reads back the written report and returns null before one exists', () => {
+    setupFeature('report-feat');
+    setupTask('report-feat', '01-task');
+    const stores = createStores(testRoot, 'off', createMockRepository());
+    const service = new TaskService(testRoot, stores.taskStore, 'off');
+    expect(service.readReport('report-feat', '01-task')).toBeNull();
+    service.writeReport('report-feat', '01-task', '# Report');
+    expect(service.readReport('report-feat', '01-task')).toBe('# Report');
+  });
+});
+
 describe('TaskService.computeRunnableStatus', () => {
   it('returns all pending tasks as runnable when no dependencies', () => {
     setupFeature('runnable');
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BeadsRepository } from './beads/BeadsRepository.js';
+import { createStores } from './state/index.js';
+import type { TaskStore } from './state/types.js';
+import { TaskService } from './taskService.js';
+
+const TEST_DIR = `/tmp/warcraft-core-split-test-${process.pid}`;
+const FEATURE = 'split-test';
+const SUBTASKS = [
+  { title: 'Parse input', description: 'Parse the input file.' },
+  { title: 'Render output', description: 'Render the result.' },
+];
+
+describe('TaskService manual task splits', () => {
+  let service: TaskService;
+  let store: TaskStore;
+
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(path.join(TEST_DIR, 'docs', FEATURE), { recursive: true });
+    fs.writeFileSync(
+      path.join(TEST_DIR, 'docs', FEATURE, 'feature.json'),
+      JSON.stringify({ name: FEATURE, status: 'executing', createdAt: new Date().toISOString() }),
+    );
+    store = createStores(TEST_DIR, 'off', new BeadsRepository(TEST_DIR, {}, 'off')).taskStore;
+    service = new TaskService(TEST_DIR, store, 'off', { strictTaskTransitions: true });
+    service.create(FEATURE, 'Setup');
+    service.create(FEATURE, 'Convert files');
+    service.create(FEATURE, 'Publish');
+    service.create(FEATURE, 'Announce');
+    service.update(FEATURE, '04-announce', { dependsOn: ['02-convert-files', '01-setup'] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('previews the subtask folders and re-wired tasks without changing anything', () => {
+    expect(service.previewManualSplit(FEATURE, '02-convert-files', SUBTASKS)).toEqual({
+      original: '02-convert-files',
+      subtasks: ['05-parse-input', '06-render-output'],
+      rewired: ['03-publish', '04-announce'],
+    });
+    expect(service.list(FEATURE)).toHaveLength(4);
+  });
+
+  it('replaces the task with sequential subtasks and records the lineage', () => {
+    service.splitManualTask(FEATURE, '02-convert-files', SUBTASKS);
+
+    const original = service.getRawStatus(FEATURE, '02-convert-files');
+    expect(original?.status).toBe('cancelled');
+    expect(original?.splitInto).toEqual(['05-parse-input', '06-render-output']);
+
+    const first = service.getRawStatus(FEATURE, '05-parse-input');
+    expect(first).toMatchObject({ status: 'pending', origin: 'manual', splitFrom: '02-convert-files' });
+    expect(first?.dependsOn).toEqual(['01-setup']);
+    expect(first?.brief).toBe('Parse the input file.');
+    expect(service.getRawStatus(FEATURE, '06-render-output')?.dependsOn).toEqual(['05-parse-input']);
+
+    expect(service.getRawStatus(FEATURE, '03-publish')?.dependsOn).toEqual(['06-render-output']);
+    expect(service.getRawStatus(FEATURE, '04-announce')?.dependsOn).toEqual(['06-render-output', '01-setup']);
+  });
+
+  it('refuses tasks that are not pending manual tasks or clashing subtask names', () => {
+    service.update(FEATURE, '01-setup', { status: 'done' });
+
+    expect(() => service.splitManualTask(FEATURE, '01-setup', SUBTASKS)).toThrow('only pending tasks can be split');
+    expect(() => service.splitManualTask(FEATURE, '09-missing', SUBTASKS)).toThrow("Task '09-missing' not found");
+    expect(() =>
+      service.splitManualTask(FEATURE, '02-convert-files', [SUBTASKS[0], { title: 'Publish', description: '' }]),
+    ).toThrow("Subtask name 'Publish' collides");
+    expect(() => service.splitManualTask(FEATURE, '02-convert-files', SUBTASKS.slice(0, 1))).toThrow(
+      'at least two subtasks',
+    );
+    expect(service.list(FEATURE)).toHaveLength(4);
+  });
+
+  it('gives the subtasks the priority of the task they replace', () => {
+    service.create(FEATURE, 'Urgent fix', undefined, 1);
+
+    service.splitManualTask(FEATURE, '05-urgent-fix', SUBTASKS);
+
+    expect(service.getRawStatus(FEATURE, '06-parse-input')?.priority).toBe(1);
+    expect(service.getRawStatus(FEATURE, '07-render-output')?.priority).toBe(1);
+  });
+
+  it('rolls back the subtasks already created when a later one fails', () => {
+    const createTask = store.createTask.bind(store);
+    let calls = 0;
+    const spy = spyOn(store, 'createTask').mockImplementation((...args) => {
+      calls++;
+      if (calls === 2) throw new Error('bead create failed');
+      return createTask(...args);
+    });
+
+    try {
+      expect(() => service.splitManualTask(FEATURE, '02-convert-files', SUBTASKS)).toThrow(
+        "Splitting task '02-convert-files' failed. Rolled back 1 created subtasks. Original error: bead create failed",
+      );
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(service.list(FEATURE).map((task) => task.folder)).toEqual([
+      '01-setup',
+      '02-convert-files',
+      '03-publish',
+      '04-announce',
+    ]);
+    expect(service.getRawStatus(FEATURE, '02-convert-files')?.status).toBe('pending');
+    expect(service.getRawStatus(FEATURE, '04-announce')?.dependsOn).toEqual(['02-convert-files', '01-setup']);
+  });
+
+  it('restores the task and its dependents when recording the split fails', () => {
+    const spy = spyOn(service, 'recordSplit').mockImplementation(() => {
+      throw new Error('lineage write failed');
+    });
+
+    try {
+      expect(() => service.splitManualTask(FEATURE, '02-convert-files', SUBTASKS)).toThrow(
+        "Splitting task '02-convert-files' failed. Rolled back 2 created subtasks. Original error: lineage write failed",
+      );
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(service.list(FEATURE)).toHaveLength(4);
+    expect(service.getRawStatus(FEATURE, '02-convert-files')).toMatchObject({ status: 'pending' });
+    expect(service.getRawStatus(FEATURE, '02-convert-files')?.splitInto).toBeUndefined();
+    expect(service.getRawStatus(FEATURE, '03-publish')?.dependsOn).toBeUndefined();
+    expect(service.getRawStatus(FEATURE, '04-announce')?.dependsOn).toEqual(['02-convert-files', '01-setup']);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BeadsRepository } from './beads/BeadsRepository.js';
+import { createStores, type TaskStore } from './state/index.js';
+import { TaskService } from './taskService.js';
+
+const TEST_DIR = `/tmp/warcraft-core-tasks-block-test-${process.pid}`;
+const FEATURE = 'tasks-block-test';
+const PLAN = `# Plan
+
+## Task Manifest
+
+\`\`\`warcraft-tasks
+{
+  "tasks": [
+    { "order": 1, "title": "Setup", "files": { "create": ["package.json"] }, "verify": ["bun install"] },
+    { "order": 2, "title": "Docs", "dependsOn": [] },
+    { "order": 3, "title": "Build", "dependsOn": [1, 2], "acceptance": ["dist/ is produced"] }
+  ]
+}
+\`\`\`
+
+## Tasks
+
+### 1. Setup
+
+Install deps.
+
+### 2. Docs
+
+**Depends on**: 1
+
+Write docs.
+
+### 3. Build
+
+Build it.
+`;
+
+describe('TaskService with a warcraft-tasks block', () => {
+  let service: TaskService;
+  let taskStore: TaskStore;
+
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(path.join(TEST_DIR, 'docs', FEATURE), { recursive: true });
+    fs.writeFileSync(
+      path.join(TEST_DIR, 'docs', FEATURE, 'feature.json'),
+      JSON.stringify({ name: FEATURE, status: 'executing', createdAt: new Date().toISOString() }),
+    );
+    taskStore = createStores(TEST_DIR, 'off', new BeadsRepository(TEST_DIR, {}, 'off')).taskStore;
+    service = new TaskService(TEST_DIR, taskStore, 'off');
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function writePlan(content: string): void {
+    fs.writeFileSync(path.join(TEST_DIR, 'docs', FEATURE, 'plan.md'), content);
+  }
+
+  it('takes declared dependencies from the block over the markdown', () => {
+    writePlan(PLAN);
+
+    service.sync(FEATURE);
+
+    expect(service.getRawStatus(FEATURE, '01-setup')?.dependsOn).toEqual([]);
+    expect(service.getRawStatus(FEATURE, '02-docs')?.dependsOn).toEqual([]);
+    expect(service.getRawStatus(FEATURE, '03-build')?.dependsOn).toEqual(['01-setup', '02-docs']);
+  });
+
+  it('renders declared files, verify commands and acceptance criteria into specs', () => {
+    writePlan(PLAN);
+    const writeArtifact = spyOn(taskStore, 'writeArtifact');
+
+    service.sync(FEATURE);
+
+    const specs = new Map(writeArtifact.mock.calls.map((call) => [call[1], call[3]]));
+    expect(specs.get('01-setup')).toContain('## Task Type\n\ngreenfield');
+    expect(specs.get('01-setup')).toContain('## Files\n\n- Create: `package.json`');
+    expect(specs.get('01-setup')).toContain('## Verify\n\n- `bun install`');
+    expect(specs.get('03-build')).toContain('## Acceptance Criteria\n\n- [ ] dist/ is produced');
+  });
+
+  it('stores acceptance criteria on tasks and refreshes them when the plan changes', () => {
+    writePlan(PLAN);
+    service.sync(FEATURE);
+
+    expect(service.getRawStatus(FEATURE, '01-setup')?.acceptanceCriteria).toEqual(['Run: `bun install`']);
+    expect(service.getRawStatus(FEATURE, '02-docs')?.acceptanceCriteria).toBeUndefined();
+    expect(service.getRawStatus(FEATURE, '03-build')?.acceptanceCriteria).toEqual(['dist/ is produced']);
+
+    writePlan(PLAN.replace('"dist/ is produced"', '"dist/index.js is produced"'));
+    service.sync(FEATURE);
+
+    expect(service.getRawStatus(FEATURE, '03-build')?.acceptanceCriteria).toEqual(['dist/index.js is produced']);
+  });
+
+  it('stores cross-feature references from Depends on lines next to local dependencies', () => {
+    writePlan(PLAN.replace('**Depends on**: 1', '**Depends on**: 1, billing-api/02-endpoint'));
+
+    service.sync(FEATURE);
+
+    expect(service.getRawStatus(FEATURE, '02-docs')?.dependsOn).toEqual([]);
+    expect(service.getRawStatus(FEATURE, '02-docs')?.crossFeatureDependsOn).toEqual(['billing-api/02-endpoint']);
+    expect(service.getRawStatus(FEATURE, '01-setup')?.crossFeatureDependsOn).toBeUndefined();
+  });
+
+  it('ignores an invalid block, syncs the markdown tasks and reports the plan.md line', () => {
+    writePlan(PLAN.replace('"dependsOn": [1, 2]', '"dependsOn": [1, 9]'));
+
+    const result = service.sync(FEATURE);
+
+    expect(result.created).toEqual(['01-setup', '02-docs', '03-build']);
+    expect(result.diagnostics).toMatchObject([{ code: 'plan_tasks_block_invalid', severity: 'degraded' }]);
+    expect(result.diagnostics?.[0].message).toContain(
+      'Invalid warcraft-tasks block in plan.md:\n- line 10 (tasks[2].dependsOn): Task 3 depends on undeclared task 9.',
+    );
+    expect(service.previewSync(FEATURE).diagnostics?.[0].code).toBe('plan_tasks_block_invalid');
+    expect(service.getRawStatus(FEATURE, '02-docs')?.dependsOn).toEqual(['01-setup']);
+    expect(service.getRawStatus(FEATURE, '03-build')?.dependsOn).toEqual(['02-docs']);
+  });
+});
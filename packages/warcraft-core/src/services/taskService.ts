@@ -1,7 +1,11 @@
 import type {
+  AmendedPlan,
   BeadsMode,
+  PlanAmendmentImpact,
   SpecData,
   TaskInfo,
+  TaskSplitResult,
+  TaskSplitSubtask,
   TaskStatus,
   TaskStatusType,
   TaskSyncReconciliation,
@@ -14,13 +18,18 @@ import type { Logger } from '../utils/logger.js';
 import { createNoopLogger } from '../utils/logger.js';
 import { getPlanPath, sanitizeName } from '../utils/paths.js';
 import { deriveTaskFolder, slugifyTaskName } from '../utils/slug.js';
+import { parseAcceptanceCriteria } from './acceptanceCriteria.js';
+import { parseCrossFeatureRef } from './crossFeatureDependencies.js';
 import type { Diagnostic } from './outcomes.js';
-import { fromError } from './outcomes.js';
+import { diagnostic, fromError } from './outcomes.js';
+import { dependsOnNumbers, scanPlanTaskSections } from './planTaskSections.js';
+import { formatPlanTasksBlockIssues, parsePlanTasksBlock } from './planTasksBlock.js';
 import { formatSpecContent } from './specFormatter.js';
-import type { TaskStore } from './state/types.js';
+import type { TransitionRecoveryReport } from './state/transition-journal.js';
+import type { TaskHistory, TaskStore } from './state/types.js';
 import { validateTransition } from './task-state-machine.js';
 import type { RunnableBlockedResult, TaskWithDeps } from './taskDependencyGraph.js';
-import { computeRunnableAndBlocked } from './taskDependencyGraph.js';
+import { buildEffectiveDependencies, computeRunnableAndBlocked } from './taskDependencyGraph.js';
 
 /** Current schema version for TaskStatus */
 export const TASK_STATUS_SCHEMA_VERSION = 1;
@@ -45,6 +54,10 @@ interface ParsedTask {
   description: string;
   /** Raw dependency numbers parsed from plan. null = not specified (use implicit), [] = explicit none */
   dependsOnNumbers: number[] | null;
+  /** Acceptance Criteria and Verify items, or the block's declared acceptance/verify. */
+  acceptanceCriteria: string[];
+  /** `<feature>/<task-folder>` references from the Depends on line. */
+  crossFeatureDependsOn: string[];
 }
 
 export interface RunnableTask {
@@ -79,6 +92,8 @@ interface ReconciliationAction {
 interface SyncDelta {
   planTasks: ParsedTask[];
   planContent: string;
+  /** Problems found while reading the plan, e.g. an invalid `warcraft-tasks` block that was ignored. */
+  planDiagnostics: Diagnostic[];
   kept: string[];
   removed: string[];
   created: string[];
@@ -142,6 +157,173 @@ export class TaskService {
 
   sync(featureName: string): TasksSyncResult {
     const delta = this._computeSyncDelta(featureName);
+    const diagnostics = this.applySyncDelta(featureName, delta);
+    return this.buildSyncResult(delta, diagnostics);
+  }
+
+  /**
+   * Preview how an amended plan changes the tasks of an executing feature, without making changes.
+   * `refused` lists the reasons the amendment cannot be applied.
+   */
+  previewAmendment(featureName: string, amendment: AmendedPlan): PlanAmendmentImpact {
+    return this.computeAmendment(featureName, amendment).impact;
+  }
+
+  /**
+   * Apply an amended plan to the tasks of an executing feature: create added tasks, re-wire and
+   * regenerate specs of modified pending tasks, and cancel cancelled ones. Done and dispatched
+   * tasks keep their status, spec and worktree.
+   *
+   * @throws Error when the amendment is refused (see previewAmendment)
+   */
+  applyAmendment(featureName: string, amendment: AmendedPlan): PlanAmendmentImpact {
+    const { impact, delta } = this.computeAmendment(featureName, amendment);
+    if (impact.refused.length > 0) {
+      throw new Error(`Plan amendment refused:\n${impact.refused.map((reason) => `- ${reason}`).join('\n')}`);
+    }
+
+    const cancelled = new Set(impact.cancelled);
+    this.applySyncDelta(featureName, {
+      ...delta,
+      reconciled: delta.reconciled.filter((action) => !cancelled.has(action.currentTask.folder)),
+    });
+
+    const created = new Set(delta.created);
+    for (const folder of impact.specsRegenerated) {
+      if (created.has(folder)) continue;
+      const planTask = delta.planTasks.find((task) => task.folder === folder);
+      if (!planTask) continue;
+      const specData = this.buildSpecData({
+        featureName,
+        task: planTask,
+        dependsOn: this.resolveDependencies(planTask, delta.planTasks),
+        allTasks: delta.planTasks,
+        planContent: delta.planContent,
+      });
+      this.store.writeArtifact(featureName, folder, 'spec', formatSpecContent(specData));
+    }
+
+    for (const folder of impact.cancelled) {
+      this.transition(featureName, folder, 'cancelled');
+    }
+
+    return impact;
+  }
+
+  private computeAmendment(
+    featureName: string,
+    amendment: AmendedPlan,
+  ): { impact: PlanAmendmentImpact; delta: SyncDelta } {
+    const delta = this._computeSyncDelta(featureName, amendment.content);
+    const existingTasks = this.store.list(featureName);
+    const refused: string[] = [];
+    const planTaskAt = (order: number) => delta.planTasks.find((task) => task.order === order);
+    // One canonical task per numeric prefix, see create().
+    const existingAt = (order: number) =>
+      existingTasks.find((task) => task.status !== 'cancelled' && parseInt(task.folder, 10) === order) ??
+      existingTasks.find((task) => parseInt(task.folder, 10) === order);
+
+    const modified: string[] = [];
+    const specsRegenerated: string[] = [];
+    const activeTasksAffected: PlanAmendmentImpact['activeTasksAffected'] = [];
+    const expectedCreated = new Set(amendment.added.map((order) => planTaskAt(order)?.folder));
+    const expectedRemoved = new Set<string>();
+
+    for (const order of amendment.modified) {
+      const existing = existingAt(order);
+      const planTask = planTaskAt(order);
+      if (!existing || !planTask) {
+        refused.push(`Task ${order} has not been synced yet; edit the plan and run warcraft_tasks_sync instead.`);
+        continue;
+      }
+      if (existing.status === 'done' || existing.status === 'cancelled') {
+        refused.push(`Task ${order} (${existing.folder}) is ${existing.status}; add a follow-up task instead.`);
+        continue;
+      }
+      if (existing.folder !== planTask.folder) {
+        if (existing.status !== 'pending') {
+          refused.push(
+            `Task ${order} (${existing.folder}) is ${existing.status}; only pending tasks can be renamed, since the folder names its worktree.`,
+          );
+          continue;
+        }
+        expectedRemoved.add(existing.folder);
+        expectedCreated.add(planTask.folder);
+      }
+      modified.push(planTask.folder);
+      if (existing.status === 'pending') {
+        specsRegenerated.push(planTask.folder);
+      } else {
+        activeTasksAffected.push({ folder: existing.folder, status: existing.status });
+      }
+    }
+
+    const cancelled: string[] = [];
+    for (const order of amendment.cancelled) {
+      const existing = existingAt(order);
+      if (!existing) {
+        refused.push(`Task ${order} has not been synced yet; edit the plan and run warcraft_tasks_sync instead.`);
+        continue;
+      }
+      if (existing.status === 'done' || existing.status === 'cancelled') {
+        refused.push(`Task ${order} (${existing.folder}) is already ${existing.status}.`);
+        continue;
+      }
+      if (existing.status === 'in_progress' || existing.status === 'dispatch_prepared') {
+        refused.push(
+          `Task ${order} (${existing.folder}) is ${existing.status}; stop it with warcraft_worktree_discard before cancelling it.`,
+        );
+        continue;
+      }
+      cancelled.push(existing.folder);
+    }
+
+    const cancelledOrders = new Set(amendment.cancelled);
+    const cancelledPlanFolders = new Set(amendment.cancelled.map((order) => planTaskAt(order)?.folder));
+    for (const planTask of delta.planTasks) {
+      if (cancelledOrders.has(planTask.order)) continue;
+      const status = existingAt(planTask.order)?.status;
+      if (status === 'done' || status === 'cancelled') continue;
+      const cancelledDependency = this.resolveDependencies(planTask, delta.planTasks).find((folder) =>
+        cancelledPlanFolders.has(folder),
+      );
+      if (cancelledDependency) {
+        refused.push(
+          `Task ${planTask.order} (${planTask.folder}) depends on cancelled ${cancelledDependency}; modify its Depends on in the same amendment.`,
+        );
+      }
+    }
+
+    const unexpectedCreated = delta.created.filter((folder) => !expectedCreated.has(folder));
+    const unexpectedRemoved = delta.removed.filter((folder) => !expectedRemoved.has(folder));
+    if (unexpectedCreated.length > 0 || unexpectedRemoved.length > 0) {
+      refused.push(
+        `Tasks are out of sync with the plan (${[...unexpectedCreated, ...unexpectedRemoved].join(', ')}); run warcraft_tasks_sync before amending.`,
+      );
+    }
+
+    const added = delta.created.filter((folder) => expectedCreated.has(folder));
+    return {
+      delta,
+      impact: {
+        added,
+        modified,
+        cancelled,
+        specsRegenerated: [...new Set([...added, ...specsRegenerated])],
+        activeTasksAffected,
+        reconciled: delta.reconciled
+          .filter((action) => !cancelled.includes(action.currentTask.folder))
+          .map((action) => this.toReconciliationSummary(action)),
+        refused,
+      },
+    };
+  }
+
+  /**
+   * Apply a computed sync delta: remove, reconcile and create tasks, then sync dependencies.
+   * Created tasks are rolled back when a step fails.
+   */
+  private applySyncDelta(featureName: string, delta: SyncDelta): Diagnostic[] {
     const supportsTransitionBatch =
       typeof this.store.beginTransitionBatch === 'function' && typeof this.store.endTransitionBatch === 'function';
 
@@ -174,6 +356,10 @@ export class TaskService {
           origin: 'plan',
           planTitle: planTask.name,
           dependsOn,
+          ...(planTask.acceptanceCriteria.length > 0 ? { acceptanceCriteria: planTask.acceptanceCriteria } : {}),
+          ...(planTask.crossFeatureDependsOn.length > 0
+            ? { crossFeatureDependsOn: planTask.crossFeatureDependsOn }
+            : {}),
         };
 
         this.store.createTask(featureName, planTask.folder, planTask.name, status, 3);
@@ -248,22 +434,29 @@ export class TaskService {
       }
     }
 
-    return this.buildSyncResult(delta, diagnostics);
+    return diagnostics;
   }
 
   /**
    * Compute the sync delta between plan tasks and existing tasks.
-   * Shared by previewSync() and sync() to ensure identical classification.
+   * Shared by previewSync(), sync() and the plan amendment methods to ensure identical classification.
+   * Amendments pass the amended plan content, which is not on disk yet during a preview.
    */
-  private _computeSyncDelta(featureName: string): SyncDelta {
+  private _computeSyncDelta(featureName: string, planContentOverride?: string): SyncDelta {
     const planPath = getPlanPath(this.projectRoot, featureName, this.beadsMode);
-    const planContent = readText(planPath);
+    const planContent = planContentOverride ?? readText(planPath);
 
     if (!planContent) {
       throw new Error(`No plan.md found for feature '${featureName}'`);
     }
 
-    const planTasks = this.parseTasksFromPlan(planContent);
+    const { tasks: planTasks, diagnostics: planDiagnostics } = this.parseTasksFromPlan(planContent);
+    for (const diag of planDiagnostics) {
+      this.logger.warn(`Plan of '${featureName}' read with fallback (degraded): ${diag.message}`, {
+        featureName,
+        code: diag.code,
+      });
+    }
 
     this.validateUniqueTaskNumbers(planTasks);
     this.validateDependencyGraph(planTasks);
@@ -283,6 +476,9 @@ export class TaskService {
       const dependsOn = this.resolveDependencies(planTask, planTasks);
       const occupiedFolder = existingTasks.find((existing) => existing.folder === planTask.folder);
       if (occupiedFolder?.status === 'cancelled') {
+        // Keep the cancelled record; its section stays in the plan so it is neither recreated nor removed.
+        matchedExistingFolders.add(occupiedFolder.folder);
+        kept.push(occupiedFolder.folder);
         continue;
       }
 
@@ -336,6 +532,7 @@ export class TaskService {
     return {
       planTasks,
       planContent,
+      planDiagnostics,
       kept,
       removed,
       created,
@@ -353,8 +550,8 @@ export class TaskService {
       manual: delta.manual,
     };
 
-    if (diagnostics) {
-      result.diagnostics = diagnostics;
+    if (diagnostics || delta.planDiagnostics.length > 0) {
+      result.diagnostics = [...delta.planDiagnostics, ...(diagnostics ?? [])];
     }
 
     return result;
@@ -389,6 +586,10 @@ export class TaskService {
       origin: 'plan',
       planTitle: action.planTask.name,
       dependsOn: action.dependsOn,
+      acceptanceCriteria:
+        action.planTask.acceptanceCriteria.length > 0 ? action.planTask.acceptanceCriteria : undefined,
+      crossFeatureDependsOn:
+        action.planTask.crossFeatureDependsOn.length > 0 ? action.planTask.crossFeatureDependsOn : undefined,
       beadId: baseStatus.beadId ?? action.currentTask.beadId,
       folder: action.planTask.folder,
     };
@@ -453,6 +654,18 @@ export class TaskService {
       return true;
     }
 
+    const currentCriteria = currentStatus.acceptanceCriteria ?? [];
+    if (
+      currentCriteria.length !== planTask.acceptanceCriteria.length ||
+      currentCriteria.some((criterion, index) => criterion !== planTask.acceptanceCriteria[index])
+    ) {
+      return true;
+    }
+
+    if (!this.haveSameDependencies(currentStatus.crossFeatureDependsOn ?? [], planTask.crossFeatureDependsOn)) {
+      return true;
+    }
+
     return !this.haveSameDependencies(currentStatus.dependsOn, dependsOn);
   }
 
@@ -525,6 +738,7 @@ export class TaskService {
       status: 'pending',
       origin: 'manual',
       planTitle: name,
+      priority,
       ...(normalizedBrief ? { brief: normalizedBrief } : {}),
     };
 
@@ -533,6 +747,160 @@ export class TaskService {
     return folder;
   }
 
+  /**
+   * Preview splitting a pending manual task into subtasks, without making changes.
+   *
+   * @throws Error when the task cannot be split (see splitManualTask)
+   */
+  previewManualSplit(featureName: string, taskFolder: string, subtasks: TaskSplitSubtask[]): TaskSplitResult {
+    return this.computeManualSplit(featureName, taskFolder, subtasks).result;
+  }
+
+  /**
+   * Replace a pending manual task with subtasks that run in sequence: the first inherits the
+   * task's dependencies, tasks that depended on it are re-wired to the last subtask, and the task
+   * is cancelled with its lineage recorded on both sides. Subtasks keep the task's priority. Plan
+   * tasks are split by amending the plan. If any step fails, the subtasks created so far are deleted
+   * and re-wired tasks get their dependencies back, leaving the task as it was.
+   *
+   * @throws Error when the task is missing, not manual or not pending, or a subtask folder is taken
+   */
+  splitManualTask(featureName: string, taskFolder: string, subtasks: TaskSplitSubtask[]): TaskSplitResult {
+    const { result, orders, dependencies } = this.computeManualSplit(featureName, taskFolder, subtasks);
+    const priority = this.store.getRawStatus(featureName, taskFolder)?.priority ?? 3;
+    const createdFolders: string[] = [];
+    const previousDependsOn = new Map<string, string[] | undefined>();
+    let originalTouched = false;
+
+    try {
+      subtasks.forEach((subtask, index) => {
+        const folder = this.create(featureName, subtask.title, orders[index], priority, subtask.description);
+        createdFolders.push(folder);
+        this.update(featureName, folder, {
+          dependsOn: index === 0 ? dependencies.inherited : [result.subtasks[index - 1]],
+        });
+      });
+      for (const folder of result.rewired) {
+        previousDependsOn.set(folder, this.store.getRawStatus(featureName, folder)?.dependsOn);
+        this.update(featureName, folder, { dependsOn: dependencies.rewired.get(folder) });
+      }
+      originalTouched = true;
+      this.transition(featureName, taskFolder, 'cancelled');
+      this.recordSplit(featureName, taskFolder, result.subtasks);
+    } catch (error) {
+      const rollbackFailures: string[] = [];
+      if (originalTouched) {
+        try {
+          this.update(featureName, taskFolder, { status: 'pending', splitInto: undefined });
+        } catch (rollbackError) {
+          rollbackFailures.push(taskFolder);
+          this.logger.warn(`Rollback failed for '${taskFolder}' during task split: ${String(rollbackError)}`, {
+            featureName,
+            folder: taskFolder,
+          });
+        }
+      }
+      for (const [folder, dependsOn] of previousDependsOn) {
+        try {
+          this.update(featureName, folder, { dependsOn });
+        } catch (rollbackError) {
+          rollbackFailures.push(folder);
+          this.logger.warn(`Rollback failed for '${folder}' during task split: ${String(rollbackError)}`, {
+            featureName,
+            folder,
+          });
+        }
+      }
+      for (const folder of createdFolders) {
+        try {
+          this.store.delete(featureName, folder);
+        } catch (rollbackError) {
+          rollbackFailures.push(folder);
+          this.logger.warn(`Rollback failed for '${folder}' during task split: ${String(rollbackError)}`, {
+            featureName,
+            folder,
+          });
+        }
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      const rollbackDetail =
+        rollbackFailures.length > 0
+          ? `Rollback failed for: ${rollbackFailures.join(', ')}.`
+          : `Rolled back ${createdFolders.length} created subtasks.`;
+      throw new Error(`Splitting task '${taskFolder}' failed. ${rollbackDetail} Original error: ${reason}`);
+    }
+    return result;
+  }
+
+  /** Record split lineage: `splitInto` on the original task and `splitFrom` on each subtask. */
+  recordSplit(featureName: string, original: string, subtaskFolders: string[]): void {
+    this.update(featureName, original, { splitInto: subtaskFolders });
+    for (const folder of subtaskFolders) {
+      this.update(featureName, folder, { splitFrom: original });
+    }
+  }
+
+  private computeManualSplit(
+    featureName: string,
+    taskFolder: string,
+    subtasks: TaskSplitSubtask[],
+  ): {
+    result: TaskSplitResult;
+    orders: number[];
+    dependencies: { inherited: string[]; rewired: Map<string, string[]> };
+  } {
+    const current = this.store.getRawStatus(featureName, taskFolder);
+    if (!current) {
+      throw new Error(`Task '${taskFolder}' not found`);
+    }
+    if (current.origin !== 'manual') {
+      throw new Error(`Task '${taskFolder}' comes from the plan; split it by amending the plan instead.`);
+    }
+    if (current.status !== 'pending') {
+      throw new Error(`Task '${taskFolder}' is ${current.status}; only pending tasks can be split.`);
+    }
+    if (subtasks.length < 2) {
+      throw new Error('A split needs at least two subtasks.');
+    }
+
+    const existingTasks = this.store.list(featureName);
+    const firstOrder = this.store.getNextOrder(featureName);
+    const orders = subtasks.map((_, index) => firstOrder + index);
+    const slugs = new Set<string>();
+    const folders = subtasks.map((subtask, index) => {
+      const name = sanitizeName(subtask.title);
+      const slug = slugifyTaskName(name);
+      if (slugs.has(slug) || existingTasks.some((task) => task.folder.replace(/^\d+-/, '') === slug)) {
+        throw new Error(`Subtask name '${name}' collides with another task (folder: ${slug}). Please rename it.`);
+      }
+      slugs.add(slug);
+      return deriveTaskFolder(orders[index], name);
+    });
+
+    const effective = buildEffectiveDependencies(
+      existingTasks.map((task) => ({
+        folder: task.folder,
+        status: task.status,
+        dependsOn: this.store.getRawStatus(featureName, task.folder)?.dependsOn,
+      })),
+    );
+    const last = folders[folders.length - 1];
+    const rewired = new Map<string, string[]>();
+    for (const task of existingTasks) {
+      if (task.folder === taskFolder || task.status === 'done' || task.status === 'cancelled') continue;
+      const dependsOn = effective.get(task.folder) ?? [];
+      if (!dependsOn.includes(taskFolder)) continue;
+      rewired.set(task.folder, [...new Set(dependsOn.map((folder) => (folder === taskFolder ? last : folder)))]);
+    }
+
+    return {
+      result: { original: taskFolder, subtasks: folders, rewired: [...rewired.keys()] },
+      orders,
+      dependencies: { inherited: effective.get(taskFolder) ?? [], rewired },
+    };
+  }
+
   readTaskBeadArtifact(
     featureName: string,
     taskFolder: string,
@@ -554,7 +922,28 @@ export class TaskService {
   update(
     featureName: string,
     taskFolder: string,
-    updates: Partial<Pick<TaskStatus, 'status' | 'summary' | 'baseCommit' | 'blocker' | 'learnings'>>,
+    updates: Partial<
+      Pick<
+        TaskStatus,
+        | 'status'
+        | 'summary'
+        | 'baseCommit'
+        | 'blocker'
+        | 'learnings'
+        | 'verification'
+        | 'acceptanceResults'
+        | 'diffStats'
+        | 'mergedAt'
+        | 'mergeSha'
+        | 'mergeBaseSha'
+        | 'mergeBranch'
+        | 'dependsOn'
+        | 'brief'
+        | 'resolvesConflictsFor'
+        | 'splitFrom'
+        | 'splitInto'
+      >
+    >,
     _lockOptions?: LockOptions,
   ): TaskStatus {
     const current = this.store.getRawStatus(featureName, taskFolder);
@@ -580,11 +969,17 @@ export class TaskService {
     }
     // Reset execution-cycle timestamps when returning to pending (e.g. cancelled → pending re-queue).
     // Without this, a re-executed task keeps stale startedAt/completedAt from its first execution.
-    // Also clears preparedAt from dispatch_prepared → pending rollback.
+    // Also clears preparedAt from dispatch_prepared → pending rollback, and the merge record
+    // so re-executed work shows up as unmerged again, and its acceptance results so they are reported afresh.
     if (updates.status === 'pending') {
       updated.startedAt = undefined;
       updated.completedAt = undefined;
       updated.preparedAt = undefined;
+      updated.mergedAt = undefined;
+      updated.mergeSha = undefined;
+      updated.mergeBaseSha = undefined;
+      updated.mergeBranch = undefined;
+      updated.acceptanceResults = undefined;
     }
 
     const statusChanged = updates.status !== undefined && updates.status !== current.status;
@@ -605,7 +1000,7 @@ export class TaskService {
    * @param featureName - Feature name
    * @param taskFolder - Task folder name
    * @param toStatus - Target status to transition to
-   * @param extras - Optional additional fields (summary, blocker, baseCommit)
+   * @param extras - Optional additional fields (summary, blocker, baseCommit, completion results)
    * @returns Updated TaskStatus
    * @throws InvalidTransitionError when strict mode is enabled and transition is not allowed
    */
@@ -613,7 +1008,12 @@ export class TaskService {
     featureName: string,
     taskFolder: string,
     toStatus: TaskStatusType,
-    extras?: Partial<Pick<TaskStatus, 'summary' | 'blocker' | 'baseCommit' | 'learnings'>>,
+    extras?: Partial<
+      Pick<
+        TaskStatus,
+        'summary' | 'blocker' | 'baseCommit' | 'learnings' | 'verification' | 'acceptanceResults' | 'diffStats'
+      >
+    >,
   ): TaskStatus {
     const current = this.store.getRawStatus(featureName, taskFolder);
 
@@ -656,6 +1056,22 @@ export class TaskService {
     return this.store.patchBackground(featureName, taskFolder, patch, lockOptions);
   }
 
+  /**
+   * Replay transitions the store journaled but never confirmed in beads (see
+   * BeadsTaskStore.recoverTransitions). Returns null when the store keeps no journal.
+   */
+  recoverTransitions(): TransitionRecoveryReport | null {
+    return this.store.recoverTransitions?.() ?? null;
+  }
+
+  /**
+   * Read the journaled transitions, bead comments and bead audit entries of a task.
+   * Returns null when the store keeps no such history (filesystem mode) or the task has no bead.
+   */
+  getTaskHistory(featureName: string, taskFolder: string): TaskHistory | null {
+    return this.store.readTaskHistory?.(featureName, taskFolder) ?? null;
+  }
+
   /**
    * Get raw TaskStatus including all fields (for internal use or debugging).
    */
@@ -683,6 +1099,10 @@ export class TaskService {
     return this.store.writeReport(featureName, taskFolder, report);
   }
 
+  readReport(featureName: string, taskFolder: string): string | null {
+    return this.store.readReport(featureName, taskFolder);
+  }
+
   /**
    * Get tasks that are runnable (dependencies satisfied).
    * Tries store-specific strategy first, falls back to filesystem-based resolution.
@@ -714,6 +1134,10 @@ export class TaskService {
     const planSection = this.extractPlanSection(planContent ?? null, task);
     const rawStatus = this.store.getRawStatus(featureName, task.folder);
     const taskBrief = rawStatus?.origin === 'manual' ? (rawStatus.brief?.trim() ?? null) : null;
+    const declaration =
+      planContent && rawStatus?.origin !== 'manual'
+        ? (parsePlanTasksBlock(planContent).tasks?.find((declared) => declared.order === task.order) ?? null)
+        : null;
 
     return {
       featureName,
@@ -725,6 +1149,7 @@ export class TaskService {
       dependsOn,
       allTasks,
       planSection,
+      declaration,
       taskBrief,
       contextFiles,
       completedTasks,
@@ -1027,75 +1452,51 @@ export class TaskService {
     };
   }
 
-  private parseTasksFromPlan(content: string): ParsedTask[] {
-    const tasks: ParsedTask[] = [];
+  /**
+   * Parse the `### N.` task sections of a plan. An invalid `warcraft-tasks` block is reported as a
+   * diagnostic and ignored, so tasks fall back to what the markdown sections declare.
+   */
+  private parseTasksFromPlan(content: string): { tasks: ParsedTask[]; diagnostics: Diagnostic[] } {
     const lines = content.split('\n');
-
-    let currentTask: ParsedTask | null = null;
-    let descriptionLines: string[] = [];
-
-    // Regex to match "Depends on:" or "**Depends on**:" with optional markdown
-    // Strips markdown formatting (**, *, etc.) and captures the value
-    // Also handles bullet-point prefixes like "- Depends on:" or "* **Depends on**:"
-    const dependsOnRegex = /^\s*(?:[-*]\s+)?\*{0,2}Depends\s+on\*{0,2}\s*:\s*(.+)$/i;
-
-    for (const line of lines) {
-      // Check for task header: ### N. Task Name
-      const taskMatch = line.match(/^###\s+(\d+)\.\s+(.+)$/);
-
-      if (taskMatch) {
-        // Save previous task if exists
-        if (currentTask) {
-          currentTask.description = descriptionLines.join('\n').trim();
-          tasks.push(currentTask);
-        }
-
-        const order = parseInt(taskMatch[1], 10);
-        const rawName = taskMatch[2].trim();
-        const folder = deriveTaskFolder(order, rawName);
-
-        currentTask = {
-          folder,
-          order,
-          name: rawName,
-          description: '',
-          dependsOnNumbers: null, // null = not specified, use implicit
-        };
-        descriptionLines = [];
-      } else if (currentTask) {
-        // Check for end of task section (next ## header or ### without number)
-        if (line.match(/^##\s+/) || line.match(/^###\s+[^0-9]/)) {
-          currentTask.description = descriptionLines.join('\n').trim();
-          tasks.push(currentTask);
-          currentTask = null;
-          descriptionLines = [];
-        } else {
-          // Check for Depends on: annotation within task section
-          const dependsMatch = line.match(dependsOnRegex);
-          if (dependsMatch) {
-            const value = dependsMatch[1].replace(/\*+/g, '').trim().toLowerCase();
-            if (value === 'none') {
-              currentTask.dependsOnNumbers = [];
-            } else {
-              // Parse comma-separated numbers
-              const numbers = value
-                .split(/[,\s]+/)
-                .map((s) => parseInt(s.trim(), 10))
-                .filter((n) => !Number.isNaN(n));
-              currentTask.dependsOnNumbers = numbers;
-            }
-          }
-          descriptionLines.push(line);
-        }
+    const tasks: ParsedTask[] = scanPlanTaskSections(lines).map((section) => ({
+      folder: deriveTaskFolder(section.order, section.title),
+      order: section.order,
+      name: section.title,
+      description: lines
+        .slice(section.start + 1, section.end)
+        .join('\n')
+        .trim(),
+      // null = not specified, use implicit
+      dependsOnNumbers: section.dependsOn ? dependsOnNumbers(section.dependsOn) : null,
+      acceptanceCriteria: [],
+      // `<feature>/<task-folder>` entries name tasks of other features
+      crossFeatureDependsOn: (section.dependsOn ?? []).filter((entry) => parseCrossFeatureRef(entry)?.task),
+    }));
+
+    // A warcraft-tasks block, when present, is authoritative for declared dependencies.
+    const block = parsePlanTasksBlock(content);
+    const diagnostics =
+      block.issues.length > 0
+        ? [
+            diagnostic(
+              'plan_tasks_block_invalid',
+              `${formatPlanTasksBlockIssues(block.issues)}\nThe block was ignored; tasks follow the markdown sections.`,
+              'degraded',
+              { issues: block.issues },
+            ),
+          ]
+        : [];
+    for (const declaration of block.tasks ?? []) {
+      const task = tasks.find((candidate) => candidate.order === declaration.order);
+      if (task && declaration.dependsOn) {
+        task.dependsOnNumbers = declaration.dependsOn;
       }
     }
-
-    // Don't forget the last task
-    if (currentTask) {
-      currentTask.description = descriptionLines.join('\n').trim();
-      tasks.push(currentTask);
+    for (const task of tasks) {
+      const declaration = block.tasks?.find((candidate) => candidate.order === task.order);
+      task.acceptanceCriteria = parseAcceptanceCriteria(task.description, declaration);
     }
 
-    return tasks;
+    return { tasks, diagnostics };
   }
 }
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+import type { WarcraftEvent } from './event-logger.js';
+import type { TaskHistory } from './state/types.js';
+import { buildTimeline } from './timeline.js';
+
+const events: WarcraftEvent[] = [
+  {
+    type: 'dispatch',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T10:00:00.000Z',
+    details: { agent: 'mekkatorque', continueFrom: null },
+  },
+  {
+    type: 'blocked',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T10:20:00.000Z',
+    details: { reason: 'Which OAuth provider?' },
+  },
+  {
+    type: 'dispatch',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T11:00:00.000Z',
+    details: { agent: 'mekkatorque', continueFrom: 'blocked', decision: 'Use GitHub' },
+  },
+  {
+    type: 'commit',
+    feature: 'auth',
+    task: '04-login',
+    timestamp: '2025-01-02T11:30:00.000Z',
+    details: { status: 'completed', sha: 'abcdef1234567' },
+  },
+  { type: 'merge', feature: 'auth', task: '03-session', timestamp: '2025-01-02T09:00:00.000Z' },
+  { type: 'dispatch', feature: 'billing', task: '04-login', timestamp: '2025-01-02T10:05:00.000Z' },
+];
+
+const history: TaskHistory = {
+  transitions: [{ seq: 1, beadId: 'bd-4', from: 'pending', to: 'in_progress', timestamp: '2025-01-02T10:00:01.000Z' }],
+  comments: [
+    { id: 'c1', body: '[warcraft:transition] pending → in_progress | 2025-01-02T10:00:01.000Z |' },
+    { id: 'c2', body: '[warcraft:transition] in_progress → done | 2025-01-02T11:30:01.000Z | Login works' },
+    { id: 'c3', body: 'Looks good', author: 'alice', timestamp: '2025-01-02T11:45:00.000Z' },
+    { id: 'c4', body: 'No timestamp' },
+  ],
+  audit: [{ id: 'a1', kind: 'tool_call', issueId: 'bd-4', toolName: 'bun test', exitCode: 1 }],
+};
+
+describe('buildTimeline', () => {
+  it('merges events, journal transitions and bead comments of a task in order', () => {
+    const timeline = buildTimeline('auth', '04-login', { events, histories: [{ task: '04-login', history }] });
+
+    expect(timeline.entries.map((entry) => [entry.kind, entry.source, entry.summary])).toEqual([
+      ['dispatch', 'events', 'Dispatched to mekkatorque (attempt 1)'],
+      ['transition', 'journal', 'pending → in_progress'],
+      ['blocked', 'events', 'Blocked: Which OAuth provider?'],
+      ['dispatch', 'events', 'Dispatched to mekkatorque (attempt 2, resumed from blocked); decision: Use GitHub'],
+      ['commit', 'events', 'Commit completed (abcdef1)'],
+      ['transition', 'bead_comment', 'in_progress → done: Login works'],
+      ['comment', 'bead_comment', 'alice: Looks good'],
+    ]);
+    expect(timeline.entries.map((entry) => entry.sincePreviousMs)).toEqual([
+      null,
+      1_000,
+      1_199_000,
+      2_400_000,
+      1_800_000,
+      1_000,
+      899_000,
+    ]);
+    expect(timeline.startedAt).toBe('2025-01-02T10:00:00.000Z');
+    expect(timeline.endedAt).toBe('2025-01-02T11:45:00.000Z');
+    expect(timeline.durationMs).toBe(6_300_000);
+  });
+
+  it('covers every task of the feature when no task is given', () => {
+    const timeline = buildTimeline('auth', null, { events, histories: [] });
+
+    expect(timeline.entries.map((entry) => `${entry.task}:${entry.kind}`)).toEqual([
+      '03-session:merge',
+      '04-login:dispatch',
+      '04-login:blocked',
+      '04-login:dispatch',
+      '04-login:commit',
+    ]);
+  });
+
+  it('limits the timeline to a time window', () => {
+    const timeline = buildTimeline(
+      'auth',
+      '04-login',
+      { events, histories: [] },
+      { since: '2025-01-02T10:10:00.000Z', until: '2025-01-02T11:00:00.000Z' },
+    );
+
+    expect(timeline.entries.map((entry) => [entry.kind, entry.sincePreviousMs])).toEqual([
+      ['blocked', 1_200_000],
+      ['dispatch', 2_400_000],
+    ]);
+    expect(timeline.durationMs).toBe(2_400_000);
+  });
+
+  it('returns an empty timeline when nothing was recorded', () => {
+    expect(buildTimeline('auth', '09-missing', { events, histories: [] })).toEqual({
+      feature: 'auth',
+      task: '09-missing',
+      entries: [],
+      startedAt: null,
+      endedAt: null,
+      durationMs: null,
+    });
+  });
+});
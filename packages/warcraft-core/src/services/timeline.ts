@@ -0,0 +1,192 @@
+import type { WarcraftEvent } from './event-logger.js';
+import type { TaskHistory } from './state/types.js';
+
+/** Where a timeline entry came from. */
+export type TimelineSource = 'events' | 'journal' | 'bead_comment' | 'bead_audit';
+
+export interface TimelineEntry {
+  timestamp: string;
+  /** Task folder, or null for feature-level entries. */
+  task: string | null;
+  /** Event type, `transition`, `comment` or `audit`. */
+  kind: string;
+  source: TimelineSource;
+  summary: string;
+  /** Milliseconds since the step before this one; null for the first recorded step. */
+  sincePreviousMs: number | null;
+}
+
+export interface Timeline {
+  feature: string;
+  task: string | null;
+  entries: TimelineEntry[];
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Milliseconds from the first to the last entry; null for an empty timeline. */
+  durationMs: number | null;
+}
+
+/** Keep only entries at or after `since` and at or before `until` (ISO timestamps). */
+export interface TimelineWindow {
+  since?: string;
+  until?: string;
+}
+
+export interface TimelineSources {
+  /** Events from `.beads/events.jsonl`; entries of other features are ignored. */
+  events: WarcraftEvent[];
+  /** Bead-backed history of each task; empty outside beads mode. */
+  histories: Array<{ task: string; history: TaskHistory }>;
+}
+
+// Mirrors the bead comment BeadsTaskStore writes for each transition
+const TRANSITION_COMMENT_PATTERN = /^\[warcraft:transition\] (\S+) → (\S+) \| (\S+) \|\s*([\s\S]*)$/;
+const MAX_SUMMARY_CHARS = 200;
+
+/**
+ * Merge the event log, the transition journal and bead comments/audit entries of a feature (or one
+ * of its tasks) into one chronological timeline. A transition appears once even when both the
+ * journal and its bead comment recorded it; entries without a usable timestamp are dropped.
+ * Windowed entries keep their distance to the step before them, even when that step falls outside.
+ */
+export function buildTimeline(
+  feature: string,
+  task: string | null,
+  sources: TimelineSources,
+  window: TimelineWindow = {},
+): Timeline {
+  const entries: Array<Omit<TimelineEntry, 'sincePreviousMs'>> = [];
+  const dispatchCounts = new Map<string, number>();
+  for (const event of sources.events) {
+    if (event.feature !== feature || !event.timestamp) continue;
+    if (task && event.task !== task) continue;
+    const eventTask = event.task || null;
+    let attempt: number | undefined;
+    if (event.type === 'dispatch') {
+      attempt = (dispatchCounts.get(event.task) ?? 0) + 1;
+      dispatchCounts.set(event.task, attempt);
+    }
+    entries.push({
+      timestamp: event.timestamp,
+      task: eventTask,
+      kind: event.type,
+      source: 'events',
+      summary: summarizeEvent(event, attempt),
+    });
+  }
+
+  for (const { task: historyTask, history } of sources.histories) {
+    if (task && historyTask !== task) continue;
+    const seenTransitions = new Set<string>();
+    for (const transition of history.transitions) {
+      seenTransitions.add(`${transition.from}|${transition.to}|${transition.timestamp}`);
+      entries.push({
+        timestamp: transition.timestamp,
+        task: historyTask,
+        kind: 'transition',
+        source: 'journal',
+        summary: summarizeTransition(transition.from, transition.to, transition.summary),
+      });
+    }
+    for (const comment of history.comments) {
+      const transition = comment.body.trim().match(TRANSITION_COMMENT_PATTERN);
+      if (transition) {
+        const [, from, to, timestamp, summary] = transition;
+        if (seenTransitions.has(`${from}|${to}|${timestamp}`)) continue;
+        seenTransitions.add(`${from}|${to}|${timestamp}`);
+        entries.push({
+          timestamp,
+          task: historyTask,
+          kind: 'transition',
+          source: 'bead_comment',
+          summary: summarizeTransition(from, to, summary),
+        });
+        continue;
+      }
+      if (!comment.timestamp) continue;
+      entries.push({
+        timestamp: comment.timestamp,
+        task: historyTask,
+        kind: 'comment',
+        source: 'bead_comment',
+        summary: truncate(`${comment.author ? `${comment.author}: ` : ''}${comment.body.trim()}`),
+      });
+    }
+    for (const audit of history.audit) {
+      if (!audit.timestamp) continue;
+      const parts = [audit.kind, audit.toolName, audit.exitCode !== undefined ? `exit ${audit.exitCode}` : undefined];
+      entries.push({
+        timestamp: audit.timestamp,
+        task: historyTask,
+        kind: 'audit',
+        source: 'bead_audit',
+        summary: truncate(`${parts.filter(Boolean).join(' ')}${audit.error ? `: ${audit.error}` : ''}`),
+      });
+    }
+  }
+
+  const ordered = entries
+    .map((entry, index) => ({ entry, index, time: Date.parse(entry.timestamp) }))
+    .filter(({ time }) => !Number.isNaN(time))
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+  const since = window.since ? Date.parse(window.since) : Number.NEGATIVE_INFINITY;
+  const until = window.until ? Date.parse(window.until) : Number.POSITIVE_INFINITY;
+  const timed = ordered
+    .map(({ entry, time }, index) => ({
+      entry: { ...entry, sincePreviousMs: index === 0 ? null : time - ordered[index - 1].time },
+      time,
+    }))
+    .filter(({ time }) => !(time < since) && !(time > until));
+  const first = timed[0];
+  const last = timed[timed.length - 1];
+  return {
+    feature,
+    task,
+    entries: timed.map(({ entry }) => entry),
+    startedAt: first?.entry.timestamp ?? null,
+    endedAt: last?.entry.timestamp ?? null,
+    durationMs: first && last ? last.time - first.time : null,
+  };
+}
+
+function summarizeTransition(from: string, to: string, summary?: string): string {
+  return truncate(`${from} → ${to}${summary?.trim() ? `: ${summary.trim()}` : ''}`);
+}
+
+function summarizeEvent(event: WarcraftEvent, attempt?: number): string {
+  const details = event.details ?? {};
+  const text = (key: string): string | undefined =>
+    typeof details[key] === 'string' && details[key] !== '' ? (details[key] as string) : undefined;
+  switch (event.type) {
+    case 'dispatch': {
+      const decision = text('decision');
+      const resumed = text('continueFrom') === 'blocked' ? ', resumed from blocked' : '';
+      return truncate(
+        `Dispatched to ${text('agent') ?? 'worker'} (attempt ${attempt ?? 1}${resumed})${decision ? `; decision: ${decision}` : ''}`,
+      );
+    }
+    case 'blocked':
+      return truncate(`Blocked: ${text('reason') ?? text('summary') ?? 'no reason given'}`);
+    case 'commit': {
+      const sha = text('sha');
+      return `Commit ${text('status') ?? 'recorded'}${sha ? ` (${sha.slice(0, 7)})` : ''}`;
+    }
+    case 'merge':
+      return `Merge ${text('outcome') ?? 'recorded'}${text('strategy') ? ` via ${text('strategy')}` : ''}`;
+    case 'reopen':
+      return truncate(
+        `Reopened ${text('previousStatus') ?? 'done'} → ${text('newStatus') ?? 'pending'}${text('reason') ? `: ${text('reason')}` : ''}`,
+      );
+    case 'verification_run':
+      return `Verification ${details.passed === false ? 'failed' : 'passed'}${text('source') ? ` (${text('source')})` : ''}`;
+    case 'worktree_created':
+      return `Worktree created${text('branch') ? ` on ${text('branch')}` : ''}`;
+    default:
+      return truncate(`${event.type.replace(/_/g, ' ')}${text('reason') ? `: ${text('reason')}` : ''}`);
+  }
+}
+
+function truncate(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length <= MAX_SUMMARY_CHARS ? line : `${line.slice(0, MAX_SUMMARY_CHARS - 1)}…`;
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeWorkflowRequest } from './planGates/workflow-analysis.js';
+import { collectWorkflowSignals } from './workflowSignals.js';
+
+const TEST_DIR = path.join(os.tmpdir(), `warcraft-workflow-signals-test-${process.pid}`);
+
+function writeFile(relativePath: string, content = ''): void {
+  const filePath = path.join(TEST_DIR, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function writeEvents(events: Array<Record<string, unknown>>): void {
+  writeFile('.beads/events.jsonl', `${events.map((event) => JSON.stringify(event)).join('\n')}\n`);
+}
+
+function completedCommit(feature: string, task: string, filesChanged: number, lines: number): Record<string, unknown> {
+  return {
+    type: 'commit',
+    feature,
+    task,
+    timestamp: '2025-01-01T00:00:00Z',
+    details: {
+      status: 'completed',
+      diffStats: {
+        filesChanged: Array.from({ length: filesChanged }, (_, index) => `src/file-${index}.ts`),
+        insertions: lines,
+        deletions: 0,
+      },
+    },
+  };
+}
+
+describe('collectWorkflowSignals', () => {
+  beforeEach(() => {
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    writeFile('package.json', '{"workspaces":["packages/*"]}');
+    writeFile('packages/core/package.json', '{}');
+    writeFile('packages/core/src/parser.ts');
+    writeFile('packages/core/src/parser.test.ts');
+    writeFile('packages/core/src/lexer.ts');
+    writeFile('packages/plugin/package.json', '{}');
+    writeFile('packages/plugin/src/tools.ts');
+    writeFile('packages/plugin/node_modules/dep/index.ts');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_DIR)) {
+      fs.rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  it('matches mentioned paths to files, tests and packages', () => {
+    const signals = collectWorkflowSignals('Update parser.ts and packages/plugin/src', TEST_DIR);
+
+    expect(signals.mentionedPaths).toEqual([
+      { path: 'parser.ts', matchingFiles: 1, hasTests: true },
+      { path: 'packages/plugin/src', matchingFiles: 1, hasTests: false },
+    ]);
+    expect(signals.packages).toEqual(['packages/core', 'packages/plugin']);
+  });
+
+  it('resolves tests and packages for every file under a broad mention', () => {
+    writeFile('packages/core/src/lexer.spec.ts');
+    for (let index = 0; index < 200; index++) {
+      writeFile(`packages/core/src/nested/deep/module-${index}.ts`);
+      writeFile(`packages/core/src/nested/deep/module-${index}.test.ts`);
+    }
+
+    const signals = collectWorkflowSignals('Refactor packages/core/src', TEST_DIR);
+
+    expect(signals.mentionedPaths).toEqual([{ path: 'packages/core/src', matchingFiles: 404, hasTests: true }]);
+    expect(signals.packages).toEqual(['packages/core']);
+  });
+
+  it('only counts tests in the same directory or a test directory next to it', () => {
+    writeFile('packages/plugin/src/config.ts');
+    writeFile('packages/core/src/config.test.ts');
+    writeFile('packages/plugin/src/hooks.ts');
+    writeFile('packages/plugin/src/__tests__/hooks.test.ts');
+    writeFile('packages/plugin/src/format.ts');
+    writeFile('packages/plugin/tests/format.test.ts');
+
+    const signals = collectWorkflowSignals(
+      'Touch packages/plugin/src/config.ts, packages/plugin/src/hooks.ts and packages/plugin/src/format.ts',
+      TEST_DIR,
+    );
+
+    expect(signals.mentionedPaths).toEqual([
+      { path: 'packages/plugin/src/config.ts', matchingFiles: 1, hasTests: false },
+      { path: 'packages/plugin/src/hooks.ts', matchingFiles: 1, hasTests: true },
+      { path: 'packages/plugin/src/format.ts', matchingFiles: 1, hasTests: true },
+    ]);
+  });
+
+  it('skips dependency and build directories', () => {
+    const signals = collectWorkflowSignals('Touch packages/plugin', TEST_DIR);
+
+    expect(signals.mentionedPaths).toEqual([{ path: 'packages/plugin', matchingFiles: 2, hasTests: false }]);
+  });
+
+  it('reads history and sizes similar completed tasks from the event log', () => {
+    writeEvents([
+      completedCommit('parser', '01-parser-error-recovery', 3, 120),
+      completedCommit('ui', '01-dark-mode', 9, 800),
+      { type: 'commit', feature: 'old', task: '01-parser-error-messages', details: { status: 'completed' } },
+      { type: 'reopen', feature: 'parser', task: '01-parser-error-recovery' },
+    ]);
+
+    const signals = collectWorkflowSignals('Improve parser error recovery for unterminated strings', TEST_DIR);
+
+    expect(signals.history).toEqual({ reopenRate: 1 / 3, totalCompleted: 3 });
+    expect(signals.similarTasks).toEqual([
+      { feature: 'parser', task: '01-parser-error-recovery', filesChanged: 3, linesChanged: 120 },
+    ]);
+  });
+
+  it('returns empty signals for a request without paths in an empty project', () => {
+    fs.rmSync(TEST_DIR, { recursive: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+
+    expect(collectWorkflowSignals('Fix a typo', TEST_DIR)).toEqual({
+      mentionedPaths: [],
+      packages: [],
+      history: { reopenRate: 0, totalCompleted: 0 },
+      similarTasks: [],
+    });
+  });
+
+  it('feeds analyzeWorkflowRequest with evidence', () => {
+    const request = 'Fix the typo in lexer.ts';
+    const result = analyzeWorkflowRequest(request, collectWorkflowSignals(request, TEST_DIR));
+
+    expect(result.rationale).toContain('Evidence: no tests found for lexer.ts, so a direct change has no safety net.');
+    expect(result.rationale).toContain('Evidence: the change stays inside package packages/core.');
+  });
+});
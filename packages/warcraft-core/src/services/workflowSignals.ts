@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeTrustMetrics, readRecordedDiffStats } from './event-logger.js';
+import type { WorkflowRepositorySignals } from './planGates/workflow-analysis.js';
+
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', 'out', 'target', 'vendor']);
+/** Stop listing after this many files so huge repositories stay cheap to analyse. */
+const MAX_FILES = 20_000;
+const PATH_MENTION_PATTERN =
+  /(?:\.{0,2}\/)?(?:[\w@.-]+\/)+[\w@.-]*|\b[\w-]+\.(?:tsx?|jsx?|mjs|cjs|json|md|py|go|rs|java|kt|rb|php|cs|swift|ya?ml|toml|css|scss|html|sh|sql)\b/g;
+const TEST_FILE_PATTERN = /(?:\.|_|-)(?:test|spec)\.[^/]+$|(?:^|\/)(?:__tests__|tests?)\//;
+const TEST_DIRS = ['__tests__', 'tests', 'test'];
+const STOP_WORDS = new Set([
+  'about',
+  'after',
+  'also',
+  'from',
+  'have',
+  'into',
+  'make',
+  'more',
+  'only',
+  'should',
+  'that',
+  'their',
+  'them',
+  'then',
+  'there',
+  'these',
+  'this',
+  'when',
+  'which',
+  'will',
+  'with',
+  'would',
+]);
+
+/**
+ * Gather repository signals for a workflow request: the files its mentioned paths match, whether
+ * they have tests, the workspace packages they belong to, the reopen rate, and the size of similar
+ * completed tasks recorded in the event log. Every lookup is best-effort.
+ */
+export function collectWorkflowSignals(request: string, projectRoot: string): WorkflowRepositorySignals {
+  const mentions = extractPathMentions(request);
+  const files = mentions.length > 0 ? listProjectFiles(projectRoot) : [];
+  // Built once so broad mentions (e.g. `src/`) stay linear in the number of files
+  const testStems = collectTestStems(files);
+  const packageDirs = new Map<string, string | null>();
+  const packages = new Set<string>();
+  const mentionedPaths = mentions.map((mention) => {
+    const matches = files.filter((file) => matchesMention(file, mention));
+    for (const file of matches) {
+      const owner = findPackageDir(projectRoot, path.dirname(file), packageDirs);
+      if (owner) packages.add(owner);
+    }
+    return {
+      path: mention,
+      matchingFiles: matches.length,
+      hasTests: matches.length > 0 && matches.every((file) => hasTestFor(file, testStems)),
+    };
+  });
+
+  let history = { reopenRate: 0, totalCompleted: 0 };
+  try {
+    const metrics = computeTrustMetrics(projectRoot);
+    history = { reopenRate: metrics.reopenRate, totalCompleted: metrics.totalCompleted };
+  } catch {
+    // No usable event log: history stays empty
+  }
+
+  return {
+    mentionedPaths,
+    packages: [...packages].sort(),
+    history,
+    similarTasks: findSimilarTasks(request, projectRoot),
+  };
+}
+
+function extractPathMentions(request: string): string[] {
+  const mentions = (request.match(PATH_MENTION_PATTERN) ?? [])
+    .map((mention) =>
+      mention
+        .replace(/^\.?\//, '')
+        .replace(/[.,;:)]+$/, '')
+        .replace(/\/$/, ''),
+    )
+    .filter((mention) => mention.length > 1 && !mention.startsWith('..') && !/^https?:/.test(mention));
+  return [...new Set(mentions)];
+}
+
+function matchesMention(file: string, mention: string): boolean {
+  return file === mention || file.startsWith(`${mention}/`) || file.endsWith(`/${mention}`);
+}
+
+/**
+ * Test files as `<dir>/<stem>` keys, the stem being the source file they cover, e.g.
+ * `src/auth` for `src/auth.test.ts` and `spec/auth` for `spec/auth_spec.rb`.
+ */
+function collectTestStems(files: string[]): Set<string> {
+  const stems = new Set<string>();
+  for (const file of files) {
+    if (!TEST_FILE_PATTERN.test(file)) continue;
+    const stem = path
+      .basename(file)
+      .replace(/(?:\.|_|-)(?:test|spec)\.[^.]+$/, '')
+      .replace(/\.[^.]+$/, '')
+      .split('.')[0];
+    stems.add(path.join(path.dirname(file), stem));
+  }
+  return stems;
+}
+
+/**
+ * Whether `file` is a test or has one next to it: in its own directory, in a test directory inside
+ * it (`src/__tests__/auth.test.ts`), or in a test directory beside it (`tests/auth.test.ts` for `src/auth.ts`).
+ */
+function hasTestFor(file: string, testStems: Set<string>): boolean {
+  if (TEST_FILE_PATTERN.test(file)) return true;
+  const dir = path.dirname(file);
+  const stem = path.basename(file).replace(/\.[^.]+$/, '');
+  const testDirs = [
+    dir,
+    ...TEST_DIRS.map((testDir) => path.join(dir, testDir)),
+    ...TEST_DIRS.map((testDir) => path.join(path.dirname(dir), testDir)),
+  ];
+  return testDirs.some((testDir) => testStems.has(path.join(testDir, stem)));
+}
+
+/**
+ * Nearest directory at or above `dir` (below the project root) that holds a package.json, relative to
+ * the root. `cache` remembers the answer for every directory visited.
+ */
+function findPackageDir(projectRoot: string, dir: string, cache: Map<string, string | null>): string | null {
+  if (dir === '.' || dir === '') return null;
+  const cached = cache.get(dir);
+  if (cached !== undefined) return cached;
+  const owner = fs.existsSync(path.join(projectRoot, dir, 'package.json'))
+    ? dir
+    : findPackageDir(projectRoot, path.dirname(dir), cache);
+  cache.set(dir, owner);
+  return owner;
+}
+
+/** Project files relative to the root, skipping dot directories and build output. */
+function listProjectFiles(projectRoot: string): string[] {
+  const files: string[] = [];
+  const pending = [''];
+  while (pending.length > 0 && files.length < MAX_FILES) {
+    const dir = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(projectRoot, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) pending.push(relative);
+      } else if (entry.isFile()) {
+        files.push(relative);
+      }
+    }
+  }
+  return files;
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 4 && !STOP_WORDS.has(word)),
+  );
+}
+
+/**
+ * Completed tasks whose folder name shares at least two significant words with the request (or all
+ * of them, for one-word names), sized from the diff stats recorded on their commit events.
+ */
+function findSimilarTasks(request: string, projectRoot: string): WorkflowRepositorySignals['similarTasks'] {
+  const requestWords = significantWords(request);
+  return readRecordedDiffStats(projectRoot).flatMap(({ feature, task, diffStats }) => {
+    const taskWords = [...significantWords(task.replace(/^\d+-/, ''))];
+    const shared = taskWords.filter((word) => requestWords.has(word)).length;
+    if (taskWords.length === 0 || shared < Math.min(2, taskWords.length)) return [];
+    return [
+      {
+        feature,
+        task,
+        filesChanged: diffStats.filesChanged.length,
+        linesChanged: (diffStats.insertions ?? 0) + (diffStats.deletions ?? 0),
+      },
+    ];
+  });
+}
@@ -98,6 +98,8 @@ function createMockGit(overrides: Record<string, (...args: any[]) => any> = {}):
     cherryPick: overrides.cherryPick ?? (async (commitSha: string) => raw(['cherry-pick', commitSha])),
     cherryPickAbort: overrides.cherryPickAbort ?? (async () => raw(['cherry-pick', '--abort'])),
     rebaseAbort: overrides.rebaseAbort ?? (async () => raw(['rebase', '--abort'])),
+    revert: overrides.revert ?? (async (commitSha: string) => raw(['revert', '--no-edit', commitSha])),
+    revertAbort: overrides.revertAbort ?? (async () => raw(['revert', '--abort'])),
     applyPatch: overrides.applyPatch ?? (async () => {}),
   };
 }
@@ -459,6 +461,7 @@ describe('WorktreeService.merge', () => {
       outcome: 'merged',
       strategy: 'merge',
       sha: 'merge-sha-111',
+      targetBranch: 'main',
       filesChanged: ['src/actual.ts'],
       conflicts: [],
     });
@@ -498,6 +501,7 @@ describe('WorktreeService.merge', () => {
       outcome: 'merged',
       strategy: 'squash',
       sha: 'squash-sha-222',
+      targetBranch: 'main',
       filesChanged: ['src/b.ts'],
       conflicts: [],
     });
@@ -538,6 +542,8 @@ describe('WorktreeService.merge', () => {
       outcome: 'merged',
       strategy: 'rebase',
       sha: 'rebase-sha-333',
+      baseSha: 'main-sha-000',
+      targetBranch: 'main',
       filesChanged: ['src/c.ts'],
       conflicts: [],
     });
@@ -575,6 +581,7 @@ describe('WorktreeService.merge', () => {
       outcome: 'already-up-to-date',
       strategy: 'merge',
       sha: 'main-sha-000',
+      targetBranch: 'main',
       filesChanged: [],
       conflicts: [],
     });
@@ -607,6 +614,7 @@ describe('WorktreeService.merge', () => {
       outcome: 'no-commits-to-apply',
       strategy: 'squash',
       sha: 'main-sha-000',
+      targetBranch: 'main',
       filesChanged: [],
       conflicts: [],
     });
@@ -639,6 +647,7 @@ describe('WorktreeService.merge', () => {
       outcome: 'no-commits-to-apply',
       strategy: 'rebase',
       sha: 'main-sha-000',
+      targetBranch: 'main',
       filesChanged: [],
       conflicts: [],
     });
@@ -2001,4 +2010,361 @@ describe('WorktreeService integration', () => {
     // Clean up
     await service.remove('dirty-test', '01-dirty', true);
   }, 30000);
+
+  it('lands task merges on the feature integration branch and merges the feature in one step', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'README.md'), '# Test\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+
+    const first = await service.create('int-feature', '01-first');
+    fs.writeFileSync(path.join(first.path, 'first.ts'), 'export const first = 1;\n');
+    await service.commitChanges('int-feature', '01-first', 'feat: first');
+
+    const firstMerge = await service.merge('int-feature', '01-first', 'merge', { target: 'integration' });
+    expect(firstMerge.success).toBe(true);
+    expect(firstMerge.filesChanged).toContain('first.ts');
+
+    // The checked-out branch is untouched until the feature merge
+    expect(fs.existsSync(path.join(testRoot, 'first.ts'))).toBe(false);
+    const integration = await service.getIntegration('int-feature');
+    expect(integration?.branch).toBe('warcraft/int-feature/integration');
+    expect(fs.existsSync(path.join(integration!.path, 'first.ts'))).toBe(true);
+
+    // Later tasks start from the integration branch
+    const second = await service.create('int-feature', '02-second');
+    expect(fs.existsSync(path.join(second.path, 'first.ts'))).toBe(true);
+    fs.writeFileSync(path.join(second.path, 'second.ts'), 'export const second = 2;\n');
+    await service.commitChanges('int-feature', '02-second', 'feat: second');
+    expect((await service.merge('int-feature', '02-second', 'merge', { target: 'integration' })).success).toBe(true);
+
+    const featureMerge = await service.mergeFeature('int-feature', 'squash');
+    expect(featureMerge.success).toBe(true);
+    expect(featureMerge.outcome).toBe('merged');
+    expect(featureMerge.filesChanged.sort()).toEqual(['first.ts', 'second.ts']);
+    expect(fs.existsSync(path.join(testRoot, 'second.ts'))).toBe(true);
+    const subject = execSync('git log -1 --format=%s', { cwd: testRoot, encoding: 'utf-8' }).trim();
+    expect(subject).toBe('warcraft: merge feature int-feature (squashed)');
+
+    await service.remove('int-feature', '01-first', true);
+    await service.remove('int-feature', '02-second', true);
+    await service.removeIntegration('int-feature', true);
+    expect(await service.getIntegration('int-feature')).toBeNull();
+  }, 30000);
+
+  it('mergeFeature fails cleanly when the feature has no integration branch', async () => {
+    const service = createService('off');
+    (service as any).getGit = () => createMockGit();
+
+    const result = await service.mergeFeature('no-integration');
+
+    expect(result.success).toBe(false);
+    expect(result.outcome).toBe('failed');
+    expect(result.success === false && result.error).toBe('Branch warcraft/no-integration/integration not found');
+  });
+
+  it('refreshes a stale task branch onto the latest base and reports conflicts', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'shared.ts'), 'export const shared = 0;\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+
+    const first = await service.create('refresh-feature', '01-first');
+    const second = await service.create('refresh-feature', '02-second');
+    const third = await service.create('refresh-feature', '03-third');
+    fs.writeFileSync(path.join(first.path, 'shared.ts'), 'export const shared = 1;\n');
+    await service.commitChanges('refresh-feature', '01-first', 'feat: first');
+    fs.writeFileSync(path.join(second.path, 'second.ts'), 'export const second = 2;\n');
+    await service.commitChanges('refresh-feature', '02-second', 'feat: second');
+    fs.writeFileSync(path.join(third.path, 'shared.ts'), 'export const shared = 3;\n');
+    await service.commitChanges('refresh-feature', '03-third', 'feat: third');
+    expect((await service.merge('refresh-feature', '01-first')).success).toBe(true);
+    const mainHead = execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim();
+
+    const refreshed = await service.refresh('refresh-feature', '02-second');
+    expect(refreshed.success).toBe(true);
+    expect(refreshed.outcome).toBe('merged');
+    expect(refreshed.baseCommit).toBe(mainHead);
+    expect(refreshed.filesChanged).toEqual(['shared.ts']);
+    expect(fs.readFileSync(path.join(second.path, 'shared.ts'), 'utf-8')).toBe('export const shared = 1;\n');
+
+    const again = await service.refresh('refresh-feature', '02-second', 'merge');
+    expect(again.success).toBe(true);
+    expect(again.outcome).toBe('already-up-to-date');
+
+    const thirdHead = execSync('git rev-parse HEAD', { cwd: third.path, encoding: 'utf-8' }).trim();
+    const conflicted = await service.refresh('refresh-feature', '03-third');
+    expect(conflicted.success).toBe(false);
+    expect(conflicted.outcome).toBe('conflicted');
+    expect(conflicted.conflicts).toEqual(['shared.ts']);
+    expect(execSync('git rev-parse HEAD', { cwd: third.path, encoding: 'utf-8' }).trim()).toBe(thirdHead);
+    expect(execSync('git status --porcelain', { cwd: third.path, encoding: 'utf-8' }).trim()).toBe('');
+
+    await service.remove('refresh-feature', '01-first', true);
+    await service.remove('refresh-feature', '02-second', true);
+    await service.remove('refresh-feature', '03-third', true);
+  }, 30000);
+
+  it('leaves a conflicted task merge in a resolution worktree that lands both sides once committed', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'shared.ts'), 'export const shared = 0;\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+
+    const first = await service.create('resolve-feature', '01-first');
+    const second = await service.create('resolve-feature', '02-second');
+    fs.writeFileSync(path.join(first.path, 'shared.ts'), 'export const shared = 1;\n');
+    await service.commitChanges('resolve-feature', '01-first', 'feat: first');
+    fs.writeFileSync(path.join(second.path, 'shared.ts'), 'export const shared = 2;\n');
+    await service.commitChanges('resolve-feature', '02-second', 'feat: second');
+    expect((await service.merge('resolve-feature', '01-first')).success).toBe(true);
+    expect((await service.merge('resolve-feature', '02-second')).outcome).toBe('conflicted');
+    const mainHead = execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim();
+
+    const info = await service.prepareConflictResolution('resolve-feature', '02-second', '03-resolve', {
+      candidateSteps: ['01-first'],
+    });
+
+    expect(info.branch).toBe('warcraft/resolve-feature/03-resolve');
+    expect(info.targetBranch).toBe('main');
+    expect(info.baseCommit).toBe(mainHead);
+    expect(info.conflicts).toEqual(['shared.ts']);
+    expect(info.hunks[0].file).toBe('shared.ts');
+    expect(info.hunks[0].hunks[0]).toContain('<<<<<<<');
+    expect(info.hunks[0].hunks[0]).toContain('export const shared = 2;');
+    expect(info.overlappingSteps).toEqual(['01-first']);
+    expect(execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim()).toBe(mainHead);
+
+    fs.writeFileSync(path.join(info.path, 'shared.ts'), 'export const shared = 3;\n');
+    expect((await service.commitChanges('resolve-feature', '03-resolve', 'fix: resolve')).committed).toBe(true);
+    const landed = await service.merge('resolve-feature', '03-resolve');
+    expect(landed.success).toBe(true);
+    expect(fs.readFileSync(path.join(testRoot, 'shared.ts'), 'utf-8')).toBe('export const shared = 3;\n');
+    expect((await service.merge('resolve-feature', '02-second')).outcome).toBe('already-up-to-date');
+
+    await service.remove('resolve-feature', '01-first', true);
+    await service.remove('resolve-feature', '02-second', true);
+    await service.remove('resolve-feature', '03-resolve', true);
+  }, 30000);
+
+  it('previews task merges and pairs overlapping tasks without touching the working tree', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'shared.ts'), 'export const shared = 0;\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+    const baseCommit = execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim();
+
+    const service = createWorktreeService(testRoot);
+    const first = await service.create('preview-feature', '01-first');
+    const second = await service.create('preview-feature', '02-second');
+    const third = await service.create('preview-feature', '03-third');
+    fs.writeFileSync(path.join(first.path, 'shared.ts'), 'export const shared = 1;\n');
+    await service.commitChanges('preview-feature', '01-first', 'feat: first');
+    fs.writeFileSync(path.join(second.path, 'shared.ts'), 'export const shared = 2;\n');
+    await service.commitChanges('preview-feature', '02-second', 'feat: second');
+    fs.writeFileSync(path.join(third.path, 'other.ts'), 'export const other = 3;\n');
+    await service.commitChanges('preview-feature', '03-third', 'feat: third');
+
+    const matrix = await service.buildConflictMatrix('preview-feature', [
+      { step: '01-first', baseCommit },
+      { step: '02-second', baseCommit },
+      { step: '03-third', baseCommit },
+    ]);
+    expect(matrix.pairs).toEqual([{ steps: ['01-first', '02-second'], files: ['shared.ts'] }]);
+    expect(matrix.previews.map((p) => p.conflicts)).toEqual([[], [], []]);
+
+    const beforeIntegration = await service.previewMerge('preview-feature', '01-first', {
+      target: 'integration',
+      baseCommit,
+    });
+    expect(beforeIntegration).toMatchObject({
+      targetBranch: 'warcraft/preview-feature/integration',
+      integrationMissing: true,
+      conflicts: [],
+      filesChanged: ['shared.ts'],
+    });
+
+    expect((await service.merge('preview-feature', '01-first')).success).toBe(true);
+    const mainHead = execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim();
+
+    const preview = await service.previewMerge('preview-feature', '02-second', { baseCommit });
+    expect(preview.targetBranch).toBe('main');
+    expect(preview.conflicts).toEqual(['shared.ts']);
+    expect(preview.filesChanged).toEqual(['shared.ts']);
+    expect(preview.insertions).toBe(1);
+    expect(preview.deletions).toBe(1);
+    expect((await service.previewMerge('preview-feature', '03-third', { baseCommit })).conflicts).toEqual([]);
+    expect(execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim()).toBe(mainHead);
+    expect(execSync('git diff HEAD', { cwd: testRoot, encoding: 'utf-8' })).toBe('');
+
+    await service.remove('preview-feature', '01-first', true);
+    await service.remove('preview-feature', '02-second', true);
+    await service.remove('preview-feature', '03-third', true);
+  }, 30000);
+
+  it('reverts merged tasks and aborts reverts that conflict with later changes', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'shared.ts'), 'export const shared = 0;\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+    const first = await service.create('revert-feature', '01-first');
+    const second = await service.create('revert-feature', '02-second');
+    fs.writeFileSync(path.join(first.path, 'first.ts'), 'export const first = 1;\n');
+    await service.commitChanges('revert-feature', '01-first', 'feat: first');
+    fs.writeFileSync(path.join(second.path, 'shared.ts'), 'export const shared = 2;\n');
+    await service.commitChanges('revert-feature', '02-second', 'feat: second');
+    const firstMerge = await service.merge('revert-feature', '01-first');
+    const secondMerge = await service.merge('revert-feature', '02-second', 'squash');
+    expect(firstMerge.success && secondMerge.success).toBe(true);
+
+    const reverted = await service.revertMerge('revert-feature', '01-first', firstMerge.sha as string);
+    expect(reverted.success).toBe(true);
+    expect(reverted.success && reverted.filesChanged).toEqual(['first.ts']);
+    expect(fs.existsSync(path.join(testRoot, 'first.ts'))).toBe(false);
+
+    fs.writeFileSync(path.join(testRoot, 'shared.ts'), 'export const shared = 3;\n');
+    execSync('git commit -am "later change"', { cwd: testRoot, stdio: 'pipe' });
+    const head = execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim();
+    const conflicted = await service.revertMerge('revert-feature', '02-second', secondMerge.sha as string);
+    expect(conflicted.success).toBe(false);
+    expect(conflicted.success === false && conflicted.conflicts).toEqual(['shared.ts']);
+    expect(execSync('git rev-parse HEAD', { cwd: testRoot, encoding: 'utf-8' }).trim()).toBe(head);
+    expect(execSync('git diff HEAD', { cwd: testRoot, encoding: 'utf-8' })).toBe('');
+
+    await service.remove('revert-feature', '01-first', true);
+    await service.remove('revert-feature', '02-second', true);
+  }, 30000);
+
+  it('reverts every commit of a multi-commit rebase merge', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'README.md'), 'initial\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+    const worktree = await service.create('rebase-revert-feature', '01-multi');
+    fs.writeFileSync(path.join(worktree.path, 'one.ts'), 'export const one = 1;\n');
+    await service.commitChanges('rebase-revert-feature', '01-multi', 'feat: one');
+    fs.writeFileSync(path.join(worktree.path, 'two.ts'), 'export const two = 2;\n');
+    await service.commitChanges('rebase-revert-feature', '01-multi', 'feat: two');
+    const merged = await service.merge('rebase-revert-feature', '01-multi', 'rebase');
+    expect(merged.success && merged.outcome).toBe('merged');
+    const baseSha = merged.success ? merged.baseSha : undefined;
+    expect(baseSha).toBeDefined();
+
+    const reverted = await service.revertMerge('rebase-revert-feature', '01-multi', merged.sha as string, { baseSha });
+    expect(reverted.success).toBe(true);
+    expect(reverted.success && [...reverted.filesChanged].sort()).toEqual(['one.ts', 'two.ts']);
+    expect(fs.existsSync(path.join(testRoot, 'one.ts'))).toBe(false);
+    expect(fs.existsSync(path.join(testRoot, 'two.ts'))).toBe(false);
+
+    await service.remove('rebase-revert-feature', '01-multi', true);
+  }, 30000);
+
+  it('reverts on the branch the merge landed on', async () => {
+    const { execSync } = await import('child_process');
+
+    execSync('git init', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.email "test@test.com"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git config user.name "Test"', { cwd: testRoot, stdio: 'pipe' });
+    fs.writeFileSync(path.join(testRoot, 'README.md'), 'initial\n');
+    execSync('git add .', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git commit -m "initial commit"', { cwd: testRoot, stdio: 'pipe' });
+    execSync('git branch -M main', { cwd: testRoot, stdio: 'pipe' });
+    fs.mkdirSync(path.join(testRoot, '.beads', 'artifacts'), { recursive: true });
+
+    const service = createWorktreeService(testRoot);
+    const integrated = await service.create('branch-revert-feature', '01-integrated');
+    fs.writeFileSync(path.join(integrated.path, 'integrated.ts'), 'export const integrated = 1;\n');
+    await service.commitChanges('branch-revert-feature', '01-integrated', 'feat: integrated');
+    const integrationMerge = await service.merge('branch-revert-feature', '01-integrated', 'merge', {
+      target: 'integration',
+    });
+    expect(integrationMerge.success && integrationMerge.targetBranch).toBe(
+      'warcraft/branch-revert-feature/integration',
+    );
+
+    const direct = await service.create('branch-revert-feature', '02-direct', 'main');
+    fs.writeFileSync(path.join(direct.path, 'direct.ts'), 'export const direct = 2;\n');
+    await service.commitChanges('branch-revert-feature', '02-direct', 'feat: direct');
+    const directMerge = await service.merge('branch-revert-feature', '02-direct');
+    expect(directMerge.success && directMerge.targetBranch).toBe('main');
+
+    execSync('git checkout -b other', { cwd: testRoot, stdio: 'pipe' });
+    const refused = await service.revertMerge('branch-revert-feature', '02-direct', directMerge.sha as string, {
+      branch: 'main',
+    });
+    expect(refused.success === false && refused.error).toBe(
+      '02-direct was merged into main, but the project root has other checked out; check out main and retry',
+    );
+    expect(fs.existsSync(path.join(testRoot, 'direct.ts'))).toBe(true);
+
+    const reverted = await service.revertMerge(
+      'branch-revert-feature',
+      '01-integrated',
+      integrationMerge.sha as string,
+      { branch: 'warcraft/branch-revert-feature/integration' },
+    );
+    expect(reverted.success && reverted.filesChanged).toEqual(['integrated.ts']);
+    const integration = await service.getIntegration('branch-revert-feature');
+    expect(fs.existsSync(path.join(integration?.path as string, 'integrated.ts'))).toBe(false);
+    expect(fs.existsSync(path.join(testRoot, 'direct.ts'))).toBe(true);
+
+    await service.remove('branch-revert-feature', '01-integrated', true);
+    await service.remove('branch-revert-feature', '02-direct', true);
+    await service.removeIntegration('branch-revert-feature', true);
+  }, 30000);
+
+  it('refresh fails cleanly when the worktree does not exist', async () => {
+    const service = createService('off');
+
+    const result = await service.refresh('missing-feature', '01-missing');
+
+    expect(result.success).toBe(false);
+    expect(result.success === false && result.error).toBe('Worktree not found');
+  });
 });
@@ -52,6 +52,10 @@ export type MergeResult =
       outcome: MergeSuccessOutcome;
       strategy: MergeStrategy;
       sha: string;
+      /** Target HEAD before a rebase merge; the cherry-picked commits are `baseSha..sha`. */
+      baseSha?: string;
+      /** Branch the merge landed on (or found already integrated). */
+      targetBranch?: string;
       filesChanged: string[];
       conflicts: [];
     }
@@ -65,6 +69,103 @@ export type MergeResult =
       sha?: string;
     };
 
+/** Name of the feature integration branch, where task merges land when integrationBranchEnabled is set. */
+export function getIntegrationBranchName(feature: string): string {
+  return `warcraft/${sanitizeName(feature)}/integration`;
+}
+
+/** Feature integration branch and the worktree it is checked out in. */
+export interface IntegrationInfo {
+  feature: string;
+  branch: string;
+  path: string;
+  commit: string;
+}
+
+/** Where a task merge lands: the branch checked out in the project root, or the feature integration branch. */
+export type MergeTarget = 'current' | 'integration';
+
+/** Result of reverting a task's merge commit on its merge target. */
+export type RevertResult =
+  | {
+      success: true;
+      /** The new revert commit. */
+      sha: string;
+      revertedSha: string;
+      filesChanged: string[];
+    }
+  | {
+      success: false;
+      outcome: MergeFailureOutcome;
+      revertedSha: string;
+      conflicts: string[];
+      error: string;
+    };
+
+/** How `refresh` brings the latest base into a task branch. */
+export type RefreshStrategy = 'rebase' | 'merge';
+
+/** Result of refreshing a task branch; `baseCommit` is the base it now builds on (set on success). */
+export type RefreshResult = MergeResult & { baseCommit?: string };
+
+/** Conflict-marker blocks git left in one file of a resolution worktree. */
+export interface ConflictHunk {
+  file: string;
+  hunks: string[];
+  /** True when the blocks were cut to keep the handoff prompt bounded. */
+  truncated?: boolean;
+}
+
+/** A conflicted merge left in progress in a dedicated worktree so a worker can resolve it. */
+export interface ConflictResolutionInfo {
+  feature: string;
+  /** Task whose branch conflicted with the merge target. */
+  step: string;
+  /** Task that owns the resolution worktree and lands the resolved merge. */
+  resolutionStep: string;
+  path: string;
+  branch: string;
+  /** Branch the conflicted merge targeted (current branch or feature integration branch). */
+  targetBranch: string;
+  /** Tip of the merge target the resolution worktree starts from. */
+  baseCommit: string;
+  conflicts: string[];
+  hunks: ConflictHunk[];
+  /** Candidate steps whose branches changed at least one conflicted file. */
+  overlappingSteps: string[];
+}
+
+/** Predicted outcome of merging a task branch, computed without touching any working tree. */
+export interface MergePreview {
+  feature: string;
+  step: string;
+  /** Branch the merge would land on (current branch or feature integration branch). */
+  targetBranch: string;
+  /** Files whose task changes do not apply cleanly to the target. */
+  conflicts: string[];
+  filesChanged: string[];
+  insertions: number;
+  deletions: number;
+  /** The integration branch was the target but does not exist yet; conflicts were not checked. */
+  integrationMissing?: boolean;
+  error?: string;
+}
+
+/** Two unmerged steps whose changes touch the same files. */
+export interface ConflictPair {
+  steps: [string, string];
+  files: string[];
+}
+
+/** Merge previews of unmerged steps plus the pairs likely to conflict with each other. */
+export interface ConflictMatrix {
+  previews: MergePreview[];
+  pairs: ConflictPair[];
+}
+
+/** Maximum characters of conflict hunks kept per file. */
+const MAX_CONFLICT_HUNK_CHARS = 4000;
+
 export interface WorktreeConfig {
   baseDir: string;
   warcraftDir: string;
@@ -132,10 +233,116 @@ export class WorktreeService {
     return getTaskStatusPath(this.config.baseDir, sanitizeName(feature), sanitizeName(step), this.config.beadsMode);
   }
 
-  private getBranchName(feature: string, step: string): string {
+  /** Branch a task worktree commits to; it outlives the worktree until the branch is deleted. */
+  getBranchName(feature: string, step: string): string {
     return `warcraft/${sanitizeName(feature)}/${sanitizeName(step)}`;
   }
 
+  private getIntegrationDir(): string {
+    return path.join(this.config.warcraftDir, '.integration');
+  }
+
+  private getIntegrationPath(feature: string): string {
+    return path.join(this.getIntegrationDir(), sanitizeName(feature));
+  }
+
+  /**
+   * Integration branch for a feature. Lives under the feature's branch namespace because git
+   * cannot hold both `warcraft/<feature>` and `warcraft/<feature>/<task>` refs at once.
+   */
+  getIntegrationBranchName(feature: string): string {
+    return getIntegrationBranchName(feature);
+  }
+
+  /** Whether a local branch exists in the project repository. */
+  async branchExists(branch: string): Promise<boolean> {
+    try {
+      return (await this.getGit().branch()).all.includes(branch);
+    } catch {
+      return false;
+    }
+  }
+
+  private async integrationBranchExists(git: GitClient, feature: string): Promise<boolean> {
+    try {
+      const branches = await git.branch();
+      return branches.all.includes(this.getIntegrationBranchName(feature));
+    } catch {
+      return false;
+    }
+  }
+
+  async getIntegration(feature: string): Promise<IntegrationInfo | null> {
+    const integrationPath = this.getIntegrationPath(feature);
+    try {
+      await fs.access(integrationPath);
+      const commit = await this.getGit(integrationPath).revparse(['HEAD']);
+      return { feature, branch: this.getIntegrationBranchName(feature), path: integrationPath, commit };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create (or reuse) the feature integration branch and its worktree.
+   * The branch starts from `baseBranch` or the project root HEAD; task merges land on it
+   * so the project root branch stays untouched until the feature is merged as a whole.
+   */
+  async ensureIntegration(feature: string, baseBranch?: string): Promise<IntegrationInfo> {
+    const integrationPath = this.getIntegrationPath(feature);
+    const branchName = this.getIntegrationBranchName(feature);
+    const git = this.getGit();
+
+    await fs.mkdir(this.getIntegrationDir(), { recursive: true });
+
+    const lockPath = path.join(this.getIntegrationDir(), `${sanitizeName(feature)}.create`);
+    const release = await acquireLock(lockPath, { timeout: 10000 });
+    try {
+      const existing = await this.getIntegration(feature);
+      if (existing) {
+        return existing;
+      }
+
+      if (await this.integrationBranchExists(git, feature)) {
+        await git.worktreeAddWithBranch({ path: integrationPath, branch: branchName });
+      } else {
+        const base = baseBranch || (await git.revparse(['HEAD']));
+        await git.worktreeAdd({ path: integrationPath, branch: branchName, commit: base });
+      }
+
+      const commit = await this.getGit(integrationPath).revparse(['HEAD']);
+      return { feature, branch: branchName, path: integrationPath, commit };
+    } finally {
+      release();
+    }
+  }
+
+  /** Remove the integration worktree, optionally deleting the integration branch too. */
+  async removeIntegration(feature: string, deleteBranch = false): Promise<void> {
+    const integrationPath = this.getIntegrationPath(feature);
+    const git = this.getGit();
+
+    try {
+      await git.worktreeRemove(integrationPath);
+    } catch {
+      await fs.rm(integrationPath, { recursive: true, force: true });
+    }
+
+    try {
+      await git.worktreePrune();
+    } catch {
+      /* intentional */
+    }
+
+    if (deleteBranch) {
+      try {
+        await git.deleteBranch(this.getIntegrationBranchName(feature), true);
+      } catch {
+        /* intentional */
+      }
+    }
+  }
+
   async create(feature: string, step: string, baseBranch?: string): Promise<WorktreeInfo> {
     const worktreePath = this.getWorktreePath(feature, step);
     const branchName = this.getBranchName(feature, step);
@@ -153,7 +360,11 @@ export class WorktreeService {
 
       let base: string;
       try {
-        base = baseBranch || (await git.revparse(['HEAD']));
+        // Later tasks build on earlier merged tasks when the feature has an integration branch
+        const integrationBase = (await this.integrationBranchExists(git, feature))
+          ? this.getIntegrationBranchName(feature)
+          : null;
+        base = baseBranch || integrationBase || (await git.revparse(['HEAD']));
       } catch (error) {
         if (this.shouldUseDirectWorkspace(error)) {
           return this.createDirectWorkspace(feature, step);
@@ -599,32 +810,108 @@ export class WorktreeService {
       return [];
     }
 
-    const patchPath = path.join(this.getWorktreesDir(), feature, `${step}-check.patch`);
+    return this.checkPatchApplies(
+      this.getGit(),
+      path.join(this.getWorktreesDir(), feature, `${step}-check.patch`),
+      diffContent,
+    );
+  }
+
+  /**
+   * Predict a task merge without touching any working tree: the task diff (committed and
+   * uncommitted, from its base commit) is checked against the merge target with `git apply --check`.
+   * Until the integration branch exists there is nothing to check against: the preview reports
+   * `integrationMissing` with the diffstat only.
+   */
+  async previewMerge(
+    feature: string,
+    step: string,
+    options: { target?: MergeTarget; baseCommit?: string } = {},
+  ): Promise<MergePreview> {
+    const integration = options.target === 'integration' ? await this.getIntegration(feature) : null;
+    const git = this.getGit(integration?.path);
+    const targetBranch =
+      integration?.branch ??
+      (options.target === 'integration'
+        ? this.getIntegrationBranchName(feature)
+        : await git.revparse(['--abbrev-ref', 'HEAD']).catch(() => 'HEAD'));
+
+    const diff = await this.getDiff(feature, step, options.baseCommit);
+    const preview: MergePreview = {
+      feature,
+      step,
+      targetBranch,
+      conflicts: [],
+      filesChanged: diff.filesChanged,
+      insertions: diff.insertions,
+      deletions: diff.deletions,
+    };
+    if (diff.error) {
+      return { ...preview, error: diff.error };
+    }
+    if (options.target === 'integration' && !integration) {
+      return { ...preview, integrationMissing: true };
+    }
+    if (!diff.hasDiff) {
+      return preview;
+    }
+
+    const patchPath = path.join(this.getWorktreesDir(), feature, `${step}-preview.patch`);
+    return { ...preview, conflicts: await this.checkPatchApplies(git, patchPath, diff.diffContent) };
+  }
+
+  /**
+   * Preview every step against the merge target and pair up steps whose changes touch the same
+   * files; such pairs are likely to conflict with each other whichever merges first.
+   */
+  async buildConflictMatrix(
+    feature: string,
+    steps: Array<{ step: string; baseCommit?: string }>,
+    options: { target?: MergeTarget } = {},
+  ): Promise<ConflictMatrix> {
+    const previews: MergePreview[] = [];
+    for (const { step, baseCommit } of steps) {
+      previews.push(await this.previewMerge(feature, step, { target: options.target, baseCommit }));
+    }
+
+    const pairs: ConflictPair[] = [];
+    for (let i = 0; i < previews.length; i++) {
+      const files = new Set(previews[i].filesChanged);
+      for (let j = i + 1; j < previews.length; j++) {
+        const shared = previews[j].filesChanged.filter((file) => files.has(file));
+        if (shared.length > 0) {
+          pairs.push({ steps: [previews[i].step, previews[j].step], files: shared });
+        }
+      }
+    }
+
+    return { previews, pairs };
+  }
 
+  private async checkPatchApplies(git: GitClient, patchPath: string, diffContent: string): Promise<string[]> {
     try {
       await fs.writeFile(patchPath, diffContent);
-      const git = this.getGit();
       await git.applyPatch(patchPath, ['--check']);
-      await fs.unlink(patchPath).catch(() => {});
       return [];
     } catch (error: unknown) {
-      await fs.unlink(patchPath).catch(() => {});
       const err = error as { message?: string };
-      const stderr = err.message || '';
-
-      const conflicts = stderr
-        .split('\n')
-        .filter((line) => line.includes('error: patch failed:'))
-        .map((line) => {
-          const match = line.match(/error: patch failed: (.+):/);
-          return match ? match[1] : null;
-        })
-        .filter((f): f is string => f !== null);
-
-      return conflicts;
+      return this.parseApplyCheckConflicts(err.message || '');
+    } finally {
+      await fs.unlink(patchPath).catch(() => {});
     }
   }
 
+  private parseApplyCheckConflicts(stderr: string): string[] {
+    return stderr
+      .split('\n')
+      .filter((line) => line.includes('error: patch failed:'))
+      .map((line) => {
+        const match = line.match(/error: patch failed: (.+):/);
+        return match ? match[1] : null;
+      })
+      .filter((f): f is string => f !== null);
+  }
+
   async checkConflictsFromSavedDiff(diffPath: string, reverse = false): Promise<string[]> {
     try {
       await fs.access(diffPath);
@@ -639,18 +926,7 @@ export class WorktreeService {
       return [];
     } catch (error: unknown) {
       const err = error as { message?: string };
-      const stderr = err.message || '';
-
-      const conflicts = stderr
-        .split('\n')
-        .filter((line) => line.includes('error: patch failed:'))
-        .map((line) => {
-          const match = line.match(/error: patch failed: (.+):/);
-          return match ? match[1] : null;
-        })
-        .filter((f): f is string => f !== null);
-
-      return conflicts;
+      return this.parseApplyCheckConflicts(err.message || '');
     }
   }
 
@@ -695,9 +971,303 @@ export class WorktreeService {
     }
   }
 
-  async merge(feature: string, step: string, strategy: MergeStrategy = 'merge'): Promise<MergeResult> {
+  /**
+   * Merge a task branch. By default it lands on the branch checked out in the project root;
+   * with `target: 'integration'` it lands on the feature integration branch (created on demand).
+   */
+  async merge(
+    feature: string,
+    step: string,
+    strategy: MergeStrategy = 'merge',
+    options: { target?: MergeTarget } = {},
+  ): Promise<MergeResult> {
     const branchName = this.getBranchName(feature, step);
+    if (options.target !== 'integration') {
+      return this.mergeBranch(this.getGit(), branchName, step, strategy);
+    }
+
+    try {
+      const integration = await this.ensureIntegration(feature);
+      return this.mergeBranch(this.getGit(integration.path), branchName, step, strategy);
+    } catch (error: unknown) {
+      return {
+        success: false,
+        outcome: 'failed',
+        strategy,
+        filesChanged: [],
+        conflicts: [],
+        error: `Failed to prepare integration branch: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Merge the feature integration branch into the branch checked out in the project root.
+   */
+  async mergeFeature(feature: string, strategy: MergeStrategy = 'merge'): Promise<MergeResult> {
+    return this.mergeBranch(this.getGit(), this.getIntegrationBranchName(feature), `feature ${feature}`, strategy);
+  }
+
+  /**
+   * Back out a task merge by committing its revert on the merge target. `branch` names the branch
+   * the merge landed on: the integration branch is reverted in its worktree, any other branch must
+   * be checked out in the project root. Merge commits are reverted against their first parent (the
+   * target side); with `baseSha` (a rebase merge) every commit in `baseSha..sha` is reverted.
+   * Conflicts abort the revert and leave the target untouched.
+   */
+  async revertMerge(
+    feature: string,
+    step: string,
+    sha: string,
+    options: { target?: MergeTarget; branch?: string; baseSha?: string } = {},
+  ): Promise<RevertResult> {
+    const fail = (error: string, conflicts: string[] = []): RevertResult => ({
+      success: false,
+      outcome: conflicts.length > 0 ? 'conflicted' : 'failed',
+      revertedSha: sha,
+      conflicts,
+      error,
+    });
+
+    const target =
+      options.branch === undefined
+        ? options.target
+        : options.branch === this.getIntegrationBranchName(feature)
+          ? 'integration'
+          : 'current';
+    let git = this.getGit();
+    if (target === 'integration') {
+      const integration = await this.getIntegration(feature);
+      if (!integration) {
+        return fail(`Integration branch ${this.getIntegrationBranchName(feature)} not found`);
+      }
+      git = this.getGit(integration.path);
+    }
+
+    try {
+      if (target === 'current' && options.branch !== undefined) {
+        const current = (await git.branch()).current;
+        if (current !== options.branch) {
+          return fail(
+            `${step} was merged into ${options.branch}, but the project root has ${current} checked out; check out ${options.branch} and retry`,
+          );
+        }
+      }
+      const beforeHead = await git.revparse(['HEAD']);
+      if (options.baseSha) {
+        // A rebase merge cherry-picked several commits; revert all of them
+        await git.revert(`${options.baseSha}..${sha}`);
+      } else {
+        const parents = (await git.revparse([`${sha}^@`])).split('\n').filter(Boolean);
+        await git.revert(sha, parents.length > 1 ? { mainline: 1 } : {});
+      }
+      const head = await git.revparse(['HEAD']);
+      const filesChanged = await this.listChangedFiles(git, `${beforeHead}..${head}`);
+      return { success: true, sha: head, revertedSha: sha, filesChanged };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const conflicts = this.parseConflictsFromError(message);
+      if (conflicts.length > 0 || message.includes('CONFLICT')) {
+        await git.revertAbort().catch(() => {});
+        return fail(`Reverting ${step} conflicts with later changes`, conflicts);
+      }
+      return fail(message || 'Revert failed');
+    }
+  }
+
+  /**
+   * Bring the latest base into a task branch so it merges cleanly after parallel work landed.
+   * The base is `baseBranch`, else the feature integration branch when it exists, else the
+   * project root's HEAD. Conflicts abort the rebase/merge and leave the branch untouched.
+   */
+  async refresh(
+    feature: string,
+    step: string,
+    strategy: RefreshStrategy = 'rebase',
+    baseBranch?: string,
+  ): Promise<RefreshResult> {
+    const worktreePath = this.getWorktreePath(feature, step);
+    const fail = (error: string, sha?: string): RefreshResult => ({
+      success: false,
+      outcome: 'failed',
+      strategy,
+      filesChanged: [],
+      conflicts: [],
+      error,
+      ...(sha ? { sha } : {}),
+    });
+
+    try {
+      await fs.access(worktreePath);
+    } catch {
+      return fail('Worktree not found');
+    }
+
     const git = this.getGit();
+    const worktreeGit = this.getGit(worktreePath);
+    let beforeHead: string | undefined;
+
+    try {
+      const baseRef =
+        baseBranch ||
+        ((await this.integrationBranchExists(git, feature)) ? this.getIntegrationBranchName(feature) : 'HEAD');
+      const baseCommit = await git.revparse([baseRef]);
+      beforeHead = await worktreeGit.revparse(['HEAD']);
+
+      if (await this.hasUncommittedChanges(feature, step)) {
+        return fail('Worktree has uncommitted changes; commit or discard them before refreshing', beforeHead);
+      }
+
+      const missingCommits = await worktreeGit.log(`HEAD..${baseCommit}`, worktreePath);
+      if (missingCommits.all.length === 0) {
+        return {
+          success: true,
+          outcome: 'already-up-to-date',
+          strategy,
+          sha: beforeHead,
+          filesChanged: [],
+          conflicts: [],
+          baseCommit,
+        };
+      }
+
+      if (strategy === 'rebase') {
+        await worktreeGit.rebase(baseCommit);
+      } else {
+        const result = await worktreeGit.merge(baseCommit, { message: `warcraft: refresh ${step} from ${baseRef}` });
+        if (result.failed) {
+          throw Object.assign(new Error(result.result || 'Merge failed'), { git: result });
+        }
+      }
+
+      const head = await worktreeGit.revparse(['HEAD']);
+      const filesChanged = await this.listChangedFiles(worktreeGit, `${beforeHead}..${head}`, worktreePath);
+      return { success: true, outcome: 'merged', strategy, sha: head, filesChanged, conflicts: [], baseCommit };
+    } catch (error: unknown) {
+      const err = error as { message?: string; git?: SimpleGitMergeResult };
+      const gitConflicts =
+        err.git?.conflicts
+          ?.map((conflict) => conflict.file ?? conflict.reason)
+          .filter((f): f is string => f !== undefined && f !== null) ?? [];
+      const conflicts = gitConflicts.length > 0 ? gitConflicts : this.parseConflictsFromError(err.message || '');
+
+      if (err.message?.includes('CONFLICT') || err.message?.includes('conflict') || conflicts.length > 0) {
+        await worktreeGit.rebaseAbort().catch(() => {});
+        await worktreeGit.mergeAbort().catch(() => {});
+        return {
+          success: false,
+          outcome: 'conflicted',
+          strategy,
+          sha: beforeHead,
+          filesChanged: [],
+          conflicts,
+          error: 'Refresh conflicts detected',
+        };
+      }
+
+      return fail(err.message || 'Refresh failed', beforeHead);
+    }
+  }
+
+  /**
+   * Re-run a conflicted task merge in a dedicated worktree and leave it unfinished there.
+   * The worktree belongs to `resolutionStep`, starts from the merge target's tip, and holds the
+   * conflict markers; committing it concludes the merge, so merging `resolutionStep` lands both sides.
+   * Throws when the merge cannot be reproduced as a conflict.
+   */
+  async prepareConflictResolution(
+    feature: string,
+    step: string,
+    resolutionStep: string,
+    options: { target?: MergeTarget; candidateSteps?: string[] } = {},
+  ): Promise<ConflictResolutionInfo> {
+    const targetGit =
+      options.target === 'integration' ? this.getGit((await this.ensureIntegration(feature)).path) : this.getGit();
+    const taskBranch = this.getBranchName(feature, step);
+    const branches = await targetGit.branch();
+    if (!branches.all.includes(taskBranch)) {
+      throw new Error(`Branch ${taskBranch} not found`);
+    }
+
+    const targetBranch = branches.current;
+    const baseCommit = await targetGit.revparse(['HEAD']);
+    const worktreePath = this.getWorktreePath(feature, resolutionStep);
+    const branch = this.getBranchName(feature, resolutionStep);
+
+    await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+    await this.getGit().worktreeAdd({ path: worktreePath, branch, commit: baseCommit });
+
+    const worktreeGit = this.getGit(worktreePath);
+    let conflicts: string[] = [];
+    let failure: string | undefined;
+    try {
+      const result = await worktreeGit.merge(taskBranch, {
+        noFastForward: true,
+        message: `warcraft: resolve conflicts merging ${step}`,
+      });
+      conflicts =
+        result.conflicts
+          ?.map((conflict) => conflict.file ?? conflict.reason)
+          .filter((f): f is string => f !== undefined && f !== null) ?? [];
+      if (result.failed && conflicts.length === 0) failure = result.result || 'Merge failed';
+    } catch (error: unknown) {
+      const err = error as { message?: string; git?: SimpleGitMergeResult };
+      const gitConflicts =
+        err.git?.conflicts
+          ?.map((conflict) => conflict.file ?? conflict.reason)
+          .filter((f): f is string => f !== undefined && f !== null) ?? [];
+      conflicts = gitConflicts.length > 0 ? gitConflicts : this.parseConflictsFromError(err.message || '');
+      if (conflicts.length === 0) failure = err.message || 'Merge failed';
+    }
+
+    if (conflicts.length === 0) {
+      await worktreeGit.mergeAbort().catch(() => {});
+      await this.remove(feature, resolutionStep, true);
+      throw new Error(failure ?? `Merging ${taskBranch} into ${targetBranch} no longer conflicts; retry the merge`);
+    }
+
+    const hunks: ConflictHunk[] = [];
+    for (const file of conflicts) {
+      const content = await fs.readFile(path.join(worktreePath, file), 'utf-8').catch(() => '');
+      const blocks = content.match(/^<{7}[\s\S]*?^>{7}.*$/gm) ?? [];
+      let budget = MAX_CONFLICT_HUNK_CHARS;
+      const kept: string[] = [];
+      for (const block of blocks) {
+        if (block.length > budget) break;
+        kept.push(block);
+        budget -= block.length;
+      }
+      hunks.push({ file, hunks: kept, ...(kept.length < blocks.length ? { truncated: true } : {}) });
+    }
+
+    const overlappingSteps: string[] = [];
+    for (const candidate of options.candidateSteps ?? []) {
+      const candidateBranch = this.getBranchName(feature, candidate);
+      if (candidate === step || !branches.all.includes(candidateBranch)) continue;
+      const changed = await this.listChangedFiles(targetGit, `${taskBranch}...${candidateBranch}`).catch(() => []);
+      if (changed.some((file) => conflicts.includes(file))) overlappingSteps.push(candidate);
+    }
+
+    return {
+      feature,
+      step,
+      resolutionStep,
+      path: worktreePath,
+      branch,
+      targetBranch,
+      baseCommit,
+      conflicts,
+      hunks,
+      overlappingSteps,
+    };
+  }
+
+  private async mergeBranch(
+    git: GitClient,
+    branchName: string,
+    label: string,
+    strategy: MergeStrategy,
+  ): Promise<MergeResult> {
     let beforeHead: string | undefined;
 
     try {
@@ -723,6 +1293,7 @@ export class WorktreeService {
           outcome: strategy === 'merge' ? 'already-up-to-date' : 'no-commits-to-apply',
           strategy,
           sha: beforeHead,
+          targetBranch: currentBranch,
           filesChanged: [],
           conflicts: [],
         };
@@ -730,7 +1301,7 @@ export class WorktreeService {
 
       if (strategy === 'squash') {
         await git.mergeSquash(branchName);
-        const result = await git.commit(`warcraft: merge ${step} (squashed)`);
+        const result = await git.commit(`warcraft: merge ${label} (squashed)`);
         const filesChanged = await this.listChangedFiles(git, `${beforeHead}..${result.commit}`);
 
         return {
@@ -738,6 +1309,7 @@ export class WorktreeService {
           outcome: 'merged',
           strategy,
           sha: result.commit,
+          targetBranch: currentBranch,
           filesChanged,
           conflicts: [],
         };
@@ -757,12 +1329,14 @@ export class WorktreeService {
           outcome: 'merged',
           strategy,
           sha: head,
+          baseSha: beforeHead,
+          targetBranch: currentBranch,
           filesChanged,
           conflicts: [],
         };
       }
 
-      const result = await git.merge(branchName, { noFastForward: true, message: `warcraft: merge ${step}` });
+      const result = await git.merge(branchName, { noFastForward: true, message: `warcraft: merge ${label}` });
       const head = await git.revparse(['HEAD']);
       const filesChanged = head === beforeHead ? [] : await this.listChangedFiles(git, `${beforeHead}..${head}`);
       const conflicts =
@@ -787,6 +1361,7 @@ export class WorktreeService {
         outcome: 'merged',
         strategy,
         sha: head,
+        targetBranch: currentBranch,
         filesChanged,
         conflicts: [],
       };
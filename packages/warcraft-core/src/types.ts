@@ -10,9 +10,16 @@ export interface FeatureJson {
   reviewChecklistCompletedAt?: string;
   ticket?: string;
   sessionId?: string;
+  /**
+   * Cross-feature dependencies: `<feature>` (that feature is completed) or `<feature>/<task-folder>`
+   * (that task is done and merged). No task of this feature starts until all are satisfied.
+   */
+  dependsOn?: string[];
   createdAt: string;
   approvedAt?: string;
   completedAt?: string;
+  /** ISO timestamp when warcraft_feature_merge last landed the feature integration branch. */
+  mergedAt?: string;
 }
 
 export type TaskStatusType =
@@ -57,12 +64,42 @@ export interface TaskBlocker {
   detail?: string;
 }
 
+/** Structured result for a single completion gate (build, test, lint). */
+export interface VerificationGateResult {
+  /** Command that was run (e.g., 'bun run build') */
+  cmd: string;
+  /** Process exit code (0 = success) */
+  exitCode: number;
+  /** Optional captured output (truncated before persisting) */
+  output?: string;
+}
+
+/** Structured verification results keyed by completion gate. */
+export type TaskVerification = Partial<Record<'build' | 'test' | 'lint', VerificationGateResult>>;
+
+/** A worker's verdict on one acceptance criterion, reported with warcraft_worktree_commit. */
+export interface TaskAcceptanceResult {
+  criterion: string;
+  met: boolean;
+  /** What shows the criterion is met (command output, test name, file reference), or why it is not. */
+  evidence: string;
+}
+
+/** Diff of a task branch against its base commit, recorded when the task is committed. */
+export interface TaskDiffStats {
+  filesChanged: string[];
+  insertions: number;
+  deletions: number;
+}
+
 export interface TaskStatus {
   /** Schema version for forward compatibility (default: 1) */
   schemaVersion?: number;
   status: TaskStatusType;
   origin: TaskOrigin;
   planTitle?: string;
+  /** Priority (1-5) the task was created with; absent for plan tasks, which use the default of 3. */
+  priority?: number;
   summary?: string;
   startedAt?: string;
   completedAt?: string;
@@ -79,6 +116,11 @@ export interface TaskStatus {
    * Resolved from plan.md dependency annotations during warcraft_tasks_sync.
    */
   dependsOn?: string[];
+  /**
+   * Dependencies on tasks of other features, as `<feature>/<task-folder>`. Each must be done and
+   * merged before this task starts. Resolved from plan.md "Depends on" lines during warcraft_tasks_sync.
+   */
+  crossFeatureDependsOn?: string[];
   /** Blocker details when status is 'blocked'. */
   blocker?: TaskBlocker;
   /** ISO timestamp when the task transitioned to dispatch_prepared. Used for stale dispatch detection. */
@@ -89,11 +131,67 @@ export interface TaskStatus {
   brief?: string;
   /** Learnings surfaced by the worker upon task completion (done tasks only). */
   learnings?: string[];
+  /** Structured verification results reported with warcraft_worktree_commit. */
+  verification?: TaskVerification;
+  /** The task's acceptance criteria from plan.md (Acceptance Criteria and Verify items), set by warcraft_tasks_sync. */
+  acceptanceCriteria?: string[];
+  /** Per-criterion results reported with warcraft_worktree_commit, in criteria order. */
+  acceptanceResults?: TaskAcceptanceResult[];
+  /** Diffstat of the task branch recorded by warcraft_worktree_commit (worktree mode only). */
+  diffStats?: TaskDiffStats;
+  /** ISO timestamp when the task branch was merged by warcraft_merge or warcraft_merge_queue. */
+  mergedAt?: string;
+  /** Commit SHA the merge produced (the last cherry-pick for a rebase merge). */
+  mergeSha?: string;
+  /** Target HEAD before a rebase merge; the merge spans `mergeBaseSha..mergeSha`. */
+  mergeBaseSha?: string;
+  /** Branch the task was merged into: the project root's branch or the feature integration branch. */
+  mergeBranch?: string;
+  /** Task whose conflicted merge this task resolves; merging this task also records that task as merged. */
+  resolvesConflictsFor?: string;
+  /** Task this one was split out of by warcraft_task_split. */
+  splitFrom?: string;
+  /** Subtasks that replaced this (cancelled) task, in order. */
+  splitInto?: string[];
+}
+
+/** Who wrote or approved a plan revision. */
+export interface PlanActor {
+  agent?: string;
+  sessionId?: string;
+}
+
+/** Snapshot of plan.md taken whenever a write changes it. */
+export interface PlanRevision {
+  /** 1-based revision number. */
+  revision: number;
+  content: string;
+  createdAt: string;
+  writtenBy?: PlanActor;
+  /** Set when this exact revision was approved. */
+  approvedAt?: string;
+  approvedBy?: PlanActor;
+}
+
+/** Inline `<!-- REVIEW @author: ... -->` comment left on plan.md by a reviewer. */
+export interface PlanComment {
+  /** Stable id derived from the anchor, author and text; used to resolve the comment. */
+  id: string;
+  /** Text of the nearest heading above the comment, or null before the first heading. */
+  anchor: string | null;
+  /** 1-based line of plan.md where the comment starts. */
+  line: number;
+  author: string | null;
+  body: string;
+  resolved: boolean;
+  resolvedBy?: string;
 }
 
 export interface PlanReadResult {
   content: string;
   status: FeatureStatusType;
+  /** Inline review comments in the plan; omitted by readers that do not parse them. */
+  comments?: PlanComment[];
 }
 
 export interface TaskSyncReconciliation {
@@ -115,6 +213,80 @@ export interface TasksSyncResult {
   diagnostics?: Array<{ code: string; message: string; severity: string; context?: Record<string, unknown> }>;
 }
 
+/** Files a plan task creates, modifies or tests, as declared in the `warcraft-tasks` block. */
+export interface PlanTaskFiles {
+  create?: string[];
+  modify?: string[];
+  test?: string[];
+}
+
+/** One task of the machine-readable `warcraft-tasks` block in plan.md. */
+export interface PlanTaskDeclaration {
+  /** Matches the `### N.` heading of the task's markdown section. */
+  order: number;
+  title: string;
+  /** Task numbers this task depends on, `[]` for none; omit to use the section's `Depends on` line or the previous task. */
+  dependsOn?: number[];
+  files?: PlanTaskFiles;
+  /** Commands that verify the task. */
+  verify?: string[];
+  acceptance?: string[];
+}
+
+/** A problem in the `warcraft-tasks` block, located by plan.md line. */
+export interface PlanTasksBlockIssue {
+  line: number;
+  /** Path of the offending value inside the block, e.g. `tasks[1].dependsOn`. */
+  path?: string;
+  message: string;
+}
+
+/** One change of a plan amendment, addressing tasks by their `### N.` number. */
+export type PlanAmendmentChange =
+  | { action: 'add'; title: string; body: string }
+  | { action: 'modify'; task: number; title?: string; body: string }
+  | { action: 'cancel'; task: number; reason?: string };
+
+/** Plan content with an amendment applied, and the task numbers it touched. */
+export interface AmendedPlan {
+  content: string;
+  added: number[];
+  modified: number[];
+  cancelled: number[];
+}
+
+/** One subtask of a task split: the section body for plan tasks, the brief for manual tasks. */
+export interface TaskSplitSubtask {
+  title: string;
+  description: string;
+}
+
+/** Effect of splitting a manual task. */
+export interface TaskSplitResult {
+  /** The split task, cancelled once the subtasks exist. */
+  original: string;
+  /** Subtask folders, in execution order. */
+  subtasks: string[];
+  /** Tasks re-wired to depend on the last subtask instead of the original. */
+  rewired: string[];
+}
+
+/** Effect of a plan amendment on the feature's tasks. */
+export interface PlanAmendmentImpact {
+  /** Folders of tasks created for added sections (and for renamed pending tasks). */
+  added: string[];
+  modified: string[];
+  cancelled: string[];
+  /** Pending tasks whose spec is rewritten from the amended plan. */
+  specsRegenerated: string[];
+  /** Modified tasks that were already dispatched; their spec and worktree are left as they are. */
+  activeTasksAffected: Array<{ folder: string; status: TaskStatusType }>;
+  /** Existing tasks re-wired to match the amended plan (e.g. changed dependencies). */
+  reconciled: TaskSyncReconciliation[];
+  /** Reasons the amendment cannot be applied; applying is refused while any are present. */
+  refused: string[];
+}
+
 export interface TaskInfo {
   folder: string;
   name: string;
@@ -154,6 +326,8 @@ export interface SpecData {
   dependsOn: string[];
   allTasks: Array<{ folder: string; name: string; order: number }>;
   planSection: string | null;
+  /** Declaration from the plan's `warcraft-tasks` block, when the plan has one. */
+  declaration?: PlanTaskDeclaration | null;
   taskBrief?: string | null;
   contextFiles: Array<{ name: string; content: string }>;
   completedTasks: Array<{ name: string; summary: string }>;
@@ -175,6 +349,14 @@ export interface AgentModelConfig {
 
 export type BeadsMode = 'on' | 'off';
 
+/**
+ * Verification model for task completion:
+ * - 'tdd': workers must report build/test/lint pass evidence before commit
+ * - 'tdd-verified': like 'tdd', but warcraft_worktree_commit re-runs the gates in the task workspace
+ * - 'best-effort': gate checks are deferred to the orchestrator after merge
+ */
+export type VerificationModel = 'tdd' | 'tdd-verified' | 'best-effort';
+
 export interface ParallelExecutionConfig {
   /** Dispatch strategy: unbounded preserves current Promise.all behavior, bounded enforces maxConcurrency. */
   strategy?: 'unbounded' | 'bounded';
@@ -182,6 +364,48 @@ export interface ParallelExecutionConfig {
   maxConcurrency?: number;
 }
 
+/** Command settings for a single verification gate (build, test, or lint). */
+export interface VerificationGateConfig {
+  /** Shell command to run. When omitted, the command is detected from the project runtime. */
+  command?: string;
+  /** Set to false to skip this gate entirely (default: true). */
+  enabled?: boolean;
+  /** Timeout in milliseconds. Falls back to the section-level timeoutMs, then 300000. */
+  timeoutMs?: number;
+  /** Working directory, relative to the project (or package) root. */
+  cwd?: string;
+  /** Extra environment variables for this gate, merged over section-level env. */
+  env?: Record<string, string>;
+}
+
+/** Gate commands plus defaults shared by every gate in the same scope. */
+export interface VerificationScopeConfig {
+  build?: VerificationGateConfig;
+  test?: VerificationGateConfig;
+  lint?: VerificationGateConfig;
+  /** Default timeout in milliseconds for gates in this scope. */
+  timeoutMs?: number;
+  /** Environment variables applied to every gate in this scope. */
+  env?: Record<string, string>;
+}
+
+/**
+ * Per-project verification commands. Replaces runtime guessing from lockfiles when set.
+ * `packages` holds monorepo overrides keyed by package path relative to the project root
+ * (e.g. 'packages/api'); an override is used when every changed file lives inside that package.
+ */
+export interface VerificationConfig extends VerificationScopeConfig {
+  packages?: Record<string, VerificationScopeConfig>;
+}
+
+/** Forge that `warcraft_pr_export` opens pull requests on with `output: "forge"`. */
+export interface ForgeConfig {
+  /** 'filesystem' records each pull request as a numbered JSON file instead of calling a code-review host. */
+  adapter: 'filesystem';
+  /** Directory the filesystem forge writes to, relative to the project root (default: `.beads/pull-requests`). */
+  outputDir?: string;
+}
+
 export interface BeadsModeProvider {
   getBeadsMode(): BeadsMode;
 }
@@ -226,14 +450,26 @@ export interface WarcraftConfig {
   parallelExecution?: ParallelExecutionConfig;
   /** Hook cadence overrides: e.g. { 'experimental.chat.system.transform': 3 } means fire every 3rd turn */
   hook_cadence?: Record<string, number>;
-  /** Verification model: 'tdd' (default) runs full build+test before commit; 'best-effort' uses lightweight checks. */
-  verificationModel?: 'tdd' | 'best-effort';
+  /**
+   * Verification model: 'tdd' (default) runs full build+test before commit; 'tdd-verified' additionally
+   * re-runs the gates in the task workspace at commit time; 'best-effort' uses lightweight checks.
+   */
+  verificationModel?: VerificationModel;
   /** Workflow gates mode: 'enforce' blocks commit without gate evidence; 'warn' (default) proceeds with a note. */
   workflowGatesMode?: 'enforce' | 'warn';
   /** Structured verification mode: 'compat' (default) keeps regex fallback; 'enforce' requires structured payload. */
   structuredVerificationMode?: 'compat' | 'enforce';
+  /** Verification commands per gate (build/test/lint), with optional monorepo package overrides. */
+  verification?: VerificationConfig;
   /** @deprecated Unified dispatch is always enabled. This field is ignored. */
   unifiedDispatchEnabled?: boolean;
   /** Enable strict task state transitions (default: false). */
   strictTaskTransitionsEnabled?: boolean;
+  /**
+   * Land task merges on a per-feature integration branch (`warcraft/<feature>/integration`) instead of the
+   * checked-out branch; `warcraft_feature_merge` then merges the whole feature at once (default: false).
+   */
+  integrationBranchEnabled?: boolean;
+  /** Forge adapter for `warcraft_pr_export` with `output: "forge"` (default: none, only bundles are exported). */
+  forge?: ForgeConfig;
 }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'bun:test';
+import { JsonSyntaxError, parseJsonWithLines } from './json-lines.js';
+
+describe('parseJsonWithLines', () => {
+  it('parses JSON like JSON.parse', () => {
+    const text = '{"a": [1, -2.5e3, true, false, null], "b": {"c": "x\\n\\u0041"}}';
+    expect(parseJsonWithLines(text).value).toEqual(JSON.parse(text));
+  });
+
+  it('records the line where each value starts', () => {
+    const { lines } = parseJsonWithLines('{\n  "tasks": [\n    {\n      "title": "Setup"\n    }\n  ]\n}');
+
+    expect(lines.get('')).toBe(1);
+    expect(lines.get('tasks')).toBe(2);
+    expect(lines.get('tasks[0]')).toBe(3);
+    expect(lines.get('tasks[0].title')).toBe(4);
+  });
+
+  it('throws JsonSyntaxError with the line and column of the problem', () => {
+    let error: unknown;
+    try {
+      parseJsonWithLines('{\n  "a": 1,\n}');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(JsonSyntaxError);
+    expect(error).toMatchObject({ line: 3, column: 1 });
+    expect((error as Error).message).toBe("Expected a property name but found '}' (line 3, column 1)");
+  });
+
+  it('rejects trailing content and unterminated strings', () => {
+    expect(() => parseJsonWithLines('{} x')).toThrow('after the end of the document');
+    expect(() => parseJsonWithLines('"abc')).toThrow('Unterminated string');
+  });
+});
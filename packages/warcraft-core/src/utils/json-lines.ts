@@ -0,0 +1,157 @@
+/** JSON syntax error carrying the 1-based line and column where parsing stopped. */
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+    readonly column: number,
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+export interface JsonWithLines {
+  value: unknown;
+  /** 1-based line where each value starts, keyed by path (`''` for the root, `tasks[0].title`, ...). */
+  lines: Map<string, number>;
+}
+
+/**
+ * Strict JSON parser that remembers where every value starts, so validation errors can point at a line.
+ * `JSON.parse` reports no position in every runtime, which is why this exists.
+ */
+export function parseJsonWithLines(text: string): JsonWithLines {
+  const lines = new Map<string, number>();
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, line, offset - lineStart + 1);
+  };
+
+  const skipWhitespace = () => {
+    while (offset < text.length) {
+      const char = text[offset];
+      if (char === '\n') {
+        line++;
+        lineStart = offset + 1;
+      } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+        return;
+      }
+      offset++;
+    }
+  };
+
+  const expect = (char: string) => {
+    if (text[offset] !== char) fail(`Expected '${char}' but found ${describe()}`);
+    offset++;
+  };
+
+  const describe = () => (offset >= text.length ? 'end of input' : `'${text[offset]}'`);
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (offset < text.length) {
+      const char = text[offset++];
+      if (char === '"') return result;
+      if (char === '\n') fail('Unterminated string');
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+      const escaped = text[offset++];
+      if (escaped in SIMPLE_ESCAPES) {
+        result += SIMPLE_ESCAPES[escaped];
+      } else if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(offset, offset + 4))) {
+        result += String.fromCharCode(parseInt(text.slice(offset, offset + 4), 16));
+        offset += 4;
+      } else {
+        offset--;
+        fail('Invalid escape sequence');
+      }
+    }
+    return fail('Unterminated string');
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    lines.set(path, line);
+    const char = text[offset];
+
+    if (char === '{') {
+      offset++;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[offset] === '}') {
+        offset++;
+        return result;
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[offset] !== '"') fail(`Expected a property name but found ${describe()}`);
+        const key = parseString();
+        skipWhitespace();
+        expect(':');
+        result[key] = parseValue(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[offset] === ',') {
+          offset++;
+          continue;
+        }
+        expect('}');
+        return result;
+      }
+    }
+
+    if (char === '[') {
+      offset++;
+      const result: unknown[] = [];
+      skipWhitespace();
+      if (text[offset] === ']') {
+        offset++;
+        return result;
+      }
+      while (true) {
+        result.push(parseValue(`${path}[${result.length}]`));
+        skipWhitespace();
+        if (text[offset] === ',') {
+          offset++;
+          continue;
+        }
+        expect(']');
+        return result;
+      }
+    }
+
+    if (char === '"') return parseString();
+
+    const literal = text.slice(offset).match(/^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+    if (!literal) return fail(`Unexpected ${describe()}`);
+    offset += literal[0].length;
+    return literal[0] === 'true'
+      ? true
+      : literal[0] === 'false'
+        ? false
+        : literal[0] === 'null'
+          ? null
+          : Number(literal[0]);
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (offset < text.length) fail(`Unexpected ${describe()} after the end of the document`);
+  return { value, lines };
+}
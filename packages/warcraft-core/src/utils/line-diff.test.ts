@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'bun:test';
+import { diffLines } from './line-diff.js';
+
+describe('diffLines', () => {
+  it('returns an empty diff for identical texts', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual({ diff: '', added: 0, removed: 0 });
+  });
+
+  it('prints a unified hunk with context around a changed line', () => {
+    const result = diffLines('one\ntwo\nthree\nfour\n', 'one\ntwo\n3\nfour\n', {
+      oldLabel: 'revision 1',
+      newLabel: 'revision 2',
+      context: 1,
+    });
+
+    expect(result.added).toBe(1);
+    expect(result.removed).toBe(1);
+    expect(result.diff).toBe(
+      ['--- revision 1', '+++ revision 2', '@@ -2,3 +2,3 @@', ' two', '-three', '+3', ' four'].join('\n'),
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const newText = ['A', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'J'].join('\n');
+
+    const result = diffLines(oldText, newText, { context: 1 });
+
+    expect(result.diff.match(/^@@/gm)).toHaveLength(2);
+    expect(result.diff).toContain('@@ -1,2 +1,2 @@');
+    expect(result.diff).toContain('@@ -9,2 +9,2 @@');
+  });
+
+  it('handles additions to an empty text', () => {
+    const result = diffLines('', '# Plan\n');
+
+    expect(result).toMatchObject({ added: 1, removed: 0 });
+    expect(result.diff).toContain('@@ -0,0 +1,1 @@\n+# Plan');
+  });
+});
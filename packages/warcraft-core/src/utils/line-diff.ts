@@ -0,0 +1,102 @@
+/** Lines of unchanged context shown around each change. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+export interface LineDiffOptions {
+  /** Label of the old side in the `---` header (default: 'a'). */
+  oldLabel?: string;
+  /** Label of the new side in the `+++` header (default: 'b'). */
+  newLabel?: string;
+  /** Unchanged lines kept around each change (default: 3). */
+  context?: number;
+}
+
+export interface LineDiffResult {
+  /** Unified diff text; empty when both sides are identical. */
+  diff: string;
+  added: number;
+  removed: number;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Longest-common-subsequence edit script between two line arrays. */
+function computeOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ kind: ' ', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: '-', line: oldLines[i++] });
+    } else {
+      ops.push({ kind: '+', line: newLines[j++] });
+    }
+  }
+  while (i < n) ops.push({ kind: '-', line: oldLines[i++] });
+  while (j < m) ops.push({ kind: '+', line: newLines[j++] });
+  return ops;
+}
+
+/**
+ * Line-based unified diff of two texts, in the format `git diff` prints.
+ * Intended for documents such as plans, not for large files: cost is O(old × new) lines.
+ */
+export function diffLines(oldText: string, newText: string, options: LineDiffOptions = {}): LineDiffResult {
+  const context = options.context ?? DEFAULT_CONTEXT_LINES;
+  const ops = computeOps(splitLines(oldText), splitLines(newText));
+  const added = ops.filter((op) => op.kind === '+').length;
+  const removed = ops.filter((op) => op.kind === '-').length;
+  if (added === 0 && removed === 0) {
+    return { diff: '', added, removed };
+  }
+
+  const lines = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+  const changed = ops.map((op, index) => (op.kind === ' ' ? -1 : index)).filter((index) => index >= 0);
+
+  // Group changes whose context windows touch into one hunk.
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1] - changed[hunkEnd] <= context * 2) {
+      hunkEnd++;
+    }
+    const from = Math.max(0, changed[hunkStart] - context);
+    const to = Math.min(ops.length, changed[hunkEnd] + context + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, from)) {
+      if (op.kind !== '+') oldStart++;
+      if (op.kind !== '-') newStart++;
+    }
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter((op) => op.kind !== '+').length;
+    const newCount = hunk.filter((op) => op.kind !== '-').length;
+    lines.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+      ...hunk.map((op) => `${op.kind}${op.line}`),
+    );
+    hunkStart = hunkEnd + 1;
+  }
+
+  return { diff: lines.join('\n'), added, removed };
+}
@@ -7,6 +7,7 @@ const WARCRAFT_DIR_BEADS_OFF = 'docs';
 const TASKS_DIR = 'tasks';
 const CONTEXT_DIR = 'context';
 const PLAN_FILE = 'plan.md';
+const PLAN_REVISIONS_DIR = 'plan-revisions';
 const FEATURE_FILE = 'feature.json';
 const STATUS_FILE = 'status.json';
 const REPORT_FILE = 'report.md';
@@ -114,6 +115,16 @@ export function getPlanPath(projectRoot: string, featureName: string, beadsMode:
   return path.join(getFeaturePath(projectRoot, featureName, beadsMode), PLAN_FILE);
 }
 
+/**
+ * Get the plan revision history directory for a feature.
+ * @param projectRoot - The project root directory
+ * @param featureName - The feature name
+ * @param beadsMode - 'on' for .beads/artifacts, 'off' for docs (default: 'off')
+ */
+export function getPlanRevisionsPath(projectRoot: string, featureName: string, beadsMode: BeadsMode = 'off'): string {
+  return path.join(getFeaturePath(projectRoot, featureName, beadsMode), PLAN_REVISIONS_DIR);
+}
+
 /**
  * Get the feature.json path for a feature.
  * @param projectRoot - The project root directory